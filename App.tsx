@@ -1,10 +1,6 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
-  Wrench, 
-  Cpu, 
-  Building, 
-  FlaskConical, 
   Zap, 
   History, 
   Send, 
@@ -28,128 +24,833 @@ import {
   PackagePlus,
   ArrowRight,
   FileText,
-  Activity
+  Activity,
+  Search,
+  Settings,
+  RefreshCw,
+  Printer,
+  Camera,
+  Lock,
+  CalendarClock,
+  CloudOff,
+  Columns3
 } from 'lucide-react';
-import { EngineeringField, ProblemSolution } from './types';
-import { solveEngineeringProblem, extractBOM } from './services/geminiService';
+import { AISettings, Asset, BOMItem, CatalogPart, CompareRun, DiagnosticNode, EngineeringField, FollowUpCompletion, FollowUpTask, HistoryFilters, ImageAttachment, Language, LibraryDocument, ModelVariant, OutboxItem, Preferences, ProblemSolution, SolutionPayload, StoredPromptTemplate, WorkOrder } from './types';
+import { SolveOptions, solveEngineeringProblem, extractBOM, expandHypothesis, reassessSolution, continueConversation } from './services/geminiService';
+import { AIError } from './services/errors';
+import { LOCALES, MessageKey, getTranslator } from './i18n';
+import { DEFAULT_HISTORY_FILTERS, filterHistory, isDefaultFilters, loadHistory, saveSolution } from './services/historyStore';
+import { loadAISettings, loadCompareVariants, loadPreferences, saveAISettings, saveCompareVariants, savePreferences, variantSettings } from './services/settingsStore';
+import { buildWorkOrderContext, deleteWorkOrder, loadWorkOrders, saveWorkOrder } from './services/workOrderStore';
+import {
+  assetFromSolution,
+  assetIdFromVariables,
+  buildAssetContext,
+  deleteAsset,
+  detectAssetInQuery,
+  interventionsForAsset,
+  loadAssets,
+  saveAsset
+} from './services/assetStore';
+import { clearCatalog, deleteCatalogPart, importCatalog, loadCatalog, saveCatalogPart } from './services/catalogStore';
+import { loadPromptTemplates, savePromptTemplate } from './services/promptStore';
+import { checkFollowUpReminders, notificationsSupported, requestNotificationPermission, scheduleFollowUpReminders } from './services/notifications';
+import { deleteOutboxItem, loadOutbox, saveOutboxItem } from './services/outboxStore';
+import { deleteDocument, loadDocuments } from './services/libraryStore';
+import { embedderId, indexDocument, reindexDocument, retrieveReferences } from './services/library';
+import { isSafetyCritical, hasSafetyRisk } from './utils/safety';
+import { assessHazards, unacknowledgedHazards } from './utils/hazards';
+import { NodePath, getNodeAt, hasRecordedOutcomes, pathKey, updateNodeAt } from './utils/diagnosticTree';
+import { appendVersion, currentVersion, withOriginalVersion } from './utils/solutionVersions';
+import { phaseBreakdown } from './utils/analytics';
+import { buildJobCardHtml } from './utils/jobCard';
+import { printHtml } from './utils/print';
+import { buildRequisitionHtml } from './utils/requisition';
+import { bomTotal, formatCurrency } from './utils/bom';
+import { matchBOMToCatalog } from './utils/catalog';
+import { resolvePromptTemplate } from './utils/prompts';
+import { DEFAULT_DISCIPLINE, DISCIPLINES, disciplineName, getDiscipline, subDisciplineName } from './utils/disciplines';
+import { MAX_ATTACHMENTS, UnsupportedImageError, prepareImage } from './utils/images';
+import { withoutAnnotationSources } from './utils/annotations';
+import { convertText } from './utils/units';
+import { citedIndexes } from './utils/retrieval';
+import { mergeSolutions } from './utils/compare';
+import { checkVariables } from './utils/plausibility';
+import { dueFollowUps, followUpTasks, hasOverdueFollowUp, openFollowUps } from './utils/followUps';
 import AnalysisChart from './components/AnalysisChart';
+import CalculationsPanel from './components/CalculationsPanel';
+import ReferencesPanel from './components/ReferencesPanel';
+import SafetyGate from './components/SafetyGate';
+import SettingsPanel from './components/SettingsPanel';
+import PromptTemplatesPanel from './components/PromptTemplatesPanel';
+import DiagnosticTree from './components/DiagnosticTree';
+import ConversationThread from './components/ConversationThread';
+import VersionCompare from './components/VersionCompare';
+import CompareView from './components/CompareView';
+import ProjectControls from './components/ProjectControls';
+import WorkOrdersView from './components/WorkOrdersView';
+import DetectedAssets from './components/DetectedAssets';
+import AssetsView from './components/AssetsView';
+import AnalyticsView from './components/AnalyticsView';
+import BOMEditor from './components/BOMEditor';
+import ConsolidatedBOM from './components/ConsolidatedBOM';
+import CatalogView from './components/CatalogView';
+import LibraryView from './components/LibraryView';
+import DisciplineIcon from './components/DisciplineIcon';
+import CameraCapture from './components/CameraCapture';
+import AttachmentGallery from './components/AttachmentGallery';
+import FollowUpsView from './components/FollowUpsView';
+import FollowUpItem from './components/FollowUpItem';
+import OutboxPanel from './components/OutboxPanel';
 
-const FIELD_ICONS = {
-  [EngineeringField.MECHANICAL]: <Wrench className="w-4 h-4" />,
-  [EngineeringField.ELECTRICAL]: <Cpu className="w-4 h-4" />,
-  [EngineeringField.CIVIL]: <Building className="w-4 h-4" />,
-  [EngineeringField.CHEMICAL]: <FlaskConical className="w-4 h-4" />
+// Placeholder for sections that have not streamed in yet
+const EMPTY_PAYLOAD: SolutionPayload = {
+  analysis: '',
+  variables: {},
+  steps: [],
+  finalResult: '',
+  confidence: 0
 };
 
-// Helper to determine if a safety check string represents a real issue
-const isSafetyCritical = (text?: string) => {
-  if (!text) return false;
-  const lower = text.toLowerCase().trim();
-  
-  // Immediate dismissal of common non-risk indicators
-  if (['none', 'n/a', 'na', 'null', 'nil', '-', '.'].includes(lower)) return false;
-
-  // Remove punctuation for phrase matching
-  const cleanText = lower.replace(/[.,\-:;]/g, '');
-  
-  // List of phrases indicating no specific risk
-  const noRiskPhrases = [
-    'no safety issues', 
-    'no safety hazards', 
-    'no hazards detected',
-    'no specific safety protocols',
-    'none required',
-    'not applicable',
-    'safe to proceed',
-    'standard precautions', 
-    'standard safety protocols apply'
-  ];
-
-  if (noRiskPhrases.some(phrase => cleanText.includes(phrase.replace(/[.,\-:;]/g, '')))) return false;
-
-  // Check if it starts with negative confirmation
-  if (lower.startsWith('no safety') || lower.startsWith('none')) return false;
-
-  // If text is very short (e.g. "Safe"), assume no protocol needed
-  if (cleanText.length < 5) return false;
-
-  return true;
-};
+// How long a queued diagnosis waits after a failed connection before it is tried again
+const OUTBOX_RETRY_MS = 60 * 1000;
+
+const PendingLine: React.FC<{ width?: string }> = ({ width = 'w-2/3' }) => (
+  <div className={`h-3 ${width} bg-slate-800 rounded animate-pulse`} />
+);
 
 const App: React.FC = () => {
-  const [selectedField, setSelectedField] = useState<EngineeringField>(EngineeringField.MECHANICAL);
+  const [selectedField, setSelectedField] = useState<EngineeringField>(DEFAULT_DISCIPLINE);
+  // '' for the discipline as a whole
+  const [selectedSubDiscipline, setSelectedSubDiscipline] = useState('');
   const [query, setQuery] = useState('');
   const [isSolving, setIsSolving] = useState(false);
   const [isGeneratingBOM, setIsGeneratingBOM] = useState(false);
   const [solution, setSolution] = useState<ProblemSolution | null>(null);
   const [history, setHistory] = useState<ProblemSolution[]>([]);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'solver' | 'history'>('solver');
-  const [language, setLanguage] = useState<'en' | 'sw'>('en');
+  const [activeTab, setActiveTab] = useState<'solver' | 'history' | 'followups' | 'workorders' | 'assets' | 'catalog' | 'library' | 'analytics'>('solver');
+  const [historyFilters, setHistoryFilters] = useState<HistoryFilters>(DEFAULT_HISTORY_FILTERS);
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+  const language = preferences.language;
+  const libraryEmbedder = embedderId(preferences.embedder, aiSettings);
+  const { t, formatDate, formatDateTime, formatNumber, locale } = getTranslator(language);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<StoredPromptTemplate[]>([]);
+  const [expandingKey, setExpandingKey] = useState<string | null>(null);
+  const [isReassessing, setIsReassessing] = useState(false);
+  const [isSendingFollowUp, setIsSendingFollowUp] = useState(false);
+  const [showVersionCompare, setShowVersionCompare] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareVariants, setCompareVariants] = useState<ModelVariant[]>(() => loadCompareVariants(loadAISettings()));
+  const [compareRuns, setCompareRuns] = useState<CompareRun[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [selectedWorkOrderId, setSelectedWorkOrderId] = useState('');
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+  const [catalog, setCatalog] = useState<CatalogPart[]>([]);
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [bomSelection, setBomSelection] = useState<string[]>([]);
+  const [showConsolidated, setShowConsolidated] = useState(false);
+  const [now, setNow] = useState(Date.now);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // When connectivity last returned; queued items last tried before then are retried straight away
+  const [onlineSince, setOnlineSince] = useState(Date.now);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | 'unsupported'>(
+    () => notificationsSupported() ? Notification.permission : 'unsupported'
+  );
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const compareAbortRef = useRef<AbortController | null>(null);
+  const solutionRef = useRef<ProblemSolution | null>(null);
+  const historyRef = useRef<ProblemSolution[]>([]);
+  const outboxRef = useRef<OutboxItem[]>([]);
+  const flushingRef = useRef(false);
+  // Hypotheses asked to expand while another one was being expanded, expanded in turn once it finishes
+  const pendingExpansionsRef = useRef<{ solutionId: string; path: NodePath }[]>([]);
+  const expandingRef = useRef(false);
+
+  useEffect(() => {
+    solutionRef.current = solution;
+  }, [solution]);
+
+  useEffect(() => {
+    setShowVersionCompare(false);
+  }, [solution?.id]);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setHistory)
+      .catch(err => console.error("Failed to load intervention log:", err));
+    loadWorkOrders()
+      .then(setWorkOrders)
+      .catch(err => console.error("Failed to load work orders:", err));
+    loadAssets()
+      .then(setAssets)
+      .catch(err => console.error("Failed to load asset registry:", err));
+    loadCatalog()
+      .then(setCatalog)
+      .catch(err => console.error("Failed to load parts catalog:", err));
+    loadDocuments()
+      .then(setDocuments)
+      .catch(err => console.error("Failed to load document library:", err));
+    loadPromptTemplates()
+      .then(setPromptTemplates)
+      .catch(err => console.error("Failed to load prompt templates:", err));
+    // An item left "sending" was interrupted by the app closing; put it back in the queue
+    loadOutbox()
+      .then(items => setOutbox(items.map(item => item.status === 'sending' ? { ...item, status: 'queued' } : item)))
+      .catch(err => console.error("Failed to load outbox:", err));
+  }, []);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      setOnlineSince(Date.now());
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    outboxRef.current = outbox;
+  }, [outbox]);
+
+  // Follow-up due states are relative to the clock, so re-evaluate them every minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!notificationsSupported()) return;
+
+    // Reminder clicks focus this tab and ask it to open the solution
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'open-solution') return;
+      const item = historyRef.current.find(entry => entry.id === event.data.solutionId);
+      if (item) openSolution(item);
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, []);
+
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  // A reminder clicked while the app was closed opens it with ?solution=<id>
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const solutionId = params.get('solution');
+    const item = solutionId && history.find(entry => entry.id === solutionId);
+    if (!item) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    openSolution(item);
+  }, [history]);
+
+  useEffect(() => {
+    scheduleFollowUpReminders(openFollowUps(history), language)
+      .catch(err => console.error("Failed to schedule follow-up reminders:", err));
+  }, [history, notificationPermission, language]);
+
+  // Without Notification Triggers or periodic sync the worker only learns a reminder is due from an open tab
+  useEffect(() => {
+    checkFollowUpReminders().catch(err => console.error("Failed to show follow-up reminders:", err));
+  }, [now]);
+
+  const resourceImpact = useMemo(
+    () => solution ? phaseBreakdown(solution) : { data: [], unit: 'h' as const },
+    [solution]
+  );
+
+  // Re-run on every change so hazards introduced by a follow-up or edited steps re-lock the gate
+  const hazards = useMemo(() => solution ? assessHazards(solution, language) : [], [solution, language]);
+  const outstandingHazards = solution ? unacknowledgedHazards(solution, hazards) : [];
+
+  const filteredHistory = useMemo(() => filterHistory(history, historyFilters), [history, historyFilters]);
+  const dueCount = useMemo(() => dueFollowUps(history, now).length, [history, now]);
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const persistSolution = (item: ProblemSolution) => {
+    saveSolution(item).catch(err => console.error("Failed to persist solution:", err));
+  };
+
+  // AI failures are shown by kind in the technician's language; anything else keeps its own message
+  const errorText = (err: any, fallback: MessageKey) =>
+    err instanceof AIError ? t(`errors.ai.${err.kind}` as MessageKey) : err?.message || t(fallback);
+
+  // Arabic and other right-to-left locales flip the whole layout
+  useEffect(() => {
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = (e.target.files ? Array.from<File>(e.target.files) : []).slice(0, MAX_ATTACHMENTS - attachments.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    let failure: Error | null = null;
+    const prepared = await Promise.all(files.map(file => prepareImage(file).catch(err => {
+      failure = err;
+      return null;
+    })));
+    setAttachments(prev => [...prev, ...prepared.filter(Boolean)].slice(0, MAX_ATTACHMENTS));
+    if (failure) {
+      setError(failure instanceof UnsupportedImageError
+        ? t('errors.unsupportedImage', { format: failure.format })
+        : failure.message || t('errors.photos'));
     }
   };
 
-  const handleSolve = async (e?: React.FormEvent, forceLang?: 'en' | 'sw') => {
+  const handleCameraCapture = (image: ImageAttachment) => {
+    setAttachments(prev => [...prev, image].slice(0, MAX_ATTACHMENTS));
+  };
+
+  // A diagnosis without references beats no diagnosis, so a failed lookup is only logged
+  const lookUpReferences = (query: string) =>
+    retrieveReferences(query, history, libraryEmbedder).catch(err => {
+      console.error("Failed to retrieve references:", err);
+      return [];
+    });
+
+  // Builds the work order and asset context and stamps the result; shared by live solves, comparisons and the outbox
+  const diagnose = async (
+    base: Pick<ProblemSolution, 'id' | 'timestamp' | 'field' | 'subDiscipline' | 'query' | 'images' | 'workOrderId'>,
+    targetLang: Language,
+    options: Pick<SolveOptions, 'signal' | 'onPartial' | 'settings' | 'temperature' | 'references'> = {}
+  ): Promise<ProblemSolution> => {
+    const workOrder = workOrders.find(wo => wo.id === base.workOrderId);
+    const knownAsset = detectAssetInQuery(base.query, assets);
+    const references = options.references || await lookUpReferences(base.query);
+    const result = await solveEngineeringProblem(base.query, base.field, base.images || [], targetLang, {
+      ...options,
+      subDiscipline: base.subDiscipline,
+      workOrder: workOrder && buildWorkOrderContext(workOrder, history),
+      asset: knownAsset && buildAssetContext(knownAsset, history),
+      template: resolvePromptTemplate(base.field, promptTemplates),
+      references
+    });
+
+    return withOriginalVersion({
+      ...base,
+      ...result,
+      assetId: knownAsset?.id || assetIdFromVariables(result.variables)
+    });
+  };
+
+  const queueDiagnosis = (item: OutboxItem) => {
+    setOutbox(prev => [...prev, item]);
+    saveOutboxItem(item).catch(err => console.error("Failed to queue diagnosis:", err));
+    setQuery('');
+    setAttachments([]);
+  };
+
+  // The record a new diagnosis starts from, as entered in the solver form
+  const composeBase = () => {
+    const images = attachments.map(withoutAnnotationSources);
+    return {
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      field: selectedField,
+      subDiscipline: selectedSubDiscipline || undefined,
+      query,
+      images: images.length > 0 ? images : undefined,
+      workOrderId: workOrders.some(wo => wo.id === selectedWorkOrderId) ? selectedWorkOrderId : undefined,
+    };
+  };
+
+  const handleSolve = async (e?: React.FormEvent, forceLang?: Language) => {
     if (e) e.preventDefault();
     if (!query.trim()) return;
 
     const targetLang = forceLang || language;
+    const base = composeBase();
+    const toOutbox = (): OutboxItem => ({
+      id: base.id,
+      createdAt: base.timestamp,
+      field: base.field,
+      subDiscipline: base.subDiscipline,
+      query: base.query,
+      images: base.images,
+      language: targetLang,
+      workOrderId: base.workOrderId,
+      status: 'queued',
+      attempts: 0
+    });
+
+    // No signal: hold the request rather than let it fail. The demo provider answers locally and needs no network.
+    if (!navigator.onLine && aiSettings.provider !== 'mock') {
+      setError(null);
+      queueDiagnosis(toOutbox());
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsSolving(true);
     setError(null);
     setSolution(null);
 
     try {
-      const result = await solveEngineeringProblem(query, selectedField, imagePreview || undefined, targetLang);
-      
-      const newSolution: ProblemSolution = {
-        id: Date.now().toString(),
-        timestamp: Date.now(),
-        field: selectedField,
-        query,
-        image: imagePreview || undefined,
-        ...result,
-      };
+      const newSolution = await diagnose(base, targetLang, {
+        signal: controller.signal,
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) setSolution({ ...base, ...EMPTY_PAYLOAD, ...partial });
+        }
+      });
 
       setSolution(newSolution);
       setHistory(prev => [newSolution, ...prev]);
+      persistSolution(newSolution);
     } catch (err: any) {
-      setError(err.message || 'Operational disruption. Could not connect to Controller.');
+      // Cancelled by the user or superseded by a newer request
+      if (controller.signal.aborted) return;
+      setSolution(null);
+      // The connection dropped mid-request; keep the request for automatic submission
+      if (err instanceof AIError && err.kind === 'network') {
+        queueDiagnosis({ ...toOutbox(), attempts: 1, lastAttemptAt: Date.now() });
+        return;
+      }
+      setError(errorText(err, 'errors.solve'));
     } finally {
-      setIsSolving(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSolving(false);
+      }
+    }
+  };
+
+  const updateOutboxItem = (item: OutboxItem) => {
+    outboxRef.current = outboxRef.current.map(entry => entry.id === item.id ? item : entry);
+    setOutbox(outboxRef.current);
+    saveOutboxItem(item).catch(err => console.error("Failed to update outbox:", err));
+  };
+
+  // Submits queued diagnoses oldest first, one at a time, and stops at the first connectivity failure.
+  // Items that failed for another reason are marked failed and wait for a manual retry.
+  const flushOutbox = async () => {
+    if (flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+
+    try {
+      const due = outboxRef.current.filter(item =>
+        item.status === 'queued' &&
+        (!item.lastAttemptAt || item.lastAttemptAt < onlineSince || Date.now() - item.lastAttemptAt >= OUTBOX_RETRY_MS)
+      );
+
+      for (const queued of due) {
+        const sending: OutboxItem = { ...queued, status: 'sending', attempts: queued.attempts + 1, lastAttemptAt: Date.now(), lastError: undefined };
+        updateOutboxItem(sending);
+
+        try {
+          const newSolution = await diagnose({
+            id: queued.id,
+            timestamp: queued.createdAt,
+            field: queued.field,
+            subDiscipline: queued.subDiscipline,
+            query: queued.query,
+            images: queued.images,
+            workOrderId: queued.workOrderId
+          }, queued.language);
+
+          setHistory(prev => [newSolution, ...prev].sort((a, b) => b.timestamp - a.timestamp));
+          persistSolution(newSolution);
+          outboxRef.current = outboxRef.current.filter(entry => entry.id !== queued.id);
+          setOutbox(outboxRef.current);
+          deleteOutboxItem(queued.id).catch(err => console.error("Failed to clear outbox item:", err));
+        } catch (err: any) {
+          const offline = err instanceof AIError && err.kind === 'network';
+          updateOutboxItem({ ...sending, status: offline ? 'queued' : 'failed', lastError: offline ? undefined : errorText(err, 'errors.submission') });
+          if (offline) break;
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  // Re-checked on every outbox change, on reconnection and on the minute tick
+  useEffect(() => {
+    if (isOnline && outbox.some(item => item.status === 'queued')) flushOutbox();
+  }, [isOnline, onlineSince, outbox, now]);
+
+  const handleRetryOutbox = (item: OutboxItem) => {
+    updateOutboxItem({ ...item, status: 'queued', lastError: undefined, lastAttemptAt: undefined });
+  };
+
+  const handleDeleteOutbox = (id: string) => {
+    outboxRef.current = outboxRef.current.filter(entry => entry.id !== id);
+    setOutbox(outboxRef.current);
+    deleteOutboxItem(id).catch(err => console.error("Failed to remove outbox item:", err));
+  };
+
+  const handleCancelSolve = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsSolving(false);
+    setSolution(null);
+  };
+
+  const handleCompareVariantsChange = (variants: ModelVariant[]) => {
+    setCompareVariants(variants);
+    saveCompareVariants(variants);
+  };
+
+  // Runs the problem through every variant at once. Each column fills in as its model answers;
+  // nothing reaches the log until one result is chosen.
+  const handleCompare = async () => {
+    if (!query.trim()) return;
+
+    compareAbortRef.current?.abort();
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+
+    const base = composeBase();
+    const variants = compareVariants;
+    const settle = (index: number, update: Partial<CompareRun>) => {
+      if (!controller.signal.aborted) setCompareRuns(prev => prev.map((run, i) => i === index ? { ...run, ...update } : run));
+    };
+
+    setIsComparing(true);
+    setError(null);
+    setCompareRuns(variants.map(variant => ({ variant, status: 'running' })));
+
+    // Retrieved once so every variant answers from the same references
+    const references = await lookUpReferences(base.query);
+    await Promise.all(variants.map(async (variant, index) => {
+      try {
+        const result = await diagnose(base, language, {
+          signal: controller.signal,
+          settings: variantSettings(variant, aiSettings),
+          temperature: variant.temperature,
+          references
+        });
+        settle(index, { status: 'done', solution: result });
+      } catch (err: any) {
+        settle(index, { status: 'failed', error: errorText(err, 'errors.solve') });
+      }
+    }));
+
+    if (compareAbortRef.current === controller) {
+      compareAbortRef.current = null;
+      setIsComparing(false);
+    }
+  };
+
+  const handleCloseCompare = () => {
+    compareAbortRef.current?.abort();
+    compareAbortRef.current = null;
+    setIsComparing(false);
+    setCompareRuns([]);
+    setShowCompare(false);
+  };
+
+  const handleChooseComparison = (index: number, merge: boolean) => {
+    const chosen = compareRuns[index].solution!;
+    const others = compareRuns.filter((run, i) => i !== index && run.solution).map(run => run.solution!);
+    const newSolution = merge ? withOriginalVersion(mergeSolutions(chosen, others)) : chosen;
+
+    setSolution(newSolution);
+    setHistory(prev => [newSolution, ...prev]);
+    persistSolution(newSolution);
+    handleCloseCompare();
+  };
+
+  const commitSolution = (updated: ProblemSolution) => {
+    if (solutionRef.current?.id === updated.id) {
+      solutionRef.current = updated;
+      setSolution(updated);
     }
+    setHistory(prev => prev.map(item => item.id === updated.id ? updated : item));
+    persistSolution(updated);
   };
 
+  // Async AI calls resolve after the technician may have recorded more results; merge into the latest copy
+  const latestSolution = (original: ProblemSolution) =>
+    solutionRef.current?.id === original.id ? solutionRef.current : original;
+
   const handleGenerateBOM = async () => {
     if (!solution || isGeneratingBOM) return;
 
     setIsGeneratingBOM(true);
     try {
-      const bomData = await extractBOM(solution.analysis, language);
-      const updatedSolution = { ...solution, billOfMaterials: bomData };
-      setSolution(updatedSolution);
-      setHistory(prev => prev.map(item => item.id === solution.id ? updatedSolution : item));
+      const bomData = await extractBOM(solution.analysis, language, catalog);
+      commitSolution({ ...latestSolution(solution), billOfMaterials: bomData });
     } catch (err: any) {
-      setError(err.message || 'BOM Extraction failed.');
+      setError(errorText(err, 'errors.bom'));
     } finally {
       setIsGeneratingBOM(false);
     }
   };
 
-  const toggleLanguage = () => {
-    const nextLang = language === 'en' ? 'sw' : 'en';
-    setLanguage(nextLang);
+  const handleExpandNode = async (path: NodePath) => {
+    const solutionId = solutionRef.current?.id;
+    if (!solutionId) return;
+    if (expandingRef.current) {
+      const queued = pendingExpansionsRef.current.some(entry => entry.solutionId === solutionId && pathKey(entry.path) === pathKey(path));
+      if (!queued) pendingExpansionsRef.current.push({ solutionId, path });
+      return;
+    }
+
+    expandingRef.current = true;
+    let next: NodePath | undefined = path;
+    while (next) {
+      const current = solutionRef.current;
+      const target = next;
+      setExpandingKey(pathKey(target));
+      try {
+        const children = await expandHypothesis(current, target, language);
+        const latest = latestSolution(current);
+        commitSolution({ ...latest, diagnosticTree: updateNodeAt(latest.diagnosticTree || [], target, { children }) });
+      } catch (err: any) {
+        setError(errorText(err, 'errors.expand'));
+      }
+      next = nextPendingExpansion();
+    }
+    expandingRef.current = false;
+    setExpandingKey(null);
+  };
+
+  // The next queued hypothesis that still needs expanding: the same problem is open, the outcome is
+  // still failed and nothing has filled in its children meanwhile
+  const nextPendingExpansion = (): NodePath | undefined => {
+    while (pendingExpansionsRef.current.length) {
+      const { solutionId, path } = pendingExpansionsRef.current.shift()!;
+      const current = solutionRef.current;
+      const node = current?.id === solutionId ? getNodeAt(current.diagnosticTree || [], path) : undefined;
+      if (node?.outcome === 'failed' && !node.children?.length) return path;
+    }
+    return undefined;
+  };
+
+  const handleNodeUpdate = (path: NodePath, patch: Partial<DiagnosticNode>) => {
+    const current = solutionRef.current;
+    if (!current) return;
+
+    const diagnosticTree = updateNodeAt(current.diagnosticTree || [], path, patch);
+    commitSolution({ ...current, diagnosticTree });
+
+    if (patch.outcome === 'failed' && !getNodeAt(diagnosticTree, path)?.children?.length) {
+      handleExpandNode(path);
+    }
+  };
+
+  const handleReassess = async () => {
+    const current = solutionRef.current;
+    if (!current || isReassessing) return;
+
+    setIsReassessing(true);
+    setError(null);
+    try {
+      const reassessment = await reassessSolution(current, language);
+      commitSolution({ ...latestSolution(current), ...reassessment, reassessedAt: Date.now() });
+    } catch (err: any) {
+      setError(errorText(err, 'errors.reassess'));
+    } finally {
+      setIsReassessing(false);
+    }
+  };
+
+  const handleFollowUp = async (message: string) => {
+    const current = solutionRef.current;
+    if (!current || isSendingFollowUp) return;
+
+    const withQuestion: ProblemSolution = {
+      ...current,
+      conversation: [...(current.conversation || []), { role: 'technician', text: message, timestamp: Date.now() }]
+    };
+    commitSolution(withQuestion);
+
+    setIsSendingFollowUp(true);
+    setError(null);
+    try {
+      const response = await continueConversation(current, message, language, resolvePromptTemplate(current.field, promptTemplates));
+      const latest = latestSolution(withQuestion);
+      const now = Date.now();
+      const revised = appendVersion(latest, response.solution, now);
+      commitSolution({
+        ...revised,
+        conversation: [...(latest.conversation || []), { role: 'controller', text: response.reply, timestamp: now, version: currentVersion(revised) }]
+      });
+    } catch (err: any) {
+      setError(errorText(err, 'errors.followUp'));
+    } finally {
+      setIsSendingFollowUp(false);
+    }
+  };
+
+  const handleSaveWorkOrder = (workOrder: WorkOrder) => {
+    setWorkOrders(prev => prev.some(wo => wo.id === workOrder.id)
+      ? prev.map(wo => wo.id === workOrder.id ? workOrder : wo)
+      : [workOrder, ...prev]);
+    saveWorkOrder(workOrder).catch(err => console.error("Failed to persist work order:", err));
+  };
+
+  // Applied to the latest state so a BOM edit or reassessment committed since the last render is kept
+  const handleLinkWorkOrder = (workOrderId?: string) => {
+    const current = solutionRef.current;
+    if (!current) return;
+    commitSolution({ ...current, workOrderId });
+  };
+
+  const handleDeleteWorkOrder = (id: string) => {
+    setWorkOrders(prev => prev.filter(wo => wo.id !== id));
+    if (selectedWorkOrderId === id) setSelectedWorkOrderId('');
+    deleteWorkOrder(id).catch(err => console.error("Failed to delete work order:", err));
+  };
+
+  const handleSaveAsset = (asset: Asset) => {
+    setAssets(prev => prev.some(a => a.id === asset.id)
+      ? prev.map(a => a.id === asset.id ? asset : a)
+      : [...prev, asset].sort((a, b) => a.id.localeCompare(b.id)));
+    saveAsset(asset).catch(err => console.error("Failed to persist asset:", err));
+  };
+
+  const handleDeleteAsset = (id: string) => {
+    setAssets(prev => prev.filter(a => a.id !== id));
+    deleteAsset(id).catch(err => console.error("Failed to delete asset:", err));
+  };
+
+  const handleRegisterAsset = (item: ProblemSolution) => {
+    if (!item.assetId) return;
+    handleSaveAsset(assetFromSolution(item, item.assetId));
+  };
+
+  const handleImportCatalog = (parts: CatalogPart[]) => {
+    setCatalog(prev => {
+      const merged = new Map<string, CatalogPart>(prev.map(part => [part.id, part]));
+      parts.forEach(part => merged.set(part.id, part));
+      return [...merged.values()].sort((a, b) => a.id.localeCompare(b.id));
+    });
+    importCatalog(parts).catch(err => console.error("Failed to persist parts catalog:", err));
+  };
+
+  const handleSaveCatalogPart = (part: CatalogPart) => {
+    setCatalog(prev => prev.map(p => p.id === part.id ? part : p));
+    saveCatalogPart(part).catch(err => console.error("Failed to persist catalog part:", err));
+  };
+
+  const handleDeleteCatalogPart = (id: string) => {
+    setCatalog(prev => prev.filter(p => p.id !== id));
+    deleteCatalogPart(id).catch(err => console.error("Failed to delete catalog part:", err));
+  };
+
+  const handleClearCatalog = () => {
+    setCatalog([]);
+    clearCatalog().catch(err => console.error("Failed to clear parts catalog:", err));
+  };
+
+  // Indexing writes the store itself; only the listing is updated here
+  const handleUploadDocument = async (file: File) => {
+    const document = await indexDocument(file, libraryEmbedder);
+    setDocuments(prev => [document, ...prev]);
+    return document;
+  };
+
+  const handleReindexDocument = async (document: LibraryDocument) => {
+    const reindexed = await reindexDocument(document, libraryEmbedder);
+    setDocuments(prev => prev.map(item => item.id === reindexed.id ? reindexed : item));
+  };
+
+  const handleDeleteDocument = (id: string) => {
+    setDocuments(prev => prev.filter(document => document.id !== id));
+    deleteDocument(id).catch(err => console.error("Failed to delete document:", err));
+  };
+
+  const openSolution = (item: ProblemSolution) => {
+    setSolution(item);
+    setSelectedField(item.field);
+    setSelectedSubDiscipline(item.subDiscipline || '');
+    setQuery(item.query);
+    setAttachments(item.images || []);
+    setSelectedWorkOrderId(item.workOrderId || '');
+    setActiveTab('solver');
+  };
+
+  const handlePrintJobCard = () => {
+    if (!solution) return;
+    try {
+      printHtml(buildJobCardHtml(
+        solution,
+        language,
+        workOrders.find(wo => wo.id === solution.workOrderId),
+        assets.find(asset => asset.id === solution.assetId)
+      ));
+    } catch (err: any) {
+      setError(errorText(err, 'errors.jobCard'));
+    }
+  };
+
+  const handleAcknowledgeSafety = (technician?: string) => {
+    if (!solution) return;
+    commitSolution({
+      ...latestSolution(solution),
+      safetyAcknowledgement: { acknowledgedAt: Date.now(), hazards: hazards.map(hazard => hazard.id), technician }
+    });
+  };
+
+  const handleFollowUpChange = (task: FollowUpTask, completion?: FollowUpCompletion) => {
+    const item = history.find(entry => entry.id === task.solutionId);
+    if (!item) return;
+    const current = latestSolution(item);
+    const { [task.key]: _previous, ...log } = current.followUpLog || {};
+    commitSolution({ ...current, followUpLog: completion ? { ...log, [task.key]: completion } : log });
+  };
+
+  const handleEnableNotifications = async () => {
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+  };
+
+  const handleBOMChange = (items: BOMItem[]) => {
+    if (!solution) return;
+    commitSolution({ ...latestSolution(solution), billOfMaterials: matchBOMToCatalog(items, catalog) });
+  };
+
+  const handlePrintRequisition = (items: BOMItem[], sources: string[], workOrder?: WorkOrder) => {
+    try {
+      printHtml(buildRequisitionHtml(items, { currency: preferences.currency, language, workOrder, sources }));
+    } catch (err: any) {
+      setError(errorText(err, 'errors.requisition'));
+    }
+  };
+
+  const toggleBOMSelection = (id: string) => {
+    setBomSelection(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  const handleSaveSettings = (settings: AISettings, prefs: Preferences) => {
+    saveAISettings(settings);
+    savePreferences(prefs);
+    setAISettings(settings);
+    setPreferences(prefs);
+    setShowSettings(false);
+  };
+
+  const handleSavePromptTemplate = (template: StoredPromptTemplate) => {
+    setPromptTemplates(prev => [...prev.filter(item => item.id !== template.id), template]);
+    savePromptTemplate(template).catch(err => console.error("Failed to persist prompt template:", err));
+  };
+
+  const handleLanguageChange = (nextLang: Language) => {
+    const prefs = { ...preferences, language: nextLang };
+    savePreferences(prefs);
+    setPreferences(prefs);
     if (solution) {
       handleSolve(undefined, nextLang);
     }
@@ -172,7 +873,7 @@ const App: React.FC = () => {
               OmniENG53
             </h1>
             <span className="text-[10px] text-slate-400 font-medium tracking-wide uppercase">
-              Operations Intelligence
+              {t('app.tagline')}
             </span>
           </div>
         </div>
@@ -182,29 +883,86 @@ const App: React.FC = () => {
             onClick={() => setActiveTab('solver')}
             className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'solver' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
           >
-            {language === 'en' ? 'Diagnostic Console' : 'Jopo la Utambuzi'}
+            {t('nav.solver')}
           </button>
           <button 
             onClick={() => setActiveTab('history')}
             className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'history' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
           >
-            {language === 'en' ? 'Intervention Log' : 'Kumbukumbu'}
+            {t('nav.history')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('followups')}
+            className={`flex items-center gap-1.5 px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'followups' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.followUps')}
+            {dueCount > 0 && (
+              <span className="min-w-[1rem] px-1 rounded-full bg-red-500 text-white text-[9px] font-bold leading-4 text-center">{dueCount}</span>
+            )}
+          </button>
+          <button 
+            onClick={() => setActiveTab('workorders')}
+            className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'workorders' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.workOrders')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('assets')}
+            className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'assets' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.assets')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('catalog')}
+            className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'catalog' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.catalog')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('library')}
+            className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'library' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.library')}
+          </button>
+          <button 
+            onClick={() => setActiveTab('analytics')}
+            className={`px-4 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'analytics' ? 'bg-slate-700 text-white shadow-sm' : 'text-slate-400 hover:text-slate-200'}`}
+          >
+            {t('nav.analytics')}
           </button>
         </div>
 
         <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300" title={t('app.language')}>
+            <Languages size={14} />
+            <select
+              value={language}
+              onChange={(e) => handleLanguageChange(e.target.value)}
+              className="bg-transparent text-slate-300 hover:text-white focus:outline-none cursor-pointer"
+            >
+              {LOCALES.map(option => <option key={option.code} value={option.code} className="bg-slate-900">{option.name}</option>)}
+            </select>
+          </label>
+
           <button 
-            onClick={toggleLanguage}
+            onClick={() => setShowSettings(true)}
+            title={t('app.settings')}
             className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-300 hover:text-white transition-colors"
           >
-            <Languages size={14} />
-            <span className="uppercase">{language}</span>
+            <Settings size={14} />
+            {aiSettings.provider === 'mock' && (
+              <span className="px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide bg-amber-500/10 text-amber-400 border border-amber-500/20">{t('app.demo')}</span>
+            )}
           </button>
           
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${isSolving ? 'bg-amber-400 animate-pulse' : 'bg-emerald-500'}`}></div>
+            {isOnline ? (
+              <div className={`w-2 h-2 rounded-full ${isSolving ? 'bg-amber-400 animate-pulse' : 'bg-emerald-500'}`}></div>
+            ) : (
+              <CloudOff size={12} className="text-amber-400" />
+            )}
             <span className="text-[10px] font-mono text-slate-400 uppercase tracking-wider">
-              {isSolving ? 'Processing' : 'System Ready'}
+              {isSolving ? t('app.processing') : isOnline ? t('app.ready') : t('app.offline')}
             </span>
           </div>
         </div>
@@ -222,54 +980,61 @@ const App: React.FC = () => {
                   <div className="flex flex-col md:flex-row gap-6">
                     
                     {/* Field Selector - Vertical on Desktop */}
-                    <div className="flex md:flex-col gap-2 min-w-[140px]">
-                      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 px-1">Discipline</label>
-                      {Object.values(EngineeringField).map((field) => (
+                    <div className="flex flex-wrap md:flex-nowrap md:flex-col gap-2 min-w-[140px] md:max-w-[200px]">
+                      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 px-1">{t('solver.discipline')}</label>
+                      {DISCIPLINES.map(({ id: field }) => (
                         <button
                           key={field}
-                          onClick={() => setSelectedField(field)}
+                          onClick={() => {
+                            setSelectedField(field);
+                            setSelectedSubDiscipline('');
+                          }}
                           className={`flex items-center gap-3 px-3 py-2.5 rounded-lg text-xs font-medium border transition-all text-left ${
                             selectedField === field 
                             ? 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400' 
                             : 'bg-transparent border-transparent text-slate-400 hover:bg-slate-800'
                           }`}
                         >
-                          {FIELD_ICONS[field]}
-                          {field}
+                          <DisciplineIcon field={field} className="w-4 h-4 shrink-0" />
+                          {disciplineName(field, language)}
                         </button>
                       ))}
+                      {getDiscipline(selectedField).subDisciplines.length > 0 && (
+                        <select
+                          value={selectedSubDiscipline}
+                          onChange={(e) => setSelectedSubDiscipline(e.target.value)}
+                          aria-label={t('solver.subDiscipline')}
+                          className="mt-1 bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+                        >
+                          <option value="">{t('solver.allSubDisciplines')}</option>
+                          {getDiscipline(selectedField).subDisciplines.map(sub => (
+                            <option key={sub.id} value={sub.id}>{subDisciplineName(selectedField, sub.id, language)}</option>
+                          ))}
+                        </select>
+                      )}
                     </div>
 
                     {/* Main Input Area */}
                     <div className="flex-1 space-y-4">
                       <form onSubmit={handleSolve} className="flex flex-col h-full">
-                         <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Technical Description</label>
+                         <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">{t('solver.description')}</label>
                          <div className="relative flex-1">
                           <textarea
                             value={query}
                             onChange={(e) => setQuery(e.target.value)}
-                            placeholder={language === 'en' 
-                              ? "Describe the technical fault, asset ID, and observed symptoms..." 
-                              : "Elezea hitilafu ya kiufundi, kitambulisho cha rasilimali, na dalili zilizoonekana..."}
+                            placeholder={t('solver.placeholder')}
                             className="w-full min-h-[120px] bg-slate-950 border border-slate-700 rounded-lg p-4 text-slate-200 text-sm placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500 transition-all font-sans resize-y"
                           />
                           
-                          {/* Attachments Preview */}
-                          {imagePreview && (
-                            <div className="absolute bottom-3 left-3 flex items-center gap-2 bg-slate-900 pr-2 rounded-md border border-slate-700">
-                               <img src={imagePreview} className="h-8 w-8 object-cover rounded-l-md" alt="Preview" />
-                               <span className="text-[10px] text-slate-400">Attached</span>
-                               <button 
-                                type="button"
-                                onClick={() => setImagePreview(null)}
-                                className="text-slate-500 hover:text-red-400"
-                              >
-                                <X size={12} />
-                              </button>
-                            </div>
-                          )}
                         </div>
 
+                        {/* Attachments Preview */}
+                        {attachments.length > 0 && (
+                          <div className="mt-3">
+                            <AttachmentGallery images={attachments} language={language} onChange={setAttachments} />
+                          </div>
+                        )}
+
                         <div className="flex items-center justify-between mt-4">
                            <div className="flex items-center gap-2">
                               <input 
@@ -277,19 +1042,64 @@ const App: React.FC = () => {
                                 ref={fileInputRef} 
                                 className="hidden" 
                                 accept="image/*"
+                                multiple
                                 onChange={handleImageUpload}
                               />
                               <button
                                 type="button"
                                 onClick={() => fileInputRef.current?.click()}
-                                className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-800 text-slate-400 text-xs hover:bg-slate-700 hover:text-slate-200 transition-colors border border-slate-700"
+                                disabled={attachments.length >= MAX_ATTACHMENTS}
+                                className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-800 text-slate-400 text-xs hover:bg-slate-700 hover:text-slate-200 transition-colors border border-slate-700 disabled:opacity-50"
                               >
                                 <ImageIcon size={14} />
-                                {language === 'en' ? 'Attach Media' : 'Ambatanisha Picha'}
+                                {t('solver.attachMedia')}
                               </button>
+                              <button
+                                type="button"
+                                onClick={() => setShowCamera(true)}
+                                disabled={attachments.length >= MAX_ATTACHMENTS}
+                                title={t('solver.captureCamera')}
+                                className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-slate-800 text-slate-400 text-xs hover:bg-slate-700 hover:text-slate-200 transition-colors border border-slate-700 disabled:opacity-50"
+                              >
+                                <Camera size={14} />
+                                {attachments.length > 0 && <span className="font-mono text-[10px]">{attachments.length}/{MAX_ATTACHMENTS}</span>}
+                              </button>
+                              {workOrders.length > 0 && (
+                                <select
+                                  value={selectedWorkOrderId}
+                                  onChange={(e) => setSelectedWorkOrderId(e.target.value)}
+                                  className="px-2 py-1.5 rounded-md bg-slate-800 text-slate-400 text-xs border border-slate-700 focus:outline-none focus:border-emerald-500"
+                                >
+                                  <option value="">{t('solver.noWorkOrder')}</option>
+                                  {workOrders
+                                    .filter(wo => wo.status !== 'completed' && wo.status !== 'cancelled')
+                                    .map(wo => <option key={wo.id} value={wo.id}>{wo.number} · {wo.asset}</option>)}
+                                </select>
+                              )}
                            </div>
 
-                           <button
+                           <div className="flex items-center gap-2">
+                            {isSolving && (
+                              <button
+                                type="button"
+                                onClick={handleCancelSolve}
+                                className="flex items-center gap-2 px-4 py-2 rounded-md bg-slate-800 text-slate-300 text-sm font-medium hover:bg-red-500/10 hover:text-red-400 border border-slate-700 hover:border-red-500/30 transition-colors"
+                              >
+                                <X className="w-4 h-4" />
+                                {t('common.cancel')}
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => setShowCompare(true)}
+                              disabled={isSolving || showCompare}
+                              title={t('compare.open')}
+                              className="flex items-center gap-2 px-3 py-2 rounded-md bg-slate-800 text-slate-300 text-sm font-medium hover:bg-slate-700 border border-slate-700 disabled:opacity-50 transition-colors"
+                            >
+                              <Columns3 className="w-4 h-4" />
+                              <span className="hidden sm:inline">{t('compare.open')}</span>
+                            </button>
+                            <button
                               type="submit"
                               disabled={isSolving || !query.trim()}
                               className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-md text-sm font-medium shadow-sm transition-all"
@@ -297,15 +1107,18 @@ const App: React.FC = () => {
                               {isSolving ? (
                                 <>
                                   <Loader2 className="w-4 h-4 animate-spin" />
-                                  {language === 'en' ? 'Analyzing...' : 'Inachakata...'}
+                                  {t('solver.analyzing')}
                                 </>
                               ) : (
                                 <>
-                                  {language === 'en' ? 'Run Diagnostics' : 'Anzisha Utambuzi'}
+                                  {isOnline || aiSettings.provider === 'mock'
+                                    ? (t('solver.run'))
+                                    : (t('solver.queue'))}
                                   <ArrowRight className="w-4 h-4" />
                                 </>
                               )}
                             </button>
+                           </div>
                         </div>
                       </form>
                     </div>
@@ -313,6 +1126,16 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              {outbox.length > 0 && (
+                <OutboxPanel
+                  items={outbox}
+                  isOnline={isOnline}
+                  language={language}
+                  onRetry={handleRetryOutbox}
+                  onDelete={handleDeleteOutbox}
+                />
+              )}
+
               {/* Error Banner */}
               {error && (
                 <div className="bg-red-500/10 border-l-4 border-red-500 p-4 rounded-r-md flex items-center gap-3 text-red-400">
@@ -321,6 +1144,20 @@ const App: React.FC = () => {
                 </div>
               )}
 
+              {showCompare && (
+                <CompareView
+                  variants={compareVariants}
+                  runs={compareRuns}
+                  isRunning={isComparing}
+                  canRun={!!query.trim()}
+                  language={language}
+                  onVariantsChange={handleCompareVariantsChange}
+                  onRun={handleCompare}
+                  onChoose={handleChooseComparison}
+                  onClose={handleCloseCompare}
+                />
+              )}
+
               {/* Solution View */}
               {solution && (
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in slide-in-from-bottom-4 duration-500">
@@ -334,7 +1171,7 @@ const App: React.FC = () => {
                         <div className="bg-amber-600/20 px-4 py-2 border-b border-amber-500/30 flex items-center gap-2">
                            <ShieldAlert className="w-4 h-4 text-amber-500" />
                            <h3 className="text-xs font-bold text-amber-500 uppercase tracking-wider">
-                             {language === 'en' ? 'Mandatory Safety Protocols' : 'Itifaki za Usalama'}
+                             {t('report.safetyProtocols')}
                            </h3>
                         </div>
                         <div className="p-4">
@@ -345,17 +1182,49 @@ const App: React.FC = () => {
                       </div>
                     )}
 
+                    {/* Rules-engine hazards, independent of the model's safety text */}
+                    {hazards.length > 0 && (
+                      <SafetyGate
+                        key={solution.id}
+                        hazards={hazards}
+                        outstanding={outstandingHazards}
+                        acknowledgement={solution.safetyAcknowledgement}
+                        language={language}
+                        disabled={isSolving}
+                        onAcknowledge={handleAcknowledgeSafety}
+                      />
+                    )}
+
                     {/* Main Technical Report Card */}
                     <div className="glass-panel rounded-xl overflow-hidden">
                       <div className="border-b border-slate-800 bg-slate-900/50 px-6 py-4 flex items-center justify-between">
                          <div className="flex items-center gap-3">
                            <Activity className="w-5 h-5 text-emerald-500" />
                            <h2 className="text-base font-semibold text-slate-100">
-                             {language === 'en' ? 'Technical Assessment' : 'Tathmini ya Kiufundi'}
+                             {t('report.title')}
                            </h2>
                          </div>
-                         <div className="px-2 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded text-[10px] font-mono font-bold text-emerald-400">
-                           CONFIDENCE: {(solution.confidence * 100).toFixed(0)}%
+                         <div className="flex items-center gap-2">
+                         {solution.promptVersion && (
+                           <span className="px-2 py-1 rounded text-[10px] font-mono text-slate-400 bg-slate-800/50 border border-slate-700">
+                             {t('report.promptVersion', {
+                               scope: solution.promptVersion.id === 'all' ? t('prompts.allFields') : disciplineName(solution.promptVersion.id, language),
+                               version: solution.promptVersion.version
+                             })}
+                           </span>
+                         )}
+                         {!isSolving && (
+                           <button
+                             onClick={handlePrintJobCard}
+                             className="flex items-center gap-1.5 px-2 py-1 rounded text-[10px] font-bold uppercase text-slate-300 hover:text-white bg-slate-800 border border-slate-700 hover:border-slate-600 transition-colors"
+                           >
+                             <Printer size={12} />
+                             {t('report.jobCard')}
+                           </button>
+                         )}
+                         <div className="px-2 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded text-[10px] font-mono font-bold uppercase text-emerald-400">
+                           {isSolving ? t('report.streaming') : t('report.confidence', { value: Math.round(solution.confidence * 100) })}
+                         </div>
                          </div>
                       </div>
 
@@ -363,35 +1232,76 @@ const App: React.FC = () => {
                         
                         {/* Summary */}
                         <div>
-                          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Analysis</h4>
-                          <p className="text-slate-300 text-sm leading-6 border-l-2 border-slate-700 pl-4">
-                            {solution.analysis}
-                          </p>
+                          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('report.analysis')}</h4>
+                          {solution.analysis ? (
+                            <p className="text-slate-300 text-sm leading-6 border-l-2 border-slate-700 pl-4">
+                              {solution.analysis}
+                            </p>
+                          ) : isSolving && (
+                            <div className="space-y-2 border-l-2 border-slate-700 pl-4">
+                              <PendingLine width="w-full" />
+                              <PendingLine />
+                            </div>
+                          )}
+                          {solution.images && solution.images.length > 0 && (
+                            <div className="mt-4">
+                              <AttachmentGallery images={solution.images} language={language} />
+                            </div>
+                          )}
                         </div>
 
                         {/* Diagnostic Tree */}
                         {solution.diagnosticTree && solution.diagnosticTree.length > 0 && (
                           <div>
-                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
-                               <Stethoscope size={12} /> Diagnostic Logic
-                            </h4>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                               {solution.diagnosticTree.map((node, i) => (
-                                 <div key={i} className="bg-slate-900/50 border border-slate-800 p-3 rounded-lg">
-                                    <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">Hypothesis</div>
-                                    <div className="text-xs text-slate-300 mb-2">{node.hypothesis}</div>
-                                    <div className="text-[10px] text-emerald-500 font-bold uppercase mb-1">Verification</div>
-                                    <div className="text-xs text-slate-300">{node.test}</div>
-                                 </div>
-                               ))}
+                            <div className="flex items-center justify-between mb-3">
+                              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                                 <Stethoscope size={12} /> {t('report.diagnosticLogic')}
+                              </h4>
+                              {!isSolving && (
+                                <button
+                                  onClick={handleReassess}
+                                  disabled={isReassessing || !hasRecordedOutcomes(solution.diagnosticTree)}
+                                  className="text-xs text-emerald-400 hover:text-emerald-300 font-medium flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  {isReassessing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                                  {t('report.reassess')}
+                                </button>
+                              )}
                             </div>
+                            <DiagnosticTree
+                              key={solution.id}
+                              nodes={solution.diagnosticTree}
+                              language={language}
+                              readOnly={isSolving}
+                              expandingKey={expandingKey}
+                              onUpdate={handleNodeUpdate}
+                              onExpand={handleExpandNode}
+                            />
                           </div>
                         )}
 
                         {/* Action Plan */}
-                        {solution.steps.length > 0 && (
+                        {isSolving && solution.steps.length === 0 && (
+                          <div className="space-y-2">
+                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('report.steps')}</h4>
+                            <PendingLine width="w-3/4" />
+                            <PendingLine width="w-1/2" />
+                          </div>
+                        )}
+
+                        {solution.steps.length > 0 && outstandingHazards.length > 0 && (
                           <div>
-                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Remediation Steps</h4>
+                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('report.steps')}</h4>
+                            <div className="flex items-center gap-3 p-4 rounded-lg border border-dashed border-red-500/30 bg-red-950/10 text-xs text-red-300/90">
+                              <Lock size={14} className="shrink-0" />
+                              {t('report.stepsLocked', { count: solution.steps.length })}
+                            </div>
+                          </div>
+                        )}
+
+                        {solution.steps.length > 0 && outstandingHazards.length === 0 && (
+                          <div>
+                            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">{t('report.steps')}</h4>
                             <div className="space-y-0">
                                {solution.steps.map((step, idx) => (
                                  <div key={idx} className="flex gap-4 p-3 border-b border-slate-800/50 last:border-0 hover:bg-slate-800/30 transition-colors rounded-lg">
@@ -399,7 +1309,7 @@ const App: React.FC = () => {
                                       {String(idx + 1).padStart(2, '0')}
                                     </div>
                                     <div className="text-sm text-slate-300">
-                                      {step}
+                                      {convertText(step, preferences.unitSystem)}
                                     </div>
                                  </div>
                                ))}
@@ -407,55 +1317,59 @@ const App: React.FC = () => {
                           </div>
                         )}
 
+                        {/* Tool-computed values */}
+                        {solution.calculations && solution.calculations.length > 0 && (
+                          <CalculationsPanel calculations={solution.calculations} language={language} />
+                        )}
+
+                        {/* Library excerpts and past interventions the model was given */}
+                        {solution.references && solution.references.length > 0 && (
+                          <ReferencesPanel
+                            references={solution.references}
+                            cited={citedIndexes([solution.safetyCheck, solution.analysis, ...solution.steps, solution.finalResult].join('\n'))}
+                            language={language}
+                            onOpenSolution={id => {
+                              const item = history.find(entry => entry.id === id);
+                              if (item) openSolution(item);
+                            }}
+                          />
+                        )}
+
                         {/* BOM Section */}
                         <div>
                             <div className="flex items-center justify-between mb-3">
-                              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Bill of Materials</h4>
-                              {!solution.billOfMaterials && (
+                              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('report.bom')}</h4>
+                              {!solution.billOfMaterials?.length && !isSolving && (
                                 <button
                                   onClick={handleGenerateBOM}
                                   disabled={isGeneratingBOM}
                                   className="text-xs text-emerald-400 hover:text-emerald-300 font-medium flex items-center gap-1 disabled:opacity-50"
                                 >
                                   {isGeneratingBOM ? <Loader2 size={12} className="animate-spin"/> : <PackagePlus size={12} />}
-                                  {language === 'en' ? 'Generate List' : 'Tengeneza Orodha'}
+                                  {t('report.generateBom')}
                                 </button>
                               )}
                             </div>
 
                             {solution.billOfMaterials && solution.billOfMaterials.length > 0 ? (
-                              <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/50">
-                                <table className="w-full text-left text-xs">
-                                  <thead>
-                                    <tr className="bg-slate-950 border-b border-slate-800 text-slate-500 font-semibold uppercase">
-                                      <th className="p-3 pl-4">Item</th>
-                                      <th className="p-3">Spec</th>
-                                      <th className="p-3">Qty</th>
-                                      <th className="p-3">Priority</th>
-                                    </tr>
-                                  </thead>
-                                  <tbody className="divide-y divide-slate-800/50">
-                                    {solution.billOfMaterials.map((item, i) => (
-                                      <tr key={i} className="hover:bg-slate-800/50 transition-colors">
-                                        <td className="p-3 pl-4 font-medium text-slate-200">{item.itemName}</td>
-                                        <td className="p-3 text-slate-400 font-mono text-[10px]">{item.specification}</td>
-                                        <td className="p-3 text-slate-300 font-mono">{item.quantity}</td>
-                                        <td className="p-3">
-                                          <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide border ${
-                                            item.priority === 'High' ? 'bg-red-500/10 text-red-400 border-red-500/20' :
-                                            item.priority === 'Medium' ? 'bg-amber-500/10 text-amber-400 border-amber-500/20' :
-                                            'bg-slate-700/30 text-slate-400 border-slate-600/30'
-                                          }`}>
-                                            {item.priority}
-                                          </span>
-                                        </td>
-                                      </tr>
-                                    ))}
-                                  </tbody>
-                                </table>
-                              </div>
+                              <BOMEditor
+                                key={solution.id}
+                                items={solution.billOfMaterials}
+                                currency={preferences.currency}
+                                unitSystem={preferences.unitSystem}
+                                language={language}
+                                exportName={`omnieng53-bom-${solution.id.slice(-8)}`}
+                                readOnly={isSolving}
+                                catalog={catalog}
+                                onChange={handleBOMChange}
+                                onRequisition={() => handlePrintRequisition(
+                                  solution.billOfMaterials || [],
+                                  [solution.id.slice(-8)],
+                                  workOrders.find(wo => wo.id === solution.workOrderId)
+                                )}
+                              />
                             ) : (
-                                !isGeneratingBOM && <div className="p-4 bg-slate-900/30 border border-slate-800 border-dashed rounded text-center text-xs text-slate-500">No BOM generated yet.</div>
+                                !isGeneratingBOM && <div className="p-4 bg-slate-900/30 border border-slate-800 border-dashed rounded text-center text-xs text-slate-500">{t('report.noBom')}</div>
                             )}
                         </div>
 
@@ -464,145 +1378,307 @@ const App: React.FC = () => {
 
                     {/* Verdict Card */}
                     <div className="bg-emerald-950/20 border border-emerald-500/20 rounded-xl p-6">
-                        <h4 className="text-xs font-bold text-emerald-500 uppercase tracking-wider mb-2">
-                           {language === 'en' ? 'Final Determination' : 'Uamuzi wa Mwisho'}
-                        </h4>
-                        <p className="text-lg font-medium text-emerald-100">
-                          {solution.finalResult}
-                        </p>
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="text-xs font-bold text-emerald-500 uppercase tracking-wider">
+                             {t('report.verdict')}
+                          </h4>
+                          {solution.reassessedAt && (
+                            <span className="text-[10px] font-mono text-emerald-400/70 uppercase">
+                              {t('report.reassessedAt', { date: formatDateTime(solution.reassessedAt) })}
+                            </span>
+                          )}
+                        </div>
+                        {solution.finalResult ? (
+                          <p className="text-lg font-medium text-emerald-100">
+                            {solution.finalResult}
+                          </p>
+                        ) : isSolving && <PendingLine />}
                     </div>
 
+
+                    {/* Follow-up Thread */}
+                    {!isSolving && (
+                      showVersionCompare && (solution.versions?.length || 0) > 1 ? (
+                        <VersionCompare
+                          key={solution.id}
+                          versions={solution.versions!}
+                          stepsLocked={outstandingHazards.length > 0}
+                          language={language}
+                          onClose={() => setShowVersionCompare(false)}
+                        />
+                      ) : (
+                        <ConversationThread
+                          key={solution.id}
+                          solution={solution}
+                          language={language}
+                          isSending={isSendingFollowUp}
+                          onSend={handleFollowUp}
+                          onCompare={(solution.versions?.length || 0) > 1 ? () => setShowVersionCompare(true) : undefined}
+                        />
+                      )
+                    )}
                   </div>
 
                   {/* Right Column: Project Data */}
                   <div className="space-y-6">
                     
                     {/* Project Controls Card */}
-                    <div className="glass-panel rounded-xl p-5 space-y-6">
-                      <div className="flex items-center gap-2 border-b border-slate-800 pb-3">
-                        <ClipboardCheck className="w-4 h-4 text-slate-400" />
-                        <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">Project Controls</h3>
-                      </div>
-
-                      <div className="space-y-4">
-                        <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
-                          <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1">Scope Check</span>
-                          <p className="text-xs text-slate-300 leading-tight">
-                            {solution.projectScopeConfirm || "Pending verification."}
-                          </p>
-                        </div>
-
-                        <div className="grid grid-cols-2 gap-3">
-                           <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
-                             <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1 flex items-center gap-1"><Clock size={10}/> Est. Time</span>
-                             <span className="text-sm font-mono text-emerald-400 font-medium">
-                               {solution.timeToComplete || "--"}
-                             </span>
-                           </div>
-                           <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
-                             <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1">Steps</span>
-                             <span className="text-sm font-mono text-slate-300 font-medium">
-                               {solution.steps.length}
-                             </span>
-                           </div>
-                        </div>
-                      </div>
-                    </div>
+                    <ProjectControls
+                      solution={solution}
+                      workOrders={workOrders}
+                      history={history}
+                      language={language}
+                      disabled={isSolving}
+                      onLinkWorkOrder={handleLinkWorkOrder}
+                    />
 
                     {/* Chart */}
-                    <AnalysisChart 
-                      title={language === 'en' ? "Resource Impact" : "Athari za Rasilimali"}
-                      data={[
-                        { name: 'Fix', value: 45 },
-                        { name: 'Test', value: 20 },
-                        { name: 'Doc', value: 35 },
-                      ]} 
-                    />
+                    {!isSolving && (
+                      <AnalysisChart 
+                        title={t('report.resourceImpact')}
+                        data={resourceImpact.data}
+                        unit={resourceImpact.unit}
+                        emptyMessage={t('report.noStepsToBreakDown')}
+                      />
+                    )}
 
                     {/* Asset Data */}
                     {Object.keys(solution.variables).length > 0 && (
-                      <div className="glass-panel rounded-xl p-5">
-                         <div className="flex items-center gap-2 border-b border-slate-800 pb-3 mb-4">
-                            <Binary className="w-4 h-4 text-slate-400" />
-                            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">Detected Assets</h3>
-                          </div>
-                          <div className="space-y-2">
-                            {Object.entries(solution.variables).map(([key, val]) => (
-                              <div key={key} className="flex justify-between items-center text-xs border-b border-slate-800/50 pb-2 last:border-0">
-                                 <span className="text-slate-500 font-mono">{key}</span>
-                                 <span className="text-slate-300 font-medium text-right">{val}</span>
-                              </div>
-                            ))}
-                          </div>
-                      </div>
+                      <DetectedAssets
+                        variables={solution.variables}
+                        calculations={solution.calculations}
+                        unitSystem={preferences.unitSystem}
+                        issues={checkVariables(solution.variables, solution.query, assets.find(asset => asset.id === solution.assetId)?.ratings)}
+                        assetId={solution.assetId}
+                        asset={assets.find(asset => asset.id === solution.assetId)}
+                        pastInterventionCount={solution.assetId
+                          ? interventionsForAsset(solution.assetId, history).filter(item => item.id !== solution.id && item.timestamp < solution.timestamp).length
+                          : 0}
+                        language={language}
+                        onRegister={() => handleRegisterAsset(solution)}
+                        onOpenAsset={() => {
+                          setSelectedAssetId(solution.assetId || null);
+                          setActiveTab('assets');
+                        }}
+                      />
                     )}
 
                     {/* Checklists */}
                     <div className="glass-panel rounded-xl p-5 space-y-6">
-                        <div>
-                          <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">24h Follow-up</h4>
-                          <ul className="space-y-2">
-                             {solution.followUp24h?.map((item, i) => (
-                               <li key={i} className="flex gap-2 text-xs text-slate-400">
-                                 <span className="w-1 h-1 bg-emerald-500 rounded-full mt-1.5 shrink-0" />
-                                 {item}
-                               </li>
-                             ))}
-                          </ul>
-                        </div>
-                        <div>
-                          <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">7-Day Verification</h4>
-                          <ul className="space-y-2">
-                             {solution.followUp7d?.map((item, i) => (
-                               <li key={i} className="flex gap-2 text-xs text-slate-400">
-                                 <span className="w-1 h-1 bg-slate-500 rounded-full mt-1.5 shrink-0" />
-                                 {item}
-                               </li>
-                             ))}
-                          </ul>
-                        </div>
+                        {([
+                          ['24h', t('report.followUp24h')],
+                          ['7d', t('report.followUp7d')]
+                        ] as const).map(([period, label]) => (
+                          <div key={period}>
+                            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">{label}</h4>
+                            <ul className="space-y-2">
+                               {followUpTasks(solution).filter(task => task.window === period).map(task => (
+                                 <FollowUpItem
+                                   key={task.id}
+                                   task={task}
+                                   now={now}
+                                   language={language}
+                                   onChange={(completion) => handleFollowUpChange(task, completion)}
+                                 />
+                               ))}
+                            </ul>
+                          </div>
+                        ))}
                     </div>
 
                   </div>
                 </div>
               )}
             </div>
+          ) : activeTab === 'followups' ? (
+            <FollowUpsView
+              history={history}
+              now={now}
+              language={language}
+              notificationPermission={notificationPermission}
+              onEnableNotifications={handleEnableNotifications}
+              onChange={handleFollowUpChange}
+              onOpenSolution={openSolution}
+            />
+          ) : activeTab === 'workorders' ? (
+            <WorkOrdersView
+              workOrders={workOrders}
+              history={history}
+              currency={preferences.currency}
+              language={language}
+              onSave={handleSaveWorkOrder}
+              onDelete={handleDeleteWorkOrder}
+              onOpenSolution={openSolution}
+            />
+          ) : activeTab === 'assets' ? (
+            <AssetsView
+              assets={assets}
+              history={history}
+              language={language}
+              selectedAssetId={selectedAssetId}
+              onSelect={setSelectedAssetId}
+              onSave={handleSaveAsset}
+              onDelete={handleDeleteAsset}
+              onOpenSolution={openSolution}
+            />
+          ) : activeTab === 'catalog' ? (
+            <CatalogView
+              catalog={catalog}
+              currency={preferences.currency}
+              language={language}
+              onImport={handleImportCatalog}
+              onSave={handleSaveCatalogPart}
+              onDelete={handleDeleteCatalogPart}
+              onClear={handleClearCatalog}
+            />
+          ) : activeTab === 'library' ? (
+            <LibraryView
+              documents={documents}
+              embedder={libraryEmbedder}
+              language={language}
+              onUpload={handleUploadDocument}
+              onReindex={handleReindexDocument}
+              onDelete={handleDeleteDocument}
+            />
+          ) : activeTab === 'analytics' ? (
+            <AnalyticsView history={history} language={language} />
           ) : (
             // History View
             <div className="max-w-4xl mx-auto pb-12">
                <div className="flex items-center justify-between mb-8">
-                  <h2 className="text-xl font-semibold text-white">Operational History</h2>
-                  <span className="text-xs text-slate-500">{history.length} records found</span>
+                  <h2 className="text-xl font-semibold text-white">{t('history.title')}</h2>
+                  <div className="flex items-center gap-4">
+                    {bomSelection.length > 0 && (
+                      <button
+                        onClick={() => setShowConsolidated(true)}
+                        className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1.5 rounded-md text-xs font-medium"
+                      >
+                        <ShoppingCart size={12} />
+                        {t('history.consolidate', { count: bomSelection.length })}
+                      </button>
+                    )}
+                    <span className="text-xs text-slate-500">{t('history.recordsFound', { count: filteredHistory.length })}</span>
+                  </div>
+               </div>
+
+               {/* Search & Filters */}
+               <div className="glass-panel rounded-xl p-4 mb-6 space-y-3">
+                  <div className="relative">
+                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+                    <input
+                      type="text"
+                      value={historyFilters.text}
+                      onChange={(e) => setHistoryFilters(prev => ({ ...prev, text: e.target.value }))}
+                      placeholder={t('history.search')}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500"
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs">
+                    <select
+                      value={historyFilters.field}
+                      onChange={(e) => setHistoryFilters(prev => ({ ...prev, field: e.target.value, subDiscipline: undefined }))}
+                      className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-slate-300 focus:outline-none focus:border-emerald-500"
+                    >
+                      <option value="all">{t('history.allDisciplines')}</option>
+                      {DISCIPLINES.map(({ id: field }) => (
+                        <option key={field} value={field}>{disciplineName(field, language)}</option>
+                      ))}
+                    </select>
+                    {historyFilters.field !== 'all' && getDiscipline(historyFilters.field).subDisciplines.length > 0 && (
+                      <select
+                        value={historyFilters.subDiscipline || ''}
+                        onChange={(e) => setHistoryFilters(prev => ({ ...prev, subDiscipline: e.target.value || undefined }))}
+                        className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-slate-300 focus:outline-none focus:border-emerald-500"
+                      >
+                        <option value="">{t('solver.allSubDisciplines')}</option>
+                        {getDiscipline(historyFilters.field).subDisciplines.map(sub => (
+                          <option key={sub.id} value={sub.id}>{subDisciplineName(historyFilters.field, sub.id, language)}</option>
+                        ))}
+                      </select>
+                    )}
+                    <div className="flex items-center gap-2 text-slate-500">
+                      <Calendar size={12} />
+                      <input
+                        type="date"
+                        value={historyFilters.from || ''}
+                        onChange={(e) => setHistoryFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+                        className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:border-emerald-500"
+                      />
+                      <span>–</span>
+                      <input
+                        type="date"
+                        value={historyFilters.to || ''}
+                        onChange={(e) => setHistoryFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+                        className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:border-emerald-500"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-slate-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={historyFilters.riskOnly}
+                        onChange={(e) => setHistoryFilters(prev => ({ ...prev, riskOnly: e.target.checked }))}
+                        className="accent-amber-500"
+                      />
+                      <ShieldAlert size={12} className="text-amber-500" />
+                      {t('history.riskIdentified')}
+                    </label>
+                    {!isDefaultFilters(historyFilters) && (
+                      <button
+                        onClick={() => setHistoryFilters(DEFAULT_HISTORY_FILTERS)}
+                        className="ml-auto flex items-center gap-1 text-slate-500 hover:text-slate-300"
+                      >
+                        <X size={12} /> {t('common.clear')}
+                      </button>
+                    )}
+                  </div>
                </div>
                
-               {history.length === 0 ? (
+               {filteredHistory.length === 0 ? (
                  <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
                    <History className="w-10 h-10 text-slate-600 mx-auto mb-3" />
-                   <p className="text-slate-500 text-sm">No intervention logs available.</p>
+                   <p className="text-slate-500 text-sm">
+                     {history.length === 0 ? t('history.empty') : t('history.noMatch')}
+                   </p>
                  </div>
                ) : (
                  <div className="space-y-3">
-                   {history.map((item) => (
+                   {filteredHistory.map((item) => (
                      <div key={item.id} className="bg-slate-900/50 border border-slate-800 rounded-lg p-5 hover:border-emerald-500/30 transition-all cursor-pointer group"
-                          onClick={() => {
-                            setSolution(item);
-                            setSelectedField(item.field);
-                            setQuery(item.query);
-                            setImagePreview(item.image || null);
-                            setActiveTab('solver');
-                          }}
+                          onClick={() => openSolution(item)}
                      >
                        <div className="flex justify-between items-start mb-2">
                           <div className="flex items-center gap-2">
-                             <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-800 text-slate-300 border border-slate-700 uppercase">{item.field}</span>
+                             {item.billOfMaterials?.length ? (
+                               <input
+                                 type="checkbox"
+                                 checked={bomSelection.includes(item.id)}
+                                 onClick={(e) => e.stopPropagation()}
+                                 onChange={() => toggleBOMSelection(item.id)}
+                                 title={t('history.selectForOrder')}
+                                 className="accent-emerald-500"
+                               />
+                             ) : null}
+                             <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-800 text-slate-300 border border-slate-700 uppercase">{disciplineName(item.field, language)}</span>
+                             {item.subDiscipline && (
+                               <span className="text-[10px] text-slate-400">{subDisciplineName(item.field, item.subDiscipline, language)}</span>
+                             )}
                              <span className="text-[10px] text-slate-500 font-mono">ID: {item.id.slice(-8)}</span>
+                             {item.workOrderId && workOrders.some(wo => wo.id === item.workOrderId) && (
+                               <span className="text-[10px] text-sky-400 font-mono">{workOrders.find(wo => wo.id === item.workOrderId)!.number}</span>
+                             )}
                           </div>
-                          <span className="text-[10px] text-slate-500">{new Date(item.timestamp).toLocaleDateString()}</span>
+                          <span className="text-[10px] text-slate-500">{formatDate(item.timestamp)}</span>
                        </div>
                        <h3 className="text-slate-200 font-medium text-sm mb-3 line-clamp-1">{item.query}</h3>
                        <div className="flex items-center gap-4 text-xs text-slate-500">
-                          <span className="flex items-center gap-1"><Clock size={12}/> {item.timeToComplete || 'N/A'}</span>
-                          {isSafetyCritical(item.safetyCheck) && <span className="flex items-center gap-1 text-amber-500"><ShieldAlert size={12}/> Risk Identified</span>}
+                          <span className="flex items-center gap-1"><Clock size={12}/> {item.timeToComplete || t('common.notAvailable')}</span>
+                          {hasSafetyRisk(item) && <span className="flex items-center gap-1 text-amber-500"><ShieldAlert size={12}/> {t('history.riskIdentified')}</span>}
+                          {hasOverdueFollowUp(item, now) && (
+                            <span className="flex items-center gap-1 text-red-400"><CalendarClock size={12}/> {t('history.followUpOverdue')}</span>
+                          )}
+                          {item.billOfMaterials?.length ? (
+                            <span className="flex items-center gap-1"><ShoppingCart size={12}/> {item.billOfMaterials.length} · {formatCurrency(bomTotal(item.billOfMaterials), preferences.currency, language)}</span>
+                          ) : null}
                        </div>
                      </div>
                    ))}
@@ -612,6 +1688,51 @@ const App: React.FC = () => {
           )}
         </div>
       </main>
+
+      {showSettings && (
+        <SettingsPanel
+          settings={aiSettings}
+          preferences={preferences}
+          language={language}
+          onSave={handleSaveSettings}
+          onEditPrompts={() => {
+            setShowSettings(false);
+            setShowPrompts(true);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showPrompts && (
+        <PromptTemplatesPanel
+          templates={promptTemplates}
+          language={language}
+          onSave={handleSavePromptTemplate}
+          onClose={() => setShowPrompts(false)}
+        />
+      )}
+
+      {showCamera && (
+        <CameraCapture
+          language={language}
+          remaining={MAX_ATTACHMENTS - attachments.length}
+          onCapture={handleCameraCapture}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
+      {showConsolidated && (
+        <ConsolidatedBOM
+          solutions={history.filter(item => bomSelection.includes(item.id))}
+          workOrders={workOrders}
+          catalog={catalog}
+          currency={preferences.currency}
+          unitSystem={preferences.unitSystem}
+          language={language}
+          onRequisition={handlePrintRequisition}
+          onClose={() => setShowConsolidated(false)}
+        />
+      )}
     </div>
   );
 };
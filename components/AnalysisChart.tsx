@@ -1,36 +1,117 @@
 
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
+  Legend,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell
+} from 'recharts';
+import { ChartDataPoint, ChartSeriesPoint } from '../types';
+
+export type ChartType = 'bar' | 'line' | 'pie' | 'stacked';
 
 interface AnalysisChartProps {
-  data: { name: string; value: number }[];
+  data: ChartDataPoint[] | ChartSeriesPoint[];
   title: string;
+  type?: ChartType;
+  // Keys plotted for line and stacked charts; single-series charts use "value"
+  series?: string[];
+  // Display names for series keys, e.g. translated discipline names
+  seriesLabels?: Record<string, string>;
+  unit?: string;
+  emptyMessage?: string;
 }
 
-const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, title }) => {
+const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, title, type = 'bar', series = ['value'], seriesLabels = {}, unit, emptyMessage }) => {
   // Green and Silver metallic theme
   const COLORS = ['#10b981', '#a1a1aa', '#059669', '#d4d4d8', '#34d399'];
 
-  return (
-    <div className="bg-zinc-900/50 border border-zinc-800 p-4 rounded-xl shadow-inner mt-6">
-      <h3 className="text-zinc-400 text-sm font-semibold mb-4 uppercase tracking-wider">{title}</h3>
-      <div className="h-64 w-full">
-        <ResponsiveContainer width="100%" height="100%">
+  const tooltip = (
+    <Tooltip
+      contentStyle={{ backgroundColor: '#18181b', border: '1px solid #3f3f46', borderRadius: '8px' }}
+      itemStyle={{ color: '#f4f4f5' }}
+      formatter={(value) => unit ? `${value} ${unit}` : value}
+    />
+  );
+  const grid = <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />;
+  const xAxis = <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} />;
+  const yAxis = <YAxis stroke="#71717a" fontSize={12} tickLine={false} allowDecimals={false} />;
+  const legend = <Legend wrapperStyle={{ fontSize: 11, color: '#a1a1aa' }} />;
+
+  const renderChart = () => {
+    switch (type) {
+      case 'line':
+        return (
+          <LineChart data={data}>
+            {grid}{xAxis}{yAxis}{tooltip}{series.length > 1 && legend}
+            {series.map((key, index) => (
+              <Line key={key} type="monotone" dataKey={key} name={seriesLabels[key] || key} stroke={COLORS[index % COLORS.length]} strokeWidth={2} dot={{ r: 3 }} />
+            ))}
+          </LineChart>
+        );
+      case 'stacked':
+        return (
           <BarChart data={data}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
-            <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} />
-            <YAxis stroke="#71717a" fontSize={12} tickLine={false} />
-            <Tooltip 
-              contentStyle={{ backgroundColor: '#18181b', border: '1px solid #3f3f46', borderRadius: '8px' }}
-              itemStyle={{ color: '#f4f4f5' }}
-            />
+            {grid}{xAxis}{yAxis}{tooltip}{legend}
+            {series.map((key, index) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                name={seriesLabels[key] || key}
+                stackId="stack"
+                fill={COLORS[index % COLORS.length]}
+                radius={index === series.length - 1 ? [4, 4, 0, 0] : undefined}
+              />
+            ))}
+          </BarChart>
+        );
+      case 'pie':
+        return (
+          <PieChart>
+            {tooltip}{legend}
+            <Pie data={data} dataKey="value" nameKey="name" innerRadius="45%" outerRadius="75%" paddingAngle={2} stroke="none">
+              {data.map((entry, index) => (
+                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              ))}
+            </Pie>
+          </PieChart>
+        );
+      default:
+        return (
+          <BarChart data={data}>
+            {grid}{xAxis}{yAxis}{tooltip}
             <Bar dataKey="value" radius={[4, 4, 0, 0]}>
               {data.map((entry, index) => (
                 <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
               ))}
             </Bar>
           </BarChart>
-        </ResponsiveContainer>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 p-4 rounded-xl shadow-inner mt-6">
+      <h3 className="text-zinc-400 text-sm font-semibold mb-4 uppercase tracking-wider">{title}</h3>
+      <div className="h-64 w-full">
+        {data.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs text-zinc-500">
+            {emptyMessage || 'No data yet.'}
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()}
+          </ResponsiveContainer>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { Language, ProblemSolution } from '../types';
+import AnalysisChart from './AnalysisChart';
+import {
+  averageConfidence,
+  fieldDistribution,
+  interventionsByFieldOverTime,
+  qualityOverTime,
+  safetyCriticalRate,
+  topBOMItems,
+  totalEstimatedHours
+} from '../utils/analytics';
+import { formatHours } from '../utils/duration';
+import { getTranslator } from '../i18n';
+import { disciplineName } from '../utils/disciplines';
+
+interface AnalyticsViewProps {
+  history: ProblemSolution[];
+  language: Language;
+}
+
+const AnalyticsView: React.FC<AnalyticsViewProps> = ({ history, language }) => {
+  const { t, formatNumber, locale } = getTranslator(language);
+  const stats = useMemo(() => ({
+    byField: interventionsByFieldOverTime(history, locale.intl),
+    quality: qualityOverTime(history, locale.intl),
+    distribution: fieldDistribution(history),
+    bom: topBOMItems(history),
+    safetyRate: safetyCriticalRate(history),
+    confidence: Math.round(averageConfidence(history) * 100),
+    hours: totalEstimatedHours(history)
+  }), [history, locale.intl]);
+
+  const kpis = [
+    { label: t('analytics.interventions'), value: formatNumber(history.length) },
+    { label: t('analytics.safetyCritical'), value: formatNumber(stats.safetyRate / 100, { style: 'percent' }) },
+    { label: t('analytics.avgConfidence'), value: formatNumber(stats.confidence / 100, { style: 'percent' }) },
+    { label: t('analytics.estLabour'), value: formatHours(stats.hours) }
+  ];
+
+  if (history.length === 0) {
+    return (
+      <div className="max-w-6xl mx-auto pb-12">
+        <h2 className="text-xl font-semibold text-white mb-8">{t('nav.analytics')}</h2>
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <BarChart3 className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm">{t('analytics.empty')}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto pb-12">
+      <h2 className="text-xl font-semibold text-white mb-8">{t('nav.analytics')}</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {kpis.map(kpi => (
+          <div key={kpi.label} className="glass-panel rounded-xl p-4">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1">{kpi.label}</span>
+            <span className="text-2xl font-mono text-emerald-400 font-medium">{kpi.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-6">
+        <AnalysisChart
+          type="stacked"
+          title={t('analytics.perDiscipline')}
+          data={stats.byField}
+          series={stats.distribution.map(point => point.name)}
+          seriesLabels={Object.fromEntries(stats.distribution.map(point => [point.name, disciplineName(point.name, language)]))}
+        />
+        <AnalysisChart
+          type="line"
+          title={t('analytics.trend')}
+          data={stats.quality}
+          series={['Safety-critical %', 'Avg confidence %']}
+          seriesLabels={{ 'Safety-critical %': t('analytics.safetyCriticalPercent'), 'Avg confidence %': t('analytics.avgConfidencePercent') }}
+        />
+        <AnalysisChart
+          type="pie"
+          title={t('analytics.share')}
+          data={stats.distribution.map(point => ({ ...point, name: disciplineName(point.name, language) }))}
+        />
+        <AnalysisChart
+          title={t('analytics.topBom')}
+          data={stats.bom}
+          unit={t('analytics.requests')}
+          emptyMessage={t('analytics.noBom')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsView;
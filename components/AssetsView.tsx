@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Boxes, Search, MapPin, ShieldAlert, Clock, Trash2 } from 'lucide-react';
+import { Asset, Language, ProblemSolution } from '../types';
+import { interventionsForAsset } from '../services/assetStore';
+import { hasSafetyRisk } from '../utils/safety';
+import { getTranslator } from '../i18n';
+import { DISCIPLINES, disciplineName } from '../utils/disciplines';
+
+interface AssetsViewProps {
+  assets: Asset[];
+  history: ProblemSolution[];
+  language: Language;
+  selectedAssetId: string | null;
+  onSelect: (id: string | null) => void;
+  onSave: (asset: Asset) => void;
+  onDelete: (id: string) => void;
+  onOpenSolution: (item: ProblemSolution) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 block";
+
+const AssetsView: React.FC<AssetsViewProps> = ({ assets, history, language, selectedAssetId, onSelect, onSave, onDelete, onOpenSolution }) => {
+  const { t, formatDate } = getTranslator(language);
+  const [search, setSearch] = useState('');
+
+  const visibleAssets = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return assets;
+    return assets.filter(asset =>
+      [asset.id, asset.type, asset.location, asset.field].some(value => value.toLowerCase().includes(term))
+    );
+  }, [assets, search]);
+
+  const selected = assets.find(asset => asset.id === selectedAssetId);
+  const interventions = selected ? interventionsForAsset(selected.id, history) : [];
+
+  return (
+    <div className="max-w-6xl mx-auto pb-12">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-xl font-semibold text-white">{t('assets.title')}</h2>
+        <span className="text-xs text-slate-500">{t('assets.registered', { count: assets.length })}</span>
+      </div>
+
+      {assets.length === 0 ? (
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <Boxes className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm">
+            {t('assets.empty')}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div className="relative">
+              <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={t('assets.search')}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500"
+              />
+            </div>
+            {visibleAssets.map(asset => {
+              const count = interventionsForAsset(asset.id, history).length;
+              return (
+                <button
+                  key={asset.id}
+                  onClick={() => onSelect(asset.id)}
+                  className={`w-full text-left bg-slate-900/50 border rounded-lg p-3 transition-all ${
+                    asset.id === selectedAssetId ? 'border-emerald-500/50' : 'border-slate-800 hover:border-emerald-500/30'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-mono font-semibold text-slate-100">{asset.id}</span>
+                    <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-800 text-slate-300 border border-slate-700 uppercase">{disciplineName(asset.field, language)}</span>
+                  </div>
+                  <div className="text-xs text-slate-400">{asset.type || '—'}</div>
+                  <div className="flex items-center justify-between mt-2 text-[10px] text-slate-500">
+                    <span className="flex items-center gap-1"><MapPin size={10} /> {asset.location || '—'}</span>
+                    <span>{t('assets.interventions', { count })}</span>
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="lg:col-span-2">
+            {selected ? (
+              <div className="glass-panel rounded-xl p-5 space-y-6">
+                <div className="flex items-center justify-between border-b border-slate-800 pb-3">
+                  <h3 className="text-base font-mono font-semibold text-slate-100">{selected.id}</h3>
+                  <button
+                    onClick={() => { onDelete(selected.id); onSelect(null); }}
+                    className="p-1 text-slate-500 hover:text-red-400"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className={labelClass}>{t('assets.type')}</label>
+                    <input key={`${selected.id}-type`} className={inputClass} defaultValue={selected.type} onBlur={(e) => onSave({ ...selected, type: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t('assets.location')}</label>
+                    <input key={`${selected.id}-location`} className={inputClass} defaultValue={selected.location} onBlur={(e) => onSave({ ...selected, location: e.target.value })} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>{t('solver.discipline')}</label>
+                    <select className={inputClass} value={selected.field} onChange={(e) => onSave({ ...selected, field: e.target.value })}>
+                      {DISCIPLINES.map(({ id }) => <option key={id} value={id}>{disciplineName(id, language)}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                {Object.keys(selected.ratings).length > 0 && (
+                  <div>
+                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{t('assets.ratings')}</h4>
+                    <div className="grid grid-cols-2 gap-x-6 gap-y-2">
+                      {Object.entries(selected.ratings).map(([key, value]) => (
+                        <div key={key} className="flex justify-between text-xs border-b border-slate-800/50 pb-1.5">
+                          <span className="text-slate-500 font-mono">{key}</span>
+                          <span className="text-slate-300 font-medium">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+                    {t('assets.history')}
+                  </h4>
+                  {interventions.length === 0 ? (
+                    <p className="text-xs text-slate-500">{t('assets.noInterventions')}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {interventions.map(item => (
+                        <div
+                          key={item.id}
+                          onClick={() => onOpenSolution(item)}
+                          className="bg-slate-900/50 border border-slate-800 rounded-lg p-3 hover:border-emerald-500/30 transition-all cursor-pointer"
+                        >
+                          <div className="flex justify-between items-start mb-1">
+                            <span className="text-xs text-slate-200 font-medium line-clamp-1">{item.query}</span>
+                            <span className="text-[10px] text-slate-500 shrink-0 ml-3">{formatDate(item.timestamp)}</span>
+                          </div>
+                          <p className="text-xs text-emerald-300/80 line-clamp-2 mb-2">{item.finalResult}</p>
+                          <div className="flex items-center gap-4 text-[10px] text-slate-500">
+                            <span className="flex items-center gap-1"><Clock size={10} /> {item.timeToComplete || t('common.notAvailable')}</span>
+                            {hasSafetyRisk(item) && <span className="flex items-center gap-1 text-amber-500"><ShieldAlert size={10} /> {t('history.riskIdentified')}</span>}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl text-sm text-slate-500">
+                {t('assets.selectPrompt')}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetsView;
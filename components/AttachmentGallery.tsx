@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { X, PenLine } from 'lucide-react';
+import { ImageAttachment, Language } from '../types';
+import { IMAGE_LABELS } from '../utils/images';
+import ImageAnnotator from './ImageAnnotator';
+import { getTranslator } from '../i18n';
+
+interface AttachmentGalleryProps {
+  images: ImageAttachment[];
+  language: Language;
+  // Omitted for the read-only gallery in the solution view
+  onChange?: (images: ImageAttachment[]) => void;
+}
+
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({ images, language, onChange }) => {
+  const { t } = getTranslator(language);
+  const [enlarged, setEnlarged] = useState<ImageAttachment | null>(null);
+  const [annotating, setAnnotating] = useState<ImageAttachment | null>(null);
+
+  const update = (id: string, patch: Partial<ImageAttachment>) =>
+    onChange?.(images.map(image => image.id === id ? { ...image, ...patch } : image));
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {images.map((image, i) => (
+          <div key={image.id} className="w-24 bg-slate-900 rounded-md border border-slate-700 overflow-hidden">
+            <div className="relative">
+              <button type="button" onClick={() => setEnlarged(image)} className="block w-full">
+                <img src={image.dataUrl} className="h-16 w-full object-cover" alt={image.label || t('attachments.photo', { index: i + 1 })} />
+              </button>
+              <span className="absolute top-0.5 left-0.5 px-1 rounded bg-slate-950/80 text-[9px] font-mono text-slate-300">{i + 1}</span>
+              {onChange && (
+                <button
+                  type="button"
+                  onClick={() => setAnnotating(image)}
+                  title={t('attachments.annotate')}
+                  className={`absolute bottom-0.5 right-0.5 p-0.5 rounded bg-slate-950/80 hover:text-emerald-300 ${image.annotations?.length ? 'text-emerald-400' : 'text-slate-400'}`}
+                >
+                  <PenLine size={10} />
+                </button>
+              )}
+              {onChange && (
+                <button
+                  type="button"
+                  onClick={() => onChange(images.filter(other => other.id !== image.id))}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded bg-slate-950/80 text-slate-400 hover:text-red-400"
+                >
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+            {onChange ? (
+              <input
+                list="attachment-labels"
+                defaultValue={image.label || ''}
+                onBlur={(e) => update(image.id, { label: e.target.value.trim() || undefined })}
+                placeholder={t('attachments.label')}
+                className="w-full bg-slate-950 border-t border-slate-700 px-1.5 py-1 text-[10px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+              />
+            ) : (
+              <div className="px-1.5 py-1 text-[10px] text-slate-400 truncate">{image.label || '—'}</div>
+            )}
+          </div>
+        ))}
+        {onChange && (
+          <datalist id="attachment-labels">
+            {IMAGE_LABELS.map(label => <option key={label} value={label} />)}
+          </datalist>
+        )}
+      </div>
+
+      {annotating && (
+        <ImageAnnotator
+          image={annotating}
+          language={language}
+          onSave={(annotated) => onChange?.(images.map(image => image.id === annotated.id ? annotated : image))}
+          onClose={() => setAnnotating(null)}
+        />
+      )}
+
+      {enlarged && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 p-6" onClick={() => setEnlarged(null)}>
+          <figure className="max-w-5xl max-h-full">
+            <img src={enlarged.dataUrl} className="max-h-[85vh] max-w-full object-contain rounded-lg" alt={enlarged.label || t('attachments.attachment')} />
+            <figcaption className="mt-2 text-center text-xs text-slate-400 font-mono">
+              {enlarged.label || '—'} · {enlarged.mimeType}{enlarged.width ? ` · ${enlarged.width}×${enlarged.height}` : ''}
+            </figcaption>
+          </figure>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AttachmentGallery;
@@ -0,0 +1,301 @@
+import React, { useMemo } from 'react';
+import { Plus, Trash2, FileSpreadsheet, FileDown, FileText } from 'lucide-react';
+import { BOMItem, CatalogPart, Language, UnitSystem } from '../types';
+import { bomRows, bomTotal, formatCurrency, formatQuantity, lineTotal, quantityOf, unitOf, unpricedCount } from '../utils/bom';
+import { toCsv } from '../utils/csv';
+import { buildXlsx } from '../utils/xlsx';
+import { downloadBlob } from '../utils/download';
+import { applyCatalogPart, rankCatalog, scorePart } from '../utils/catalog';
+import { convertText } from '../utils/units';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface BOMEditorProps {
+  items: BOMItem[];
+  currency: string;
+  // Specifications are shown in this system; the stored text keeps the units the model reported
+  unitSystem: UnitSystem;
+  language: Language;
+  // Base file name for exports, without extension
+  exportName: string;
+  readOnly?: boolean;
+  catalog?: CatalogPart[];
+  onChange: (items: BOMItem[]) => void;
+  onRequisition: () => void;
+}
+
+const PRIORITY_CLASSES: Record<BOMItem['priority'], string> = {
+  High: 'bg-red-500/10 text-red-400 border-red-500/20',
+  Medium: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  Low: 'bg-slate-700/30 text-slate-400 border-slate-600/30'
+};
+
+const PRIORITY_LABELS: Record<BOMItem['priority'], MessageKey> = {
+  High: 'bom.priority.high',
+  Medium: 'bom.priority.medium',
+  Low: 'bom.priority.low'
+};
+
+const cellInput = "w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-emerald-500 rounded px-1.5 py-1 text-xs focus:outline-none focus:bg-slate-950";
+
+const BOMEditor: React.FC<BOMEditorProps> = ({ items, currency, unitSystem, language, exportName, readOnly, catalog = [], onChange, onRequisition }) => {
+  const { t } = getTranslator(language);
+  const total = bomTotal(items);
+  const unpriced = unpricedCount(items);
+  const showStock = catalog.length > 0;
+
+  const partsByCode = useMemo(() => new Map(catalog.map(part => [part.id, part])), [catalog]);
+  const candidates = useMemo(
+    () => showStock ? items.map(item => rankCatalog(item, catalog)) : [],
+    [items, catalog, showStock]
+  );
+
+  const updateItem = (index: number, patch: Partial<BOMItem>) => {
+    onChange(items.map((item, i) => {
+      if (i !== index) return item;
+      const next = { ...item, ...patch };
+      // Keep the free-text quantity in step with the structured value for older views and prompts
+      return 'quantityValue' in patch || 'unit' in patch
+        ? { ...next, quantity: formatQuantity(quantityOf(next), unitOf(next)) }
+        : next;
+    }));
+  };
+
+  // Commits text edits on blur so typing doesn't persist on every keystroke
+  const commitText = (index: number, key: 'itemName' | 'specification' | 'unit' | 'supplier', value: string) => {
+    const current = key === 'unit' ? unitOf(items[index]) : items[index][key] || '';
+    if (value.trim() !== current) updateItem(index, { [key]: value.trim() || (key === 'supplier' ? undefined : '') });
+  };
+
+  const commitNumber = (index: number, key: 'quantityValue' | 'unitCost', value: string) => {
+    const parsed = value.trim() === '' ? undefined : Math.max(0, parseFloat(value));
+    const next = Number.isNaN(parsed) ? undefined : parsed;
+    const current = key === 'quantityValue' ? quantityOf(items[index]) : items[index].unitCost;
+    if (next !== current) updateItem(index, { [key]: key === 'quantityValue' ? next ?? 1 : next });
+  };
+
+  // A manual pick sticks through later re-matching; clearing it marks the line as not stocked
+  const overrideMatch = (index: number, stockCode: string) => {
+    const item = items[index];
+    const part = partsByCode.get(stockCode);
+    const next = part
+      ? applyCatalogPart({ ...item, catalogMatch: { stockCode, confidence: Number(scorePart(item, part).toFixed(2)), manual: true } }, part)
+      : { ...item, catalogMatch: { confidence: 0, manual: true } };
+    onChange(items.map((existing, i) => i === index ? next : existing));
+  };
+
+  const addItem = () => onChange([...items, { itemName: '', specification: '', quantity: '1', quantityValue: 1, unit: '', priority: 'Medium' }]);
+
+  const renderStock = (item: BOMItem, index: number) => {
+    const match = item.catalogMatch;
+    const part = match?.stockCode ? partsByCode.get(match.stockCode) : undefined;
+    const options = candidates[index] || [];
+    const short = part && part.stockOnHand < quantityOf(item);
+
+    return (
+      <div className="space-y-1 min-w-[120px]">
+        {readOnly ? (
+          <div className="font-mono text-[10px] text-slate-300">{match?.stockCode || '--'}</div>
+        ) : (
+          <select
+            value={match?.stockCode || ''}
+            onChange={(e) => overrideMatch(index, e.target.value)}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-emerald-500"
+          >
+            <option value="">{t('bom.notStocked')}</option>
+            {part && !options.some(option => option.part.id === part.id) && <option value={part.id}>{part.id} · {part.name}</option>}
+            {options.map(option => (
+              <option key={option.part.id} value={option.part.id}>
+                {option.part.id} · {option.part.name} ({Math.round(option.confidence * 100)}%)
+              </option>
+            ))}
+          </select>
+        )}
+        {part && (
+          <div className="flex items-center gap-1.5 text-[9px] font-bold uppercase">
+            <span className={match.manual || match.confidence >= 0.75 ? 'text-emerald-400' : 'text-amber-400'}>
+              {match.manual ? t('bom.manual') : `${Math.round(match.confidence * 100)}%`}
+            </span>
+            <span className={short ? 'text-red-400' : 'text-slate-500'}>
+              {t('bom.onHand', { count: part.stockOnHand })}
+            </span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const exportCsv = () => {
+    // BOM prefix lets Excel detect UTF-8 for Swahili/accented supplier names
+    downloadBlob(new Blob(['\uFEFF', toCsv(bomRows(items, currency, language))], { type: 'text/csv;charset=utf-8' }), `${exportName}.csv`);
+  };
+
+  const exportXlsx = () => downloadBlob(buildXlsx('BOM', bomRows(items, currency, language)), `${exportName}.xlsx`);
+
+  return (
+    <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/50">
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="bg-slate-950 border-b border-slate-800 text-slate-500 font-semibold uppercase">
+              {showStock && <th className="p-3 pl-4">{t('bom.stock')}</th>}
+              <th className={`p-3 ${showStock ? '' : 'pl-4'}`}>{t('bom.item')}</th>
+              <th className="p-3">{t('bom.spec')}</th>
+              <th className="p-3 w-16">{t('bom.qty')}</th>
+              <th className="p-3 w-16">{t('bom.unit')}</th>
+              <th className="p-3">{t('bom.priority')}</th>
+              <th className="p-3">{t('bom.supplier')}</th>
+              <th className="p-3 w-24 text-right">{t('bom.unitCost')}</th>
+              <th className="p-3 text-right">{t('bom.total')}</th>
+              {!readOnly && <th className="p-3 w-8"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {items.map((item, i) => (
+              // Row keys include the length so uncontrolled inputs remount after adds/deletes
+              <tr key={`${i}:${items.length}`} className="hover:bg-slate-800/50 transition-colors">
+                {showStock && (
+                  <td className="p-2 pl-3 align-top">
+                    {renderStock(item, i)}
+                  </td>
+                )}
+                {readOnly ? (
+                  <>
+                    <td className={`p-3 font-medium text-slate-200 ${showStock ? '' : 'pl-4'}`}>{item.itemName}</td>
+                    <td className="p-3 text-slate-400 font-mono text-[10px]">{convertText(item.specification, unitSystem)}</td>
+                    <td className="p-3 text-slate-300 font-mono">{quantityOf(item)}</td>
+                    <td className="p-3 text-slate-400 font-mono">{unitOf(item)}</td>
+                  </>
+                ) : (
+                  <>
+                    <td className={`p-2 ${showStock ? '' : 'pl-3'}`}>
+                      <input
+                        defaultValue={item.itemName}
+                        onBlur={(e) => commitText(i, 'itemName', e.target.value)}
+                        className={`${cellInput} font-medium text-slate-200`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        defaultValue={item.specification}
+                        onBlur={(e) => commitText(i, 'specification', e.target.value)}
+                        className={`${cellInput} text-slate-400 font-mono text-[10px]`}
+                      />
+                      {convertText(item.specification, unitSystem) !== item.specification && (
+                        <div className="px-1.5 text-[9px] text-slate-500 font-mono">{convertText(item.specification, unitSystem)}</div>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={quantityOf(item)}
+                        onBlur={(e) => commitNumber(i, 'quantityValue', e.target.value)}
+                        className={`${cellInput} text-slate-300 font-mono`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        defaultValue={unitOf(item)}
+                        onBlur={(e) => commitText(i, 'unit', e.target.value)}
+                        placeholder="pcs"
+                        className={`${cellInput} text-slate-400 font-mono placeholder-slate-700`}
+                      />
+                    </td>
+                  </>
+                )}
+                <td className="p-3">
+                  {readOnly ? (
+                    <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide border ${PRIORITY_CLASSES[item.priority]}`}>
+                      {t(PRIORITY_LABELS[item.priority])}
+                    </span>
+                  ) : (
+                    <select
+                      value={item.priority}
+                      onChange={(e) => updateItem(i, { priority: e.target.value as BOMItem['priority'] })}
+                      className={`rounded text-[9px] font-bold uppercase tracking-wide border bg-slate-950 px-1 py-0.5 focus:outline-none ${PRIORITY_CLASSES[item.priority]}`}
+                    >
+                      {(Object.keys(PRIORITY_CLASSES) as BOMItem['priority'][]).map(p => <option key={p} value={p}>{t(PRIORITY_LABELS[p])}</option>)}
+                    </select>
+                  )}
+                </td>
+                {readOnly ? (
+                  <>
+                    <td className="p-3 text-slate-400">{item.supplier || '--'}</td>
+                    <td className="p-3 text-right text-slate-300 font-mono">{item.unitCost ? formatCurrency(item.unitCost, currency, language) : '--'}</td>
+                  </>
+                ) : (
+                  <>
+                    <td className="p-2">
+                      <input
+                        defaultValue={item.supplier || ''}
+                        onBlur={(e) => commitText(i, 'supplier', e.target.value)}
+                        className={`${cellInput} text-slate-300`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        defaultValue={item.unitCost ?? ''}
+                        onBlur={(e) => commitNumber(i, 'unitCost', e.target.value)}
+                        placeholder="0.00"
+                        className={`${cellInput} text-right text-slate-300 font-mono placeholder-slate-700`}
+                      />
+                    </td>
+                  </>
+                )}
+                <td className="p-3 text-right text-slate-200 font-mono whitespace-nowrap">
+                  {item.unitCost ? formatCurrency(lineTotal(item), currency, language) : '--'}
+                </td>
+                {!readOnly && (
+                  <td className="p-2">
+                    <button onClick={() => onChange(items.filter((_, j) => j !== i))} className="p-1 text-slate-600 hover:text-red-400">
+                      <Trash2 size={12} />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="bg-slate-950 border-t border-slate-800">
+              <td colSpan={showStock ? 8 : 7} className="p-3 pl-4 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                {t('bom.estimatedTotal')}
+                {unpriced > 0 && (
+                  <span className="ml-2 normal-case font-normal text-amber-500/80">
+                    {t('bom.unpriced', { count: unpriced })}
+                  </span>
+                )}
+              </td>
+              <td className="p-3 text-right font-mono font-semibold text-emerald-400 whitespace-nowrap">{formatCurrency(total, currency, language)}</td>
+              {!readOnly && <td></td>}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-t border-slate-800 bg-slate-950/60">
+        {!readOnly && (
+          <button onClick={addItem} className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400 hover:text-emerald-300">
+            <Plus size={12} /> {t('bom.addLine')}
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-3">
+          <button onClick={exportCsv} className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400 hover:text-emerald-300">
+            <FileDown size={12} /> CSV
+          </button>
+          <button onClick={exportXlsx} className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400 hover:text-emerald-300">
+            <FileSpreadsheet size={12} /> XLSX
+          </button>
+          <button onClick={onRequisition} className="flex items-center gap-1 text-[10px] font-bold uppercase text-emerald-400 hover:text-emerald-300">
+            <FileText size={12} /> {t('bom.requisition')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BOMEditor;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { BadgeCheck, Calculator } from 'lucide-react';
+import { CalculationRecord, Language } from '../types';
+import { getTranslator } from '../i18n';
+
+interface CalculationsPanelProps {
+  calculations: CalculationRecord[];
+  language: Language;
+}
+
+const CalculationsPanel: React.FC<CalculationsPanelProps> = ({ calculations, language }) => {
+  const { t } = getTranslator(language);
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <Calculator size={12} /> {t('calc.title')}
+      </h4>
+      <div className="space-y-2">
+        {calculations.map(record => (
+          <div key={record.id} className="rounded-lg border border-slate-800 bg-slate-900/40 p-3">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <span className="text-xs font-semibold text-slate-200">{record.label}</span>
+              <span
+                className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-wide text-emerald-400"
+                title={t('calc.verifiedHint')}
+              >
+                <BadgeCheck size={11} /> {t('common.verified')}
+              </span>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-[11px]">
+              <dl className="space-y-0.5">
+                {Object.entries(record.inputs).map(([name, value]) => (
+                  <div key={name} className="flex justify-between gap-2">
+                    <dt className="text-slate-500 font-mono">{name}</dt>
+                    <dd className="text-slate-400">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              <dl className="space-y-0.5 sm:border-l sm:border-slate-800 sm:pl-4">
+                {Object.entries(record.outputs).map(([name, value]) => (
+                  <div key={name} className="flex justify-between gap-2">
+                    <dt className="text-slate-500 font-mono">{name}</dt>
+                    <dd className="text-emerald-300 font-medium">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+            <p className="mt-2 text-[10px] text-slate-600 font-mono">{record.formula}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CalculationsPanel;
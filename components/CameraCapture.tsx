@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, X, Loader2, RefreshCw } from 'lucide-react';
+import { ImageAttachment, Language } from '../types';
+import { createAttachmentId, encodeCanvas } from '../utils/images';
+import { getTranslator } from '../i18n';
+
+interface CameraCaptureProps {
+  language: Language;
+  // Remaining gallery slots; the camera closes itself once they are used up
+  remaining: number;
+  onCapture: (image: ImageAttachment) => void;
+  onClose: () => void;
+}
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ language, remaining, onCapture, onClose }) => {
+  const { t } = getTranslator(language);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(true);
+  const [captured, setCaptured] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsStarting(true);
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError(t('camera.unsupported'));
+      setIsStarting(false);
+      return;
+    }
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(err => {
+        console.error("Failed to open camera:", err);
+        setError(err?.name === 'NotAllowedError'
+          ? t('camera.denied')
+          : t('camera.unavailable'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsStarting(false);
+      });
+
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, [facingMode, language]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    onCapture({ id: createAttachmentId(), ...encodeCanvas(video, video.videoWidth, video.videoHeight) });
+    const count = captured + 1;
+    setCaptured(count);
+    if (count >= remaining) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel rounded-xl w-full max-w-2xl shadow-2xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-800 px-5 py-3">
+          <div className="flex items-center gap-2">
+            <Camera className="w-4 h-4 text-emerald-500" />
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">
+              {t('camera.title')}
+            </h3>
+            {captured > 0 && <span className="text-[10px] text-emerald-400 font-mono">+{captured}</span>}
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="relative bg-black aspect-video flex items-center justify-center">
+          {error ? (
+            <p className="text-xs text-red-300 px-6 text-center">{error}</p>
+          ) : (
+            <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-contain" />
+          )}
+          {isStarting && !error && <Loader2 className="absolute w-6 h-6 text-slate-400 animate-spin" />}
+        </div>
+
+        <div className="flex items-center justify-between px-5 py-3 border-t border-slate-800">
+          <button
+            onClick={() => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment')}
+            disabled={Boolean(error)}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase text-slate-400 hover:text-slate-200 disabled:opacity-40"
+          >
+            <RefreshCw size={12} /> {t('camera.switch')}
+          </button>
+          <button
+            onClick={handleCapture}
+            disabled={Boolean(error) || isStarting}
+            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-md text-sm font-medium"
+          >
+            <Camera size={14} /> {t('camera.capture')}
+          </button>
+          <button onClick={onClose} className="text-xs text-slate-400 hover:text-slate-200">
+            {t('common.done')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
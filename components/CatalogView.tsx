@@ -0,0 +1,161 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PackageSearch, Search, Upload, Trash2 } from 'lucide-react';
+import { CatalogPart, Language } from '../types';
+import { parseCatalogFile } from '../utils/catalog';
+import { getTranslator } from '../i18n';
+
+interface CatalogViewProps {
+  catalog: CatalogPart[];
+  currency: string;
+  language: Language;
+  onImport: (parts: CatalogPart[]) => void;
+  onSave: (part: CatalogPart) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const VISIBLE_LIMIT = 200;
+
+const CatalogView: React.FC<CatalogViewProps> = ({ catalog, currency, language, onImport, onSave, onDelete, onClear }) => {
+  const { t, formatNumber } = getTranslator(language);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const visibleParts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const matches = term
+      ? catalog.filter(part =>
+          [part.id, part.name, part.specification, part.supplier || ''].some(value => value.toLowerCase().includes(term)))
+      : catalog;
+    return matches.slice(0, VISIBLE_LIMIT);
+  }, [catalog, search]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        const { parts, skipped } = parseCatalogFile(reader.result as string, file.name, language);
+        onImport(parts);
+        setNotice({
+          text: `${t('catalog.imported', { count: parts.length })}${skipped ? ` · ${t('catalog.skipped', { count: skipped })}` : ''}`,
+          isError: false
+        });
+      } catch (err: any) {
+        setNotice({ text: err.message || t('catalog.readError'), isError: true });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto pb-12">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-xl font-semibold text-white">{t('catalog.title')}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">{t('catalog.parts', { count: catalog.length })}</span>
+          {catalog.length > 0 && (
+            <button onClick={onClear} className="text-xs text-slate-500 hover:text-red-400">
+              {t('common.clear')}
+            </button>
+          )}
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-1.5 rounded-md text-xs font-medium"
+          >
+            <Upload size={14} /> {t('catalog.import')}
+          </button>
+        </div>
+      </div>
+
+      {notice && (
+        <div className={`mb-4 p-3 rounded-lg border text-xs ${notice.isError ? 'bg-red-950/30 border-red-900/50 text-red-300' : 'bg-emerald-950/20 border-emerald-500/20 text-emerald-300'}`}>
+          {notice.text}
+        </div>
+      )}
+
+      {catalog.length === 0 ? (
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <PackageSearch className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm max-w-md mx-auto">
+            {t('catalog.empty')}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="relative mb-4">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('catalog.search')}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500"
+            />
+          </div>
+
+          <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/50">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="bg-slate-950 border-b border-slate-800 text-slate-500 font-semibold uppercase">
+                  <th className="p-3 pl-4">{t('catalog.code')}</th>
+                  <th className="p-3">{t('catalog.part')}</th>
+                  <th className="p-3">{t('bom.spec')}</th>
+                  <th className="p-3">{t('bom.unit')}</th>
+                  <th className="p-3">{t('bom.supplier')}</th>
+                  <th className="p-3 text-right">{t('catalog.cost', { currency })}</th>
+                  <th className="p-3 w-24 text-right">{t('catalog.onHand')}</th>
+                  <th className="p-3 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {visibleParts.map(part => (
+                  <tr key={part.id} className="hover:bg-slate-800/50 transition-colors">
+                    <td className="p-3 pl-4 font-mono text-slate-100">{part.id}</td>
+                    <td className="p-3 text-slate-200">{part.name}</td>
+                    <td className="p-3 text-slate-400 font-mono text-[10px]">{part.specification}</td>
+                    <td className="p-3 text-slate-400">{part.unit || '--'}</td>
+                    <td className="p-3 text-slate-400">{part.supplier || '--'}</td>
+                    <td className="p-3 text-right text-slate-300 font-mono">{part.unitCost !== undefined ? formatNumber(part.unitCost, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '--'}</td>
+                    <td className="p-2">
+                      <input
+                        key={`${part.id}:${part.updatedAt}`}
+                        type="number"
+                        min={0}
+                        defaultValue={part.stockOnHand}
+                        onBlur={(e) => {
+                          const stockOnHand = Math.max(0, Number(e.target.value) || 0);
+                          if (stockOnHand !== part.stockOnHand) onSave({ ...part, stockOnHand, updatedAt: Date.now() });
+                        }}
+                        className={`w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-emerald-500 rounded px-1.5 py-1 text-right font-mono focus:outline-none focus:bg-slate-950 ${
+                          part.stockOnHand === 0 ? 'text-red-400' : 'text-slate-200'
+                        }`}
+                      />
+                    </td>
+                    <td className="p-2">
+                      <button onClick={() => onDelete(part.id)} className="p-1 text-slate-600 hover:text-red-400">
+                        <Trash2 size={12} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visibleParts.length === VISIBLE_LIMIT && (
+            <p className="text-[10px] text-slate-500 mt-2">
+              {t('catalog.limit', { count: VISIBLE_LIMIT })}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CatalogView;
@@ -0,0 +1,230 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, Columns3, GitMerge, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { AIProviderId, CompareRun, Language, ModelVariant } from '../types';
+import { PROVIDERS } from '../services/providers';
+import { MAX_COMPARE_VARIANTS } from '../services/settingsStore';
+import { findDisagreements, variantLabel } from '../utils/compare';
+import { getTranslator } from '../i18n';
+
+interface CompareViewProps {
+  variants: ModelVariant[];
+  runs: CompareRun[];
+  isRunning: boolean;
+  // False while there is no problem description to run
+  canRun: boolean;
+  language: Language;
+  onVariantsChange: (variants: ModelVariant[]) => void;
+  onRun: () => void;
+  onChoose: (index: number, merge: boolean) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-500';
+
+const CompareView: React.FC<CompareViewProps> = ({ variants, runs, isRunning, canRun, language, onVariantsChange, onRun, onChoose, onClose }) => {
+  const { t, formatNumber } = getTranslator(language);
+
+  const done = runs.map((run, index) => ({ run, index })).filter(({ run }) => run.status === 'done' && run.solution);
+  const disagreements = useMemo(
+    () => done.length > 1 ? findDisagreements(done.map(({ run }) => run.solution!)) : undefined,
+    [runs]
+  );
+  // Unique hypotheses are reported per finished run; map them back to the column they belong to
+  const uniqueFor = (index: number) => {
+    const position = done.findIndex(entry => entry.index === index);
+    return position >= 0 && disagreements ? disagreements.uniqueHypotheses[position] : [];
+  };
+
+  const updateVariant = (id: string, changes: Partial<ModelVariant>) =>
+    onVariantsChange(variants.map(variant => variant.id === id ? { ...variant, ...changes } : variant));
+
+  const addVariant = () => {
+    const last = variants[variants.length - 1];
+    onVariantsChange([...variants, { ...last, id: crypto.randomUUID() }]);
+  };
+
+  const sectionTitle = (label: string, differs?: boolean) => (
+    <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-1 ${differs ? 'text-amber-400' : 'text-slate-500'}`}>
+      {label}{differs && ` · ${t('compare.differs')}`}
+    </h4>
+  );
+
+  const valueClass = (differs?: boolean) => `text-xs leading-relaxed whitespace-pre-line rounded-md p-2.5 border ${
+    differs ? 'bg-amber-950/20 border-amber-500/20 text-slate-200' : 'bg-slate-900/50 border-slate-800 text-slate-300'
+  }`;
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="border-b border-slate-800 bg-slate-900/50 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Columns3 className="w-5 h-5 text-emerald-500" />
+          <h2 className="text-base font-semibold text-slate-100">{t('compare.title')}</h2>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">{t('compare.hint')}</p>
+          {variants.map(variant => (
+            <div key={variant.id} className="flex flex-wrap items-center gap-2">
+              <select
+                value={variant.provider}
+                disabled={isRunning}
+                aria-label={t('compare.provider')}
+                onChange={(e) => {
+                  const provider = e.target.value as AIProviderId;
+                  updateVariant(variant.id, { provider, model: PROVIDERS[provider].defaults.model });
+                }}
+                className={inputClass}
+              >
+                {(Object.keys(PROVIDERS) as AIProviderId[]).map(id => (
+                  <option key={id} value={id}>{PROVIDERS[id].label}</option>
+                ))}
+              </select>
+              <input
+                value={variant.model}
+                disabled={isRunning}
+                aria-label={t('compare.model')}
+                placeholder={t('compare.model')}
+                onChange={(e) => updateVariant(variant.id, { model: e.target.value })}
+                className={`${inputClass} flex-1 min-w-[10rem] font-mono`}
+              />
+              <label className="flex items-center gap-1.5 text-[10px] text-slate-500 uppercase font-bold">
+                {t('compare.temperature')}
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={variant.temperature}
+                  disabled={isRunning}
+                  onChange={(e) => updateVariant(variant.id, { temperature: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+                  className={`${inputClass} w-16 font-mono`}
+                />
+              </label>
+              <button
+                onClick={() => onVariantsChange(variants.filter(other => other.id !== variant.id))}
+                disabled={isRunning || variants.length <= 2}
+                className="p-1 text-slate-600 hover:text-red-400 disabled:opacity-30"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-1">
+            {variants.length < MAX_COMPARE_VARIANTS && (
+              <button onClick={addVariant} disabled={isRunning} className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50">
+                <Plus size={12} /> {t('compare.addVariant')}
+              </button>
+            )}
+            <button
+              onClick={onRun}
+              disabled={isRunning || !canRun || variants.some(variant => !variant.model.trim())}
+              className="ml-auto flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-1.5 rounded-md text-xs font-medium"
+            >
+              {isRunning ? <Loader2 size={12} className="animate-spin" /> : <Columns3 size={12} />}
+              {isRunning ? t('compare.running') : t('compare.run')}
+            </button>
+          </div>
+        </div>
+
+        {runs.length > 0 && (
+          <div className={`grid grid-cols-1 gap-4 ${runs.length === 3 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+            {runs.map((run, index) => {
+              const unique = uniqueFor(index);
+              return (
+                <div key={run.variant.id} className="rounded-lg border border-slate-800 bg-slate-950/40 p-4 flex flex-col gap-4">
+                  <div>
+                    <div className="text-xs font-semibold text-slate-100 font-mono truncate">{variantLabel(run.variant)}</div>
+                    <div className="text-[10px] text-slate-500">{PROVIDERS[run.variant.provider].label}</div>
+                  </div>
+
+                  {run.status === 'running' && (
+                    <div className="flex items-center gap-2 text-xs text-slate-400">
+                      <Loader2 size={12} className="animate-spin" /> {t('solver.analyzing')}
+                    </div>
+                  )}
+
+                  {run.status === 'failed' && (
+                    <div className="flex items-start gap-2 text-xs text-red-400">
+                      <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {run.error}
+                    </div>
+                  )}
+
+                  {run.status === 'done' && run.solution && (
+                    <>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          {sectionTitle(t('versions.confidence'), disagreements?.confidence)}
+                          <div className={`${valueClass(disagreements?.confidence)} font-mono`}>
+                            {formatNumber(run.solution.confidence, { style: 'percent' })}
+                          </div>
+                        </div>
+                        <div>
+                          {sectionTitle(t('versions.timeToComplete'), disagreements?.timeToComplete)}
+                          <div className={valueClass(disagreements?.timeToComplete)}>{run.solution.timeToComplete || '--'}</div>
+                        </div>
+                      </div>
+
+                      <div>
+                        {sectionTitle(t('versions.finalResult'), disagreements?.finalResult)}
+                        <div className={valueClass(disagreements?.finalResult)}>{run.solution.finalResult}</div>
+                      </div>
+
+                      <div className="flex-1">
+                        {sectionTitle(t('compare.hypotheses'), disagreements?.diagnosticTree)}
+                        <ul className="space-y-1.5">
+                          {(run.solution.diagnosticTree || []).map((node, i) => (
+                            <li
+                              key={i}
+                              className={`text-xs rounded-md p-2 border ${
+                                unique.includes(i) ? 'bg-amber-950/20 border-amber-500/20' : 'bg-slate-900/50 border-slate-800'
+                              }`}
+                            >
+                              <div className="text-slate-200">
+                                {node.hypothesis}
+                                {unique.includes(i) && (
+                                  <span className="ml-2 text-[9px] font-bold uppercase tracking-wide text-amber-400">{t('compare.onlyHere')}</span>
+                                )}
+                              </div>
+                              <div className="text-[11px] text-slate-500 mt-0.5">{node.test}</div>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => onChoose(index, false)}
+                          disabled={isRunning}
+                          className="flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white px-3 py-1.5 rounded-md text-xs font-medium"
+                        >
+                          {t('compare.use')}
+                        </button>
+                        {done.length > 1 && (
+                          <button
+                            onClick={() => onChoose(index, true)}
+                            disabled={isRunning}
+                            title={t('compare.mergeHint')}
+                            className="flex items-center justify-center gap-1.5 flex-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 px-3 py-1.5 rounded-md text-xs font-medium border border-slate-700"
+                          >
+                            <GitMerge size={12} /> {t('compare.merge')}
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { ShoppingCart, X } from 'lucide-react';
+import { BOMItem, CatalogPart, Language, ProblemSolution, UnitSystem, WorkOrder } from '../types';
+import { consolidateBOM } from '../utils/bom';
+import BOMEditor from './BOMEditor';
+import { getTranslator } from '../i18n';
+
+interface ConsolidatedBOMProps {
+  solutions: ProblemSolution[];
+  workOrders: WorkOrder[];
+  catalog: CatalogPart[];
+  currency: string;
+  unitSystem: UnitSystem;
+  language: Language;
+  onRequisition: (items: BOMItem[], sources: string[], workOrder?: WorkOrder) => void;
+  onClose: () => void;
+}
+
+// Edits here shape the order only; the source solutions keep their own BOMs
+const ConsolidatedBOM: React.FC<ConsolidatedBOMProps> = ({ solutions, workOrders, catalog, currency, unitSystem, language, onRequisition, onClose }) => {
+  const { t } = getTranslator(language);
+  const [items, setItems] = useState<BOMItem[]>(() => consolidateBOM(solutions));
+  const linkedIds = [...new Set(solutions.map(item => item.workOrderId).filter(Boolean))];
+  const [workOrderId, setWorkOrderId] = useState(linkedIds.length === 1 ? linkedIds[0] : '');
+  const sources = solutions.map(item => item.id.slice(-8));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel rounded-xl w-full max-w-5xl max-h-full overflow-y-auto shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-800 px-5 py-3">
+          <div className="flex items-center gap-2">
+            <ShoppingCart className="w-4 h-4 text-emerald-500" />
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">
+              {t('order.title')}
+            </h3>
+            <span className="text-[10px] text-slate-500 font-mono">
+              {t('order.diagnoses', { count: solutions.length })} · {sources.join(', ')}
+            </span>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="flex items-center gap-2 text-xs">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              {t('order.chargeTo')}
+            </label>
+            <select
+              value={workOrderId}
+              onChange={(e) => setWorkOrderId(e.target.value)}
+              className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-300 focus:outline-none focus:border-emerald-500"
+            >
+              <option value="">{t('order.noWorkOrder')}</option>
+              {workOrders.map(wo => <option key={wo.id} value={wo.id}>{wo.number} · {wo.client}</option>)}
+            </select>
+          </div>
+
+          {items.length > 0 ? (
+            <BOMEditor
+              items={items}
+              currency={currency}
+              unitSystem={unitSystem}
+              language={language}
+              catalog={catalog}
+              exportName={`omnieng53-order-${new Date().toISOString().slice(0, 10)}`}
+              onChange={setItems}
+              onRequisition={() => onRequisition(items, sources, workOrders.find(wo => wo.id === workOrderId))}
+            />
+          ) : (
+            <div className="p-4 bg-slate-900/30 border border-slate-800 border-dashed rounded text-center text-xs text-slate-500">
+              {t('order.empty')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsolidatedBOM;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { MessageSquare, HelpCircle, Send, Loader2, GitCompare } from 'lucide-react';
+import { Language, ProblemSolution } from '../types';
+import { getTranslator } from '../i18n';
+
+interface ConversationThreadProps {
+  solution: ProblemSolution;
+  language: Language;
+  isSending: boolean;
+  onSend: (message: string) => void;
+  onCompare?: () => void;
+}
+
+const ConversationThread: React.FC<ConversationThreadProps> = ({ solution, language, isSending, onSend, onCompare }) => {
+  const { t, formatDate } = getTranslator(language);
+  const [message, setMessage] = useState('');
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+
+  const questions = solution.clarificationQuestions || [];
+  const conversation = solution.conversation || [];
+  const hasAnswers = questions.some((_, i) => answers[i]?.trim());
+
+  const sendAnswers = () => {
+    const text = questions
+      .map((question, i) => answers[i]?.trim() ? `Q: ${question}\nA: ${answers[i].trim()}` : null)
+      .filter(Boolean)
+      .join('\n\n');
+    if (!text) return;
+    onSend(text);
+    setAnswers({});
+  };
+
+  const sendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+    onSend(message.trim());
+    setMessage('');
+  };
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="border-b border-slate-800 bg-slate-900/50 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <MessageSquare className="w-5 h-5 text-emerald-500" />
+          <h2 className="text-base font-semibold text-slate-100">
+            {t('conversation.title')}
+          </h2>
+        </div>
+        {onCompare && (
+          <button
+            onClick={onCompare}
+            className="text-xs text-emerald-400 hover:text-emerald-300 font-medium flex items-center gap-1"
+          >
+            <GitCompare size={12} />
+            {t('conversation.compare')}
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-6">
+        {questions.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+              <HelpCircle size={12} /> {t('conversation.clarification')}
+            </h4>
+            <div className="space-y-3">
+              {questions.map((question, i) => (
+                <div key={i} className="space-y-1.5">
+                  <p className="text-xs text-slate-300">{question}</p>
+                  <input
+                    type="text"
+                    value={answers[i] || ''}
+                    onChange={(e) => setAnswers(prev => ({ ...prev, [i]: e.target.value }))}
+                    disabled={isSending}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-md px-3 py-1.5 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+                  />
+                </div>
+              ))}
+              <button
+                onClick={sendAnswers}
+                disabled={isSending || !hasAnswers}
+                className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-3 py-1.5 rounded-md text-xs font-medium"
+              >
+                {t('conversation.submit')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {conversation.length > 0 && (
+          <div className="space-y-3">
+            {conversation.map((turn, i) => (
+              <div key={i} className={`flex ${turn.role === 'technician' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-lg px-3 py-2 text-xs leading-relaxed whitespace-pre-line border ${
+                  turn.role === 'technician'
+                    ? 'bg-slate-800/70 border-slate-700 text-slate-200'
+                    : 'bg-emerald-950/30 border-emerald-500/20 text-emerald-100'
+                }`}>
+                  {turn.text}
+                  <div className="mt-1 text-[9px] font-mono text-slate-500 uppercase">
+                    {formatDate(turn.timestamp, { timeStyle: 'short' })}
+                    {turn.version && ` · v${turn.version}`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={sendMessage} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            disabled={isSending}
+            placeholder={t('conversation.placeholder')}
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !message.trim()}
+            className="p-2 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white"
+          >
+            {isSending ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationThread;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Binary, Plus, ExternalLink, BadgeCheck, AlertTriangle } from 'lucide-react';
+import { Asset, CalculationRecord, Language, UnitSystem } from '../types';
+import { isVerifiedValue } from '../utils/calculations';
+import { displayValue } from '../utils/units';
+import { ValueIssue } from '../utils/plausibility';
+import { getTranslator } from '../i18n';
+
+interface DetectedAssetsProps {
+  variables: Record<string, string>;
+  // Values matching a tool output are marked as verified
+  calculations?: CalculationRecord[];
+  unitSystem: UnitSystem;
+  // Implausible or inconsistent values, keyed by variable name
+  issues?: ValueIssue[];
+  assetId?: string;
+  asset?: Asset;
+  pastInterventionCount: number;
+  language: Language;
+  onRegister: () => void;
+  onOpenAsset: () => void;
+}
+
+const DetectedAssets: React.FC<DetectedAssetsProps> = ({ variables, calculations, unitSystem, issues = [], assetId, asset, pastInterventionCount, language, onRegister, onOpenAsset }) => {
+  const { t } = getTranslator(language);
+
+  return (
+    <div className="glass-panel rounded-xl p-5">
+       <div className="flex items-center justify-between border-b border-slate-800 pb-3 mb-4">
+          <div className="flex items-center gap-2">
+            <Binary className="w-4 h-4 text-slate-400" />
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">{t('detected.title')}</h3>
+          </div>
+          {assetId && (asset ? (
+            <button onClick={onOpenAsset} className="text-[10px] font-bold uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1">
+              <ExternalLink size={10} /> {asset.id}
+            </button>
+          ) : (
+            <button onClick={onRegister} className="text-[10px] font-bold uppercase text-emerald-400 hover:text-emerald-300 flex items-center gap-1">
+              <Plus size={10} /> {t('detected.register', { id: assetId })}
+            </button>
+          ))}
+        </div>
+        {asset && pastInterventionCount > 0 && (
+          <div className="mb-3 px-2 py-1.5 rounded bg-amber-500/10 border border-amber-500/20 text-[10px] text-amber-400 font-medium">
+            {t('detected.pastInterventions', { count: pastInterventionCount })}
+          </div>
+        )}
+        <div className="space-y-2">
+          {Object.entries(variables).map(([key, val]) => {
+            const value = String(val);
+            const converted = displayValue(value, unitSystem);
+            const issue = issues.find(candidate => candidate.key === key);
+            return (
+              <div key={key} className="border-b border-slate-800/50 pb-2 last:border-0">
+                <div className="flex justify-between items-center text-xs">
+                  <span className="text-slate-500 font-mono">{key}</span>
+                  <span
+                    className={`font-medium text-right flex items-center gap-1 ${issue ? 'text-amber-300' : 'text-slate-300'}`}
+                    title={converted !== value ? t('detected.reportedAs', { value }) : undefined}
+                  >
+                    {isVerifiedValue(value, calculations) && (
+                      <BadgeCheck size={11} className="text-emerald-400 shrink-0" aria-label={t('common.verified')} />
+                    )}
+                    {issue && <AlertTriangle size={11} className="text-amber-400 shrink-0" />}
+                    {converted}
+                  </span>
+                </div>
+                {issue && <p className="mt-1 text-[10px] text-amber-400/80 text-right">{t(issue.message, issue.params)}</p>}
+              </div>
+            );
+          })}
+        </div>
+    </div>
+  );
+};
+
+export default DetectedAssets;
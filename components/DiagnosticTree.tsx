@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import { CheckCircle2, XCircle, MinusCircle, Camera, X, Loader2, GitBranch } from 'lucide-react';
+import { DiagnosticNode, Language, TestOutcome } from '../types';
+import { NodePath, pathKey } from '../utils/diagnosticTree';
+import { prepareImage } from '../utils/images';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface DiagnosticTreeProps {
+  nodes: DiagnosticNode[];
+  language: Language;
+  readOnly?: boolean;
+  expandingKey: string | null;
+  onUpdate: (path: NodePath, patch: Partial<DiagnosticNode>) => void;
+  onExpand: (path: NodePath) => void;
+}
+
+interface NodeCardProps extends Omit<DiagnosticTreeProps, 'nodes'> {
+  node: DiagnosticNode;
+  path: NodePath;
+}
+
+const OUTCOMES: { value: TestOutcome; icon: React.ReactNode; label: MessageKey; active: string }[] = [
+  { value: 'passed', icon: <CheckCircle2 size={12} />, label: 'tree.passed', active: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/40' },
+  { value: 'failed', icon: <XCircle size={12} />, label: 'tree.failed', active: 'bg-red-500/10 text-red-400 border-red-500/40' },
+  { value: 'not-run', icon: <MinusCircle size={12} />, label: 'tree.notRun', active: 'bg-slate-700/40 text-slate-300 border-slate-600' }
+];
+
+const NodeCard: React.FC<NodeCardProps> = ({ node, path, language, readOnly, expandingKey, onUpdate, onExpand }) => {
+  const { t } = getTranslator(language);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const outcome = node.outcome || 'not-run';
+  const isExpanding = expandingKey === pathKey(path);
+
+  const handlePhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      prepareImage(file)
+        .then(image => onUpdate(path, { photo: image.dataUrl, recordedAt: Date.now() }))
+        .catch(err => console.error("Failed to attach test photo:", err));
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className={`bg-slate-900/50 border p-3 rounded-lg ${
+        outcome === 'failed' ? 'border-red-500/30' : outcome === 'passed' ? 'border-emerald-500/30' : 'border-slate-800'
+      }`}>
+        <div className="text-[10px] text-slate-500 font-bold uppercase mb-1">{t('tree.hypothesis')}</div>
+        <div className="text-xs text-slate-300 mb-2">{node.hypothesis}</div>
+        <div className="text-[10px] text-emerald-500 font-bold uppercase mb-1">{t('tree.verification')}</div>
+        <div className="text-xs text-slate-300">{node.test}</div>
+
+        {!readOnly && (
+          <div className="mt-3 pt-3 border-t border-slate-800/70 space-y-2">
+            <div className="flex flex-wrap items-center gap-1.5">
+              {OUTCOMES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onUpdate(path, { outcome: option.value, recordedAt: Date.now() })}
+                  className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide border transition-colors ${
+                    outcome === option.value ? option.active : 'border-transparent text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {option.icon}
+                  {t(option.label)}
+                </button>
+              ))}
+
+              {outcome === 'failed' && !node.children?.length && (
+                <button
+                  onClick={() => onExpand(path)}
+                  disabled={isExpanding}
+                  className="ml-auto flex items-center gap-1 text-[10px] font-bold uppercase text-emerald-400 hover:text-emerald-300 disabled:opacity-50"
+                >
+                  {isExpanding ? <Loader2 size={12} className="animate-spin" /> : <GitBranch size={12} />}
+                  {t('tree.expand')}
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                defaultValue={node.reading || ''}
+                onBlur={(e) => {
+                  if (e.target.value !== (node.reading || '')) {
+                    onUpdate(path, { reading: e.target.value || undefined, recordedAt: Date.now() });
+                  }
+                }}
+                placeholder={t('tree.reading')}
+                className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500 font-mono"
+              />
+              <input type="file" ref={photoInputRef} className="hidden" accept="image/*" onChange={handlePhoto} />
+              {node.photo ? (
+                <div className="flex items-center gap-1 bg-slate-900 rounded border border-slate-700 pr-1">
+                  <img src={node.photo} className="h-6 w-6 object-cover rounded-l" alt="Test evidence" />
+                  <button onClick={() => onUpdate(path, { photo: undefined })} className="text-slate-500 hover:text-red-400">
+                    <X size={10} />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => photoInputRef.current?.click()}
+                  className="p-1.5 rounded bg-slate-800 text-slate-400 hover:text-slate-200 border border-slate-700"
+                  title={t('tree.attachPhoto')}
+                >
+                  <Camera size={12} />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {readOnly && node.outcome && node.outcome !== 'not-run' && (
+          <div className={`mt-2 text-[10px] font-bold uppercase ${node.outcome === 'failed' ? 'text-red-400' : 'text-emerald-400'}`}>
+            {node.outcome}{node.reading ? ` · ${node.reading}` : ''}
+          </div>
+        )}
+      </div>
+
+      {node.children && node.children.length > 0 && (
+        <div className="ml-4 pl-3 border-l border-slate-800 space-y-2">
+          {node.children.map((child, i) => (
+            <NodeCard
+              key={i}
+              node={child}
+              path={[...path, i]}
+              language={language}
+              readOnly={readOnly}
+              expandingKey={expandingKey}
+              onUpdate={onUpdate}
+              onExpand={onExpand}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DiagnosticTree: React.FC<DiagnosticTreeProps> = ({ nodes, ...props }) => (
+  <div className="space-y-3">
+    {nodes.map((node, i) => (
+      <NodeCard key={i} node={node} path={[i]} {...props} />
+    ))}
+  </div>
+);
+
+export default DiagnosticTree;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Bot, Building, Cog, Cpu, Fan, FlaskConical, Fuel, Gauge, Landmark, LucideIcon, Wrench } from 'lucide-react';
+import { EngineeringField } from '../types';
+import { getDiscipline } from '../utils/disciplines';
+
+// The icons a discipline in the registry can name
+const ICONS: Record<string, LucideIcon> = {
+  wrench: Wrench,
+  cpu: Cpu,
+  building: Building,
+  flask: FlaskConical,
+  bot: Bot,
+  fan: Fan,
+  gauge: Gauge,
+  landmark: Landmark,
+  fuel: Fuel
+};
+
+interface DisciplineIconProps {
+  field: EngineeringField;
+  className?: string;
+}
+
+const DisciplineIcon: React.FC<DisciplineIconProps> = ({ field, className = 'w-4 h-4' }) => {
+  const Icon = ICONS[getDiscipline(field).icon] || Cog;
+  return <Icon className={className} />;
+};
+
+export default DisciplineIcon;
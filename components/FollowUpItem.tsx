@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { FollowUpCompletion, FollowUpTask, Language } from '../types';
+import { FollowUpStatus, followUpStatus } from '../utils/followUps';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface FollowUpItemProps {
+  task: FollowUpTask;
+  now: number;
+  language: Language;
+  onChange: (completion?: FollowUpCompletion) => void;
+}
+
+const STATUS_BADGES: Record<FollowUpStatus, { label: MessageKey; className: string }> = {
+  done: { label: 'followUp.done', className: 'text-emerald-400' },
+  overdue: { label: 'followUp.overdue', className: 'text-red-400' },
+  'due-today': { label: 'followUp.dueToday', className: 'text-amber-400' },
+  upcoming: { label: 'followUp.due', className: 'text-slate-500' }
+};
+
+const FollowUpItem: React.FC<FollowUpItemProps> = ({ task, now, language, onChange }) => {
+  const { t, formatDateTime } = getTranslator(language);
+  const [note, setNote] = useState(task.completion?.note || '');
+  const status = followUpStatus(task, now);
+  const badge = STATUS_BADGES[status];
+
+  useEffect(() => {
+    setNote(task.completion?.note || '');
+  }, [task.completion?.note]);
+
+  const saveNote = () => {
+    if (!task.completion || note.trim() === (task.completion.note || '')) return;
+    onChange({ ...task.completion, note: note.trim() || undefined });
+  };
+
+  return (
+    <li className="text-xs">
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!!task.completion}
+          onChange={(e) => onChange(e.target.checked ? { completedAt: Date.now(), note: note.trim() || undefined } : undefined)}
+          className="mt-0.5 accent-emerald-500"
+        />
+        <span className={task.completion ? 'text-slate-500 line-through' : 'text-slate-300'}>{task.item}</span>
+      </label>
+      <div className="ml-5 mt-0.5 flex items-center gap-2 text-[10px]">
+        <span className={`font-bold uppercase tracking-wide ${badge.className}`}>{t(badge.label)}</span>
+        <span className="font-mono text-slate-600">
+          {formatDateTime(task.completion ? task.completion.completedAt : task.dueAt)}
+        </span>
+      </div>
+      {task.completion && (
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={saveNote}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          placeholder={t('followUp.note')}
+          className="ml-5 mt-1 w-[calc(100%-1.25rem)] bg-slate-950 border border-slate-800 rounded px-2 py-1 text-[11px] text-slate-300 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+        />
+      )}
+    </li>
+  );
+};
+
+export default FollowUpItem;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Bell, BellOff, CalendarClock, ExternalLink } from 'lucide-react';
+import { FollowUpCompletion, FollowUpTask, Language, ProblemSolution } from '../types';
+import FollowUpItem from './FollowUpItem';
+import { followUpStatus, openFollowUps } from '../utils/followUps';
+import { MessageKey, getTranslator } from '../i18n';
+import { disciplineName } from '../utils/disciplines';
+
+interface FollowUpsViewProps {
+  history: ProblemSolution[];
+  now: number;
+  language: Language;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onEnableNotifications: () => void;
+  onChange: (task: FollowUpTask, completion?: FollowUpCompletion) => void;
+  onOpenSolution: (item: ProblemSolution) => void;
+}
+
+const SECTIONS: { status: 'overdue' | 'due-today' | 'upcoming'; label: MessageKey; className: string }[] = [
+  { status: 'overdue', label: 'followUps.overdue', className: 'text-red-400' },
+  { status: 'due-today', label: 'followUps.dueToday', className: 'text-amber-400' },
+  { status: 'upcoming', label: 'followUps.upcoming', className: 'text-slate-400' }
+];
+
+const FollowUpsView: React.FC<FollowUpsViewProps> = ({
+  history, now, language, notificationPermission, onEnableNotifications, onChange, onOpenSolution
+}) => {
+  const { t } = getTranslator(language);
+  const tasks = openFollowUps(history);
+  const solutions = new Map<string, ProblemSolution>(history.map(item => [item.id, item]));
+
+  return (
+    <div className="max-w-4xl mx-auto pb-12">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-xl font-semibold text-white">{t('nav.followUps')}</h2>
+        {notificationPermission === 'unsupported' ? null : notificationPermission === 'granted' ? (
+          <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+            <Bell size={12} /> {t('followUps.remindersOn')}
+          </span>
+        ) : notificationPermission === 'denied' ? (
+          <span className="flex items-center gap-1.5 text-xs text-slate-500" title={t('followUps.blockedHint')}>
+            <BellOff size={12} /> {t('followUps.blocked')}
+          </span>
+        ) : (
+          <button
+            onClick={onEnableNotifications}
+            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-1.5 rounded-md text-xs font-medium"
+          >
+            <Bell size={14} /> {t('followUps.enable')}
+          </button>
+        )}
+      </div>
+
+      {tasks.length === 0 ? (
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <CalendarClock className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm">{t('followUps.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {SECTIONS.map(section => {
+            const inSection = tasks.filter(task => followUpStatus(task, now) === section.status);
+            if (inSection.length === 0) return null;
+            const bySolution = Array.from(new Set(inSection.map(task => task.solutionId)));
+
+            return (
+              <div key={section.status}>
+                <h3 className={`text-xs font-bold uppercase tracking-wider mb-3 ${section.className}`}>
+                  {t(section.label, { count: inSection.length })}
+                </h3>
+                <div className="space-y-3">
+                  {bySolution.map(solutionId => {
+                    const solution = solutions.get(solutionId)!;
+                    return (
+                      <div key={solutionId} className="bg-slate-900/50 border border-slate-800 rounded-lg p-4">
+                        <button
+                          onClick={() => onOpenSolution(solution)}
+                          className="w-full flex items-center justify-between gap-2 mb-3 text-left group"
+                        >
+                          <span className="flex items-center gap-2 min-w-0">
+                            <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-800 text-slate-300 border border-slate-700 uppercase shrink-0">{disciplineName(solution.field, language)}</span>
+                            <span className="text-sm text-slate-200 line-clamp-1 group-hover:text-white">{solution.query}</span>
+                          </span>
+                          <ExternalLink size={12} className="text-slate-500 group-hover:text-emerald-400 shrink-0" />
+                        </button>
+                        <ul className="space-y-2">
+                          {inSection.filter(task => task.solutionId === solutionId).map(task => (
+                            <FollowUpItem
+                              key={task.id}
+                              task={task}
+                              now={now}
+                              language={language}
+                              onChange={(completion) => onChange(task, completion)}
+                            />
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FollowUpsView;
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, Circle, Type, Square, Undo2, Trash2, X, Loader2 } from 'lucide-react';
+import { Annotation, AnnotationShape, ImageAttachment, Language } from '../types';
+import { ANNOTATION_COLORS, drawAnnotation, flattenAnnotations, loadImageElement } from '../utils/annotations';
+import { createAttachmentId } from '../utils/images';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface ImageAnnotatorProps {
+  image: ImageAttachment;
+  language: Language;
+  onSave: (image: ImageAttachment) => void;
+  onClose: () => void;
+}
+
+const TOOLS: { shape: AnnotationShape; icon: React.ReactNode; label: MessageKey }[] = [
+  { shape: 'arrow', icon: <ArrowUpRight size={14} />, label: 'annotator.arrow' },
+  { shape: 'circle', icon: <Circle size={14} />, label: 'annotator.circle' },
+  { shape: 'text', icon: <Type size={14} />, label: 'annotator.label' },
+  { shape: 'redact', icon: <Square size={14} fill="currentColor" />, label: 'annotator.redact' }
+];
+
+// Drags shorter than this are treated as accidental taps
+const MIN_DRAG = 0.01;
+
+const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ image, language, onSave, onClose }) => {
+  const { t } = getTranslator(language);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>(image.annotations || []);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [tool, setTool] = useState<AnnotationShape>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [labelText, setLabelText] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(image.originalDataUrl || image.dataUrl)
+      .then(img => {
+        if (cancelled) return;
+        imgRef.current = img;
+        setIsLoading(false);
+      })
+      .catch(err => !cancelled && setError(err.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // Redraws the photo and every shape at full resolution; CSS scales the canvas to fit the modal
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const img = imgRef.current;
+    if (!canvas || !img) return;
+
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    [...annotations, ...(draft ? [draft] : [])].forEach(annotation => drawAnnotation(ctx, annotation, canvas.width, canvas.height));
+  }, [annotations, draft, isLoading]);
+
+  const pointFromEvent = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = pointFromEvent(e);
+
+    if (tool === 'text') {
+      if (!labelText.trim()) return;
+      setAnnotations(prev => [...prev, { id: createAttachmentId(), shape: 'text', x1: x, y1: y, x2: x, y2: y, color, text: labelText.trim() }]);
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ id: createAttachmentId(), shape: tool, x1: x, y1: y, x2: x, y2: y, color });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const { x, y } = pointFromEvent(e);
+    setDraft(prev => prev && { ...prev, x2: x, y2: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    if (Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1) >= MIN_DRAG) {
+      setAnnotations(prev => [...prev, draft]);
+    }
+    setDraft(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      onSave(await flattenAnnotations(image, annotations));
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Could not save the annotated image.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/90 backdrop-blur-sm p-4">
+      <div className="glass-panel rounded-xl w-full max-w-5xl max-h-full flex flex-col shadow-2xl overflow-hidden">
+        <div className="flex flex-wrap items-center gap-2 border-b border-slate-800 px-4 py-2">
+          {TOOLS.map(option => (
+            <button
+              key={option.shape}
+              onClick={() => setTool(option.shape)}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wide border transition-colors ${
+                tool === option.shape ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/40' : 'border-transparent text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {option.icon} {t(option.label)}
+            </button>
+          ))}
+
+          {tool === 'text' && (
+            <input
+              type="text"
+              value={labelText}
+              onChange={(e) => setLabelText(e.target.value)}
+              placeholder={t('annotator.labelPlaceholder')}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500 w-56"
+            />
+          )}
+
+          {tool !== 'redact' && (
+            <div className="flex items-center gap-1 ml-1">
+              {ANNOTATION_COLORS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setColor(option)}
+                  className={`w-4 h-4 rounded-full border-2 ${color === option ? 'border-slate-100' : 'border-slate-700'}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={() => setAnnotations(prev => prev.slice(0, -1))}
+              disabled={annotations.length === 0}
+              className="p-1.5 rounded text-slate-400 hover:text-slate-200 disabled:opacity-40"
+              title={t('common.undo')}
+            >
+              <Undo2 size={14} />
+            </button>
+            <button
+              onClick={() => setAnnotations([])}
+              disabled={annotations.length === 0}
+              className="p-1.5 rounded text-slate-400 hover:text-red-400 disabled:opacity-40"
+              title={t('annotator.clearAll')}
+            >
+              <Trash2 size={14} />
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded text-slate-500 hover:text-slate-200">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 bg-black flex items-center justify-center p-2 overflow-auto">
+          {error ? (
+            <p className="text-xs text-red-300">{error}</p>
+          ) : isLoading ? (
+            <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+          ) : (
+            <canvas
+              ref={canvasRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDraft(null)}
+              className="max-w-full max-h-[70vh] cursor-crosshair touch-none"
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between border-t border-slate-800 px-4 py-2">
+          <p className="text-[10px] text-slate-500">
+            {t('annotator.redactHint')}
+          </p>
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded-md text-xs text-slate-400 hover:text-slate-200">
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isLoading || isSaving || Boolean(error)}
+              className="flex items-center gap-1.5 px-4 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white text-xs font-medium"
+            >
+              {isSaving && <Loader2 size={12} className="animate-spin" />}
+              {t('common.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnnotator;
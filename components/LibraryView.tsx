@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { BookOpen, Loader2, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { Language, LibraryDocument } from '../types';
+import { LIBRARY_ACCEPT } from '../services/library';
+import { getTranslator } from '../i18n';
+
+interface LibraryViewProps {
+  documents: LibraryDocument[];
+  // The embedder new uploads are indexed with and queries are searched with
+  embedder: string;
+  language: Language;
+  onUpload: (file: File) => Promise<LibraryDocument>;
+  onReindex: (document: LibraryDocument) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+const LibraryView: React.FC<LibraryViewProps> = ({ documents, embedder, language, onUpload, onReindex, onDelete }) => {
+  const { t, formatNumber, formatDate } = getTranslator(language);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const formatSize = (bytes: number) => bytes >= 1024 * 1024
+    ? `${formatNumber(bytes / (1024 * 1024), { maximumFractionDigits: 1 })} MB`
+    : `${formatNumber(Math.max(1, Math.round(bytes / 1024)))} KB`;
+
+  const stale = documents.filter(document => document.embedder !== embedder);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files || [])];
+    e.target.value = '';
+    setNotice(null);
+
+    // One at a time: a provider embedder is rate limited, and the store writes each document in turn
+    for (const file of files) {
+      setBusy(file.name);
+      try {
+        const document = await onUpload(file);
+        setNotice({ text: t('library.indexed', { name: document.name, count: document.chunkCount }), isError: false });
+      } catch (err: any) {
+        setNotice({ text: err.message || t('library.readError'), isError: true });
+      }
+    }
+    setBusy(null);
+  };
+
+  const reindex = async (targets: LibraryDocument[]) => {
+    setNotice(null);
+    for (const document of targets) {
+      setBusy(document.name);
+      try {
+        await onReindex(document);
+      } catch (err: any) {
+        setNotice({ text: err.message || t('library.readError'), isError: true });
+        break;
+      }
+    }
+    setBusy(null);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto pb-12">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-xl font-semibold text-white">{t('library.title')}</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-slate-500">{t('library.documents', { count: documents.length })}</span>
+          {stale.length > 0 && (
+            <button
+              onClick={() => reindex(stale)}
+              disabled={!!busy}
+              className="flex items-center gap-1.5 text-xs text-amber-400 hover:text-amber-300 disabled:opacity-50"
+            >
+              <RefreshCw size={12} /> {t('library.reindexAll', { count: stale.length })}
+            </button>
+          )}
+          <input type="file" ref={fileInputRef} className="hidden" multiple accept={LIBRARY_ACCEPT} onChange={handleFiles} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!busy}
+            className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white px-4 py-1.5 rounded-md text-xs font-medium"
+          >
+            <Upload size={14} /> {t('library.upload')}
+          </button>
+        </div>
+      </div>
+
+      {busy && (
+        <div className="mb-4 p-3 rounded-lg border bg-slate-900/50 border-slate-800 text-xs text-slate-300 flex items-center gap-2">
+          <Loader2 size={12} className="animate-spin" /> {t('library.indexing', { name: busy })}
+        </div>
+      )}
+
+      {notice && !busy && (
+        <div className={`mb-4 p-3 rounded-lg border text-xs ${notice.isError ? 'bg-red-950/30 border-red-900/50 text-red-300' : 'bg-emerald-950/20 border-emerald-500/20 text-emerald-300'}`}>
+          {notice.text}
+        </div>
+      )}
+
+      {documents.length === 0 ? (
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <BookOpen className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm max-w-md mx-auto">
+            {t('library.empty')}
+          </p>
+        </div>
+      ) : (
+        <div className="border border-slate-800 rounded-lg overflow-hidden bg-slate-900/50">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="bg-slate-950 border-b border-slate-800 text-slate-500 font-semibold uppercase">
+                <th className="p-3 pl-4">{t('library.name')}</th>
+                <th className="p-3 text-right">{t('library.pages')}</th>
+                <th className="p-3 text-right">{t('library.chunks')}</th>
+                <th className="p-3 text-right">{t('library.size')}</th>
+                <th className="p-3">{t('library.added')}</th>
+                <th className="p-3">{t('library.embedder')}</th>
+                <th className="p-3 w-8"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {documents.map(document => (
+                <tr key={document.id} className="hover:bg-slate-800/50 transition-colors">
+                  <td className="p-3 pl-4 text-slate-100">{document.name}</td>
+                  <td className="p-3 text-right text-slate-400 font-mono">{document.pageCount ?? '--'}</td>
+                  <td className="p-3 text-right text-slate-400 font-mono">{document.chunkCount}</td>
+                  <td className="p-3 text-right text-slate-400 font-mono">{formatSize(document.size)}</td>
+                  <td className="p-3 text-slate-400">{formatDate(document.addedAt)}</td>
+                  <td className="p-3">
+                    {document.embedder === embedder ? (
+                      <span className="font-mono text-[10px] text-slate-400">{document.embedder}</span>
+                    ) : (
+                      <button
+                        onClick={() => reindex([document])}
+                        disabled={!!busy}
+                        title={t('library.staleHint', { embedder: document.embedder, current: embedder })}
+                        className="flex items-center gap-1 text-[10px] text-amber-400 hover:text-amber-300 disabled:opacity-50"
+                      >
+                        <RefreshCw size={10} /> {t('library.reindex')}
+                      </button>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <button onClick={() => onDelete(document.id)} disabled={!!busy} className="p-1 text-slate-600 hover:text-red-400 disabled:opacity-50">
+                      <Trash2 size={12} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { CloudOff, Image as ImageIcon, Loader2, RefreshCw, Trash2, UploadCloud } from 'lucide-react';
+import { Language, OutboxItem, OutboxStatus } from '../types';
+import { MessageKey, getTranslator } from '../i18n';
+import { disciplineName } from '../utils/disciplines';
+
+interface OutboxPanelProps {
+  items: OutboxItem[];
+  isOnline: boolean;
+  language: Language;
+  onRetry: (item: OutboxItem) => void;
+  onDelete: (id: string) => void;
+}
+
+const STATUS_BADGES: Record<OutboxStatus, { label: MessageKey; className: string }> = {
+  queued: { label: 'outbox.queued', className: 'bg-sky-500/10 text-sky-400 border-sky-500/20' },
+  sending: { label: 'outbox.sending', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  failed: { label: 'outbox.failed', className: 'bg-red-500/10 text-red-400 border-red-500/20' }
+};
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ items, isOnline, language, onRetry, onDelete }) => {
+  const { t, formatDateTime } = getTranslator(language);
+
+  return (
+    <section className="glass-panel rounded-xl p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide flex items-center gap-2">
+          <UploadCloud size={14} className="text-sky-400" />
+          {t('outbox.title', { count: items.length })}
+        </h3>
+        <span className={`flex items-center gap-1.5 text-[10px] font-medium ${isOnline ? 'text-emerald-400' : 'text-amber-400'}`}>
+          {isOnline
+            ? (t('outbox.online'))
+            : <><CloudOff size={12} /> {t('outbox.offline')}</>}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {items.map(item => {
+          const badge = STATUS_BADGES[item.status];
+          return (
+            <li key={item.id} className="flex items-start gap-3 bg-slate-900/50 border border-slate-800 rounded-lg p-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wide ${badge.className}`}>
+                    {item.status === 'sending' && <Loader2 size={10} className="animate-spin" />}
+                    {t(badge.label)}
+                  </span>
+                  <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-800 text-slate-300 border border-slate-700 uppercase">{disciplineName(item.field, language)}</span>
+                  {item.images?.length ? (
+                    <span className="flex items-center gap-1 text-[10px] text-slate-500"><ImageIcon size={10} /> {item.images.length}</span>
+                  ) : null}
+                  <span className="ml-auto text-[10px] text-slate-500 font-mono">{formatDateTime(item.createdAt)}</span>
+                </div>
+                <p className="text-xs text-slate-300 line-clamp-2">{item.query}</p>
+                {item.lastError ? (
+                  <p className="mt-1 text-[10px] text-red-400">{item.lastError}</p>
+                ) : item.attempts > 0 && item.status === 'queued' ? (
+                  <p className="mt-1 text-[10px] text-slate-500">
+                    {t('outbox.attempts', { count: item.attempts })}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {item.status === 'failed' && (
+                  <button
+                    onClick={() => onRetry(item)}
+                    disabled={!isOnline}
+                    title={t('common.retry')}
+                    className="p-1.5 rounded text-slate-400 hover:text-emerald-400 hover:bg-slate-800 disabled:opacity-40"
+                  >
+                    <RefreshCw size={12} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onDelete(item.id)}
+                  disabled={item.status === 'sending'}
+                  title={t('outbox.remove')}
+                  className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800 disabled:opacity-40"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ClipboardCheck, Clock } from 'lucide-react';
+import { Language, ProblemSolution, ScopeStatus, WorkOrder } from '../types';
+import { buildWorkOrderContext } from '../services/workOrderStore';
+import { formatHours, midpointHours, parseDurationHours } from '../utils/duration';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface ProjectControlsProps {
+  solution: ProblemSolution;
+  workOrders: WorkOrder[];
+  history: ProblemSolution[];
+  language: Language;
+  disabled?: boolean;
+  onLinkWorkOrder: (workOrderId?: string) => void;
+}
+
+const SCOPE_BADGES: Record<ScopeStatus, { label: MessageKey; className: string }> = {
+  'in-scope': { label: 'scope.inScope', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  'partial': { label: 'scope.partial', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+  'out-of-scope': { label: 'scope.outOfScope', className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+  'unknown': { label: 'scope.unknown', className: 'bg-slate-700/30 text-slate-400 border-slate-600/30' }
+};
+
+const ProjectControls: React.FC<ProjectControlsProps> = ({ solution, workOrders, history, language, disabled, onLinkWorkOrder }) => {
+  const { t } = getTranslator(language);
+  const workOrder = workOrders.find(wo => wo.id === solution.workOrderId);
+  const budget = workOrder && buildWorkOrderContext(workOrder, history, solution.id);
+  const estimate = midpointHours(parseDurationHours(solution.timeToComplete));
+  const overBudget = budget && estimate > budget.hoursRemaining;
+  const scope = SCOPE_BADGES[solution.scopeStatus || 'unknown'];
+
+  return (
+    <div className="glass-panel rounded-xl p-5 space-y-6">
+      <div className="flex items-center gap-2 border-b border-slate-800 pb-3">
+        <ClipboardCheck className="w-4 h-4 text-slate-400" />
+        <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">{t('project.title')}</h3>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1">{t('project.workOrder')}</span>
+          <select
+            value={solution.workOrderId || ''}
+            disabled={disabled}
+            onChange={(e) => onLinkWorkOrder(e.target.value || undefined)}
+            className="w-full bg-slate-950 border border-slate-700 rounded-md px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
+          >
+            <option value="">{t('project.notLinked')}</option>
+            {workOrders.map(wo => <option key={wo.id} value={wo.id}>{wo.number} · {wo.client}</option>)}
+          </select>
+        </div>
+
+        <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] text-slate-500 uppercase font-bold">{t('project.scopeCheck')}</span>
+            {workOrder && (
+              <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide border ${scope.className}`}>{t(scope.label)}</span>
+            )}
+          </div>
+          <p className="text-xs text-slate-300 leading-tight">
+            {solution.projectScopeConfirm || t('project.pending')}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+           <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
+             <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1 flex items-center gap-1"><Clock size={10}/> {t('project.estTime')}</span>
+             <span className={`text-sm font-mono font-medium ${overBudget ? 'text-red-400' : 'text-emerald-400'}`}>
+               {solution.timeToComplete || "--"}
+             </span>
+           </div>
+           <div className="bg-slate-900/50 rounded p-3 border border-slate-800">
+             <span className="text-[10px] text-slate-500 uppercase font-bold block mb-1">
+               {budget ? t('project.remaining') : t('project.steps')}
+             </span>
+             <span className={`text-sm font-mono font-medium ${budget && budget.hoursRemaining < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+               {budget ? formatHours(budget.hoursRemaining) : solution.steps.length}
+             </span>
+           </div>
+        </div>
+
+        {overBudget && (
+          <p className="text-[10px] text-red-400 font-medium">
+            {t('project.overBudget', { number: workOrder!.number })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectControls;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileText, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import { EngineeringField, Language, PromptScope, PromptTemplate, StoredPromptTemplate } from '../types';
+import {
+  BUILT_IN_PLACEHOLDERS,
+  BUILT_IN_TEMPLATES,
+  PROMPT_SCOPES,
+  hasRequiredPlaceholder,
+  nextPromptVersion,
+  promptHistory,
+  removePromptTemplate,
+  renderPrompt,
+  revisePromptTemplate,
+  templateForScope,
+  unknownPlaceholders
+} from '../utils/prompts';
+import { getTranslator } from '../i18n';
+import { DEFAULT_DISCIPLINE, DISCIPLINES, disciplineName } from '../utils/disciplines';
+
+interface PromptTemplatesPanelProps {
+  templates: StoredPromptTemplate[];
+  language: Language;
+  onSave: (template: StoredPromptTemplate) => void;
+  onClose: () => void;
+}
+
+interface VariableRow {
+  name: string;
+  value: string;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 block";
+
+const toRows = (variables: Record<string, string>): VariableRow[] =>
+  Object.entries(variables).map(([name, value]) => ({ name, value }));
+
+const fromRows = (rows: VariableRow[]): Record<string, string> =>
+  Object.fromEntries(rows.filter(row => row.name.trim()).map(row => [row.name.trim(), row.value]));
+
+const placeholder = (name: string) => `{{${name}}}`;
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ templates, language, onSave, onClose }) => {
+  const { t, formatDateTime } = getTranslator(language);
+  // A discipline without a template of its own is edited starting from the shared one
+  const effective = (scope: PromptScope) => templateForScope(scope, templates) || templateForScope('all', templates)!;
+
+  const [scope, setScope] = useState<PromptScope>('all');
+  const [body, setBody] = useState(() => effective('all').body);
+  const [rows, setRows] = useState<VariableRow[]>(() => toRows(effective('all').variables));
+  const [previewField, setPreviewField] = useState<EngineeringField>(DEFAULT_DISCIPLINE);
+
+  const scopeLabel = (id: PromptScope) => id === 'all' ? t('prompts.allFields') : disciplineName(id, language);
+  const own = templateForScope(scope, templates);
+  const stored = templates.find(template => template.id === scope);
+  const history = promptHistory(stored);
+  const builtIn = BUILT_IN_TEMPLATES[scope];
+
+  const variables = fromRows(rows);
+  const unknown = unknownPlaceholders(body, variables);
+  const missingSchema = !hasRequiredPlaceholder(body);
+  const isDirty = !own || body !== own.body || JSON.stringify(variables) !== JSON.stringify(own.variables);
+  const field = scope === 'all' ? previewField : scope;
+
+  const load = (template: PromptTemplate) => {
+    setBody(template.body);
+    setRows(toRows(template.variables));
+  };
+
+  const selectScope = (next: PromptScope) => {
+    setScope(next);
+    load(effective(next));
+  };
+
+  const save = () => {
+    onSave(revisePromptTemplate(scope, templates, body, variables, Date.now()));
+    setRows(toRows(variables));
+  };
+
+  const removeOverride = () => {
+    const removed = removePromptTemplate(stored!, Date.now());
+    const remaining = [...templates.filter(template => template.id !== scope), removed];
+    onSave(removed);
+    load(templateForScope(scope, remaining) || templateForScope('all', remaining)!);
+  };
+
+  const updateRow = (index: number, patch: Partial<VariableRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="glass-panel rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-800 px-5 py-3">
+          <div className="flex items-center gap-2">
+            <FileText className="w-4 h-4 text-slate-400" />
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">
+              {t('prompts.title')}
+            </h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[11rem_1fr_1fr] overflow-y-auto md:overflow-hidden">
+          <ul className="border-b md:border-b-0 md:border-r border-slate-800 p-3 space-y-1">
+            {PROMPT_SCOPES.map(id => {
+              const template = templateForScope(id, templates);
+              return (
+                <li key={id}>
+                  <button
+                    onClick={() => selectScope(id)}
+                    className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors ${scope === id ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800/50'}`}
+                  >
+                    <span className="block font-medium">{scopeLabel(id)}</span>
+                    <span className="block text-[10px] text-slate-500 font-mono">
+                      {template
+                        ? templates.some(item => item.id === id && !item.removedAt) ? t('prompts.version', { version: template.version }) : t('prompts.builtIn')
+                        : t('prompts.inherits', { scope: t('prompts.allFields') })}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="p-5 space-y-4 md:overflow-y-auto">
+            <div>
+              <label className={labelClass}>{t('prompts.body')}</label>
+              <textarea
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={18}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs leading-5`}
+              />
+              <p className="mt-1 text-[10px] text-slate-500">
+                {t('prompts.placeholders')}{' '}
+                {[...new Set([...BUILT_IN_PLACEHOLDERS, ...Object.keys(variables)])].map(name => (
+                  <code key={name} className="mr-1 px-1 rounded bg-slate-800 text-slate-300">{placeholder(name)}</code>
+                ))}
+              </p>
+            </div>
+
+            <div>
+              <label className={labelClass}>{t('prompts.variables')}</label>
+              <div className="space-y-2">
+                {rows.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateRow(index, { name: e.target.value.replace(/\W/g, '') })}
+                      placeholder={t('prompts.variableName')}
+                      className={`${inputClass} font-mono w-40 shrink-0`}
+                    />
+                    <input
+                      type="text"
+                      value={row.value}
+                      onChange={(e) => updateRow(index, { value: e.target.value })}
+                      placeholder={t('prompts.variableValue')}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                      title={t('common.delete')}
+                      className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setRows(prev => [...prev, { name: '', value: '' }])}
+                  className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-emerald-400"
+                >
+                  <Plus size={12} /> {t('prompts.addVariable')}
+                </button>
+              </div>
+            </div>
+
+            {(missingSchema || unknown.length > 0) && (
+              <div className="p-3 rounded-lg border bg-amber-950/20 border-amber-500/20 text-xs text-amber-300 space-y-1">
+                {missingSchema && (
+                  <p className="flex items-start gap-2">
+                    <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                    <span>{t('prompts.missingSchema', { placeholder: placeholder('schema') })}</span>
+                  </p>
+                )}
+                {unknown.length > 0 && (
+                  <p className="flex items-start gap-2">
+                    <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                    <span>{t('prompts.unknownPlaceholders', { names: unknown.map(placeholder).join(', ') })}</span>
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center justify-end gap-2">
+              {builtIn && stored && !stored.removedAt && (
+                <button onClick={() => load(builtIn)} className="px-3 py-1.5 rounded-md text-xs text-slate-400 hover:text-slate-200">
+                  {t('prompts.reset')}
+                </button>
+              )}
+              {!builtIn && stored && !stored.removedAt && (
+                <button onClick={removeOverride} className="px-3 py-1.5 rounded-md text-xs text-slate-400 hover:text-red-400">
+                  {t('prompts.remove')}
+                </button>
+              )}
+              <button
+                onClick={save}
+                disabled={!isDirty || missingSchema}
+                className="px-4 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:hover:bg-emerald-600 text-white text-xs font-medium"
+              >
+                {t('prompts.saveVersion', { scope: scopeLabel(scope), version: nextPromptVersion(scope, templates) })}
+              </button>
+            </div>
+          </div>
+
+          <div className="p-5 space-y-4 border-t md:border-t-0 md:border-l border-slate-800 md:overflow-y-auto">
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className={labelClass}>{t('prompts.preview')}</label>
+                {scope === 'all' && (
+                  <select
+                    value={previewField}
+                    onChange={(e) => setPreviewField(e.target.value)}
+                    className="bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-[10px] text-slate-300"
+                  >
+                    {DISCIPLINES.map(({ id }) => (
+                      <option key={id} value={id}>{disciplineName(id, language)}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <pre className="whitespace-pre-wrap break-words bg-slate-950/60 border border-slate-800 rounded-md p-3 text-[11px] leading-5 text-slate-300 font-mono max-h-[28rem] overflow-y-auto">
+                {renderPrompt({ ...effective(scope), body, variables }, field, language)}
+              </pre>
+            </div>
+
+            <div>
+              <label className={labelClass}>{t('prompts.history')}</label>
+              {history.length ? (
+                <ul className="space-y-1">
+                  {history.map(revision => (
+                    <li key={revision.version} className="flex items-center gap-2 text-xs text-slate-400">
+                      <span className="font-mono text-slate-300">{t('prompts.version', { version: revision.version })}</span>
+                      <span className="text-[10px] text-slate-500">
+                        {revision.updatedAt ? formatDateTime(revision.updatedAt) : t('prompts.builtIn')}
+                      </span>
+                      <button
+                        onClick={() => load(revision)}
+                        className="ml-auto flex items-center gap-1 text-[10px] text-slate-400 hover:text-emerald-400"
+                      >
+                        <RotateCcw size={10} /> {t('prompts.restore')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-slate-500">{t('prompts.noHistory')}</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
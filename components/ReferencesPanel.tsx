@@ -0,0 +1,60 @@
+import React from 'react';
+import { BookOpen, FileText, History } from 'lucide-react';
+import { KnowledgeReference, Language } from '../types';
+import { getTranslator } from '../i18n';
+
+interface ReferencesPanelProps {
+  references: KnowledgeReference[];
+  // Reference numbers the answer cites inline
+  cited: Set<number>;
+  language: Language;
+  onOpenSolution: (id: string) => void;
+}
+
+const ReferencesPanel: React.FC<ReferencesPanelProps> = ({ references, cited, language, onOpenSolution }) => {
+  const { t } = getTranslator(language);
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+        <BookOpen size={12} /> {t('refs.title')}
+      </h4>
+      <ol className="space-y-2">
+        {references.map(reference => (
+          <li key={reference.index} className="rounded-lg border border-slate-800 bg-slate-900/40 p-3">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-mono text-[10px] font-bold text-slate-400">[{reference.index}]</span>
+              {reference.kind === 'document'
+                ? <FileText size={12} className="text-slate-500 shrink-0" />
+                : <History size={12} className="text-slate-500 shrink-0" />}
+              {reference.kind === 'solution' ? (
+                <button
+                  onClick={() => onOpenSolution(reference.sourceId)}
+                  title={t('refs.open')}
+                  className="text-xs font-semibold text-slate-200 hover:text-emerald-400 truncate text-left"
+                >
+                  {reference.title}
+                </button>
+              ) : (
+                <span className="text-xs font-semibold text-slate-200 truncate">{reference.title}</span>
+              )}
+              <span className="text-[10px] text-slate-500 shrink-0">
+                {reference.kind === 'document'
+                  ? reference.page ? t('refs.page', { page: reference.page }) : ''
+                  : t('refs.pastIntervention')}
+              </span>
+              {cited.has(reference.index) && (
+                <span className="ml-auto text-[9px] font-bold uppercase tracking-wide text-emerald-400 shrink-0">
+                  {t('refs.cited')}
+                </span>
+              )}
+            </div>
+            <p className="text-[11px] text-slate-400 leading-relaxed line-clamp-3 whitespace-pre-line">{reference.excerpt}</p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ReferencesPanel;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Hazard, Language, SafetyAcknowledgement } from '../types';
+import { combinedChecklist } from '../utils/hazards';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface SafetyGateProps {
+  hazards: Hazard[];
+  // Hazards not covered by the current acknowledgement; the gate is open when this is empty
+  outstanding: Hazard[];
+  acknowledgement?: SafetyAcknowledgement;
+  language: Language;
+  disabled?: boolean;
+  onAcknowledge: (technician?: string) => void;
+}
+
+const SECTIONS: { key: keyof ReturnType<typeof combinedChecklist>; label: MessageKey }[] = [
+  { key: 'isolation', label: 'safety.isolation' },
+  { key: 'ppe', label: 'safety.ppe' },
+  { key: 'permits', label: 'safety.permits' }
+];
+
+const SafetyGate: React.FC<SafetyGateProps> = ({ hazards, outstanding, acknowledgement, language, disabled, onAcknowledge }) => {
+  const { t, formatDateTime } = getTranslator(language);
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [technician, setTechnician] = useState(acknowledgement?.technician || '');
+  const checklist = combinedChecklist(hazards);
+  const items = SECTIONS.flatMap(section => checklist[section.key].map(item => `${section.key}:${item}`));
+  const locked = outstanding.length > 0;
+
+  const toggle = (id: string) => setChecked(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  return (
+    <div className={`rounded-lg border overflow-hidden ${locked ? 'bg-red-950/30 border-red-500/40' : 'bg-emerald-950/20 border-emerald-500/20'}`}>
+      <div className={`px-4 py-2 border-b flex items-center gap-2 ${locked ? 'bg-red-600/20 border-red-500/30' : 'bg-emerald-600/10 border-emerald-500/20'}`}>
+        {locked ? <ShieldAlert className="w-4 h-4 text-red-400" /> : <ShieldCheck className="w-4 h-4 text-emerald-400" />}
+        <h3 className={`text-xs font-bold uppercase tracking-wider ${locked ? 'text-red-300' : 'text-emerald-400'}`}>
+          {t('safety.title')}
+        </h3>
+        <span className="ml-auto text-[10px] font-mono text-slate-400">
+          {t('safety.hazards', { count: hazards.length })}
+        </span>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {hazards.map(hazard => (
+            <span
+              key={hazard.id}
+              title={hazard.triggers.join(', ')}
+              className={`px-2 py-1 rounded border text-[10px] font-bold uppercase tracking-wide ${
+                outstanding.some(other => other.id === hazard.id) ? 'bg-red-500/10 text-red-300 border-red-500/30' : 'bg-slate-800/60 text-slate-300 border-slate-700'
+              }`}
+            >
+              {hazard.title}
+              <span className="ml-1 font-mono font-normal normal-case text-slate-400">({hazard.triggers.slice(0, 2).join(', ')})</span>
+            </span>
+          ))}
+        </div>
+
+        {locked ? (
+          <>
+            {SECTIONS.filter(section => checklist[section.key].length > 0).map(section => (
+              <div key={section.key}>
+                <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1.5">{t(section.label)}</h4>
+                <ul className="space-y-1">
+                  {checklist[section.key].map(item => {
+                    const id = `${section.key}:${item}`;
+                    return (
+                      <li key={id}>
+                        <label className="flex items-start gap-2 text-xs text-slate-300 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={checked.has(id)}
+                            onChange={() => toggle(id)}
+                            disabled={disabled}
+                            className="mt-0.5 accent-emerald-500"
+                          />
+                          {item}
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-slate-800">
+              <input
+                type="text"
+                value={technician}
+                onChange={(e) => setTechnician(e.target.value)}
+                placeholder={t('safety.technician')}
+                className="flex-1 min-w-[10rem] bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+              />
+              <button
+                onClick={() => onAcknowledge(technician.trim() || undefined)}
+                disabled={disabled || items.some(id => !checked.has(id))}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-medium"
+              >
+                <ShieldCheck size={12} />
+                {t('safety.unlock')}
+              </button>
+            </div>
+          </>
+        ) : acknowledgement && (
+          <p className="text-[11px] text-emerald-300/80">
+            {acknowledgement.technician
+              ? t('safety.acknowledgedBy', { name: acknowledgement.technician })
+              : t('safety.acknowledged')}
+            {' · '}{formatDateTime(acknowledgement.acknowledgedAt)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SafetyGate;
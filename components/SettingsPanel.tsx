@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { FileText, Settings, X } from 'lucide-react';
+import { AIProviderId, AISettings, EmbedderChoice, Language, Preferences, UnitSystem } from '../types';
+import { PROVIDERS } from '../services/providers';
+import { getTranslator } from '../i18n';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+  preferences: Preferences;
+  language: Language;
+  onSave: (settings: AISettings, preferences: Preferences) => void;
+  onEditPrompts: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 block";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, preferences, language, onSave, onEditPrompts, onClose }) => {
+  const { t } = getTranslator(language);
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [prefsDraft, setPrefsDraft] = useState<Preferences>(preferences);
+
+  const selectProvider = (provider: AIProviderId) => {
+    setDraft({ provider, ...PROVIDERS[provider].defaults, apiKey: provider === draft.provider ? draft.apiKey : undefined });
+  };
+
+  const needsEndpoint = draft.provider === 'openai' || draft.provider === 'local';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="glass-panel rounded-xl w-full max-w-md shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between border-b border-slate-800 px-5 py-3">
+          <div className="flex items-center gap-2">
+            <Settings className="w-4 h-4 text-slate-400" />
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">
+              {t('settings.title')}
+            </h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div>
+            <label className={labelClass}>{t('settings.provider')}</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => selectProvider(e.target.value as AIProviderId)}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDERS) as AIProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDERS[id].label}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className={labelClass}>{t('settings.model')}</label>
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          {needsEndpoint && (
+            <div>
+              <label className={labelClass}>{t('settings.endpoint')}</label>
+              <input
+                type="url"
+                value={draft.baseUrl || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className={labelClass}>{t('settings.apiKey')}</label>
+              <input
+                type="password"
+                value={draft.apiKey || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value || undefined }))}
+                placeholder={draft.provider === 'gemini' ? t('settings.apiKeyEnv') : t('settings.optional')}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-slate-400 leading-relaxed">
+              {t('settings.mockHint')}
+            </p>
+          )}
+
+          <div>
+            <label className={labelClass}>{t('settings.embedder')}</label>
+            <select
+              value={prefsDraft.embedder}
+              onChange={(e) => setPrefsDraft(prev => ({ ...prev, embedder: e.target.value as EmbedderChoice }))}
+              className={inputClass}
+            >
+              <option value="local">{t('settings.embedderLocal')}</option>
+              <option value="provider">{t('settings.embedderProvider')}</option>
+            </select>
+          </div>
+
+          {prefsDraft.embedder === 'provider' && draft.provider !== 'mock' && (
+            <div>
+              <label className={labelClass}>{t('settings.embeddingModel')}</label>
+              <input
+                type="text"
+                value={draft.embeddingModel || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, embeddingModel: e.target.value }))}
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          )}
+
+          <button
+            onClick={onEditPrompts}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-slate-700 text-xs text-slate-300 hover:text-white hover:border-slate-600 transition-colors"
+          >
+            <FileText size={12} />
+            {t('settings.prompts')}
+          </button>
+
+          <div className="pt-4 border-t border-slate-800">
+            <label className={labelClass}>{t('settings.currency')}</label>
+            <input
+              type="text"
+              value={prefsDraft.currency}
+              maxLength={3}
+              onChange={(e) => setPrefsDraft(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+              placeholder="USD, KES, TZS..."
+              className={`${inputClass} font-mono uppercase`}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('settings.units')}</label>
+            <select
+              value={prefsDraft.unitSystem}
+              onChange={(e) => setPrefsDraft(prev => ({ ...prev, unitSystem: e.target.value as UnitSystem }))}
+              className={inputClass}
+            >
+              <option value="si">{t('settings.unitsSi')}</option>
+              <option value="imperial">{t('settings.unitsImperial')}</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-slate-800 px-5 py-3">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md text-xs text-slate-400 hover:text-slate-200">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onSave(draft, { ...prefsDraft, currency: prefsDraft.currency.trim() || preferences.currency })}
+            className="px-4 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 text-white text-xs font-medium"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
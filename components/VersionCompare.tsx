@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { GitCompare, Lock, X } from 'lucide-react';
+import { Language, SolutionVersion } from '../types';
+import { COMPARABLE_FIELDS, ComparableField, changedFields, formatField } from '../utils/solutionVersions';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface VersionCompareProps {
+  versions: SolutionVersion[];
+  // While hazards are unacknowledged the steps are withheld here too
+  stepsLocked?: boolean;
+  language: Language;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ComparableField, MessageKey> = {
+  safetyCheck: 'versions.safetyCheck',
+  analysis: 'versions.analysis',
+  steps: 'versions.steps',
+  finalResult: 'versions.finalResult',
+  confidence: 'versions.confidence',
+  timeToComplete: 'versions.timeToComplete'
+};
+
+const VersionCompare: React.FC<VersionCompareProps> = ({ versions, stepsLocked, language, onClose }) => {
+  const { t, formatDateTime } = getTranslator(language);
+  const [left, setLeft] = useState(Math.max(0, versions.length - 2));
+  const [right, setRight] = useState(versions.length - 1);
+
+  const a = versions[left];
+  const b = versions[right];
+  const changed = changedFields(a.payload, b.payload);
+
+  const versionSelect = (value: number, onChange: (index: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-emerald-500"
+    >
+      {versions.map((version, i) => (
+        <option key={version.version} value={i}>
+          v{version.version} · {formatDateTime(version.timestamp)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="glass-panel rounded-xl overflow-hidden">
+      <div className="border-b border-slate-800 bg-slate-900/50 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <GitCompare className="w-5 h-5 text-emerald-500" />
+          <h2 className="text-base font-semibold text-slate-100">
+            {t('versions.title')}
+          </h2>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-200">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          {versionSelect(left, setLeft)}
+          {versionSelect(right, setRight)}
+        </div>
+
+        {COMPARABLE_FIELDS.map(field => {
+          const isChanged = changed.includes(field);
+          return (
+            <div key={field}>
+              <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-1.5 ${isChanged ? 'text-amber-400' : 'text-slate-500'}`}>
+                {t(FIELD_LABELS[field])}{isChanged && ` · ${t('versions.changed')}`}
+              </h4>
+              <div className="grid grid-cols-2 gap-4">
+                {[a, b].map((version, i) => (
+                  <div
+                    key={i}
+                    className={`text-xs leading-relaxed whitespace-pre-line rounded-md p-2.5 border ${
+                      isChanged ? 'bg-amber-950/20 border-amber-500/20 text-slate-200' : 'bg-slate-900/50 border-slate-800 text-slate-400'
+                    }`}
+                  >
+                    {field === 'steps' && stepsLocked ? (
+                      <span className="flex items-center gap-2 text-red-300/90">
+                        <Lock size={12} className="shrink-0" />
+                        {t('report.stepsLocked', { count: version.payload.steps.length })}
+                      </span>
+                    ) : formatField(version.payload, field)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { ClipboardList, Plus, Pencil, Trash2, Clock, X, ShoppingCart } from 'lucide-react';
+import { Language, ProblemSolution, WorkOrder, WorkOrderStatus } from '../types';
+import { committedHours } from '../services/workOrderStore';
+import { formatHours } from '../utils/duration';
+import { formatCurrency, workOrderMaterialsCost } from '../utils/bom';
+import { MessageKey, getTranslator } from '../i18n';
+
+interface WorkOrdersViewProps {
+  workOrders: WorkOrder[];
+  history: ProblemSolution[];
+  currency: string;
+  language: Language;
+  onSave: (workOrder: WorkOrder) => void;
+  onDelete: (id: string) => void;
+  onOpenSolution: (item: ProblemSolution) => void;
+}
+
+export const WORK_ORDER_STATUSES: { value: WorkOrderStatus; label: MessageKey; className: string }[] = [
+  { value: 'open', label: 'workOrders.status.open', className: 'bg-sky-500/10 text-sky-400 border-sky-500/20' },
+  { value: 'in-progress', label: 'workOrders.status.inProgress', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  { value: 'on-hold', label: 'workOrders.status.onHold', className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+  { value: 'completed', label: 'workOrders.status.completed', className: 'bg-slate-700/30 text-slate-300 border-slate-600/30' },
+  { value: 'cancelled', label: 'workOrders.status.cancelled', className: 'bg-red-500/10 text-red-400 border-red-500/20' }
+];
+
+const EMPTY_DRAFT = { number: '', client: '', asset: '', scope: '', budgetedHours: 8, status: 'open' as WorkOrderStatus };
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:ring-1 focus:ring-emerald-500/50 focus:border-emerald-500";
+const labelClass = "text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1 block";
+
+const WorkOrdersView: React.FC<WorkOrdersViewProps> = ({ workOrders, history, currency, language, onSave, onDelete, onOpenSolution }) => {
+  const { t } = getTranslator(language);
+  const [editing, setEditing] = useState<WorkOrder | null>(null);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [showForm, setShowForm] = useState(false);
+
+  const openForm = (workOrder?: WorkOrder) => {
+    setEditing(workOrder || null);
+    setDraft(workOrder ? { ...workOrder } : EMPTY_DRAFT);
+    setShowForm(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.number.trim() || !draft.scope.trim()) return;
+    onSave({
+      ...draft,
+      id: editing?.id || Date.now().toString(),
+      createdAt: editing?.createdAt || Date.now(),
+      budgetedHours: Math.max(0, Number(draft.budgetedHours) || 0)
+    });
+    setShowForm(false);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto pb-12">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-xl font-semibold text-white">{t('nav.workOrders')}</h2>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-1.5 rounded-md text-xs font-medium"
+        >
+          <Plus size={14} /> {t('workOrders.new')}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="glass-panel rounded-xl p-5 mb-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold text-slate-100 uppercase tracking-wide">
+              {editing ? t('workOrders.editTitle', { number: editing.number }) : t('workOrders.new')}
+            </h3>
+            <button type="button" onClick={() => setShowForm(false)} className="text-slate-500 hover:text-slate-200">
+              <X size={14} />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>{t('workOrders.number')}</label>
+              <input className={`${inputClass} font-mono`} value={draft.number} onChange={(e) => setDraft(prev => ({ ...prev, number: e.target.value }))} placeholder="WO-2024-001" />
+            </div>
+            <div>
+              <label className={labelClass}>{t('workOrders.client')}</label>
+              <input className={inputClass} value={draft.client} onChange={(e) => setDraft(prev => ({ ...prev, client: e.target.value }))} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('workOrders.asset')}</label>
+              <input className={inputClass} value={draft.asset} onChange={(e) => setDraft(prev => ({ ...prev, asset: e.target.value }))} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>{t('workOrders.scope')}</label>
+            <textarea
+              className={`${inputClass} min-h-[90px] resize-y`}
+              value={draft.scope}
+              onChange={(e) => setDraft(prev => ({ ...prev, scope: e.target.value }))}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('workOrders.budgetedHours')}</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                className={`${inputClass} font-mono`}
+                value={draft.budgetedHours}
+                onChange={(e) => setDraft(prev => ({ ...prev, budgetedHours: Number(e.target.value) }))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('workOrders.status')}</label>
+              <select
+                className={inputClass}
+                value={draft.status}
+                onChange={(e) => setDraft(prev => ({ ...prev, status: e.target.value as WorkOrderStatus }))}
+              >
+                {WORK_ORDER_STATUSES.map(status => <option key={status.value} value={status.value}>{t(status.label)}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!draft.number.trim() || !draft.scope.trim()}
+              className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-5 py-2 rounded-md text-sm font-medium"
+            >
+              {t('workOrders.save')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {workOrders.length === 0 ? (
+        <div className="text-center py-20 bg-slate-900/30 border border-dashed border-slate-800 rounded-xl">
+          <ClipboardList className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 text-sm">{t('workOrders.empty')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {workOrders.map(workOrder => {
+            const linked = history.filter(item => item.workOrderId === workOrder.id);
+            const used = committedHours(workOrder.id, history);
+            const materials = workOrderMaterialsCost(workOrder.id, history);
+            const ratio = workOrder.budgetedHours > 0 ? used / workOrder.budgetedHours : 0;
+            const status = WORK_ORDER_STATUSES.find(s => s.value === workOrder.status) || WORK_ORDER_STATUSES[0];
+
+            return (
+              <div key={workOrder.id} className="bg-slate-900/50 border border-slate-800 rounded-lg p-5">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono font-semibold text-slate-100">{workOrder.number}</span>
+                    <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wide border ${status.className}`}>{t(status.label)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={workOrder.status}
+                      onChange={(e) => onSave({ ...workOrder, status: e.target.value as WorkOrderStatus })}
+                      className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-emerald-500"
+                    >
+                      {WORK_ORDER_STATUSES.map(s => <option key={s.value} value={s.value}>{t(s.label)}</option>)}
+                    </select>
+                    <button onClick={() => openForm(workOrder)} className="p-1 text-slate-500 hover:text-slate-200"><Pencil size={12} /></button>
+                    <button onClick={() => onDelete(workOrder.id)} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={12} /></button>
+                  </div>
+                </div>
+                <div className="text-xs text-slate-400 mb-1">{workOrder.client} · {workOrder.asset}</div>
+                <p className="text-xs text-slate-300 leading-relaxed mb-4 line-clamp-2">{workOrder.scope}</p>
+
+                <div className="flex items-center justify-between text-[10px] text-slate-500 uppercase font-bold mb-1">
+                  <span className="flex items-center gap-1"><Clock size={10} /> {t('workOrders.timeBudget')}</span>
+                  <span className={`font-mono ${ratio > 1 ? 'text-red-400' : 'text-slate-400'}`}>
+                    {formatHours(used)} / {formatHours(workOrder.budgetedHours)}
+                  </span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${ratio > 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${Math.min(100, ratio * 100)}%` }}
+                  />
+                </div>
+                {materials > 0 && (
+                  <div className="flex items-center justify-between text-[10px] text-slate-500 uppercase font-bold mt-3">
+                    <span className="flex items-center gap-1"><ShoppingCart size={10} /> {t('workOrders.materials')}</span>
+                    <span className="font-mono text-slate-300">{formatCurrency(materials, currency, language)}</span>
+                  </div>
+                )}
+
+                {linked.length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    {linked.map(item => (
+                      <button
+                        key={item.id}
+                        onClick={() => onOpenSolution(item)}
+                        className="w-full flex items-center justify-between text-left text-xs text-slate-400 hover:text-emerald-300 py-1 border-b border-slate-800/50 last:border-0"
+                      >
+                        <span className="line-clamp-1">{item.query}</span>
+                        <span className="font-mono text-[10px] text-slate-500 shrink-0 ml-3">{item.timeToComplete || t('common.notAvailable')}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkOrdersView;
@@ -0,0 +1,112 @@
+/// <reference types="vite/client" />
+import { Language } from "../types";
+import type { MessageKey } from "./locales/en";
+
+export type { MessageKey };
+
+// Plural forms follow the CLDR categories returned by Intl.PluralRules; "other" is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type Messages = Record<MessageKey, Message>;
+
+export interface Locale {
+  // BCP 47 language code; also the locale file name
+  code: Language;
+  // Endonym shown in the language picker
+  name: string;
+  // English name, used to tell the model which language to answer in
+  englishName: string;
+  dir: 'ltr' | 'rtl';
+  // Intl locale for dates, numbers and plural rules, e.g. 'sw-KE'
+  intl: string;
+  // Missing keys fall back to English, so a new locale can start partial
+  messages: Partial<Messages>;
+}
+
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Every file in ./locales is a locale; adding a language means adding a file
+const modules = import.meta.glob<{ default: Locale }>('./locales/*.ts', { eager: true });
+
+export const LOCALES: Locale[] = Object.values(modules)
+  .map(module => module.default)
+  .sort((a, b) => a.code === DEFAULT_LANGUAGE ? -1 : b.code === DEFAULT_LANGUAGE ? 1 : a.name.localeCompare(b.name));
+
+const byCode = new Map<string, Locale>(LOCALES.map(locale => [locale.code, locale]));
+
+export const getLocale = (code: Language): Locale => byCode.get(code) || byCode.get(DEFAULT_LANGUAGE)!;
+
+export const isSupportedLanguage = (code: string): code is Language => byCode.has(code);
+
+// Picks the first browser language we have a catalog for
+export const detectLanguage = (): Language => {
+  const candidates = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  const match = candidates.map(tag => tag.split('-')[0].toLowerCase()).find(isSupportedLanguage);
+  return match || DEFAULT_LANGUAGE;
+};
+
+// The instruction appended to every prompt so the model answers in the technician's language
+export const languageInstruction = (code: Language) => {
+  const locale = getLocale(code);
+  return locale.code === DEFAULT_LANGUAGE
+    ? `Respond in ${locale.englishName}.`
+    : `IMPORTANT: You MUST write all technical descriptions, steps, analysis, checklists and verdicts in ${locale.englishName.toUpperCase()} (${locale.name}). Technical terms can remain in English in parentheses if necessary for clarity. JSON keys stay in English.`;
+};
+
+export interface Translator {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: number | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatDateTime: (value: number | Date) => string;
+}
+
+const interpolate = (template: string, params: MessageParams, formatNumber: Translator['formatNumber']) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+
+const createTranslator = (locale: Locale): Translator => {
+  const fallback = getLocale(DEFAULT_LANGUAGE);
+  const plurals = new Intl.PluralRules(locale.intl);
+  const numberFormats = new Map<string, Intl.NumberFormat>();
+
+  const formatNumber = (value: number, options: Intl.NumberFormatOptions = {}) => {
+    const cacheKey = JSON.stringify(options);
+    if (!numberFormats.has(cacheKey)) numberFormats.set(cacheKey, new Intl.NumberFormat(locale.intl, options));
+    return numberFormats.get(cacheKey)!.format(value);
+  };
+
+  const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) =>
+    new Intl.DateTimeFormat(locale.intl, options).format(value);
+
+  const t = (key: MessageKey, params: MessageParams = {}) => {
+    const message = locale.messages[key] ?? fallback.messages[key] ?? key;
+    // Plural messages pick their form from the "count" parameter
+    const template = typeof message === 'string'
+      ? message
+      : message[plurals.select(Number(params.count) || 0)] ?? message.other;
+    return interpolate(template, params, formatNumber);
+  };
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatDate,
+    formatDateTime: value => formatDate(value, { dateStyle: 'medium', timeStyle: 'short' })
+  };
+};
+
+const translators = new Map<string, Translator>();
+
+// Translators are cached per language, so components can call this on every render
+export const getTranslator = (code: Language): Translator => {
+  const locale = getLocale(code);
+  if (!translators.has(locale.code)) translators.set(locale.code, createTranslator(locale));
+  return translators.get(locale.code)!;
+};
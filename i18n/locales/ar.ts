@@ -0,0 +1,605 @@
+import type { Locale, Messages } from "../index";
+
+const messages: Messages = {
+  'common.cancel': 'إلغاء',
+  'common.clear': 'مسح',
+  'common.close': 'إغلاق',
+  'common.save': 'حفظ',
+  'common.edit': 'تعديل',
+  'common.delete': 'حذف',
+  'common.retry': 'إعادة المحاولة',
+  'common.notAvailable': 'غير متاح',
+  'common.done': 'تم',
+  'common.apply': 'تطبيق',
+  'common.undo': 'تراجع',
+  'common.verified': 'تم التحقق',
+  'app.tagline': 'ذكاء العمليات',
+  'app.language': 'اللغة',
+  'app.settings': 'الإعدادات',
+  'app.demo': 'تجريبي',
+  'app.processing': 'جارٍ المعالجة',
+  'app.ready': 'النظام جاهز',
+  'app.offline': 'غير متصل',
+  'nav.solver': 'وحدة التشخيص',
+  'nav.history': 'سجل التدخلات',
+  'nav.followUps': 'المتابعات',
+  'nav.workOrders': 'أوامر العمل',
+  'nav.assets': 'الأصول',
+  'nav.catalog': 'الكتالوج',
+  'nav.library': 'المكتبة',
+  'nav.analytics': 'التحليلات',
+  'solver.discipline': 'التخصص',
+  'solver.subDiscipline': 'التخصص الفرعي',
+  'solver.allSubDisciplines': 'كل التخصصات الفرعية',
+  'solver.description': 'الوصف الفني',
+  'solver.placeholder': 'صف العطل الفني ورقم الأصل والأعراض الملاحظة...',
+  'solver.attachMedia': 'إرفاق وسائط',
+  'solver.captureCamera': 'التقاط بالكاميرا',
+  'solver.noWorkOrder': 'بدون أمر عمل',
+  'solver.analyzing': 'جارٍ التحليل...',
+  'solver.run': 'تشغيل التشخيص',
+  'solver.queue': 'إضافة إلى قائمة المزامنة',
+  'report.safetyProtocols': 'بروتوكولات السلامة الإلزامية',
+  'report.title': 'التقييم الفني',
+  'report.jobCard': 'بطاقة العمل',
+  'report.streaming': 'جارٍ الاستلام...',
+  'report.confidence': 'الثقة: {value}٪',
+  'report.promptVersion': 'القالب: {scope} v{version}',
+  'report.analysis': 'التحليل',
+  'report.diagnosticLogic': 'منطق التشخيص',
+  'report.reassess': 'إعادة التقييم',
+  'report.steps': 'خطوات الإصلاح',
+  'report.stepsLocked': {
+    zero: 'لا توجد خطوات مقفلة.',
+    one: 'خطوة واحدة مقفلة حتى يتم إقرار ضوابط المخاطر أعلاه.',
+    two: 'خطوتان مقفلتان حتى يتم إقرار ضوابط المخاطر أعلاه.',
+    few: '{count} خطوات مقفلة حتى يتم إقرار ضوابط المخاطر أعلاه.',
+    many: '{count} خطوة مقفلة حتى يتم إقرار ضوابط المخاطر أعلاه.',
+    other: '{count} خطوة مقفلة حتى يتم إقرار ضوابط المخاطر أعلاه.'
+  },
+  'report.bom': 'قائمة المواد',
+  'report.generateBom': 'إنشاء القائمة',
+  'report.noBom': 'لم يتم إنشاء قائمة مواد بعد.',
+  'report.verdict': 'القرار النهائي',
+  'report.reassessedAt': 'أعيد تقييمه في {date}',
+  'report.resourceImpact': 'الأثر على الموارد',
+  'report.noStepsToBreakDown': 'لا توجد خطوات إصلاح لتفصيلها.',
+  'report.followUp24h': 'متابعة بعد 24 ساعة',
+  'report.followUp7d': 'تحقق بعد 7 أيام',
+  'history.title': 'السجل التشغيلي',
+  'history.consolidate': 'دمج قوائم المواد ({count})',
+  'history.recordsFound': {
+    zero: 'لم يتم العثور على سجلات',
+    one: 'تم العثور على سجل واحد',
+    two: 'تم العثور على سجلين',
+    few: 'تم العثور على {count} سجلات',
+    many: 'تم العثور على {count} سجلًا',
+    other: 'تم العثور على {count} سجل'
+  },
+  'history.search': 'ابحث في الأعطال والأصول وقطع الغيار...',
+  'history.allDisciplines': 'جميع التخصصات',
+  'history.riskIdentified': 'تم تحديد خطر',
+  'history.followUpOverdue': 'متابعة متأخرة',
+  'history.selectForOrder': 'تحديد للطلب المجمّع',
+  'history.empty': 'لا توجد سجلات تدخل متاحة.',
+  'history.noMatch': 'لا توجد سجلات تطابق عوامل التصفية الحالية.',
+  'errors.photos': 'تعذّر إرفاق بعض الصور.',
+  'errors.unsupportedImage': 'لا يمكن فتح صور {format} في هذا المتصفح. حوّل الصورة إلى JPEG أو PNG (على iPhone اضبط الكاميرا › التنسيقات على الأكثر توافقاً) ثم أرفقها مجدداً.',
+  'errors.solve': 'انقطاع تشغيلي. تعذّر الاتصال بوحدة التحكم.',
+  'errors.submission': 'فشل الإرسال.',
+  'errors.bom': 'فشل استخراج قائمة المواد.',
+  'errors.expand': 'فشل توسيع الفرضية.',
+  'errors.reassess': 'فشلت إعادة التقييم.',
+  'errors.followUp': 'فشلت المتابعة.',
+  'errors.jobCard': 'تعذّر فتح بطاقة العمل.',
+  'errors.requisition': 'تعذّر فتح طلب الشراء.',
+  'errors.ai.network': '⚠️ خطأ في الاتصال: تعذّر الوصول إلى خدمة الذكاء الاصطناعي. تحقق من الاتصال وحاول مرة أخرى.',
+  'errors.ai.quota': '⚠️ تم تجاوز الحصة: مزوّد الذكاء الاصطناعي يحدّ من الطلبات. انتظر دقيقة ثم حاول مرة أخرى.',
+  'errors.ai.malformed': 'فشل الاتصال بوحدة التحكم: بيانات التشخيص المستلمة تالفة ولم يمكن إصلاحها. يرجى إعادة التقييم.',
+  'errors.ai.safety': '⛔ تم حظر الطلب: رفض مرشّح السلامة لدى مزوّد الذكاء الاصطناعي هذا الطلب. أعد صياغة وصف المشكلة وحاول مرة أخرى.',
+  'errors.ai.cancelled': 'تم إلغاء التشخيص.',
+  'errors.ai.backend': '⚠️ الخادم غير متاح: لم يستجب خادم التطبيق بشكل صحيح. هذا الجهاز متصل بالإنترنت؛ اطلب من المسؤول التحقق من أن الخادم يعمل.',
+  'errors.ai.config': '⚙️ خطأ في الإعداد: لا يسمح الخادم بعنوان المزوّد هذا. اطلب من المسؤول إضافته إلى ALLOWED_BASE_URLS، أو اختر عنواناً آخر في الإعدادات.',
+  'errors.ai.unknown': '⚠️ خطأ في وحدة التحكم: فشل طلب الذكاء الاصطناعي بشكل غير متوقع. يرجى المحاولة مرة أخرى.',
+  'analytics.interventions': 'التدخلات',
+  'analytics.safetyCritical': 'حرجة للسلامة',
+  'analytics.avgConfidence': 'متوسط الثقة',
+  'analytics.estLabour': 'العمالة المقدّرة',
+  'analytics.empty': 'لا توجد تدخلات لتحليلها بعد.',
+  'analytics.perDiscipline': 'التدخلات حسب التخصص',
+  'analytics.trend': 'اتجاه السلامة والثقة',
+  'analytics.safetyCriticalPercent': '٪ الحرجة للسلامة',
+  'analytics.avgConfidencePercent': '٪ متوسط الثقة',
+  'analytics.share': 'حصة التخصصات',
+  'analytics.topBom': 'أكثر المواد طلبًا',
+  'analytics.requests': 'طلبات',
+  'analytics.noBom': 'لم يتم إنشاء قوائم مواد بعد.',
+  'assets.title': 'سجل الأصول',
+  'assets.registered': {
+    zero: 'لا توجد أصول مسجلة',
+    one: 'أصل واحد مسجل',
+    two: 'أصلان مسجلان',
+    few: '{count} أصول مسجلة',
+    many: '{count} أصلًا مسجلًا',
+    other: '{count} أصل مسجل'
+  },
+  'assets.empty': 'لا توجد أصول مسجلة. سجّل أصلًا من لوحة الأصول المكتشفة في أي تشخيص.',
+  'assets.search': 'ابحث في الأصول...',
+  'assets.interventions': {
+    zero: 'لا توجد تدخلات',
+    one: 'تدخل واحد',
+    two: 'تدخلان',
+    few: '{count} تدخلات',
+    many: '{count} تدخلًا',
+    other: '{count} تدخل'
+  },
+  'assets.type': 'النوع',
+  'assets.location': 'الموقع',
+  'assets.ratings': 'القيم الاسمية',
+  'assets.history': 'سجل التدخلات',
+  'assets.noInterventions': 'لا توجد تدخلات مسجلة.',
+  'assets.selectPrompt': 'اختر أصلًا لعرض سجله.',
+  'attachments.annotate': 'إضافة تعليقات',
+  'attachments.label': 'تسمية...',
+  'attachments.photo': 'صورة {index}',
+  'attachments.attachment': 'مرفق',
+  'bom.notStocked': 'غير متوفر في المخزون',
+  'bom.manual': 'يدوي',
+  'bom.onHand': '{count} في المخزون',
+  'bom.stock': 'المخزون',
+  'bom.item': 'الصنف',
+  'bom.spec': 'المواصفات',
+  'bom.qty': 'الكمية',
+  'bom.unit': 'الوحدة',
+  'bom.priority': 'الأولوية',
+  'bom.priority.high': 'عالية',
+  'bom.priority.medium': 'متوسطة',
+  'bom.priority.low': 'منخفضة',
+  'bom.supplier': 'المورّد',
+  'bom.unitCost': 'تكلفة الوحدة',
+  'bom.total': 'الإجمالي',
+  'bom.stockCode': 'رمز المخزون',
+  'bom.specification': 'المواصفات',
+  'bom.quantity': 'الكمية',
+  'bom.unitCostIn': 'تكلفة الوحدة ({currency})',
+  'bom.lineTotalIn': 'إجمالي البند ({currency})',
+  'bom.estimatedTotal': 'الإجمالي التقديري',
+  'bom.unpriced': '({count} بدون سعر)',
+  'bom.addLine': 'إضافة بند',
+  'bom.requisition': 'طلب شراء',
+  'calc.title': 'حسابات تم التحقق منها',
+  'calc.verifiedHint': 'محسوبة محليًا، وليست تقديرًا من النموذج',
+  'refs.title': 'المراجع',
+  'refs.page': 'ص {page}',
+  'refs.pastIntervention': 'تدخل سابق',
+  'refs.cited': 'مُستشهد به',
+  'refs.open': 'فتح هذا التدخل',
+  'camera.unsupported': 'الوصول إلى الكاميرا غير متاح في هذا المتصفح. استخدم إرفاق وسائط بدلًا من ذلك.',
+  'camera.denied': 'تم رفض إذن الكاميرا.',
+  'camera.unavailable': 'تعذّر فتح أي كاميرا على هذا الجهاز.',
+  'camera.title': 'التقاط صورة',
+  'camera.switch': 'تبديل الكاميرا',
+  'camera.capture': 'التقاط',
+  'catalog.title': 'كتالوج قطع الغيار',
+  'catalog.parts': {
+    zero: 'لا توجد قطع',
+    one: 'قطعة واحدة',
+    two: 'قطعتان',
+    few: '{count} قطع',
+    many: '{count} قطعة',
+    other: '{count} قطعة'
+  },
+  'catalog.imported': {
+    zero: 'لم يتم استيراد أي قطعة',
+    one: 'تم استيراد قطعة واحدة',
+    two: 'تم استيراد قطعتين',
+    few: 'تم استيراد {count} قطع',
+    many: 'تم استيراد {count} قطعة',
+    other: 'تم استيراد {count} قطعة'
+  },
+  'catalog.skipped': {
+    zero: 'لم يتم تخطي أي صف',
+    one: 'تم تخطي صف واحد (الرمز أو الاسم مفقود)',
+    two: 'تم تخطي صفين (الرمز أو الاسم مفقود)',
+    few: 'تم تخطي {count} صفوف (الرمز أو الاسم مفقود)',
+    many: 'تم تخطي {count} صفًا (الرمز أو الاسم مفقود)',
+    other: 'تم تخطي {count} صف (الرمز أو الاسم مفقود)'
+  },
+  'catalog.readError': 'تعذّرت قراءة ملف الكتالوج.',
+  'catalog.import': 'استيراد CSV/JSON',
+  'catalog.empty': 'لم يتم تحميل كتالوج. استورد ملف مخزون يحتوي على أعمدة رمز المخزون والاسم والمواصفات والوحدة والتكلفة والمورّد والكمية المتوفرة.',
+  'catalog.search': 'ابحث برمز المخزون أو القطعة أو المورّد...',
+  'catalog.code': 'الرمز',
+  'catalog.part': 'القطعة',
+  'catalog.cost': 'التكلفة ({currency})',
+  'catalog.onHand': 'المتوفر',
+  'catalog.limit': 'يتم عرض أول {count} نتيجة. حسّن البحث لعرض المزيد.',
+  'library.title': 'مكتبة المستندات',
+  'library.documents': {
+    zero: 'لا توجد مستندات',
+    one: 'مستند واحد',
+    two: 'مستندان',
+    few: '{count} مستندات',
+    many: '{count} مستندًا',
+    other: '{count} مستند'
+  },
+  'library.upload': 'رفع PDF/نص',
+  'library.indexing': 'جارٍ فهرسة {name}…',
+  'library.indexed': {
+    zero: 'لم تتم فهرسة أي مقطع من {name}',
+    one: 'تمت فهرسة {name} في مقطع واحد',
+    two: 'تمت فهرسة {name} في مقطعين',
+    few: 'تمت فهرسة {name} في {count} مقاطع',
+    many: 'تمت فهرسة {name} في {count} مقطعًا',
+    other: 'تمت فهرسة {name} في {count} مقطع'
+  },
+  'library.readError': 'تعذّرت فهرسة المستند.',
+  'library.empty': 'لا توجد مستندات بعد. ارفع الأدلة والإجراءات وصحائف البيانات (PDF أو نص عادي) وسيقتبس المراقب المقاطع ذات الصلة مع ذكر المستند والصفحة.',
+  'library.name': 'المستند',
+  'library.pages': 'الصفحات',
+  'library.chunks': 'المقاطع',
+  'library.size': 'الحجم',
+  'library.added': 'أضيف في',
+  'library.embedder': 'الفهرس',
+  'library.reindex': 'إعادة الفهرسة',
+  'library.reindexAll': {
+    zero: 'لا توجد مستندات لإعادة فهرستها',
+    one: 'إعادة فهرسة مستند واحد',
+    two: 'إعادة فهرسة مستندين',
+    few: 'إعادة فهرسة {count} مستندات',
+    many: 'إعادة فهرسة {count} مستندًا',
+    other: 'إعادة فهرسة {count} مستند'
+  },
+  'library.staleHint': 'مفهرس باستخدام {embedder}؛ أعد الفهرسة للبحث فيه باستخدام {current}',
+  'order.title': 'طلب مجمّع',
+  'order.diagnoses': {
+    zero: 'لا توجد تشخيصات',
+    one: 'تشخيص واحد',
+    two: 'تشخيصان',
+    few: '{count} تشخيصات',
+    many: '{count} تشخيصًا',
+    other: '{count} تشخيص'
+  },
+  'order.chargeTo': 'تحميل التكلفة على',
+  'order.noWorkOrder': 'بدون أمر عمل',
+  'order.empty': 'التشخيصات المحددة لا تحتوي على بنود مواد.',
+  'conversation.title': 'متابعة',
+  'conversation.compare': 'مقارنة الإصدارات',
+  'conversation.clarification': 'مطلوب توضيح',
+  'conversation.submit': 'إرسال الإجابات',
+  'conversation.placeholder': 'اطرح سؤال متابعة أو أبلغ عن نتائج جديدة...',
+  'detected.title': 'الأصول المكتشفة',
+  'detected.register': 'تسجيل {id}',
+  'detected.pastInterventions': {
+    zero: 'لا توجد تدخلات سابقة على هذا الأصل',
+    one: 'تدخل سابق واحد على هذا الأصل',
+    two: 'تدخلان سابقان على هذا الأصل',
+    few: '{count} تدخلات سابقة على هذا الأصل',
+    many: '{count} تدخلًا سابقًا على هذا الأصل',
+    other: '{count} تدخل سابق على هذا الأصل'
+  },
+  'detected.reportedAs': 'تم الإبلاغ عنها كـ {value}',
+  'plausibility.negativeVoltage': 'جهد سالب؛ تحقق من القطبية أو الإشارة.',
+  'plausibility.domesticVoltage': 'غير معقول لتغذية منزلية (عادةً 110–400 V).',
+  'plausibility.aboveTransmission': 'أعلى من أي جهد نقل مستخدم فعلياً.',
+  'plausibility.domesticCurrent': 'غير معقول لتركيب منزلي (نادراً ما تتجاوز مداخل الخدمة 100 A).',
+  'plausibility.plantCurrent': 'مرتفع بشكل غير معقول لمعدات المنشأة.',
+  'plausibility.domesticPower': 'غير معقول لحمل منزلي.',
+  'plausibility.aboveGenerator': 'أكبر من أي وحدة توليد منفردة.',
+  'plausibility.aboveSpeed': 'أعلى من 100,000 دورة/دقيقة؛ غير معقول للآلات الدوّارة.',
+  'plausibility.belowAbsoluteZero': 'أدنى من الصفر المطلق.',
+  'plausibility.aboveTemperature': 'أعلى من 3000 °C؛ غير معقول لمعدات المنشأة.',
+  'plausibility.belowVacuum': 'أدنى من الفراغ التام.',
+  'plausibility.outsidePercent': 'يجب أن يكون بين 0 و100%.',
+  'plausibility.negative': 'لا يمكن أن يكون سالباً.',
+  'plausibility.notPressure': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون ضغطاً.',
+  'plausibility.notFlow': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون معدل تدفق.',
+  'plausibility.notTemperature': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون درجة حرارة.',
+  'plausibility.notCurrent': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون تياراً.',
+  'plausibility.notSpeed': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون سرعة.',
+  'plausibility.notLength': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون طولاً.',
+  'plausibility.notVoltage': 'مُعطى بوحدة {unit}، لكن "{key}" يجب أن يكون جهداً.',
+  'plausibility.differsFromRating': 'يختلف عن القيمة المقننة المسجلة للأصل ({rating}).',
+  'tree.hypothesis': 'الفرضية',
+  'tree.verification': 'التحقق',
+  'tree.passed': 'ناجح',
+  'tree.failed': 'فاشل',
+  'tree.notRun': 'لم يُنفّذ',
+  'tree.expand': 'توسيع',
+  'tree.reading': 'القراءة المقاسة...',
+  'tree.attachPhoto': 'إرفاق صورة',
+  'followUps.remindersOn': 'التذكيرات مفعّلة',
+  'followUps.blockedHint': 'اسمح بالإشعارات لهذا الموقع من إعدادات المتصفح',
+  'followUps.blocked': 'الإشعارات محظورة',
+  'followUps.enable': 'تفعيل التذكيرات',
+  'followUps.empty': 'لا توجد متابعات مفتوحة.',
+  'followUps.overdue': 'متأخرة ({count})',
+  'followUps.dueToday': 'مستحقة اليوم ({count})',
+  'followUps.upcoming': 'قادمة ({count})',
+  'followUps.notification': 'متابعة مستحقة ({window})',
+  'followUp.done': 'منجزة',
+  'followUp.overdue': 'متأخرة',
+  'followUp.dueToday': 'مستحقة اليوم',
+  'followUp.due': 'مستحقة',
+  'followUp.note': 'أضف ملاحظة (قراءات، ملاحظات)...',
+  'annotator.arrow': 'سهم',
+  'annotator.circle': 'دائرة',
+  'annotator.label': 'تسمية',
+  'annotator.redact': 'إخفاء',
+  'annotator.labelPlaceholder': 'اكتب التسمية ثم انقر على الصورة',
+  'annotator.clearAll': 'مسح الكل',
+  'annotator.redactHint': 'تُغطّى المناطق المخفية باللون الأسود في الصورة المرسلة للتحليل.',
+  'outbox.title': 'صندوق الصادر ({count})',
+  'outbox.online': 'متصل — يتم الإرسال تلقائيًا',
+  'outbox.offline': 'غير متصل — سيتم الإرسال عند عودة الشبكة',
+  'outbox.attempts': {
+    zero: 'لا يوجد اتصال؛ ستتم إعادة المحاولة تلقائيًا.',
+    one: 'لا يوجد اتصال بعد محاولة واحدة؛ ستتم إعادة المحاولة تلقائيًا.',
+    two: 'لا يوجد اتصال بعد محاولتين؛ ستتم إعادة المحاولة تلقائيًا.',
+    few: 'لا يوجد اتصال بعد {count} محاولات؛ ستتم إعادة المحاولة تلقائيًا.',
+    many: 'لا يوجد اتصال بعد {count} محاولة؛ ستتم إعادة المحاولة تلقائيًا.',
+    other: 'لا يوجد اتصال بعد {count} محاولة؛ ستتم إعادة المحاولة تلقائيًا.'
+  },
+  'outbox.remove': 'إزالة من صندوق الصادر',
+  'outbox.queued': 'في قائمة الانتظار',
+  'outbox.sending': 'جارٍ الإرسال',
+  'outbox.failed': 'فشل',
+  'project.title': 'ضوابط المشروع',
+  'project.workOrder': 'أمر العمل',
+  'project.notLinked': 'غير مرتبط',
+  'project.scopeCheck': 'التحقق من النطاق',
+  'project.pending': 'بانتظار التحقق.',
+  'project.estTime': 'الوقت المقدّر',
+  'project.remaining': 'المتبقي من أمر العمل',
+  'project.steps': 'الخطوات',
+  'project.overBudget': 'التقدير يتجاوز الميزانية المتبقية لـ {number}. اطلب تعديلًا قبل المتابعة.',
+  'scope.inScope': 'ضمن النطاق',
+  'scope.partial': 'خارج النطاق جزئيًا',
+  'scope.outOfScope': 'خارج النطاق',
+  'scope.unknown': 'لم يتم التحقق',
+  'safety.title': 'ضوابط المخاطر',
+  'safety.hazards': {
+    zero: 'لا توجد مخاطر',
+    one: 'خطر واحد',
+    two: 'خطران',
+    few: '{count} مخاطر',
+    many: '{count} خطرًا',
+    other: '{count} خطر'
+  },
+  'safety.isolation': 'القفل / الوسم والعزل',
+  'safety.ppe': 'معدات الحماية الشخصية',
+  'safety.permits': 'التصاريح المطلوبة',
+  'safety.technician': 'اسم الفني',
+  'safety.unlock': 'الضوابط مطبّقة — فتح الخطوات',
+  'safety.acknowledged': 'تم الإقرار',
+  'safety.acknowledgedBy': 'أقرّ بها {name}',
+  'hazard.highVoltage.title': 'جهد عالٍ (≥ 1 kV)',
+  'hazard.highVoltage.switching': 'تنفيذ التحويل بواسطة شخص مخوّل للجهد العالي وفق برنامج تحويل معتمد',
+  'hazard.highVoltage.earth': 'اعزل واقفل وأرضِ عند جميع نقاط التغذية؛ وركّب التأريض الرئيسي للدائرة',
+  'hazard.highVoltage.prove': 'تحقق من انعدام الجهد بجهاز فحص للجهد العالي مُختبَر قبل الاستخدام وبعده',
+  'hazard.highVoltage.barriers': 'ضع لافتات الخطر والحواجز حول المعدات المجاورة المكهربة',
+  'hazard.highVoltage.arcClothing': 'ملابس مقاومة للقوس الكهربائي تناسب طاقة الحادث المحسوبة',
+  'hazard.highVoltage.hood': 'غطاء رأس واقٍ من وميض القوس وواقي وجه',
+  'hazard.highVoltage.gloves': 'قفازات عازلة للجهد العالي (فئة تناسب جهد النظام)',
+  'hazard.highVoltage.permit': 'تصريح عمل للجهد العالي / إذن اختبار',
+  'hazard.highVoltage.programme': 'برنامج تحويل موقّع من الشخص المخوّل الأول',
+  'hazard.electrical.title': 'كهربائي (≥ 50 V)',
+  'hazard.electrical.sources': 'حدّد كل مصادر التغذية، بما فيها التغذية العكسية والمولدات وأجهزة UPS',
+  'hazard.electrical.lock': 'اعزل عند الجهاز الأعلى وضع قفلاً وبطاقة شخصيين',
+  'hazard.electrical.prove': 'تحقق من انعدام الجهد بمؤشر جهد مُختبَر (اختبر–تحقق–اختبر)',
+  'hazard.electrical.discharge': 'فرّغ الطاقة المخزنة في المكثفات ووصلات التيار المستمر لمغيّرات التردد',
+  'hazard.electrical.arcClothing': 'ملابس مقاومة للقوس الكهربائي وواقي وجه',
+  'hazard.electrical.gloves': 'قفازات عازلة مناسبة لجهد النظام',
+  'hazard.electrical.footwear': 'أحذية السلامة',
+  'hazard.electrical.permit': 'شهادة عزل كهربائي',
+  'hazard.confinedSpace.title': 'مكان محصور',
+  'hazard.confinedSpace.isolate': 'اعزل وأغلق بسدادات كل خطوط العملية الداخلة إلى المكان؛ واقفل الخلاطات والمضخات',
+  'hazard.confinedSpace.atmosphere': 'هوِّ المكان وافحص الجو (O₂، LEL، H₂S، CO) قبل الدخول وأثناءه',
+  'hazard.confinedSpace.attendant': 'ضع مراقباً مدرّباً عند المدخل مع خطة ومعدات إنقاذ',
+  'hazard.confinedSpace.monitor': 'جهاز كشف رباعي الغازات يرتديه كل داخل',
+  'hazard.confinedSpace.harness': 'حزام أمان كامل للجسم مع حبل إنقاذ',
+  'hazard.confinedSpace.escape': 'جهاز تنفس للهروب',
+  'hazard.confinedSpace.permit': 'تصريح دخول مكان محصور',
+  'hazard.gasTestCertificate': 'شهادة فحص الغاز',
+  'hazard.pressure.title': 'نظام ضغط / طاقة مخزنة',
+  'hazard.pressure.valves': 'أغلق واقفل صمامات العزل في الأعلى والأسفل (عزل مزدوج مع تصريف حيثما أمكن)',
+  'hazard.pressure.vent': 'نفّس أو صرّف حتى ضغط صفري وتأكد بمقياس معايَر',
+  'hazard.pressure.tagged': 'اترك فتحات التنفيس مفتوحة ومُعلَّمة طوال فتح النظام',
+  'hazard.pressure.faceShield': 'واقي وجه فوق نظارات السلامة',
+  'hazard.pressure.gloves': 'قفازات مناسبة لحرارة المائع',
+  'hazard.lineBreakingPermit': 'تصريح فتح الخطوط',
+  'hazard.flammable.title': 'جو قابل للاشتعال',
+  'hazard.flammable.depressurise': 'اعزل مخزون الهيدروكربونات وأزل ضغطه؛ واستخدم السدادات أو العزل المزدوج مع التصريف حيث سيُفتح',
+  'hazard.flammable.gasTest': 'افحص الغاز لحد الانفجار الأدنى قبل العمل وأثناءه؛ وتوقف إذا تجاوزت القراءات 10% منه',
+  'hazard.flammable.ignition': 'تحكّم بمصادر الاشتعال: معدات معتمدة (Ex) فقط، وأدوات لا تُحدث شرراً، وربط الحاويات كهربائياً',
+  'hazard.flammable.coveralls': 'بدلة عمل مقاومة للهب',
+  'hazard.flammable.monitor': 'جهاز كشف غاز شخصي (LEL، H₂S)',
+  'hazard.flammable.footwear': 'أحذية سلامة مضادة للكهرباء الساكنة',
+  'hazard.flammable.permit': 'تصريح عمل في منطقة خطرة',
+  'hazard.hotWork.title': 'أعمال ساخنة',
+  'hazard.hotWork.combustibles': 'أزل المواد القابلة للاحتراق أو احمها ضمن 11 م (35 قدماً)',
+  'hazard.hotWork.gasTest': 'افحص المنطقة وأي أوعية أو مصارف مجاورة بحثاً عن مواد قابلة للاشتعال',
+  'hazard.hotWork.fireWatch': 'عيّن مراقب حريق أثناء العمل ولمدة 30 دقيقة على الأقل بعده',
+  'hazard.hotWork.helmet': 'خوذة لحام بدرجة تعتيم مناسبة',
+  'hazard.hotWork.clothing': 'ملابس مقاومة للهب وقفازات جلدية طويلة',
+  'hazard.hotWork.permit': 'تصريح أعمال ساخنة',
+  'hazard.chemical.title': 'مواد كيميائية خطرة',
+  'hazard.chemical.sds': 'راجع صحيفة بيانات السلامة لكل مادة معنية',
+  'hazard.chemical.drain': 'صرّف واشطف ونفّس الخط أو الوعاء قبل فتحه',
+  'hazard.chemical.eyewash': 'تأكد أن مغسلة العيون ودش السلامة على بُعد 10 ثوانٍ كحد أقصى',
+  'hazard.chemical.goggles': 'نظارات واقية من رذاذ المواد الكيميائية وواقي وجه',
+  'hazard.chemical.gloves': 'قفازات ومريلة مقاومة للمواد الكيميائية',
+  'hazard.chemical.respirator': 'كمامة تنفس إذا تطلبتها صحيفة بيانات السلامة',
+  'hazard.rotating.title': 'آلات دوّارة',
+  'hazard.rotating.isolate': 'أوقف الآلة واعزل المحرك عند لوحة التحكم بالمحركات بقفل وبطاقة شخصيين',
+  'hazard.rotating.tryStart': 'حاول التشغيل محلياً وعن بُعد للتحقق من العزل',
+  'hazard.rotating.block': 'ثبّت أو اربط الأجزاء التي قد تتحرك بالجاذبية أو بالطاقة المخزنة',
+  'hazard.rotating.clothing': 'ملابس ضيقة دون أشياء متدلية',
+  'hazard.rotating.glasses': 'نظارات سلامة وقفازات لمناولة القطع',
+  'hazard.height.title': 'العمل على ارتفاع',
+  'hazard.height.platform': 'استخدم منصة محمية أو رافعة عمل متنقلة بدلاً من السلالم',
+  'hazard.height.barrier': 'ضع حواجز حول منطقة السقوط في الأسفل',
+  'hazard.height.harness': 'حزام أمان كامل للجسم مع حبل ماص للطاقة',
+  'hazard.height.helmet': 'خوذة بحزام ذقن',
+  'hazard.height.permit': 'تصريح العمل على ارتفاع',
+  'hazard.excavation.title': 'حفريات / عدم استقرار إنشائي',
+  'hazard.excavation.services': 'حدّد وعلّم الخدمات المدفونة قبل الحفر',
+  'hazard.excavation.shore': 'ادعم أو دعّم الجوانب قبل الدخول أو العمل أسفلها',
+  'hazard.excavation.cordon': 'طوّق منطقة الحظر',
+  'hazard.excavation.ppe': 'خوذة وملابس عالية الوضوح وأحذية سلامة',
+  'hazard.excavation.permit': 'تصريح حفر',
+  'hazard.disciplineWork': 'أعمال {discipline}',
+  'settings.title': 'مزوّد الذكاء الاصطناعي',
+  'settings.provider': 'المزوّد',
+  'settings.model': 'النموذج',
+  'settings.endpoint': 'نقطة الاتصال',
+  'settings.apiKey': 'مفتاح API',
+  'settings.apiKeyEnv': 'يستخدم GEMINI_API_KEY عند تركه فارغًا',
+  'settings.optional': 'اختياري',
+  'settings.mockHint': 'يعيد تشخيصات نموذجية لكل تخصص. لا يتطلب شبكة أو مفتاح API.',
+  'settings.currency': 'عملة الشراء',
+  'settings.units': 'وحدات العرض',
+  'settings.unitsSi': 'النظام الدولي / المتري (kW, bar, m, °C)',
+  'settings.unitsImperial': 'الإمبراطوري (hp, psi, ft, °F)',
+  'settings.prompts': 'تحرير قوالب التعليمات',
+  'settings.embedder': 'البحث في المستندات',
+  'settings.embedderLocal': 'على هذا الجهاز (يعمل دون اتصال)',
+  'settings.embedderProvider': 'نموذج التضمين لدى المزوّد',
+  'settings.embeddingModel': 'نموذج التضمين',
+  'prompts.title': 'قوالب التعليمات',
+  'prompts.allFields': 'جميع التخصصات',
+  'prompts.builtIn': 'مدمج',
+  'prompts.version': 'v{version}',
+  'prompts.inherits': 'يستخدم {scope}',
+  'prompts.body': 'تعليمات النظام',
+  'prompts.placeholders': 'العناصر النائبة:',
+  'prompts.variables': 'المتغيرات',
+  'prompts.variableName': 'الاسم',
+  'prompts.variableValue': 'القيمة',
+  'prompts.addVariable': 'إضافة متغير',
+  'prompts.missingSchema': 'أبقِ {placeholder} في القالب: بدونه لا يُبلَّغ النموذج بتنسيق الرد.',
+  'prompts.unknownPlaceholders': 'لا توجد قيمة لـ {names}؛ سيُرسل كما هو مكتوب.',
+  'prompts.reset': 'تحميل القالب المدمج',
+  'prompts.remove': 'إزالة واستخدام جميع التخصصات',
+  'prompts.saveVersion': 'حفظ {scope} v{version}',
+  'prompts.preview': 'معاينة',
+  'prompts.history': 'الإصدارات السابقة',
+  'prompts.noHistory': 'لا توجد إصدارات سابقة.',
+  'prompts.restore': 'تحميل',
+  'versions.title': 'مقارنة الإصدارات',
+  'versions.changed': 'تغيّر',
+  'versions.safetyCheck': 'فحص السلامة',
+  'versions.analysis': 'التحليل',
+  'versions.steps': 'خطوات الإصلاح',
+  'versions.finalResult': 'القرار النهائي',
+  'versions.confidence': 'الثقة',
+  'versions.timeToComplete': 'الوقت المقدّر',
+  'compare.open': 'مقارنة النماذج',
+  'compare.title': 'مقارنة النماذج',
+  'compare.hint': 'يشغّل المشكلة عبر كل بديل بالتوازي. لا يُحفظ شيء حتى تختار نتيجة.',
+  'compare.provider': 'المزوّد',
+  'compare.model': 'النموذج',
+  'compare.temperature': 'الحرارة',
+  'compare.addVariant': 'إضافة بديل',
+  'compare.run': 'تشغيل المقارنة',
+  'compare.running': 'جارٍ التشغيل...',
+  'compare.differs': 'مختلف',
+  'compare.hypotheses': 'الفرضيات',
+  'compare.onlyHere': 'هنا فقط',
+  'compare.use': 'استخدام هذا',
+  'compare.merge': 'دمج الآخرين',
+  'compare.mergeHint': 'يحتفظ بهذا الحكم ويضيف الفرضيات والأسئلة التي طرحتها النماذج الأخرى فقط',
+  'workOrders.new': 'أمر عمل جديد',
+  'workOrders.editTitle': 'تعديل {number}',
+  'workOrders.number': 'رقم أمر العمل',
+  'workOrders.client': 'العميل',
+  'workOrders.asset': 'الأصل',
+  'workOrders.scope': 'نطاق العمل',
+  'workOrders.budgetedHours': 'الساعات المعتمدة',
+  'workOrders.status': 'الحالة',
+  'workOrders.save': 'حفظ أمر العمل',
+  'workOrders.empty': 'لا توجد أوامر عمل بعد.',
+  'workOrders.timeBudget': 'ميزانية الوقت',
+  'workOrders.materials': 'المواد',
+  'workOrders.status.open': 'مفتوح',
+  'workOrders.status.inProgress': 'قيد التنفيذ',
+  'workOrders.status.onHold': 'معلّق',
+  'workOrders.status.completed': 'مكتمل',
+  'workOrders.status.cancelled': 'ملغى',
+  'jobCard.title': 'بطاقة العمل',
+  'jobCard.reference': 'المرجع',
+  'jobCard.date': 'التاريخ',
+  'jobCard.discipline': 'التخصص',
+  'jobCard.workOrder': 'أمر العمل',
+  'jobCard.asset': 'الأصل',
+  'jobCard.estTime': 'الوقت المقدّر',
+  'jobCard.problem': 'المشكلة المبلّغ عنها',
+  'jobCard.photo': 'صورة مرفقة',
+  'jobCard.safety': 'بروتوكولات السلامة الإلزامية',
+  'jobCard.diagnostics': 'شجرة التشخيص',
+  'jobCard.hypothesis': 'الفرضية',
+  'jobCard.test': 'التحقق',
+  'jobCard.result': 'النتيجة',
+  'jobCard.steps': 'خطوات الإصلاح',
+  'jobCard.stepsWithheld': 'خطوات الإصلاح محجوبة حتى يتم الإقرار بضوابط المخاطر في التطبيق.',
+  'jobCard.done': 'تم',
+  'jobCard.bom': 'قائمة المواد',
+  'jobCard.item': 'الصنف',
+  'jobCard.spec': 'المواصفات',
+  'jobCard.qty': 'الكمية',
+  'jobCard.priority': 'الأولوية',
+  'jobCard.followUp24h': 'متابعة بعد 24 ساعة',
+  'jobCard.followUp7d': 'تحقق بعد 7 أيام',
+  'jobCard.verdict': 'القرار النهائي',
+  'jobCard.technician': 'الفني',
+  'jobCard.supervisor': 'المشرف',
+  'jobCard.name': 'الاسم',
+  'jobCard.signature': 'التوقيع',
+  'jobCard.confidence': 'الثقة',
+  'jobCard.calculations': 'حسابات تم التحقق منها',
+  'jobCard.hazards': 'المخاطر',
+  'jobCard.isolation': 'القفل / الوسم والعزل',
+  'jobCard.ppe': 'معدات الحماية الشخصية',
+  'jobCard.permits': 'التصاريح المطلوبة',
+  'jobCard.acknowledged': 'تم إقرار الضوابط',
+  'jobCard.inputs': 'المدخلات',
+  'jobCard.outputs': 'النتائج',
+  'requisition.title': 'طلب شراء',
+  'requisition.number': 'رقم الطلب',
+  'requisition.stockCode': 'رمز المخزون',
+  'requisition.date': 'التاريخ',
+  'requisition.workOrder': 'أمر العمل',
+  'requisition.sources': 'التشخيصات المصدر',
+  'requisition.item': 'الصنف',
+  'requisition.spec': 'المواصفات',
+  'requisition.qty': 'الكمية',
+  'requisition.unit': 'الوحدة',
+  'requisition.priority': 'الأولوية',
+  'requisition.supplier': 'المورّد',
+  'requisition.unitCost': 'تكلفة الوحدة',
+  'requisition.lineTotal': 'إجمالي البند',
+  'requisition.total': 'الإجمالي التقديري',
+  'requisition.unpriced': {
+    zero: 'جميع البنود مسعّرة',
+    one: 'بند واحد لم يُسعّر بعد',
+    two: 'بندان لم يُسعّرا بعد',
+    few: '{count} بنود لم تُسعّر بعد',
+    many: '{count} بندًا لم يُسعّر بعد',
+    other: '{count} بند لم يُسعّر بعد'
+  },
+  'requisition.requestedBy': 'مقدّم الطلب',
+  'requisition.approvedBy': 'المعتمِد',
+  'requisition.name': 'الاسم',
+  'requisition.signature': 'التوقيع',
+};
+
+const ar: Locale = {
+  code: 'ar',
+  name: 'العربية',
+  englishName: 'Arabic',
+  dir: 'rtl',
+  intl: 'ar',
+  messages
+};
+
+export default ar;
@@ -0,0 +1,503 @@
+import type { Locale } from "../index";
+
+// The reference catalog: every key used in the app is defined here, and other locales fall back to it
+const messages = {
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.notAvailable': 'N/A',
+  'common.done': 'Done',
+  'common.apply': 'Apply',
+  'common.undo': 'Undo',
+  'common.verified': 'Verified',
+  'app.tagline': 'Operations Intelligence',
+  'app.language': 'Language',
+  'app.settings': 'Settings',
+  'app.demo': 'Demo',
+  'app.processing': 'Processing',
+  'app.ready': 'System Ready',
+  'app.offline': 'Offline',
+  'nav.solver': 'Diagnostic Console',
+  'nav.history': 'Intervention Log',
+  'nav.followUps': 'Follow-ups',
+  'nav.workOrders': 'Work Orders',
+  'nav.assets': 'Assets',
+  'nav.catalog': 'Catalog',
+  'nav.library': 'Library',
+  'nav.analytics': 'Analytics',
+  'solver.discipline': 'Discipline',
+  'solver.subDiscipline': 'Sub-specialty',
+  'solver.allSubDisciplines': 'All sub-specialties',
+  'solver.description': 'Technical Description',
+  'solver.placeholder': 'Describe the technical fault, asset ID, and observed symptoms...',
+  'solver.attachMedia': 'Attach Media',
+  'solver.captureCamera': 'Capture with camera',
+  'solver.noWorkOrder': 'No Work Order',
+  'solver.analyzing': 'Analyzing...',
+  'solver.run': 'Run Diagnostics',
+  'solver.queue': 'Queue for Sync',
+  'report.safetyProtocols': 'Mandatory Safety Protocols',
+  'report.title': 'Technical Assessment',
+  'report.jobCard': 'Job Card',
+  'report.streaming': 'Streaming...',
+  'report.confidence': 'Confidence: {value}%',
+  'report.promptVersion': 'Prompt: {scope} v{version}',
+  'report.analysis': 'Analysis',
+  'report.diagnosticLogic': 'Diagnostic Logic',
+  'report.reassess': 'Re-assess',
+  'report.steps': 'Remediation Steps',
+  'report.stepsLocked': { one: '{count} step is locked until the hazard controls above are acknowledged.', other: '{count} steps are locked until the hazard controls above are acknowledged.' },
+  'report.bom': 'Bill of Materials',
+  'report.generateBom': 'Generate List',
+  'report.noBom': 'No BOM generated yet.',
+  'report.verdict': 'Final Determination',
+  'report.reassessedAt': 'Re-assessed {date}',
+  'report.resourceImpact': 'Resource Impact',
+  'report.noStepsToBreakDown': 'No remediation steps to break down.',
+  'report.followUp24h': '24h Follow-up',
+  'report.followUp7d': '7-Day Verification',
+  'history.title': 'Operational History',
+  'history.consolidate': 'Consolidate BOM ({count})',
+  'history.recordsFound': { one: '{count} record found', other: '{count} records found' },
+  'history.search': 'Search faults, assets, parts...',
+  'history.allDisciplines': 'All Disciplines',
+  'history.riskIdentified': 'Risk Identified',
+  'history.followUpOverdue': 'Follow-up Overdue',
+  'history.selectForOrder': 'Select for consolidated order',
+  'history.empty': 'No intervention logs available.',
+  'history.noMatch': 'No records match the current filters.',
+  'errors.photos': 'Some photos could not be attached.',
+  'errors.unsupportedImage': '{format} photos cannot be opened in this browser. Convert the photo to JPEG or PNG (on iPhone, set Camera › Formats to Most Compatible) and attach it again.',
+  'errors.solve': 'Operational disruption. Could not connect to Controller.',
+  'errors.submission': 'Submission failed.',
+  'errors.bom': 'BOM Extraction failed.',
+  'errors.expand': 'Hypothesis expansion failed.',
+  'errors.reassess': 'Re-assessment failed.',
+  'errors.followUp': 'Follow-up failed.',
+  'errors.jobCard': 'Could not open the job card.',
+  'errors.requisition': 'Could not open the purchase requisition.',
+  'errors.ai.network': '⚠️ CONNECTION ERROR: The AI service could not be reached. Check your connection and try again.',
+  'errors.ai.quota': '⚠️ QUOTA EXCEEDED: The AI provider is rate limiting requests. Please wait a minute and try again.',
+  'errors.ai.malformed': 'Controller link failure: The diagnostic data returned was corrupted and could not be repaired. Please re-run the assessment.',
+  'errors.ai.safety': '⛔ REQUEST BLOCKED: The AI provider\'s safety filter declined this request. Rephrase the problem description and try again.',
+  'errors.ai.cancelled': 'Diagnostics cancelled.',
+  'errors.ai.backend': '⚠️ BACKEND UNAVAILABLE: The app\'s server did not answer properly. This device is online; ask the administrator to check that the backend is running.',
+  'errors.ai.config': '⚙️ CONFIGURATION ERROR: The backend does not allow this provider endpoint. Ask the administrator to add it to ALLOWED_BASE_URLS, or choose another endpoint in Settings.',
+  'errors.ai.unknown': '⚠️ CONTROLLER ERROR: The AI request failed unexpectedly. Please try again.',
+  'analytics.interventions': 'Interventions',
+  'analytics.safetyCritical': 'Safety-critical',
+  'analytics.avgConfidence': 'Avg Confidence',
+  'analytics.estLabour': 'Est. Labour',
+  'analytics.empty': 'No interventions to analyse yet.',
+  'analytics.perDiscipline': 'Interventions per Discipline',
+  'analytics.trend': 'Safety & Confidence Trend',
+  'analytics.safetyCriticalPercent': 'Safety-critical %',
+  'analytics.avgConfidencePercent': 'Avg confidence %',
+  'analytics.share': 'Discipline Share',
+  'analytics.topBom': 'Most Requested BOM Items',
+  'analytics.requests': 'requests',
+  'analytics.noBom': 'No Bills of Materials generated yet.',
+  'assets.title': 'Asset Registry',
+  'assets.registered': { one: '{count} asset registered', other: '{count} assets registered' },
+  'assets.empty': 'No assets registered. Register one from the Detected Assets panel of a diagnosis.',
+  'assets.search': 'Search assets...',
+  'assets.interventions': { one: '{count} intervention', other: '{count} interventions' },
+  'assets.type': 'Type',
+  'assets.location': 'Location',
+  'assets.ratings': 'Ratings',
+  'assets.history': 'Intervention History',
+  'assets.noInterventions': 'No interventions recorded.',
+  'assets.selectPrompt': 'Select an asset to view its history.',
+  'attachments.annotate': 'Annotate',
+  'attachments.label': 'Label...',
+  'attachments.photo': 'Photo {index}',
+  'attachments.attachment': 'Attachment',
+  'bom.notStocked': 'Not stocked',
+  'bom.manual': 'Manual',
+  'bom.onHand': '{count} on hand',
+  'bom.stock': 'Stock',
+  'bom.item': 'Item',
+  'bom.spec': 'Spec',
+  'bom.qty': 'Qty',
+  'bom.unit': 'Unit',
+  'bom.priority': 'Priority',
+  'bom.priority.high': 'High',
+  'bom.priority.medium': 'Medium',
+  'bom.priority.low': 'Low',
+  'bom.supplier': 'Supplier',
+  'bom.unitCost': 'Unit Cost',
+  'bom.total': 'Total',
+  'bom.stockCode': 'Stock Code',
+  'bom.specification': 'Specification',
+  'bom.quantity': 'Quantity',
+  'bom.unitCostIn': 'Unit Cost ({currency})',
+  'bom.lineTotalIn': 'Line Total ({currency})',
+  'bom.estimatedTotal': 'Estimated Total',
+  'bom.unpriced': '({count} unpriced)',
+  'bom.addLine': 'Add Line',
+  'bom.requisition': 'Requisition',
+  'calc.title': 'Verified Calculations',
+  'calc.verifiedHint': 'Computed locally, not estimated by the model',
+  'refs.title': 'References',
+  'refs.page': 'p. {page}',
+  'refs.pastIntervention': 'Past intervention',
+  'refs.cited': 'Cited',
+  'refs.open': 'Open this intervention',
+  'camera.unsupported': 'Camera access is not available in this browser. Use Attach Media instead.',
+  'camera.denied': 'Camera permission was denied.',
+  'camera.unavailable': 'No camera could be opened on this device.',
+  'camera.title': 'Capture Photo',
+  'camera.switch': 'Switch Camera',
+  'camera.capture': 'Capture',
+  'catalog.title': 'Parts Catalog',
+  'catalog.parts': { one: '{count} part', other: '{count} parts' },
+  'catalog.imported': { one: '{count} part imported', other: '{count} parts imported' },
+  'catalog.skipped': { one: '{count} row skipped (missing code or name)', other: '{count} rows skipped (missing code or name)' },
+  'catalog.readError': 'Could not read the catalog file.',
+  'catalog.import': 'Import CSV/JSON',
+  'catalog.empty': 'No catalog loaded. Import an inventory export with stock code, name, specification, unit, cost, supplier and stock-on-hand columns.',
+  'catalog.search': 'Search stock code, part, supplier...',
+  'catalog.code': 'Code',
+  'catalog.part': 'Part',
+  'catalog.cost': 'Cost ({currency})',
+  'catalog.onHand': 'On Hand',
+  'catalog.limit': 'Showing the first {count} matches. Refine the search to see more.',
+  'library.title': 'Document Library',
+  'library.documents': { one: '{count} document', other: '{count} documents' },
+  'library.upload': 'Upload PDF/Text',
+  'library.indexing': 'Indexing {name}…',
+  'library.indexed': { one: '{name} indexed as {count} passage', other: '{name} indexed as {count} passages' },
+  'library.readError': 'Could not index the document.',
+  'library.empty': 'No documents yet. Upload manuals, procedures and datasheets (PDF or plain text) and the controller will quote the relevant passages, citing document and page.',
+  'library.name': 'Document',
+  'library.pages': 'Pages',
+  'library.chunks': 'Passages',
+  'library.size': 'Size',
+  'library.added': 'Added',
+  'library.embedder': 'Index',
+  'library.reindex': 'Re-index',
+  'library.reindexAll': { one: 'Re-index {count} document', other: 'Re-index {count} documents' },
+  'library.staleHint': 'Indexed with {embedder}; re-index to search it with {current}',
+  'order.title': 'Consolidated Order',
+  'order.diagnoses': { one: '{count} diagnosis', other: '{count} diagnoses' },
+  'order.chargeTo': 'Charge to',
+  'order.noWorkOrder': 'No work order',
+  'order.empty': 'The selected diagnoses have no BOM lines.',
+  'conversation.title': 'Follow-up',
+  'conversation.compare': 'Compare Versions',
+  'conversation.clarification': 'Clarification Needed',
+  'conversation.submit': 'Submit Answers',
+  'conversation.placeholder': 'Ask a follow-up or report new findings...',
+  'detected.title': 'Detected Assets',
+  'detected.register': 'Register {id}',
+  'detected.pastInterventions': { one: '{count} previous intervention on this asset', other: '{count} previous interventions on this asset' },
+  'detected.reportedAs': 'Reported as {value}',
+  'plausibility.negativeVoltage': 'Negative voltage; check the polarity or sign.',
+  'plausibility.domesticVoltage': 'Implausible for a domestic supply (normally 110–400 V).',
+  'plausibility.aboveTransmission': 'Above any transmission voltage in service.',
+  'plausibility.domesticCurrent': 'Implausible for a domestic installation (service heads are rarely above 100 A).',
+  'plausibility.plantCurrent': 'Implausibly high for plant equipment.',
+  'plausibility.domesticPower': 'Implausible for a domestic load.',
+  'plausibility.aboveGenerator': 'Larger than any single generating unit.',
+  'plausibility.aboveSpeed': 'Above 100,000 rpm; implausible for rotating plant.',
+  'plausibility.belowAbsoluteZero': 'Below absolute zero.',
+  'plausibility.aboveTemperature': 'Above 3000 °C; implausible for plant equipment.',
+  'plausibility.belowVacuum': 'Below full vacuum.',
+  'plausibility.outsidePercent': 'Must lie between 0 and 100%.',
+  'plausibility.negative': 'Cannot be negative.',
+  'plausibility.notPressure': 'Given in {unit}, but "{key}" should be a pressure.',
+  'plausibility.notFlow': 'Given in {unit}, but "{key}" should be a flow rate.',
+  'plausibility.notTemperature': 'Given in {unit}, but "{key}" should be a temperature.',
+  'plausibility.notCurrent': 'Given in {unit}, but "{key}" should be a current.',
+  'plausibility.notSpeed': 'Given in {unit}, but "{key}" should be a speed.',
+  'plausibility.notLength': 'Given in {unit}, but "{key}" should be a length.',
+  'plausibility.notVoltage': 'Given in {unit}, but "{key}" should be a voltage.',
+  'plausibility.differsFromRating': 'Differs from the registered asset rating ({rating}).',
+  'tree.hypothesis': 'Hypothesis',
+  'tree.verification': 'Verification',
+  'tree.passed': 'Passed',
+  'tree.failed': 'Failed',
+  'tree.notRun': 'Not run',
+  'tree.expand': 'Expand',
+  'tree.reading': 'Measured reading...',
+  'tree.attachPhoto': 'Attach photo',
+  'followUps.remindersOn': 'Reminders on',
+  'followUps.blockedHint': 'Allow notifications for this site in the browser settings',
+  'followUps.blocked': 'Notifications blocked',
+  'followUps.enable': 'Enable Reminders',
+  'followUps.empty': 'No open follow-ups.',
+  'followUps.overdue': 'Overdue ({count})',
+  'followUps.dueToday': 'Due Today ({count})',
+  'followUps.upcoming': 'Upcoming ({count})',
+  'followUps.notification': 'Follow-up due ({window})',
+  'followUp.done': 'Done',
+  'followUp.overdue': 'Overdue',
+  'followUp.dueToday': 'Due today',
+  'followUp.due': 'Due',
+  'followUp.note': 'Add a note (readings, observations)...',
+  'annotator.arrow': 'Arrow',
+  'annotator.circle': 'Circle',
+  'annotator.label': 'Label',
+  'annotator.redact': 'Redact',
+  'annotator.labelPlaceholder': 'Type label, then click the photo',
+  'annotator.clearAll': 'Clear all',
+  'annotator.redactHint': 'Redacted areas are blacked out in the image sent for analysis.',
+  'outbox.title': 'Outbox ({count})',
+  'outbox.online': 'Online — sending automatically',
+  'outbox.offline': 'Offline — will send when signal returns',
+  'outbox.attempts': { one: 'No connection on {count} attempt; retrying automatically.', other: 'No connection on {count} attempts; retrying automatically.' },
+  'outbox.remove': 'Remove from outbox',
+  'outbox.queued': 'Queued',
+  'outbox.sending': 'Sending',
+  'outbox.failed': 'Failed',
+  'project.title': 'Project Controls',
+  'project.workOrder': 'Work Order',
+  'project.notLinked': 'Not linked',
+  'project.scopeCheck': 'Scope Check',
+  'project.pending': 'Pending verification.',
+  'project.estTime': 'Est. Time',
+  'project.remaining': 'WO Remaining',
+  'project.steps': 'Steps',
+  'project.overBudget': 'Estimate exceeds the remaining {number} budget. Raise a variation before proceeding.',
+  'scope.inScope': 'In Scope',
+  'scope.partial': 'Partly Out of Scope',
+  'scope.outOfScope': 'Out of Scope',
+  'scope.unknown': 'Unverified',
+  'safety.title': 'Hazard Controls',
+  'safety.hazards': { one: '{count} hazard', other: '{count} hazards' },
+  'safety.isolation': 'Lockout / Tagout & Isolation',
+  'safety.ppe': 'PPE',
+  'safety.permits': 'Permits Required',
+  'safety.technician': 'Technician name',
+  'safety.unlock': 'Controls in place — unlock steps',
+  'safety.acknowledged': 'Acknowledged',
+  'safety.acknowledgedBy': 'Acknowledged by {name}',
+  'hazard.highVoltage.title': 'High Voltage (≥ 1 kV)',
+  'hazard.highVoltage.switching': 'Switching carried out by an authorised HV person to an approved switching programme',
+  'hazard.highVoltage.earth': 'Isolate, lock and earth at all points of supply; apply circuit main earths',
+  'hazard.highVoltage.prove': 'Prove dead with an HV proving unit tested before and after use',
+  'hazard.highVoltage.barriers': 'Apply danger notices and barriers around adjacent live equipment',
+  'hazard.highVoltage.arcClothing': 'Arc-rated clothing to the calculated incident energy',
+  'hazard.highVoltage.hood': 'Arc flash hood and face shield',
+  'hazard.highVoltage.gloves': 'HV insulating gloves (class to suit system voltage)',
+  'hazard.highVoltage.permit': 'HV Permit to Work / Sanction for Test',
+  'hazard.highVoltage.programme': 'Switching programme signed by the Senior Authorised Person',
+  'hazard.electrical.title': 'Electrical (≥ 50 V)',
+  'hazard.electrical.sources': 'Identify every source of supply, including back-feeds, generators and UPS',
+  'hazard.electrical.lock': 'Isolate at the upstream device and apply a personal lock and tag',
+  'hazard.electrical.prove': 'Prove dead with a tested voltage indicator (test–prove–test)',
+  'hazard.electrical.discharge': 'Discharge stored energy in capacitors and VFD DC links',
+  'hazard.electrical.arcClothing': 'Arc-rated clothing and face shield',
+  'hazard.electrical.gloves': 'Insulating gloves rated for the system voltage',
+  'hazard.electrical.footwear': 'Safety footwear',
+  'hazard.electrical.permit': 'Electrical isolation certificate',
+  'hazard.confinedSpace.title': 'Confined Space',
+  'hazard.confinedSpace.isolate': 'Isolate and blank all process lines entering the space; lock out agitators and pumps',
+  'hazard.confinedSpace.atmosphere': 'Ventilate and test the atmosphere (O₂, LEL, H₂S, CO) before and during entry',
+  'hazard.confinedSpace.attendant': 'Station a trained attendant at the entrance with a rescue plan and equipment',
+  'hazard.confinedSpace.monitor': 'Four-gas monitor worn by each entrant',
+  'hazard.confinedSpace.harness': 'Full-body harness with retrieval line',
+  'hazard.confinedSpace.escape': 'Escape breathing apparatus',
+  'hazard.confinedSpace.permit': 'Confined Space Entry Permit',
+  'hazard.gasTestCertificate': 'Gas test certificate',
+  'hazard.pressure.title': 'Pressure System / Stored Energy',
+  'hazard.pressure.valves': 'Close and lock the upstream and downstream isolation valves (double block and bleed where available)',
+  'hazard.pressure.vent': 'Vent or drain to zero pressure and confirm on a calibrated gauge',
+  'hazard.pressure.tagged': 'Leave vents open and tagged while the system is broken into',
+  'hazard.pressure.faceShield': 'Face shield over safety glasses',
+  'hazard.pressure.gloves': 'Gloves suited to the fluid temperature',
+  'hazard.lineBreakingPermit': 'Line-breaking permit',
+  'hazard.flammable.title': 'Flammable Atmosphere',
+  'hazard.flammable.depressurise': 'Isolate and depressurise the hydrocarbon inventory; blind or double block and bleed where it will be opened',
+  'hazard.flammable.gasTest': 'Gas-test for LEL before and during work; stop if readings exceed 10% LEL',
+  'hazard.flammable.ignition': 'Control ignition sources: certified (Ex) equipment only, non-sparking tools and bonding of containers',
+  'hazard.flammable.coveralls': 'Flame-resistant coveralls',
+  'hazard.flammable.monitor': 'Personal gas monitor (LEL, H₂S)',
+  'hazard.flammable.footwear': 'Anti-static safety footwear',
+  'hazard.flammable.permit': 'Hazardous Area Work Permit',
+  'hazard.hotWork.title': 'Hot Work',
+  'hazard.hotWork.combustibles': 'Remove or shield combustibles within 11 m (35 ft)',
+  'hazard.hotWork.gasTest': 'Gas-test the area and any adjacent vessels or drains for flammables',
+  'hazard.hotWork.fireWatch': 'Post a fire watch during work and for at least 30 minutes after',
+  'hazard.hotWork.helmet': 'Welding helmet with correct shade',
+  'hazard.hotWork.clothing': 'Flame-resistant clothing and leather gauntlets',
+  'hazard.hotWork.permit': 'Hot Work Permit',
+  'hazard.chemical.title': 'Hazardous Chemicals',
+  'hazard.chemical.sds': 'Review the Safety Data Sheet for every substance involved',
+  'hazard.chemical.drain': 'Drain, flush and vent the line or vessel before breaking containment',
+  'hazard.chemical.eyewash': 'Confirm eyewash and safety shower are within 10 seconds reach',
+  'hazard.chemical.goggles': 'Chemical splash goggles and face shield',
+  'hazard.chemical.gloves': 'Chemical-resistant gloves and apron',
+  'hazard.chemical.respirator': 'Respirator if the SDS requires it',
+  'hazard.rotating.title': 'Rotating Machinery',
+  'hazard.rotating.isolate': 'Stop the machine and isolate the drive at the MCC with a personal lock and tag',
+  'hazard.rotating.tryStart': 'Try to start locally and remotely to prove the isolation',
+  'hazard.rotating.block': 'Block or restrain parts that can move under gravity or stored energy',
+  'hazard.rotating.clothing': 'Close-fitting clothing, no loose items',
+  'hazard.rotating.glasses': 'Safety glasses and gloves for handling parts',
+  'hazard.height.title': 'Work at Height',
+  'hazard.height.platform': 'Use a guarded platform or MEWP in preference to ladders',
+  'hazard.height.barrier': 'Barrier the drop zone below',
+  'hazard.height.harness': 'Full-body harness with energy-absorbing lanyard',
+  'hazard.height.helmet': 'Helmet with chin strap',
+  'hazard.height.permit': 'Work at Height Permit',
+  'hazard.excavation.title': 'Excavation / Structural Instability',
+  'hazard.excavation.services': 'Locate and mark buried services before digging',
+  'hazard.excavation.shore': 'Prop or shore before entering or working beneath',
+  'hazard.excavation.cordon': 'Cordon the exclusion zone',
+  'hazard.excavation.ppe': 'Helmet, high-visibility clothing and safety footwear',
+  'hazard.excavation.permit': 'Excavation / Permit to Dig',
+  'hazard.disciplineWork': '{discipline} work',
+  'settings.title': 'AI Provider',
+  'settings.provider': 'Provider',
+  'settings.model': 'Model',
+  'settings.endpoint': 'Endpoint',
+  'settings.apiKey': 'API Key',
+  'settings.apiKeyEnv': 'Uses GEMINI_API_KEY when empty',
+  'settings.optional': 'Optional',
+  'settings.mockHint': 'Returns canned diagnostics for each discipline. No network or API key required.',
+  'settings.currency': 'Procurement Currency',
+  'settings.units': 'Display Units',
+  'settings.unitsSi': 'SI / Metric (kW, bar, m, °C)',
+  'settings.unitsImperial': 'Imperial (hp, psi, ft, °F)',
+  'settings.prompts': 'Edit Prompt Templates',
+  'settings.embedder': 'Document Search',
+  'settings.embedderLocal': 'On this device (works offline)',
+  'settings.embedderProvider': 'Provider embedding model',
+  'settings.embeddingModel': 'Embedding Model',
+  'prompts.title': 'Prompt Templates',
+  'prompts.allFields': 'All disciplines',
+  'prompts.builtIn': 'Built-in',
+  'prompts.version': 'v{version}',
+  'prompts.inherits': 'Uses {scope}',
+  'prompts.body': 'System Instruction',
+  'prompts.placeholders': 'Placeholders:',
+  'prompts.variables': 'Variables',
+  'prompts.variableName': 'name',
+  'prompts.variableValue': 'value',
+  'prompts.addVariable': 'Add variable',
+  'prompts.missingSchema': 'Keep {placeholder} in the template: without it the model is not told the response format.',
+  'prompts.unknownPlaceholders': 'No value for {names}; they will be sent as written.',
+  'prompts.reset': 'Load built-in',
+  'prompts.remove': 'Remove and use All disciplines',
+  'prompts.saveVersion': 'Save {scope} v{version}',
+  'prompts.preview': 'Preview',
+  'prompts.history': 'Earlier Versions',
+  'prompts.noHistory': 'No earlier versions.',
+  'prompts.restore': 'Load',
+  'versions.title': 'Version Comparison',
+  'versions.changed': 'changed',
+  'versions.safetyCheck': 'Safety Check',
+  'versions.analysis': 'Analysis',
+  'versions.steps': 'Remediation Steps',
+  'versions.finalResult': 'Final Determination',
+  'versions.confidence': 'Confidence',
+  'versions.timeToComplete': 'Est. Time',
+  'compare.open': 'Compare Models',
+  'compare.title': 'Model Comparison',
+  'compare.hint': 'Runs the problem through each variant in parallel. Nothing is saved until you choose a result.',
+  'compare.provider': 'Provider',
+  'compare.model': 'Model',
+  'compare.temperature': 'Temp.',
+  'compare.addVariant': 'Add variant',
+  'compare.run': 'Run Comparison',
+  'compare.running': 'Running...',
+  'compare.differs': 'differs',
+  'compare.hypotheses': 'Hypotheses',
+  'compare.onlyHere': 'only here',
+  'compare.use': 'Use This',
+  'compare.merge': 'Merge Others In',
+  'compare.mergeHint': 'Keeps this verdict and adds the hypotheses and questions only the other models raised',
+  'workOrders.new': 'New Work Order',
+  'workOrders.editTitle': 'Edit {number}',
+  'workOrders.number': 'WO Number',
+  'workOrders.client': 'Client',
+  'workOrders.asset': 'Asset',
+  'workOrders.scope': 'Scope of Work',
+  'workOrders.budgetedHours': 'Budgeted Hours',
+  'workOrders.status': 'Status',
+  'workOrders.save': 'Save Work Order',
+  'workOrders.empty': 'No work orders yet.',
+  'workOrders.timeBudget': 'Time Budget',
+  'workOrders.materials': 'Materials',
+  'workOrders.status.open': 'Open',
+  'workOrders.status.inProgress': 'In Progress',
+  'workOrders.status.onHold': 'On Hold',
+  'workOrders.status.completed': 'Completed',
+  'workOrders.status.cancelled': 'Cancelled',
+  'jobCard.title': 'Job Card',
+  'jobCard.reference': 'Reference',
+  'jobCard.date': 'Date',
+  'jobCard.discipline': 'Discipline',
+  'jobCard.workOrder': 'Work Order',
+  'jobCard.asset': 'Asset',
+  'jobCard.estTime': 'Est. Time',
+  'jobCard.problem': 'Reported Problem',
+  'jobCard.photo': 'Attached Photo',
+  'jobCard.safety': 'Mandatory Safety Protocols',
+  'jobCard.diagnostics': 'Diagnostic Tree',
+  'jobCard.hypothesis': 'Hypothesis',
+  'jobCard.test': 'Verification',
+  'jobCard.result': 'Result',
+  'jobCard.steps': 'Remediation Steps',
+  'jobCard.stepsWithheld': 'Remediation steps are withheld until the hazard controls are acknowledged in the app.',
+  'jobCard.done': 'Done',
+  'jobCard.bom': 'Bill of Materials',
+  'jobCard.item': 'Item',
+  'jobCard.spec': 'Specification',
+  'jobCard.qty': 'Qty',
+  'jobCard.priority': 'Priority',
+  'jobCard.followUp24h': '24h Follow-up',
+  'jobCard.followUp7d': '7-Day Verification',
+  'jobCard.verdict': 'Final Determination',
+  'jobCard.technician': 'Technician',
+  'jobCard.supervisor': 'Supervisor',
+  'jobCard.name': 'Name',
+  'jobCard.signature': 'Signature',
+  'jobCard.confidence': 'Confidence',
+  'jobCard.calculations': 'Verified Calculations',
+  'jobCard.hazards': 'Hazards',
+  'jobCard.isolation': 'Lockout / Tagout & Isolation',
+  'jobCard.ppe': 'PPE',
+  'jobCard.permits': 'Permits Required',
+  'jobCard.acknowledged': 'Controls acknowledged',
+  'jobCard.inputs': 'Inputs',
+  'jobCard.outputs': 'Results',
+  'requisition.title': 'Purchase Requisition',
+  'requisition.number': 'Requisition No.',
+  'requisition.stockCode': 'Stock Code',
+  'requisition.date': 'Date',
+  'requisition.workOrder': 'Work Order',
+  'requisition.sources': 'Source Diagnoses',
+  'requisition.item': 'Item',
+  'requisition.spec': 'Specification',
+  'requisition.qty': 'Qty',
+  'requisition.unit': 'Unit',
+  'requisition.priority': 'Priority',
+  'requisition.supplier': 'Supplier',
+  'requisition.unitCost': 'Unit Cost',
+  'requisition.lineTotal': 'Line Total',
+  'requisition.total': 'Estimated Total',
+  'requisition.unpriced': { one: '{count} line not yet priced', other: '{count} lines not yet priced' },
+  'requisition.requestedBy': 'Requested By',
+  'requisition.approvedBy': 'Approved By',
+  'requisition.name': 'Name',
+  'requisition.signature': 'Signature',
+};
+
+export type MessageKey = keyof typeof messages;
+
+const en: Locale = {
+  code: 'en',
+  name: 'English',
+  englishName: 'English',
+  dir: 'ltr',
+  intl: 'en-GB',
+  messages
+};
+
+export default en;
@@ -0,0 +1,500 @@
+import type { Locale, Messages } from "../index";
+
+const messages: Messages = {
+  'common.cancel': 'Annuler',
+  'common.clear': 'Effacer',
+  'common.close': 'Fermer',
+  'common.save': 'Enregistrer',
+  'common.edit': 'Modifier',
+  'common.delete': 'Supprimer',
+  'common.retry': 'Réessayer',
+  'common.notAvailable': 'N/D',
+  'common.done': 'Terminé',
+  'common.apply': 'Appliquer',
+  'common.undo': 'Annuler la dernière action',
+  'common.verified': 'Vérifié',
+  'app.tagline': 'Intelligence opérationnelle',
+  'app.language': 'Langue',
+  'app.settings': 'Paramètres',
+  'app.demo': 'Démo',
+  'app.processing': 'Traitement',
+  'app.ready': 'Système prêt',
+  'app.offline': 'Hors ligne',
+  'nav.solver': 'Console de diagnostic',
+  'nav.history': 'Journal des interventions',
+  'nav.followUps': 'Suivis',
+  'nav.workOrders': 'Ordres de travail',
+  'nav.assets': 'Équipements',
+  'nav.catalog': 'Catalogue',
+  'nav.library': 'Bibliothèque',
+  'nav.analytics': 'Analyses',
+  'solver.discipline': 'Discipline',
+  'solver.subDiscipline': 'Sous-spécialité',
+  'solver.allSubDisciplines': 'Toutes les sous-spécialités',
+  'solver.description': 'Description technique',
+  'solver.placeholder': 'Décrivez la panne, l’identifiant de l’équipement et les symptômes observés...',
+  'solver.attachMedia': 'Joindre des médias',
+  'solver.captureCamera': 'Prendre avec la caméra',
+  'solver.noWorkOrder': 'Aucun ordre de travail',
+  'solver.analyzing': 'Analyse en cours...',
+  'solver.run': 'Lancer le diagnostic',
+  'solver.queue': 'Mettre en file d’envoi',
+  'report.safetyProtocols': 'Protocoles de sécurité obligatoires',
+  'report.title': 'Évaluation technique',
+  'report.jobCard': 'Fiche d’intervention',
+  'report.streaming': 'Réception...',
+  'report.confidence': 'Confiance : {value} %',
+  'report.promptVersion': 'Prompt : {scope} v{version}',
+  'report.analysis': 'Analyse',
+  'report.diagnosticLogic': 'Logique de diagnostic',
+  'report.reassess': 'Réévaluer',
+  'report.steps': 'Étapes de correction',
+  'report.stepsLocked': { one: '{count} étape est verrouillée jusqu’à la validation des mesures de maîtrise ci-dessus.', other: '{count} étapes sont verrouillées jusqu’à la validation des mesures de maîtrise ci-dessus.' },
+  'report.bom': 'Nomenclature',
+  'report.generateBom': 'Générer la liste',
+  'report.noBom': 'Aucune nomenclature générée.',
+  'report.verdict': 'Conclusion finale',
+  'report.reassessedAt': 'Réévalué le {date}',
+  'report.resourceImpact': 'Impact sur les ressources',
+  'report.noStepsToBreakDown': 'Aucune étape de correction à détailler.',
+  'report.followUp24h': 'Suivi à 24 h',
+  'report.followUp7d': 'Vérification à 7 jours',
+  'history.title': 'Historique opérationnel',
+  'history.consolidate': 'Regrouper les nomenclatures ({count})',
+  'history.recordsFound': { one: '{count} enregistrement trouvé', other: '{count} enregistrements trouvés' },
+  'history.search': 'Rechercher pannes, équipements, pièces...',
+  'history.allDisciplines': 'Toutes les disciplines',
+  'history.riskIdentified': 'Risque identifié',
+  'history.followUpOverdue': 'Suivi en retard',
+  'history.selectForOrder': 'Sélectionner pour la commande groupée',
+  'history.empty': 'Aucun journal d’intervention disponible.',
+  'history.noMatch': 'Aucun enregistrement ne correspond aux filtres.',
+  'errors.photos': 'Certaines photos n’ont pas pu être jointes.',
+  'errors.unsupportedImage': 'Les photos {format} ne peuvent pas être ouvertes dans ce navigateur. Convertissez la photo en JPEG ou PNG (sur iPhone, réglez Appareil photo › Formats sur Le plus compatible) puis joignez-la à nouveau.',
+  'errors.solve': 'Interruption opérationnelle. Connexion au contrôleur impossible.',
+  'errors.submission': 'Échec de l’envoi.',
+  'errors.bom': 'Échec de l’extraction de la nomenclature.',
+  'errors.expand': 'Échec du développement de l’hypothèse.',
+  'errors.reassess': 'Échec de la réévaluation.',
+  'errors.followUp': 'Échec du suivi.',
+  'errors.jobCard': 'Impossible d’ouvrir la fiche d’intervention.',
+  'errors.requisition': 'Impossible d’ouvrir la demande d’achat.',
+  'errors.ai.network': '⚠️ ERREUR DE CONNEXION : le service d’IA est injoignable. Vérifiez votre connexion et réessayez.',
+  'errors.ai.quota': '⚠️ QUOTA DÉPASSÉ : le fournisseur d’IA limite les requêtes. Patientez une minute puis réessayez.',
+  'errors.ai.malformed': 'Échec de liaison avec le contrôleur : les données de diagnostic reçues étaient corrompues et n’ont pas pu être réparées. Relancez l’évaluation.',
+  'errors.ai.safety': '⛔ REQUÊTE BLOQUÉE : le filtre de sécurité du fournisseur d’IA a refusé cette requête. Reformulez la description du problème et réessayez.',
+  'errors.ai.cancelled': 'Diagnostic annulé.',
+  'errors.ai.backend': '⚠️ SERVEUR INDISPONIBLE : le serveur de l’application n’a pas répondu correctement. Cet appareil est en ligne ; demandez à l’administrateur de vérifier que le serveur fonctionne.',
+  'errors.ai.config': '⚙️ ERREUR DE CONFIGURATION : le serveur n’autorise pas ce point d’accès du fournisseur. Demandez à l’administrateur de l’ajouter à ALLOWED_BASE_URLS, ou choisissez un autre point d’accès dans les Paramètres.',
+  'errors.ai.unknown': '⚠️ ERREUR DU CONTRÔLEUR : la requête d’IA a échoué de façon inattendue. Réessayez.',
+  'analytics.interventions': 'Interventions',
+  'analytics.safetyCritical': 'Critiques pour la sécurité',
+  'analytics.avgConfidence': 'Confiance moyenne',
+  'analytics.estLabour': 'Main-d’œuvre estimée',
+  'analytics.empty': 'Aucune intervention à analyser pour le moment.',
+  'analytics.perDiscipline': 'Interventions par discipline',
+  'analytics.trend': 'Tendance sécurité et confiance',
+  'analytics.safetyCriticalPercent': '% critiques pour la sécurité',
+  'analytics.avgConfidencePercent': '% de confiance moyenne',
+  'analytics.share': 'Répartition par discipline',
+  'analytics.topBom': 'Articles les plus demandés',
+  'analytics.requests': 'demandes',
+  'analytics.noBom': 'Aucune nomenclature générée pour le moment.',
+  'assets.title': 'Registre des équipements',
+  'assets.registered': { one: '{count} équipement enregistré', other: '{count} équipements enregistrés' },
+  'assets.empty': 'Aucun équipement enregistré. Enregistrez-en un depuis le panneau Équipements détectés d’un diagnostic.',
+  'assets.search': 'Rechercher des équipements...',
+  'assets.interventions': { one: '{count} intervention', other: '{count} interventions' },
+  'assets.type': 'Type',
+  'assets.location': 'Emplacement',
+  'assets.ratings': 'Caractéristiques nominales',
+  'assets.history': 'Historique des interventions',
+  'assets.noInterventions': 'Aucune intervention enregistrée.',
+  'assets.selectPrompt': 'Sélectionnez un équipement pour voir son historique.',
+  'attachments.annotate': 'Annoter',
+  'attachments.label': 'Légende...',
+  'attachments.photo': 'Photo {index}',
+  'attachments.attachment': 'Pièce jointe',
+  'bom.notStocked': 'Non stocké',
+  'bom.manual': 'Manuel',
+  'bom.onHand': '{count} en stock',
+  'bom.stock': 'Stock',
+  'bom.item': 'Article',
+  'bom.spec': 'Spéc.',
+  'bom.qty': 'Qté',
+  'bom.unit': 'Unité',
+  'bom.priority': 'Priorité',
+  'bom.priority.high': 'Haute',
+  'bom.priority.medium': 'Moyenne',
+  'bom.priority.low': 'Basse',
+  'bom.supplier': 'Fournisseur',
+  'bom.unitCost': 'Coût unitaire',
+  'bom.total': 'Total',
+  'bom.stockCode': 'Code article',
+  'bom.specification': 'Spécification',
+  'bom.quantity': 'Quantité',
+  'bom.unitCostIn': 'Coût unitaire ({currency})',
+  'bom.lineTotalIn': 'Total de ligne ({currency})',
+  'bom.estimatedTotal': 'Total estimé',
+  'bom.unpriced': '({count} sans prix)',
+  'bom.addLine': 'Ajouter une ligne',
+  'bom.requisition': 'Demande d’achat',
+  'calc.title': 'Calculs vérifiés',
+  'calc.verifiedHint': 'Calculé localement, non estimé par le modèle',
+  'refs.title': 'Références',
+  'refs.page': 'p. {page}',
+  'refs.pastIntervention': 'Intervention précédente',
+  'refs.cited': 'Cité',
+  'refs.open': 'Ouvrir cette intervention',
+  'camera.unsupported': 'L’accès à la caméra n’est pas disponible dans ce navigateur. Utilisez Joindre des médias.',
+  'camera.denied': 'L’autorisation d’accès à la caméra a été refusée.',
+  'camera.unavailable': 'Aucune caméra n’a pu être ouverte sur cet appareil.',
+  'camera.title': 'Prendre une photo',
+  'camera.switch': 'Changer de caméra',
+  'camera.capture': 'Capturer',
+  'catalog.title': 'Catalogue de pièces',
+  'catalog.parts': { one: '{count} pièce', other: '{count} pièces' },
+  'catalog.imported': { one: '{count} pièce importée', other: '{count} pièces importées' },
+  'catalog.skipped': { one: '{count} ligne ignorée (code ou nom manquant)', other: '{count} lignes ignorées (code ou nom manquant)' },
+  'catalog.readError': 'Impossible de lire le fichier du catalogue.',
+  'catalog.import': 'Importer CSV/JSON',
+  'catalog.empty': 'Aucun catalogue chargé. Importez un export d’inventaire avec les colonnes code article, nom, spécification, unité, coût, fournisseur et stock disponible.',
+  'catalog.search': 'Rechercher code article, pièce, fournisseur...',
+  'catalog.code': 'Code',
+  'catalog.part': 'Pièce',
+  'catalog.cost': 'Coût ({currency})',
+  'catalog.onHand': 'En stock',
+  'catalog.limit': 'Affichage des {count} premiers résultats. Affinez la recherche pour en voir plus.',
+  'library.title': 'Bibliothèque documentaire',
+  'library.documents': { one: '{count} document', other: '{count} documents' },
+  'library.upload': 'Importer PDF/Texte',
+  'library.indexing': 'Indexation de {name}…',
+  'library.indexed': { one: '{name} indexé en {count} passage', other: '{name} indexé en {count} passages' },
+  'library.readError': 'Impossible d’indexer le document.',
+  'library.empty': 'Aucun document pour l’instant. Importez manuels, procédures et fiches techniques (PDF ou texte brut) : le contrôleur citera les passages pertinents avec le document et la page.',
+  'library.name': 'Document',
+  'library.pages': 'Pages',
+  'library.chunks': 'Passages',
+  'library.size': 'Taille',
+  'library.added': 'Ajouté',
+  'library.embedder': 'Index',
+  'library.reindex': 'Réindexer',
+  'library.reindexAll': { one: 'Réindexer {count} document', other: 'Réindexer {count} documents' },
+  'library.staleHint': 'Indexé avec {embedder} ; réindexez pour le rechercher avec {current}',
+  'order.title': 'Commande groupée',
+  'order.diagnoses': { one: '{count} diagnostic', other: '{count} diagnostics' },
+  'order.chargeTo': 'Imputer à',
+  'order.noWorkOrder': 'Aucun ordre de travail',
+  'order.empty': 'Les diagnostics sélectionnés n’ont aucune ligne de nomenclature.',
+  'conversation.title': 'Suivi',
+  'conversation.compare': 'Comparer les versions',
+  'conversation.clarification': 'Précisions requises',
+  'conversation.submit': 'Envoyer les réponses',
+  'conversation.placeholder': 'Posez une question ou signalez de nouvelles constatations...',
+  'detected.title': 'Équipements détectés',
+  'detected.register': 'Enregistrer {id}',
+  'detected.pastInterventions': { one: '{count} intervention précédente sur cet équipement', other: '{count} interventions précédentes sur cet équipement' },
+  'detected.reportedAs': 'Signalé comme {value}',
+  'plausibility.negativeVoltage': 'Tension négative ; vérifier la polarité ou le signe.',
+  'plausibility.domesticVoltage': 'Invraisemblable pour une alimentation domestique (normalement 110–400 V).',
+  'plausibility.aboveTransmission': 'Supérieure à toute tension de transport en service.',
+  'plausibility.domesticCurrent': 'Invraisemblable pour une installation domestique (les branchements dépassent rarement 100 A).',
+  'plausibility.plantCurrent': 'Invraisemblablement élevé pour un équipement industriel.',
+  'plausibility.domesticPower': 'Invraisemblable pour une charge domestique.',
+  'plausibility.aboveGenerator': 'Supérieure à toute unité de production isolée.',
+  'plausibility.aboveSpeed': 'Au-delà de 100 000 tr/min ; invraisemblable pour une machine tournante.',
+  'plausibility.belowAbsoluteZero': 'En dessous du zéro absolu.',
+  'plausibility.aboveTemperature': 'Au-delà de 3000 °C ; invraisemblable pour un équipement industriel.',
+  'plausibility.belowVacuum': 'En dessous du vide absolu.',
+  'plausibility.outsidePercent': 'Doit être compris entre 0 et 100 %.',
+  'plausibility.negative': 'Ne peut pas être négatif.',
+  'plausibility.notPressure': 'Exprimé en {unit}, alors que « {key} » devrait être une pression.',
+  'plausibility.notFlow': 'Exprimé en {unit}, alors que « {key} » devrait être un débit.',
+  'plausibility.notTemperature': 'Exprimé en {unit}, alors que « {key} » devrait être une température.',
+  'plausibility.notCurrent': 'Exprimé en {unit}, alors que « {key} » devrait être un courant.',
+  'plausibility.notSpeed': 'Exprimé en {unit}, alors que « {key} » devrait être une vitesse.',
+  'plausibility.notLength': 'Exprimé en {unit}, alors que « {key} » devrait être une longueur.',
+  'plausibility.notVoltage': 'Exprimé en {unit}, alors que « {key} » devrait être une tension.',
+  'plausibility.differsFromRating': 'Diffère de la valeur nominale enregistrée de l’équipement ({rating}).',
+  'tree.hypothesis': 'Hypothèse',
+  'tree.verification': 'Vérification',
+  'tree.passed': 'Réussi',
+  'tree.failed': 'Échoué',
+  'tree.notRun': 'Non effectué',
+  'tree.expand': 'Développer',
+  'tree.reading': 'Valeur mesurée...',
+  'tree.attachPhoto': 'Joindre une photo',
+  'followUps.remindersOn': 'Rappels activés',
+  'followUps.blockedHint': 'Autorisez les notifications pour ce site dans les paramètres du navigateur',
+  'followUps.blocked': 'Notifications bloquées',
+  'followUps.enable': 'Activer les rappels',
+  'followUps.empty': 'Aucun suivi en attente.',
+  'followUps.overdue': 'En retard ({count})',
+  'followUps.dueToday': 'À faire aujourd’hui ({count})',
+  'followUps.upcoming': 'À venir ({count})',
+  'followUps.notification': 'Suivi à effectuer ({window})',
+  'followUp.done': 'Fait',
+  'followUp.overdue': 'En retard',
+  'followUp.dueToday': 'Aujourd’hui',
+  'followUp.due': 'Prévu',
+  'followUp.note': 'Ajouter une note (mesures, observations)...',
+  'annotator.arrow': 'Flèche',
+  'annotator.circle': 'Cercle',
+  'annotator.label': 'Légende',
+  'annotator.redact': 'Masquer',
+  'annotator.labelPlaceholder': 'Saisissez la légende, puis cliquez sur la photo',
+  'annotator.clearAll': 'Tout effacer',
+  'annotator.redactHint': 'Les zones masquées sont noircies dans l’image envoyée pour analyse.',
+  'outbox.title': 'Boîte d’envoi ({count})',
+  'outbox.online': 'En ligne — envoi automatique',
+  'outbox.offline': 'Hors ligne — envoi au retour du réseau',
+  'outbox.attempts': { one: 'Pas de connexion après {count} tentative ; nouvel essai automatique.', other: 'Pas de connexion après {count} tentatives ; nouvel essai automatique.' },
+  'outbox.remove': 'Retirer de la boîte d’envoi',
+  'outbox.queued': 'En attente',
+  'outbox.sending': 'Envoi',
+  'outbox.failed': 'Échec',
+  'project.title': 'Pilotage du projet',
+  'project.workOrder': 'Ordre de travail',
+  'project.notLinked': 'Non lié',
+  'project.scopeCheck': 'Contrôle du périmètre',
+  'project.pending': 'Vérification en attente.',
+  'project.estTime': 'Durée estimée',
+  'project.remaining': 'Reste sur l’OT',
+  'project.steps': 'Étapes',
+  'project.overBudget': 'L’estimation dépasse le budget restant de {number}. Demandez un avenant avant de poursuivre.',
+  'scope.inScope': 'Dans le périmètre',
+  'scope.partial': 'Partiellement hors périmètre',
+  'scope.outOfScope': 'Hors périmètre',
+  'scope.unknown': 'Non vérifié',
+  'safety.title': 'Maîtrise des dangers',
+  'safety.hazards': { one: '{count} danger', other: '{count} dangers' },
+  'safety.isolation': 'Consignation / étiquetage et isolement',
+  'safety.ppe': 'EPI',
+  'safety.permits': 'Permis requis',
+  'safety.technician': 'Nom du technicien',
+  'safety.unlock': 'Mesures en place — déverrouiller les étapes',
+  'safety.acknowledged': 'Validé',
+  'safety.acknowledgedBy': 'Validé par {name}',
+  'hazard.highVoltage.title': 'Haute tension (≥ 1 kV)',
+  'hazard.highVoltage.switching': 'Manœuvres effectuées par une personne habilitée HT selon un programme de manœuvre approuvé',
+  'hazard.highVoltage.earth': 'Séparer, condamner et mettre à la terre à tous les points d’alimentation ; poser les mises à la terre principales du circuit',
+  'hazard.highVoltage.prove': 'Vérifier l’absence de tension avec un détecteur HT testé avant et après usage',
+  'hazard.highVoltage.barriers': 'Poser des panneaux de danger et des barrières autour des équipements voisins sous tension',
+  'hazard.highVoltage.arcClothing': 'Vêtements résistants à l’arc adaptés à l’énergie incidente calculée',
+  'hazard.highVoltage.hood': 'Cagoule arc électrique et écran facial',
+  'hazard.highVoltage.gloves': 'Gants isolants HT (classe adaptée à la tension du réseau)',
+  'hazard.highVoltage.permit': 'Autorisation de travail HT / Autorisation d’essai',
+  'hazard.highVoltage.programme': 'Programme de manœuvre signé par le chargé de consignation',
+  'hazard.electrical.title': 'Électrique (≥ 50 V)',
+  'hazard.electrical.sources': 'Identifier toutes les sources d’alimentation, y compris les retours, groupes électrogènes et onduleurs',
+  'hazard.electrical.lock': 'Séparer sur l’appareil amont et poser un cadenas et une étiquette personnels',
+  'hazard.electrical.prove': 'Vérifier l’absence de tension avec un VAT testé (tester–vérifier–tester)',
+  'hazard.electrical.discharge': 'Décharger l’énergie stockée dans les condensateurs et les bus continus des variateurs',
+  'hazard.electrical.arcClothing': 'Vêtements résistants à l’arc et écran facial',
+  'hazard.electrical.gloves': 'Gants isolants adaptés à la tension du réseau',
+  'hazard.electrical.footwear': 'Chaussures de sécurité',
+  'hazard.electrical.permit': 'Attestation de consignation électrique',
+  'hazard.confinedSpace.title': 'Espace confiné',
+  'hazard.confinedSpace.isolate': 'Séparer et obturer toutes les lignes de procédé entrant dans l’espace ; consigner agitateurs et pompes',
+  'hazard.confinedSpace.atmosphere': 'Ventiler et contrôler l’atmosphère (O₂, LIE, H₂S, CO) avant et pendant l’entrée',
+  'hazard.confinedSpace.attendant': 'Poster un surveillant formé à l’entrée avec un plan et du matériel de sauvetage',
+  'hazard.confinedSpace.monitor': 'Détecteur quatre gaz porté par chaque intervenant',
+  'hazard.confinedSpace.harness': 'Harnais complet avec ligne de récupération',
+  'hazard.confinedSpace.escape': 'Appareil respiratoire d’évacuation',
+  'hazard.confinedSpace.permit': 'Permis d’entrée en espace confiné',
+  'hazard.gasTestCertificate': 'Certificat de mesure de gaz',
+  'hazard.pressure.title': 'Équipement sous pression / Énergie stockée',
+  'hazard.pressure.valves': 'Fermer et condamner les vannes d’isolement amont et aval (double barrage et purge si possible)',
+  'hazard.pressure.vent': 'Mettre à l’air ou vidanger jusqu’à pression nulle et vérifier sur un manomètre étalonné',
+  'hazard.pressure.tagged': 'Laisser les évents ouverts et étiquetés tant que le circuit est ouvert',
+  'hazard.pressure.faceShield': 'Écran facial par-dessus les lunettes de sécurité',
+  'hazard.pressure.gloves': 'Gants adaptés à la température du fluide',
+  'hazard.lineBreakingPermit': 'Permis d’ouverture de ligne',
+  'hazard.flammable.title': 'Atmosphère inflammable',
+  'hazard.flammable.depressurise': 'Isoler et dépressuriser l’inventaire d’hydrocarbures ; obturer ou double barrage et purge là où il sera ouvert',
+  'hazard.flammable.gasTest': 'Mesurer la LIE avant et pendant les travaux ; arrêter au-delà de 10 % de la LIE',
+  'hazard.flammable.ignition': 'Maîtriser les sources d’inflammation : matériel certifié (Ex) uniquement, outils anti-étincelles et liaison équipotentielle des récipients',
+  'hazard.flammable.coveralls': 'Combinaison ignifugée',
+  'hazard.flammable.monitor': 'Détecteur de gaz individuel (LIE, H₂S)',
+  'hazard.flammable.footwear': 'Chaussures de sécurité antistatiques',
+  'hazard.flammable.permit': 'Permis de travail en zone dangereuse',
+  'hazard.hotWork.title': 'Travaux par point chaud',
+  'hazard.hotWork.combustibles': 'Retirer ou protéger les combustibles dans un rayon de 11 m (35 ft)',
+  'hazard.hotWork.gasTest': 'Rechercher les gaz inflammables dans la zone et dans les capacités ou égouts voisins',
+  'hazard.hotWork.fireWatch': 'Assurer une surveillance incendie pendant les travaux et au moins 30 minutes après',
+  'hazard.hotWork.helmet': 'Masque de soudage de teinte adaptée',
+  'hazard.hotWork.clothing': 'Vêtements ignifugés et manchettes en cuir',
+  'hazard.hotWork.permit': 'Permis de feu',
+  'hazard.chemical.title': 'Produits chimiques dangereux',
+  'hazard.chemical.sds': 'Consulter la fiche de données de sécurité de chaque substance concernée',
+  'hazard.chemical.drain': 'Vidanger, rincer et mettre à l’air la ligne ou la capacité avant de l’ouvrir',
+  'hazard.chemical.eyewash': 'Vérifier que le lave-œil et la douche de sécurité sont à moins de 10 secondes',
+  'hazard.chemical.goggles': 'Lunettes étanches anti-projections et écran facial',
+  'hazard.chemical.gloves': 'Gants et tablier résistants aux produits chimiques',
+  'hazard.chemical.respirator': 'Appareil respiratoire si la FDS l’exige',
+  'hazard.rotating.title': 'Machines tournantes',
+  'hazard.rotating.isolate': 'Arrêter la machine et consigner l’entraînement au MCC avec cadenas et étiquette personnels',
+  'hazard.rotating.tryStart': 'Tenter un démarrage local et à distance pour prouver la consignation',
+  'hazard.rotating.block': 'Caler ou retenir les pièces pouvant bouger sous l’effet de la gravité ou d’une énergie stockée',
+  'hazard.rotating.clothing': 'Vêtements ajustés, sans éléments flottants',
+  'hazard.rotating.glasses': 'Lunettes de sécurité et gants pour manipuler les pièces',
+  'hazard.height.title': 'Travail en hauteur',
+  'hazard.height.platform': 'Utiliser une plateforme protégée ou une PEMP plutôt qu’une échelle',
+  'hazard.height.barrier': 'Baliser la zone de chute en dessous',
+  'hazard.height.harness': 'Harnais complet avec longe à absorbeur d’énergie',
+  'hazard.height.helmet': 'Casque avec jugulaire',
+  'hazard.height.permit': 'Permis de travail en hauteur',
+  'hazard.excavation.title': 'Fouille / Instabilité structurelle',
+  'hazard.excavation.services': 'Localiser et marquer les réseaux enterrés avant de creuser',
+  'hazard.excavation.shore': 'Étayer ou blinder avant d’entrer ou de travailler dessous',
+  'hazard.excavation.cordon': 'Baliser la zone d’exclusion',
+  'hazard.excavation.ppe': 'Casque, vêtements haute visibilité et chaussures de sécurité',
+  'hazard.excavation.permit': 'Permis de fouille',
+  'hazard.disciplineWork': 'travaux ({discipline})',
+  'settings.title': 'Fournisseur d’IA',
+  'settings.provider': 'Fournisseur',
+  'settings.model': 'Modèle',
+  'settings.endpoint': 'Point de terminaison',
+  'settings.apiKey': 'Clé API',
+  'settings.apiKeyEnv': 'Utilise GEMINI_API_KEY si vide',
+  'settings.optional': 'Facultatif',
+  'settings.mockHint': 'Renvoie des diagnostics types pour chaque discipline. Aucun réseau ni clé API requis.',
+  'settings.currency': 'Devise d’achat',
+  'settings.units': 'Unités d’affichage',
+  'settings.unitsSi': 'SI / métrique (kW, bar, m, °C)',
+  'settings.unitsImperial': 'Impériales (hp, psi, ft, °F)',
+  'settings.prompts': 'Modifier les modèles de prompt',
+  'settings.embedder': 'Recherche documentaire',
+  'settings.embedderLocal': 'Sur cet appareil (fonctionne hors ligne)',
+  'settings.embedderProvider': 'Modèle d’embedding du fournisseur',
+  'settings.embeddingModel': 'Modèle d’embedding',
+  'prompts.title': 'Modèles de prompt',
+  'prompts.allFields': 'Toutes disciplines',
+  'prompts.builtIn': 'Intégré',
+  'prompts.version': 'v{version}',
+  'prompts.inherits': 'Utilise {scope}',
+  'prompts.body': 'Instruction système',
+  'prompts.placeholders': 'Variables disponibles :',
+  'prompts.variables': 'Variables',
+  'prompts.variableName': 'nom',
+  'prompts.variableValue': 'valeur',
+  'prompts.addVariable': 'Ajouter une variable',
+  'prompts.missingSchema': 'Conservez {placeholder} dans le modèle : sans lui, le modèle ne connaît pas le format de réponse.',
+  'prompts.unknownPlaceholders': 'Aucune valeur pour {names} ; ils seront envoyés tels quels.',
+  'prompts.reset': 'Charger la version intégrée',
+  'prompts.remove': 'Supprimer et utiliser Toutes disciplines',
+  'prompts.saveVersion': 'Enregistrer {scope} v{version}',
+  'prompts.preview': 'Aperçu',
+  'prompts.history': 'Versions précédentes',
+  'prompts.noHistory': 'Aucune version précédente.',
+  'prompts.restore': 'Charger',
+  'versions.title': 'Comparaison des versions',
+  'versions.changed': 'modifié',
+  'versions.safetyCheck': 'Contrôle de sécurité',
+  'versions.analysis': 'Analyse',
+  'versions.steps': 'Étapes de correction',
+  'versions.finalResult': 'Conclusion finale',
+  'versions.confidence': 'Confiance',
+  'versions.timeToComplete': 'Durée estimée',
+  'compare.open': 'Comparer les modèles',
+  'compare.title': 'Comparaison de modèles',
+  'compare.hint': 'Soumet le problème à chaque variante en parallèle. Rien n’est enregistré avant que vous ne choisissiez un résultat.',
+  'compare.provider': 'Fournisseur',
+  'compare.model': 'Modèle',
+  'compare.temperature': 'Temp.',
+  'compare.addVariant': 'Ajouter une variante',
+  'compare.run': 'Lancer la comparaison',
+  'compare.running': 'En cours...',
+  'compare.differs': 'diffère',
+  'compare.hypotheses': 'Hypothèses',
+  'compare.onlyHere': 'seulement ici',
+  'compare.use': 'Utiliser',
+  'compare.merge': 'Fusionner les autres',
+  'compare.mergeHint': 'Conserve ce verdict et ajoute les hypothèses et questions soulevées uniquement par les autres modèles',
+  'workOrders.new': 'Nouvel ordre de travail',
+  'workOrders.editTitle': 'Modifier {number}',
+  'workOrders.number': 'N° d’OT',
+  'workOrders.client': 'Client',
+  'workOrders.asset': 'Équipement',
+  'workOrders.scope': 'Périmètre des travaux',
+  'workOrders.budgetedHours': 'Heures budgétées',
+  'workOrders.status': 'Statut',
+  'workOrders.save': 'Enregistrer l’ordre de travail',
+  'workOrders.empty': 'Aucun ordre de travail pour le moment.',
+  'workOrders.timeBudget': 'Budget temps',
+  'workOrders.materials': 'Matériel',
+  'workOrders.status.open': 'Ouvert',
+  'workOrders.status.inProgress': 'En cours',
+  'workOrders.status.onHold': 'En pause',
+  'workOrders.status.completed': 'Terminé',
+  'workOrders.status.cancelled': 'Annulé',
+  'jobCard.title': 'Fiche d’intervention',
+  'jobCard.reference': 'Référence',
+  'jobCard.date': 'Date',
+  'jobCard.discipline': 'Discipline',
+  'jobCard.workOrder': 'Ordre de travail',
+  'jobCard.asset': 'Équipement',
+  'jobCard.estTime': 'Durée estimée',
+  'jobCard.problem': 'Problème signalé',
+  'jobCard.photo': 'Photo jointe',
+  'jobCard.safety': 'Protocoles de sécurité obligatoires',
+  'jobCard.diagnostics': 'Arbre de diagnostic',
+  'jobCard.hypothesis': 'Hypothèse',
+  'jobCard.test': 'Vérification',
+  'jobCard.result': 'Résultat',
+  'jobCard.steps': 'Étapes de correction',
+  'jobCard.stepsWithheld': 'Les étapes de correction sont masquées jusqu’à la validation des mesures de maîtrise dans l’application.',
+  'jobCard.done': 'Fait',
+  'jobCard.bom': 'Nomenclature',
+  'jobCard.item': 'Article',
+  'jobCard.spec': 'Spécification',
+  'jobCard.qty': 'Qté',
+  'jobCard.priority': 'Priorité',
+  'jobCard.followUp24h': 'Suivi à 24 h',
+  'jobCard.followUp7d': 'Vérification à 7 jours',
+  'jobCard.verdict': 'Conclusion finale',
+  'jobCard.technician': 'Technicien',
+  'jobCard.supervisor': 'Superviseur',
+  'jobCard.name': 'Nom',
+  'jobCard.signature': 'Signature',
+  'jobCard.confidence': 'Confiance',
+  'jobCard.calculations': 'Calculs vérifiés',
+  'jobCard.hazards': 'Dangers',
+  'jobCard.isolation': 'Consignation / étiquetage et isolement',
+  'jobCard.ppe': 'EPI',
+  'jobCard.permits': 'Permis requis',
+  'jobCard.acknowledged': 'Mesures validées',
+  'jobCard.inputs': 'Entrées',
+  'jobCard.outputs': 'Résultats',
+  'requisition.title': 'Demande d’achat',
+  'requisition.number': 'N° de demande',
+  'requisition.stockCode': 'Code article',
+  'requisition.date': 'Date',
+  'requisition.workOrder': 'Ordre de travail',
+  'requisition.sources': 'Diagnostics d’origine',
+  'requisition.item': 'Article',
+  'requisition.spec': 'Spécification',
+  'requisition.qty': 'Qté',
+  'requisition.unit': 'Unité',
+  'requisition.priority': 'Priorité',
+  'requisition.supplier': 'Fournisseur',
+  'requisition.unitCost': 'Coût unitaire',
+  'requisition.lineTotal': 'Total ligne',
+  'requisition.total': 'Total estimé',
+  'requisition.unpriced': { one: '{count} ligne pas encore chiffrée', other: '{count} lignes pas encore chiffrées' },
+  'requisition.requestedBy': 'Demandé par',
+  'requisition.approvedBy': 'Approuvé par',
+  'requisition.name': 'Nom',
+  'requisition.signature': 'Signature',
+};
+
+const fr: Locale = {
+  code: 'fr',
+  name: 'Français',
+  englishName: 'French',
+  dir: 'ltr',
+  intl: 'fr-FR',
+  messages
+};
+
+export default fr;
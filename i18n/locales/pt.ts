@@ -0,0 +1,500 @@
+import type { Locale, Messages } from "../index";
+
+const messages: Messages = {
+  'common.cancel': 'Cancelar',
+  'common.clear': 'Limpar',
+  'common.close': 'Fechar',
+  'common.save': 'Guardar',
+  'common.edit': 'Editar',
+  'common.delete': 'Eliminar',
+  'common.retry': 'Tentar novamente',
+  'common.notAvailable': 'N/D',
+  'common.done': 'Concluir',
+  'common.apply': 'Aplicar',
+  'common.undo': 'Desfazer',
+  'common.verified': 'Verificado',
+  'app.tagline': 'Inteligência Operacional',
+  'app.language': 'Idioma',
+  'app.settings': 'Definições',
+  'app.demo': 'Demo',
+  'app.processing': 'A processar',
+  'app.ready': 'Sistema pronto',
+  'app.offline': 'Offline',
+  'nav.solver': 'Consola de Diagnóstico',
+  'nav.history': 'Registo de Intervenções',
+  'nav.followUps': 'Acompanhamentos',
+  'nav.workOrders': 'Ordens de Trabalho',
+  'nav.assets': 'Equipamentos',
+  'nav.catalog': 'Catálogo',
+  'nav.library': 'Biblioteca',
+  'nav.analytics': 'Análises',
+  'solver.discipline': 'Disciplina',
+  'solver.subDiscipline': 'Subespecialidade',
+  'solver.allSubDisciplines': 'Todas as subespecialidades',
+  'solver.description': 'Descrição Técnica',
+  'solver.placeholder': 'Descreva a avaria, o ID do equipamento e os sintomas observados...',
+  'solver.attachMedia': 'Anexar Multimédia',
+  'solver.captureCamera': 'Capturar com a câmara',
+  'solver.noWorkOrder': 'Sem Ordem de Trabalho',
+  'solver.analyzing': 'A analisar...',
+  'solver.run': 'Executar Diagnóstico',
+  'solver.queue': 'Colocar na Fila de Envio',
+  'report.safetyProtocols': 'Protocolos de Segurança Obrigatórios',
+  'report.title': 'Avaliação Técnica',
+  'report.jobCard': 'Ficha de Trabalho',
+  'report.streaming': 'A receber...',
+  'report.confidence': 'Confiança: {value}%',
+  'report.promptVersion': 'Prompt: {scope} v{version}',
+  'report.analysis': 'Análise',
+  'report.diagnosticLogic': 'Lógica de Diagnóstico',
+  'report.reassess': 'Reavaliar',
+  'report.steps': 'Passos de Correção',
+  'report.stepsLocked': { one: '{count} passo está bloqueado até que os controlos de perigo acima sejam confirmados.', other: '{count} passos estão bloqueados até que os controlos de perigo acima sejam confirmados.' },
+  'report.bom': 'Lista de Materiais',
+  'report.generateBom': 'Gerar Lista',
+  'report.noBom': 'Ainda não foi gerada nenhuma lista de materiais.',
+  'report.verdict': 'Conclusão Final',
+  'report.reassessedAt': 'Reavaliado em {date}',
+  'report.resourceImpact': 'Impacto nos Recursos',
+  'report.noStepsToBreakDown': 'Não há passos de correção para detalhar.',
+  'report.followUp24h': 'Acompanhamento de 24 h',
+  'report.followUp7d': 'Verificação de 7 Dias',
+  'history.title': 'Histórico Operacional',
+  'history.consolidate': 'Consolidar Listas ({count})',
+  'history.recordsFound': { one: '{count} registo encontrado', other: '{count} registos encontrados' },
+  'history.search': 'Pesquisar avarias, equipamentos, peças...',
+  'history.allDisciplines': 'Todas as Disciplinas',
+  'history.riskIdentified': 'Risco Identificado',
+  'history.followUpOverdue': 'Acompanhamento em Atraso',
+  'history.selectForOrder': 'Selecionar para a encomenda consolidada',
+  'history.empty': 'Não há registos de intervenção disponíveis.',
+  'history.noMatch': 'Nenhum registo corresponde aos filtros atuais.',
+  'errors.photos': 'Não foi possível anexar algumas fotografias.',
+  'errors.unsupportedImage': 'As fotografias {format} não podem ser abertas neste navegador. Converta a fotografia para JPEG ou PNG (no iPhone, defina Câmara › Formatos como Mais compatível) e anexe-a novamente.',
+  'errors.solve': 'Interrupção operacional. Não foi possível ligar ao Controlador.',
+  'errors.submission': 'O envio falhou.',
+  'errors.bom': 'A extração da lista de materiais falhou.',
+  'errors.expand': 'A expansão da hipótese falhou.',
+  'errors.reassess': 'A reavaliação falhou.',
+  'errors.followUp': 'O acompanhamento falhou.',
+  'errors.jobCard': 'Não foi possível abrir a ficha de trabalho.',
+  'errors.requisition': 'Não foi possível abrir a requisição de compra.',
+  'errors.ai.network': '⚠️ ERRO DE LIGAÇÃO: Não foi possível contactar o serviço de IA. Verifique a ligação e tente novamente.',
+  'errors.ai.quota': '⚠️ QUOTA EXCEDIDA: O fornecedor de IA está a limitar pedidos. Aguarde um minuto e tente novamente.',
+  'errors.ai.malformed': 'Falha na ligação ao Controlador: os dados de diagnóstico recebidos estavam corrompidos e não puderam ser reparados. Volte a executar a avaliação.',
+  'errors.ai.safety': '⛔ PEDIDO BLOQUEADO: O filtro de segurança do fornecedor de IA recusou este pedido. Reformule a descrição do problema e tente novamente.',
+  'errors.ai.cancelled': 'Diagnóstico cancelado.',
+  'errors.ai.backend': '⚠️ SERVIDOR INDISPONÍVEL: O servidor da aplicação não respondeu corretamente. Este dispositivo está online; peça ao administrador que verifique se o servidor está a funcionar.',
+  'errors.ai.config': '⚙️ ERRO DE CONFIGURAÇÃO: O servidor não permite este endereço do fornecedor. Peça ao administrador que o adicione a ALLOWED_BASE_URLS, ou escolha outro endereço nas Definições.',
+  'errors.ai.unknown': '⚠️ ERRO DO CONTROLADOR: O pedido de IA falhou inesperadamente. Tente novamente.',
+  'analytics.interventions': 'Intervenções',
+  'analytics.safetyCritical': 'Críticas para a segurança',
+  'analytics.avgConfidence': 'Confiança Média',
+  'analytics.estLabour': 'Mão de Obra Est.',
+  'analytics.empty': 'Ainda não há intervenções para analisar.',
+  'analytics.perDiscipline': 'Intervenções por Disciplina',
+  'analytics.trend': 'Tendência de Segurança e Confiança',
+  'analytics.safetyCriticalPercent': '% críticas para a segurança',
+  'analytics.avgConfidencePercent': '% de confiança média',
+  'analytics.share': 'Distribuição por Disciplina',
+  'analytics.topBom': 'Materiais Mais Pedidos',
+  'analytics.requests': 'pedidos',
+  'analytics.noBom': 'Ainda não foram geradas listas de materiais.',
+  'assets.title': 'Registo de Equipamentos',
+  'assets.registered': { one: '{count} equipamento registado', other: '{count} equipamentos registados' },
+  'assets.empty': 'Não há equipamentos registados. Registe um a partir do painel Equipamentos Detetados de um diagnóstico.',
+  'assets.search': 'Pesquisar equipamentos...',
+  'assets.interventions': { one: '{count} intervenção', other: '{count} intervenções' },
+  'assets.type': 'Tipo',
+  'assets.location': 'Localização',
+  'assets.ratings': 'Características Nominais',
+  'assets.history': 'Histórico de Intervenções',
+  'assets.noInterventions': 'Não há intervenções registadas.',
+  'assets.selectPrompt': 'Selecione um equipamento para ver o histórico.',
+  'attachments.annotate': 'Anotar',
+  'attachments.label': 'Legenda...',
+  'attachments.photo': 'Fotografia {index}',
+  'attachments.attachment': 'Anexo',
+  'bom.notStocked': 'Sem stock',
+  'bom.manual': 'Manual',
+  'bom.onHand': '{count} em stock',
+  'bom.stock': 'Stock',
+  'bom.item': 'Artigo',
+  'bom.spec': 'Espec.',
+  'bom.qty': 'Qtd.',
+  'bom.unit': 'Unidade',
+  'bom.priority': 'Prioridade',
+  'bom.priority.high': 'Alta',
+  'bom.priority.medium': 'Média',
+  'bom.priority.low': 'Baixa',
+  'bom.supplier': 'Fornecedor',
+  'bom.unitCost': 'Custo Unitário',
+  'bom.total': 'Total',
+  'bom.stockCode': 'Código de Stock',
+  'bom.specification': 'Especificação',
+  'bom.quantity': 'Quantidade',
+  'bom.unitCostIn': 'Custo Unitário ({currency})',
+  'bom.lineTotalIn': 'Total da Linha ({currency})',
+  'bom.estimatedTotal': 'Total Estimado',
+  'bom.unpriced': '({count} sem preço)',
+  'bom.addLine': 'Adicionar Linha',
+  'bom.requisition': 'Requisição',
+  'calc.title': 'Cálculos Verificados',
+  'calc.verifiedHint': 'Calculado localmente, não estimado pelo modelo',
+  'refs.title': 'Referências',
+  'refs.page': 'p. {page}',
+  'refs.pastIntervention': 'Intervenção anterior',
+  'refs.cited': 'Citado',
+  'refs.open': 'Abrir esta intervenção',
+  'camera.unsupported': 'O acesso à câmara não está disponível neste navegador. Utilize Anexar Multimédia.',
+  'camera.denied': 'A permissão da câmara foi recusada.',
+  'camera.unavailable': 'Não foi possível abrir nenhuma câmara neste dispositivo.',
+  'camera.title': 'Tirar Fotografia',
+  'camera.switch': 'Trocar Câmara',
+  'camera.capture': 'Capturar',
+  'catalog.title': 'Catálogo de Peças',
+  'catalog.parts': { one: '{count} peça', other: '{count} peças' },
+  'catalog.imported': { one: '{count} peça importada', other: '{count} peças importadas' },
+  'catalog.skipped': { one: '{count} linha ignorada (sem código ou nome)', other: '{count} linhas ignoradas (sem código ou nome)' },
+  'catalog.readError': 'Não foi possível ler o ficheiro do catálogo.',
+  'catalog.import': 'Importar CSV/JSON',
+  'catalog.empty': 'Nenhum catálogo carregado. Importe uma exportação de inventário com as colunas código de stock, nome, especificação, unidade, custo, fornecedor e stock disponível.',
+  'catalog.search': 'Pesquisar código de stock, peça, fornecedor...',
+  'catalog.code': 'Código',
+  'catalog.part': 'Peça',
+  'catalog.cost': 'Custo ({currency})',
+  'catalog.onHand': 'Em Stock',
+  'catalog.limit': 'A mostrar os primeiros {count} resultados. Refine a pesquisa para ver mais.',
+  'library.title': 'Biblioteca de Documentos',
+  'library.documents': { one: '{count} documento', other: '{count} documentos' },
+  'library.upload': 'Carregar PDF/Texto',
+  'library.indexing': 'A indexar {name}…',
+  'library.indexed': { one: '{name} indexado em {count} excerto', other: '{name} indexado em {count} excertos' },
+  'library.readError': 'Não foi possível indexar o documento.',
+  'library.empty': 'Ainda não há documentos. Carregue manuais, procedimentos e fichas técnicas (PDF ou texto simples) e o controlador citará os excertos relevantes, indicando documento e página.',
+  'library.name': 'Documento',
+  'library.pages': 'Páginas',
+  'library.chunks': 'Excertos',
+  'library.size': 'Tamanho',
+  'library.added': 'Adicionado',
+  'library.embedder': 'Índice',
+  'library.reindex': 'Reindexar',
+  'library.reindexAll': { one: 'Reindexar {count} documento', other: 'Reindexar {count} documentos' },
+  'library.staleHint': 'Indexado com {embedder}; reindexe para pesquisar com {current}',
+  'order.title': 'Encomenda Consolidada',
+  'order.diagnoses': { one: '{count} diagnóstico', other: '{count} diagnósticos' },
+  'order.chargeTo': 'Imputar a',
+  'order.noWorkOrder': 'Sem ordem de trabalho',
+  'order.empty': 'Os diagnósticos selecionados não têm linhas de materiais.',
+  'conversation.title': 'Acompanhamento',
+  'conversation.compare': 'Comparar Versões',
+  'conversation.clarification': 'Esclarecimento Necessário',
+  'conversation.submit': 'Enviar Respostas',
+  'conversation.placeholder': 'Faça uma pergunta ou comunique novas constatações...',
+  'detected.title': 'Equipamentos Detetados',
+  'detected.register': 'Registar {id}',
+  'detected.pastInterventions': { one: '{count} intervenção anterior neste equipamento', other: '{count} intervenções anteriores neste equipamento' },
+  'detected.reportedAs': 'Indicado como {value}',
+  'plausibility.negativeVoltage': 'Tensão negativa; verifique a polaridade ou o sinal.',
+  'plausibility.domesticVoltage': 'Implausível para uma alimentação doméstica (normalmente 110–400 V).',
+  'plausibility.aboveTransmission': 'Acima de qualquer tensão de transporte em serviço.',
+  'plausibility.domesticCurrent': 'Implausível para uma instalação doméstica (as entradas de serviço raramente excedem 100 A).',
+  'plausibility.plantCurrent': 'Implausivelmente elevado para equipamento industrial.',
+  'plausibility.domesticPower': 'Implausível para uma carga doméstica.',
+  'plausibility.aboveGenerator': 'Maior do que qualquer unidade geradora isolada.',
+  'plausibility.aboveSpeed': 'Acima de 100 000 rpm; implausível para máquinas rotativas.',
+  'plausibility.belowAbsoluteZero': 'Abaixo do zero absoluto.',
+  'plausibility.aboveTemperature': 'Acima de 3000 °C; implausível para equipamento industrial.',
+  'plausibility.belowVacuum': 'Abaixo do vácuo absoluto.',
+  'plausibility.outsidePercent': 'Deve estar entre 0 e 100%.',
+  'plausibility.negative': 'Não pode ser negativo.',
+  'plausibility.notPressure': 'Indicado em {unit}, mas "{key}" deveria ser uma pressão.',
+  'plausibility.notFlow': 'Indicado em {unit}, mas "{key}" deveria ser um caudal.',
+  'plausibility.notTemperature': 'Indicado em {unit}, mas "{key}" deveria ser uma temperatura.',
+  'plausibility.notCurrent': 'Indicado em {unit}, mas "{key}" deveria ser uma corrente.',
+  'plausibility.notSpeed': 'Indicado em {unit}, mas "{key}" deveria ser uma velocidade.',
+  'plausibility.notLength': 'Indicado em {unit}, mas "{key}" deveria ser um comprimento.',
+  'plausibility.notVoltage': 'Indicado em {unit}, mas "{key}" deveria ser uma tensão.',
+  'plausibility.differsFromRating': 'Difere da característica registada do equipamento ({rating}).',
+  'tree.hypothesis': 'Hipótese',
+  'tree.verification': 'Verificação',
+  'tree.passed': 'Aprovado',
+  'tree.failed': 'Reprovado',
+  'tree.notRun': 'Não executado',
+  'tree.expand': 'Expandir',
+  'tree.reading': 'Leitura medida...',
+  'tree.attachPhoto': 'Anexar fotografia',
+  'followUps.remindersOn': 'Lembretes ativos',
+  'followUps.blockedHint': 'Permita notificações para este site nas definições do navegador',
+  'followUps.blocked': 'Notificações bloqueadas',
+  'followUps.enable': 'Ativar Lembretes',
+  'followUps.empty': 'Não há acompanhamentos pendentes.',
+  'followUps.overdue': 'Em Atraso ({count})',
+  'followUps.dueToday': 'Para Hoje ({count})',
+  'followUps.upcoming': 'Próximos ({count})',
+  'followUps.notification': 'Acompanhamento pendente ({window})',
+  'followUp.done': 'Concluído',
+  'followUp.overdue': 'Em atraso',
+  'followUp.dueToday': 'Para hoje',
+  'followUp.due': 'Previsto',
+  'followUp.note': 'Adicionar uma nota (leituras, observações)...',
+  'annotator.arrow': 'Seta',
+  'annotator.circle': 'Círculo',
+  'annotator.label': 'Legenda',
+  'annotator.redact': 'Ocultar',
+  'annotator.labelPlaceholder': 'Escreva a legenda e clique na fotografia',
+  'annotator.clearAll': 'Limpar tudo',
+  'annotator.redactHint': 'As áreas ocultadas são cobertas a preto na imagem enviada para análise.',
+  'outbox.title': 'Caixa de Saída ({count})',
+  'outbox.online': 'Online — envio automático',
+  'outbox.offline': 'Offline — será enviado quando houver rede',
+  'outbox.attempts': { one: 'Sem ligação após {count} tentativa; nova tentativa automática.', other: 'Sem ligação após {count} tentativas; nova tentativa automática.' },
+  'outbox.remove': 'Remover da caixa de saída',
+  'outbox.queued': 'Em fila',
+  'outbox.sending': 'A enviar',
+  'outbox.failed': 'Falhou',
+  'project.title': 'Controlo do Projeto',
+  'project.workOrder': 'Ordem de Trabalho',
+  'project.notLinked': 'Não associada',
+  'project.scopeCheck': 'Verificação do Âmbito',
+  'project.pending': 'Verificação pendente.',
+  'project.estTime': 'Tempo Est.',
+  'project.remaining': 'Restante da OT',
+  'project.steps': 'Passos',
+  'project.overBudget': 'A estimativa excede o orçamento restante de {number}. Peça uma alteração antes de prosseguir.',
+  'scope.inScope': 'Dentro do Âmbito',
+  'scope.partial': 'Parcialmente Fora do Âmbito',
+  'scope.outOfScope': 'Fora do Âmbito',
+  'scope.unknown': 'Não verificado',
+  'safety.title': 'Controlo de Perigos',
+  'safety.hazards': { one: '{count} perigo', other: '{count} perigos' },
+  'safety.isolation': 'Bloqueio / Etiquetagem e Isolamento',
+  'safety.ppe': 'EPI',
+  'safety.permits': 'Autorizações Necessárias',
+  'safety.technician': 'Nome do técnico',
+  'safety.unlock': 'Controlos implementados — desbloquear passos',
+  'safety.acknowledged': 'Confirmado',
+  'safety.acknowledgedBy': 'Confirmado por {name}',
+  'hazard.highVoltage.title': 'Alta Tensão (≥ 1 kV)',
+  'hazard.highVoltage.switching': 'Manobras executadas por uma pessoa autorizada em AT segundo um programa de manobras aprovado',
+  'hazard.highVoltage.earth': 'Isolar, bloquear e ligar à terra em todos os pontos de alimentação; aplicar as terras principais do circuito',
+  'hazard.highVoltage.prove': 'Verificar a ausência de tensão com um detetor de AT testado antes e depois do uso',
+  'hazard.highVoltage.barriers': 'Colocar avisos de perigo e barreiras à volta do equipamento adjacente em tensão',
+  'hazard.highVoltage.arcClothing': 'Vestuário resistente ao arco adequado à energia incidente calculada',
+  'hazard.highVoltage.hood': 'Capuz de proteção contra arco e viseira',
+  'hazard.highVoltage.gloves': 'Luvas isolantes de AT (classe adequada à tensão do sistema)',
+  'hazard.highVoltage.permit': 'Autorização de Trabalho em AT / Autorização de Ensaio',
+  'hazard.highVoltage.programme': 'Programa de manobras assinado pela Pessoa Autorizada Sénior',
+  'hazard.electrical.title': 'Elétrico (≥ 50 V)',
+  'hazard.electrical.sources': 'Identificar todas as fontes de alimentação, incluindo retornos, geradores e UPS',
+  'hazard.electrical.lock': 'Isolar no dispositivo a montante e aplicar cadeado e etiqueta pessoais',
+  'hazard.electrical.prove': 'Verificar a ausência de tensão com um detetor testado (testar–verificar–testar)',
+  'hazard.electrical.discharge': 'Descarregar a energia acumulada em condensadores e barramentos CC dos variadores',
+  'hazard.electrical.arcClothing': 'Vestuário resistente ao arco e viseira',
+  'hazard.electrical.gloves': 'Luvas isolantes adequadas à tensão do sistema',
+  'hazard.electrical.footwear': 'Calçado de segurança',
+  'hazard.electrical.permit': 'Certificado de isolamento elétrico',
+  'hazard.confinedSpace.title': 'Espaço Confinado',
+  'hazard.confinedSpace.isolate': 'Isolar e tamponar todas as linhas de processo que entram no espaço; bloquear agitadores e bombas',
+  'hazard.confinedSpace.atmosphere': 'Ventilar e medir a atmosfera (O₂, LIE, H₂S, CO) antes e durante a entrada',
+  'hazard.confinedSpace.attendant': 'Colocar um vigilante formado à entrada com plano e equipamento de resgate',
+  'hazard.confinedSpace.monitor': 'Detetor de quatro gases usado por cada pessoa que entra',
+  'hazard.confinedSpace.harness': 'Arnês de corpo inteiro com linha de resgate',
+  'hazard.confinedSpace.escape': 'Aparelho respiratório de fuga',
+  'hazard.confinedSpace.permit': 'Autorização de Entrada em Espaço Confinado',
+  'hazard.gasTestCertificate': 'Certificado de medição de gases',
+  'hazard.pressure.title': 'Sistema Sob Pressão / Energia Acumulada',
+  'hazard.pressure.valves': 'Fechar e bloquear as válvulas de isolamento a montante e a jusante (bloqueio duplo e purga quando existir)',
+  'hazard.pressure.vent': 'Ventilar ou drenar até pressão zero e confirmar num manómetro calibrado',
+  'hazard.pressure.tagged': 'Deixar os respiros abertos e etiquetados enquanto o sistema estiver aberto',
+  'hazard.pressure.faceShield': 'Viseira sobre os óculos de segurança',
+  'hazard.pressure.gloves': 'Luvas adequadas à temperatura do fluido',
+  'hazard.lineBreakingPermit': 'Autorização de abertura de linha',
+  'hazard.flammable.title': 'Atmosfera Inflamável',
+  'hazard.flammable.depressurise': 'Isolar e despressurizar o inventário de hidrocarbonetos; tamponar ou bloqueio duplo e purga onde for aberto',
+  'hazard.flammable.gasTest': 'Medir o LIE antes e durante o trabalho; parar se as leituras excederem 10% do LIE',
+  'hazard.flammable.ignition': 'Controlar fontes de ignição: apenas equipamento certificado (Ex), ferramentas antifaísca e ligação equipotencial dos recipientes',
+  'hazard.flammable.coveralls': 'Fato-macaco resistente à chama',
+  'hazard.flammable.monitor': 'Detetor de gases pessoal (LIE, H₂S)',
+  'hazard.flammable.footwear': 'Calçado de segurança antiestático',
+  'hazard.flammable.permit': 'Autorização de Trabalho em Área Perigosa',
+  'hazard.hotWork.title': 'Trabalho a Quente',
+  'hazard.hotWork.combustibles': 'Remover ou proteger os combustíveis num raio de 11 m (35 ft)',
+  'hazard.hotWork.gasTest': 'Medir gases inflamáveis na área e em recipientes ou drenos adjacentes',
+  'hazard.hotWork.fireWatch': 'Manter vigilância de incêndio durante o trabalho e pelo menos 30 minutos depois',
+  'hazard.hotWork.helmet': 'Máscara de soldadura com a tonalidade correta',
+  'hazard.hotWork.clothing': 'Vestuário resistente à chama e luvas de cano alto em couro',
+  'hazard.hotWork.permit': 'Autorização de Trabalho a Quente',
+  'hazard.chemical.title': 'Produtos Químicos Perigosos',
+  'hazard.chemical.sds': 'Rever a Ficha de Dados de Segurança de cada substância envolvida',
+  'hazard.chemical.drain': 'Drenar, lavar e ventilar a linha ou o recipiente antes de abrir o confinamento',
+  'hazard.chemical.eyewash': 'Confirmar que o lava-olhos e o chuveiro de emergência estão a menos de 10 segundos',
+  'hazard.chemical.goggles': 'Óculos contra salpicos químicos e viseira',
+  'hazard.chemical.gloves': 'Luvas e avental resistentes a produtos químicos',
+  'hazard.chemical.respirator': 'Respirador se a FDS o exigir',
+  'hazard.rotating.title': 'Máquinas Rotativas',
+  'hazard.rotating.isolate': 'Parar a máquina e isolar o acionamento no MCC com cadeado e etiqueta pessoais',
+  'hazard.rotating.tryStart': 'Tentar arrancar localmente e à distância para provar o isolamento',
+  'hazard.rotating.block': 'Calçar ou travar as peças que se possam mover por gravidade ou energia acumulada',
+  'hazard.rotating.clothing': 'Vestuário justo, sem peças soltas',
+  'hazard.rotating.glasses': 'Óculos de segurança e luvas para manusear peças',
+  'hazard.height.title': 'Trabalho em Altura',
+  'hazard.height.platform': 'Usar uma plataforma protegida ou PEMP em vez de escadas',
+  'hazard.height.barrier': 'Delimitar a zona de queda por baixo',
+  'hazard.height.harness': 'Arnês de corpo inteiro com talabarte com absorvedor de energia',
+  'hazard.height.helmet': 'Capacete com francalete',
+  'hazard.height.permit': 'Autorização de Trabalho em Altura',
+  'hazard.excavation.title': 'Escavação / Instabilidade Estrutural',
+  'hazard.excavation.services': 'Localizar e marcar as infraestruturas enterradas antes de escavar',
+  'hazard.excavation.shore': 'Escorar ou entivar antes de entrar ou trabalhar por baixo',
+  'hazard.excavation.cordon': 'Delimitar a zona de exclusão',
+  'hazard.excavation.ppe': 'Capacete, vestuário de alta visibilidade e calçado de segurança',
+  'hazard.excavation.permit': 'Escavação / Autorização de Escavação',
+  'hazard.disciplineWork': 'trabalho de {discipline}',
+  'settings.title': 'Fornecedor de IA',
+  'settings.provider': 'Fornecedor',
+  'settings.model': 'Modelo',
+  'settings.endpoint': 'Endpoint',
+  'settings.apiKey': 'Chave de API',
+  'settings.apiKeyEnv': 'Usa GEMINI_API_KEY quando vazio',
+  'settings.optional': 'Opcional',
+  'settings.mockHint': 'Devolve diagnósticos de exemplo para cada disciplina. Não requer rede nem chave de API.',
+  'settings.currency': 'Moeda de Compra',
+  'settings.units': 'Unidades de Apresentação',
+  'settings.unitsSi': 'SI / Métrico (kW, bar, m, °C)',
+  'settings.unitsImperial': 'Imperial (hp, psi, ft, °F)',
+  'settings.prompts': 'Editar modelos de prompt',
+  'settings.embedder': 'Pesquisa de Documentos',
+  'settings.embedderLocal': 'Neste dispositivo (funciona offline)',
+  'settings.embedderProvider': 'Modelo de embeddings do fornecedor',
+  'settings.embeddingModel': 'Modelo de Embeddings',
+  'prompts.title': 'Modelos de prompt',
+  'prompts.allFields': 'Todas as disciplinas',
+  'prompts.builtIn': 'Predefinido',
+  'prompts.version': 'v{version}',
+  'prompts.inherits': 'Usa {scope}',
+  'prompts.body': 'Instrução de sistema',
+  'prompts.placeholders': 'Marcadores:',
+  'prompts.variables': 'Variáveis',
+  'prompts.variableName': 'nome',
+  'prompts.variableValue': 'valor',
+  'prompts.addVariable': 'Adicionar variável',
+  'prompts.missingSchema': 'Mantenha {placeholder} no modelo: sem ele, o modelo não recebe o formato da resposta.',
+  'prompts.unknownPlaceholders': 'Sem valor para {names}; serão enviados tal como escritos.',
+  'prompts.reset': 'Carregar predefinido',
+  'prompts.remove': 'Remover e usar Todas as disciplinas',
+  'prompts.saveVersion': 'Guardar {scope} v{version}',
+  'prompts.preview': 'Pré-visualização',
+  'prompts.history': 'Versões anteriores',
+  'prompts.noHistory': 'Sem versões anteriores.',
+  'prompts.restore': 'Carregar',
+  'versions.title': 'Comparação de Versões',
+  'versions.changed': 'alterado',
+  'versions.safetyCheck': 'Verificação de Segurança',
+  'versions.analysis': 'Análise',
+  'versions.steps': 'Passos de Correção',
+  'versions.finalResult': 'Conclusão Final',
+  'versions.confidence': 'Confiança',
+  'versions.timeToComplete': 'Tempo Est.',
+  'compare.open': 'Comparar modelos',
+  'compare.title': 'Comparação de modelos',
+  'compare.hint': 'Executa o problema em cada variante em paralelo. Nada é salvo até você escolher um resultado.',
+  'compare.provider': 'Provedor',
+  'compare.model': 'Modelo',
+  'compare.temperature': 'Temp.',
+  'compare.addVariant': 'Adicionar variante',
+  'compare.run': 'Executar comparação',
+  'compare.running': 'Executando...',
+  'compare.differs': 'diverge',
+  'compare.hypotheses': 'Hipóteses',
+  'compare.onlyHere': 'só aqui',
+  'compare.use': 'Usar este',
+  'compare.merge': 'Mesclar os outros',
+  'compare.mergeHint': 'Mantém este veredito e acrescenta as hipóteses e perguntas levantadas apenas pelos outros modelos',
+  'workOrders.new': 'Nova Ordem de Trabalho',
+  'workOrders.editTitle': 'Editar {number}',
+  'workOrders.number': 'N.º da OT',
+  'workOrders.client': 'Cliente',
+  'workOrders.asset': 'Equipamento',
+  'workOrders.scope': 'Âmbito do Trabalho',
+  'workOrders.budgetedHours': 'Horas Orçamentadas',
+  'workOrders.status': 'Estado',
+  'workOrders.save': 'Guardar Ordem de Trabalho',
+  'workOrders.empty': 'Ainda não há ordens de trabalho.',
+  'workOrders.timeBudget': 'Orçamento de Tempo',
+  'workOrders.materials': 'Materiais',
+  'workOrders.status.open': 'Aberta',
+  'workOrders.status.inProgress': 'Em Curso',
+  'workOrders.status.onHold': 'Em Pausa',
+  'workOrders.status.completed': 'Concluída',
+  'workOrders.status.cancelled': 'Cancelada',
+  'jobCard.title': 'Ficha de Trabalho',
+  'jobCard.reference': 'Referência',
+  'jobCard.date': 'Data',
+  'jobCard.discipline': 'Disciplina',
+  'jobCard.workOrder': 'Ordem de Trabalho',
+  'jobCard.asset': 'Equipamento',
+  'jobCard.estTime': 'Tempo Est.',
+  'jobCard.problem': 'Problema Reportado',
+  'jobCard.photo': 'Fotografia Anexada',
+  'jobCard.safety': 'Protocolos de Segurança Obrigatórios',
+  'jobCard.diagnostics': 'Árvore de Diagnóstico',
+  'jobCard.hypothesis': 'Hipótese',
+  'jobCard.test': 'Verificação',
+  'jobCard.result': 'Resultado',
+  'jobCard.steps': 'Passos de Correção',
+  'jobCard.stepsWithheld': 'Os passos de correção estão retidos até que os controlos de perigo sejam confirmados na aplicação.',
+  'jobCard.done': 'Feito',
+  'jobCard.bom': 'Lista de Materiais',
+  'jobCard.item': 'Artigo',
+  'jobCard.spec': 'Especificação',
+  'jobCard.qty': 'Qtd.',
+  'jobCard.priority': 'Prioridade',
+  'jobCard.followUp24h': 'Acompanhamento de 24 h',
+  'jobCard.followUp7d': 'Verificação de 7 Dias',
+  'jobCard.verdict': 'Conclusão Final',
+  'jobCard.technician': 'Técnico',
+  'jobCard.supervisor': 'Supervisor',
+  'jobCard.name': 'Nome',
+  'jobCard.signature': 'Assinatura',
+  'jobCard.confidence': 'Confiança',
+  'jobCard.calculations': 'Cálculos Verificados',
+  'jobCard.hazards': 'Perigos',
+  'jobCard.isolation': 'Bloqueio / Etiquetagem e Isolamento',
+  'jobCard.ppe': 'EPI',
+  'jobCard.permits': 'Autorizações Necessárias',
+  'jobCard.acknowledged': 'Controlos confirmados',
+  'jobCard.inputs': 'Entradas',
+  'jobCard.outputs': 'Resultados',
+  'requisition.title': 'Requisição de Compra',
+  'requisition.number': 'N.º da Requisição',
+  'requisition.stockCode': 'Código de Stock',
+  'requisition.date': 'Data',
+  'requisition.workOrder': 'Ordem de Trabalho',
+  'requisition.sources': 'Diagnósticos de Origem',
+  'requisition.item': 'Artigo',
+  'requisition.spec': 'Especificação',
+  'requisition.qty': 'Qtd.',
+  'requisition.unit': 'Unidade',
+  'requisition.priority': 'Prioridade',
+  'requisition.supplier': 'Fornecedor',
+  'requisition.unitCost': 'Custo Unitário',
+  'requisition.lineTotal': 'Total da Linha',
+  'requisition.total': 'Total Estimado',
+  'requisition.unpriced': { one: '{count} linha ainda sem preço', other: '{count} linhas ainda sem preço' },
+  'requisition.requestedBy': 'Requisitado Por',
+  'requisition.approvedBy': 'Aprovado Por',
+  'requisition.name': 'Nome',
+  'requisition.signature': 'Assinatura',
+};
+
+const pt: Locale = {
+  code: 'pt',
+  name: 'Português',
+  englishName: 'Portuguese',
+  dir: 'ltr',
+  intl: 'pt-PT',
+  messages
+};
+
+export default pt;
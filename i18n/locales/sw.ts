@@ -0,0 +1,500 @@
+import type { Locale, Messages } from "../index";
+
+const messages: Messages = {
+  'common.cancel': 'Ghairi',
+  'common.clear': 'Futa',
+  'common.close': 'Funga',
+  'common.save': 'Hifadhi',
+  'common.edit': 'Hariri',
+  'common.delete': 'Futa',
+  'common.retry': 'Jaribu tena',
+  'common.notAvailable': 'Haipo',
+  'common.done': 'Maliza',
+  'common.apply': 'Tumia',
+  'common.undo': 'Tendua',
+  'common.verified': 'Imethibitishwa',
+  'app.tagline': 'Akili ya Uendeshaji',
+  'app.language': 'Lugha',
+  'app.settings': 'Mipangilio',
+  'app.demo': 'Majaribio',
+  'app.processing': 'Inachakata',
+  'app.ready': 'Mfumo Uko Tayari',
+  'app.offline': 'Nje ya Mtandao',
+  'nav.solver': 'Jopo la Utambuzi',
+  'nav.history': 'Kumbukumbu',
+  'nav.followUps': 'Ufuatiliaji',
+  'nav.workOrders': 'Maagizo ya Kazi',
+  'nav.assets': 'Rasilimali',
+  'nav.catalog': 'Katalogi',
+  'nav.library': 'Maktaba',
+  'nav.analytics': 'Takwimu',
+  'solver.discipline': 'Fani',
+  'solver.subDiscipline': 'Utaalamu mdogo',
+  'solver.allSubDisciplines': 'Utaalamu wote',
+  'solver.description': 'Maelezo ya Kiufundi',
+  'solver.placeholder': 'Elezea hitilafu ya kiufundi, kitambulisho cha rasilimali, na dalili zilizoonekana...',
+  'solver.attachMedia': 'Ambatanisha Picha',
+  'solver.captureCamera': 'Piga picha kwa kamera',
+  'solver.noWorkOrder': 'Hakuna Agizo la Kazi',
+  'solver.analyzing': 'Inachakata...',
+  'solver.run': 'Anzisha Utambuzi',
+  'solver.queue': 'Weka Kwenye Foleni',
+  'report.safetyProtocols': 'Itifaki za Usalama',
+  'report.title': 'Tathmini ya Kiufundi',
+  'report.jobCard': 'Kadi ya Kazi',
+  'report.streaming': 'Inapokea...',
+  'report.confidence': 'Uhakika: {value}%',
+  'report.promptVersion': 'Kiolezo: {scope} v{version}',
+  'report.analysis': 'Uchambuzi',
+  'report.diagnosticLogic': 'Mantiki ya Utambuzi',
+  'report.reassess': 'Tathmini Upya',
+  'report.steps': 'Hatua za Marekebisho',
+  'report.stepsLocked': { other: 'Hatua {count} zimefungwa hadi udhibiti wa hatari hapo juu uthibitishwe.' },
+  'report.bom': 'Orodha ya Vifaa',
+  'report.generateBom': 'Tengeneza Orodha',
+  'report.noBom': 'Hakuna orodha ya vifaa bado.',
+  'report.verdict': 'Uamuzi wa Mwisho',
+  'report.reassessedAt': 'Imetathminiwa upya {date}',
+  'report.resourceImpact': 'Athari za Rasilimali',
+  'report.noStepsToBreakDown': 'Hakuna hatua za kuchambua.',
+  'report.followUp24h': 'Ufuatiliaji wa Saa 24',
+  'report.followUp7d': 'Uthibitisho wa Siku 7',
+  'history.title': 'Historia ya Uendeshaji',
+  'history.consolidate': 'Unganisha Vifaa ({count})',
+  'history.recordsFound': { one: 'Rekodi {count} imepatikana', other: 'Rekodi {count} zimepatikana' },
+  'history.search': 'Tafuta hitilafu, rasilimali, vipuri...',
+  'history.allDisciplines': 'Fani Zote',
+  'history.riskIdentified': 'Hatari Imetambuliwa',
+  'history.followUpOverdue': 'Ufuatiliaji Umechelewa',
+  'history.selectForOrder': 'Chagua kwa agizo lililounganishwa',
+  'history.empty': 'Hakuna kumbukumbu za matengenezo.',
+  'history.noMatch': 'Hakuna rekodi zinazolingana na vichujio.',
+  'errors.photos': 'Baadhi ya picha hazikuweza kuambatishwa.',
+  'errors.unsupportedImage': 'Picha za {format} haziwezi kufunguliwa kwenye kivinjari hiki. Badilisha picha kuwa JPEG au PNG (kwenye iPhone, weka Kamera › Miundo kuwa Inayooana Zaidi) kisha uiambatishe tena.',
+  'errors.solve': 'Hitilafu ya uendeshaji. Imeshindwa kuunganisha na Kidhibiti.',
+  'errors.submission': 'Kutuma kumeshindwa.',
+  'errors.bom': 'Kutoa orodha ya vifaa kumeshindwa.',
+  'errors.expand': 'Kupanua dhana kumeshindwa.',
+  'errors.reassess': 'Tathmini upya imeshindwa.',
+  'errors.followUp': 'Ufuatiliaji umeshindwa.',
+  'errors.jobCard': 'Imeshindwa kufungua kadi ya kazi.',
+  'errors.requisition': 'Imeshindwa kufungua ombi la ununuzi.',
+  'errors.ai.network': '⚠️ HITILAFU YA MUUNGANISHO: Huduma ya AI haikupatikana. Angalia mtandao wako na ujaribu tena.',
+  'errors.ai.quota': '⚠️ KIKOMO KIMEFIKIWA: Mtoa huduma wa AI anapunguza maombi. Subiri dakika moja kisha ujaribu tena.',
+  'errors.ai.malformed': 'Hitilafu ya kiungo cha Kidhibiti: Data ya utambuzi iliyorudishwa imeharibika na haikuweza kurekebishwa. Tafadhali endesha tathmini tena.',
+  'errors.ai.safety': '⛔ OMBI LIMEZUIWA: Kichujio cha usalama cha mtoa huduma wa AI kimekataa ombi hili. Andika upya maelezo ya tatizo kisha ujaribu tena.',
+  'errors.ai.cancelled': 'Utambuzi umeghairiwa.',
+  'errors.ai.backend': '⚠️ SEVA HAIPATIKANI: Seva ya programu haikujibu ipasavyo. Kifaa hiki kiko mtandaoni; mwombe msimamizi ahakikishe seva inafanya kazi.',
+  'errors.ai.config': '⚙️ HITILAFU YA USANIDI: Seva haikubali anwani hii ya mtoa huduma. Mwombe msimamizi aiongeze kwenye ALLOWED_BASE_URLS, au chagua anwani nyingine kwenye Mipangilio.',
+  'errors.ai.unknown': '⚠️ HITILAFU YA KIDHIBITI: Ombi la AI limeshindwa bila kutarajiwa. Tafadhali jaribu tena.',
+  'analytics.interventions': 'Matengenezo',
+  'analytics.safetyCritical': 'Hatari za Usalama',
+  'analytics.avgConfidence': 'Wastani wa Uhakika',
+  'analytics.estLabour': 'Kazi Inayokadiriwa',
+  'analytics.empty': 'Hakuna matengenezo ya kuchambua bado.',
+  'analytics.perDiscipline': 'Matengenezo kwa Fani',
+  'analytics.trend': 'Mwenendo wa Usalama na Uhakika',
+  'analytics.safetyCriticalPercent': 'Hatari za Usalama %',
+  'analytics.avgConfidencePercent': 'Wastani wa uhakika %',
+  'analytics.share': 'Mgawanyo wa Fani',
+  'analytics.topBom': 'Vipuri Vinavyoombwa Zaidi',
+  'analytics.requests': 'maombi',
+  'analytics.noBom': 'Hakuna orodha ya vifaa bado.',
+  'assets.title': 'Rejista ya Rasilimali',
+  'assets.registered': { one: 'Rasilimali {count} imesajiliwa', other: 'Rasilimali {count} zimesajiliwa' },
+  'assets.empty': 'Hakuna rasilimali zilizosajiliwa. Sajili kutoka kwenye paneli ya Rasilimali Zilizogunduliwa.',
+  'assets.search': 'Tafuta rasilimali...',
+  'assets.interventions': { one: 'Matengenezo {count}', other: 'Matengenezo {count}' },
+  'assets.type': 'Aina',
+  'assets.location': 'Mahali',
+  'assets.ratings': 'Viwango',
+  'assets.history': 'Historia ya Matengenezo',
+  'assets.noInterventions': 'Hakuna matengenezo yaliyorekodiwa.',
+  'assets.selectPrompt': 'Chagua rasilimali kuona historia yake.',
+  'attachments.annotate': 'Weka alama',
+  'attachments.label': 'Lebo...',
+  'attachments.photo': 'Picha {index}',
+  'attachments.attachment': 'Kiambatisho',
+  'bom.notStocked': 'Haipo stoo',
+  'bom.manual': 'Kwa mkono',
+  'bom.onHand': '{count} zilizopo',
+  'bom.stock': 'Stoo',
+  'bom.item': 'Kifaa',
+  'bom.spec': 'Vipimo',
+  'bom.qty': 'Idadi',
+  'bom.unit': 'Kipimo',
+  'bom.priority': 'Kipaumbele',
+  'bom.priority.high': 'Juu',
+  'bom.priority.medium': 'Wastani',
+  'bom.priority.low': 'Chini',
+  'bom.supplier': 'Msambazaji',
+  'bom.unitCost': 'Bei',
+  'bom.total': 'Jumla',
+  'bom.stockCode': 'Namba ya Stoo',
+  'bom.specification': 'Maelezo ya Kiufundi',
+  'bom.quantity': 'Idadi',
+  'bom.unitCostIn': 'Gharama kwa Kipimo ({currency})',
+  'bom.lineTotalIn': 'Jumla ya Mstari ({currency})',
+  'bom.estimatedTotal': 'Jumla Inayokadiriwa',
+  'bom.unpriced': '({count} bila bei)',
+  'bom.addLine': 'Ongeza Mstari',
+  'bom.requisition': 'Ombi la Ununuzi',
+  'calc.title': 'Hesabu Zilizothibitishwa',
+  'calc.verifiedHint': 'Imehesabiwa hapa, si makadirio ya modeli',
+  'refs.title': 'Marejeo',
+  'refs.page': 'uk. {page}',
+  'refs.pastIntervention': 'Uingiliaji wa awali',
+  'refs.cited': 'Imetajwa',
+  'refs.open': 'Fungua uingiliaji huu',
+  'camera.unsupported': 'Kamera haipatikani kwenye kivinjari hiki. Tumia Ambatanisha Picha.',
+  'camera.denied': 'Ruhusa ya kamera imekataliwa.',
+  'camera.unavailable': 'Hakuna kamera iliyoweza kufunguliwa.',
+  'camera.title': 'Piga Picha',
+  'camera.switch': 'Badilisha Kamera',
+  'camera.capture': 'Piga',
+  'catalog.title': 'Katalogi ya Vipuri',
+  'catalog.parts': { one: 'Kipuri {count}', other: 'Vipuri {count}' },
+  'catalog.imported': { one: 'Kipuri {count} kimeingizwa', other: 'Vipuri {count} vimeingizwa' },
+  'catalog.skipped': { one: 'Mstari {count} umerukwa (hauna namba au jina)', other: 'Mistari {count} imerukwa (haina namba au jina)' },
+  'catalog.readError': 'Imeshindwa kusoma faili la katalogi.',
+  'catalog.import': 'Ingiza CSV/JSON',
+  'catalog.empty': 'Hakuna katalogi. Ingiza orodha ya stoo yenye namba ya stoo, jina, vipimo, kipimo, bei, msambazaji na idadi iliyopo.',
+  'catalog.search': 'Tafuta namba ya stoo, kipuri, msambazaji...',
+  'catalog.code': 'Namba',
+  'catalog.part': 'Kipuri',
+  'catalog.cost': 'Bei ({currency})',
+  'catalog.onHand': 'Zilizopo',
+  'catalog.limit': 'Inaonyesha {count} za kwanza. Boresha utafutaji.',
+  'library.title': 'Maktaba ya Nyaraka',
+  'library.documents': { one: 'Hati {count}', other: 'Hati {count}' },
+  'library.upload': 'Pakia PDF/Maandishi',
+  'library.indexing': 'Inaorodhesha {name}…',
+  'library.indexed': { one: '{name} imeorodheshwa kama kifungu {count}', other: '{name} imeorodheshwa kama vifungu {count}' },
+  'library.readError': 'Imeshindwa kuorodhesha hati.',
+  'library.empty': 'Bado hakuna hati. Pakia miongozo, taratibu na karatasi za data (PDF au maandishi) na mdhibiti atanukuu vifungu husika, akitaja hati na ukurasa.',
+  'library.name': 'Hati',
+  'library.pages': 'Kurasa',
+  'library.chunks': 'Vifungu',
+  'library.size': 'Ukubwa',
+  'library.added': 'Imeongezwa',
+  'library.embedder': 'Faharasa',
+  'library.reindex': 'Orodhesha upya',
+  'library.reindexAll': { one: 'Orodhesha upya hati {count}', other: 'Orodhesha upya hati {count}' },
+  'library.staleHint': 'Imeorodheshwa kwa {embedder}; orodhesha upya ili kuitafuta kwa {current}',
+  'order.title': 'Agizo Lililounganishwa',
+  'order.diagnoses': { one: 'Utambuzi {count}', other: 'Utambuzi {count}' },
+  'order.chargeTo': 'Toza kwa',
+  'order.noWorkOrder': 'Hakuna agizo',
+  'order.empty': 'Utambuzi uliochaguliwa hauna vifaa.',
+  'conversation.title': 'Ufuatiliaji',
+  'conversation.compare': 'Linganisha Matoleo',
+  'conversation.clarification': 'Ufafanuzi Unahitajika',
+  'conversation.submit': 'Tuma Majibu',
+  'conversation.placeholder': 'Uliza swali au ripoti matokeo mapya...',
+  'detected.title': 'Rasilimali Zilizogunduliwa',
+  'detected.register': 'Sajili {id}',
+  'detected.pastInterventions': { one: 'Matengenezo {count} ya awali kwenye rasilimali hii', other: 'Matengenezo {count} ya awali kwenye rasilimali hii' },
+  'detected.reportedAs': 'Iliripotiwa kama {value}',
+  'plausibility.negativeVoltage': 'Volteji hasi; angalia polariti au alama.',
+  'plausibility.domesticVoltage': 'Haiwezekani kwa usambazaji wa nyumbani (kawaida 110–400 V).',
+  'plausibility.aboveTransmission': 'Juu ya volteji yoyote ya usafirishaji inayotumika.',
+  'plausibility.domesticCurrent': 'Haiwezekani kwa usakinishaji wa nyumbani (vichwa vya huduma mara chache huzidi 100 A).',
+  'plausibility.plantCurrent': 'Juu mno kuweza kuaminika kwa vifaa vya kiwanda.',
+  'plausibility.domesticPower': 'Haiwezekani kwa mzigo wa nyumbani.',
+  'plausibility.aboveGenerator': 'Kubwa kuliko jenereta yoyote moja.',
+  'plausibility.aboveSpeed': 'Juu ya rpm 100,000; haiwezekani kwa mashine zinazozunguka.',
+  'plausibility.belowAbsoluteZero': 'Chini ya sifuri kamili.',
+  'plausibility.aboveTemperature': 'Juu ya 3000 °C; haiwezekani kwa vifaa vya kiwanda.',
+  'plausibility.belowVacuum': 'Chini ya ombwe kamili.',
+  'plausibility.outsidePercent': 'Lazima iwe kati ya 0 na 100%.',
+  'plausibility.negative': 'Haiwezi kuwa hasi.',
+  'plausibility.notPressure': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa shinikizo.',
+  'plausibility.notFlow': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa kiwango cha mtiririko.',
+  'plausibility.notTemperature': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa joto.',
+  'plausibility.notCurrent': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa mkondo.',
+  'plausibility.notSpeed': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa kasi.',
+  'plausibility.notLength': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa urefu.',
+  'plausibility.notVoltage': 'Imetolewa kwa {unit}, lakini "{key}" inapaswa kuwa volteji.',
+  'plausibility.differsFromRating': 'Inatofautiana na kiwango kilichosajiliwa cha kifaa ({rating}).',
+  'tree.hypothesis': 'Dhana',
+  'tree.verification': 'Uthibitisho',
+  'tree.passed': 'Imefaulu',
+  'tree.failed': 'Imeshindwa',
+  'tree.notRun': 'Haijafanywa',
+  'tree.expand': 'Panua',
+  'tree.reading': 'Kipimo kilichopimwa...',
+  'tree.attachPhoto': 'Ambatanisha picha',
+  'followUps.remindersOn': 'Vikumbusho vimewashwa',
+  'followUps.blockedHint': 'Ruhusu arifa katika mipangilio ya kivinjari',
+  'followUps.blocked': 'Arifa zimezuiwa',
+  'followUps.enable': 'Washa Vikumbusho',
+  'followUps.empty': 'Hakuna ufuatiliaji uliobaki.',
+  'followUps.overdue': 'Zilizochelewa ({count})',
+  'followUps.dueToday': 'Zinadaiwa Leo ({count})',
+  'followUps.upcoming': 'Zijazo ({count})',
+  'followUps.notification': 'Ufuatiliaji unadaiwa ({window})',
+  'followUp.done': 'Imekamilika',
+  'followUp.overdue': 'Imechelewa',
+  'followUp.dueToday': 'Leo',
+  'followUp.due': 'Inadaiwa',
+  'followUp.note': 'Ongeza maelezo (vipimo, uchunguzi)...',
+  'annotator.arrow': 'Mshale',
+  'annotator.circle': 'Duara',
+  'annotator.label': 'Lebo',
+  'annotator.redact': 'Ficha',
+  'annotator.labelPlaceholder': 'Andika lebo, kisha bofya picha',
+  'annotator.clearAll': 'Futa zote',
+  'annotator.redactHint': 'Maeneo yaliyofichwa yanafunikwa kwenye picha inayotumwa kwa uchambuzi.',
+  'outbox.title': 'Sanduku la Kutuma ({count})',
+  'outbox.online': 'Mtandaoni — inatuma yenyewe',
+  'outbox.offline': 'Nje ya mtandao — itatuma mtandao ukirudi',
+  'outbox.attempts': { one: 'Hakuna mtandao kwa jaribio {count}; itajaribu tena.', other: 'Hakuna mtandao kwa majaribio {count}; itajaribu tena.' },
+  'outbox.remove': 'Ondoa kwenye sanduku',
+  'outbox.queued': 'Kwenye Foleni',
+  'outbox.sending': 'Inatuma',
+  'outbox.failed': 'Imeshindwa',
+  'project.title': 'Udhibiti wa Mradi',
+  'project.workOrder': 'Agizo la Kazi',
+  'project.notLinked': 'Haijaunganishwa',
+  'project.scopeCheck': 'Ukaguzi wa Wigo',
+  'project.pending': 'Inasubiri uthibitisho.',
+  'project.estTime': 'Muda Unaokadiriwa',
+  'project.remaining': 'Muda Uliobaki',
+  'project.steps': 'Hatua',
+  'project.overBudget': 'Makadirio yanazidi bajeti iliyobaki ya {number}. Omba mabadiliko kabla ya kuendelea.',
+  'scope.inScope': 'Ndani ya Wigo',
+  'scope.partial': 'Sehemu Nje ya Wigo',
+  'scope.outOfScope': 'Nje ya Wigo',
+  'scope.unknown': 'Haijathibitishwa',
+  'safety.title': 'Udhibiti wa Hatari',
+  'safety.hazards': { one: 'Hatari {count}', other: 'Hatari {count}' },
+  'safety.isolation': 'Kufunga / Kuweka Lebo na Utengaji',
+  'safety.ppe': 'Vifaa vya Kujikinga',
+  'safety.permits': 'Vibali Vinavyohitajika',
+  'safety.technician': 'Jina la fundi',
+  'safety.unlock': 'Udhibiti umewekwa — fungua hatua',
+  'safety.acknowledged': 'Imethibitishwa',
+  'safety.acknowledgedBy': 'Imethibitishwa na {name}',
+  'hazard.highVoltage.title': 'Volteji ya Juu (≥ 1 kV)',
+  'hazard.highVoltage.switching': 'Ubadilishaji ufanywe na mtu aliyeidhinishwa wa HV kwa mpango wa ubadilishaji ulioidhinishwa',
+  'hazard.highVoltage.earth': 'Tenga, funga na weka ardhi kwenye sehemu zote za usambazaji; weka ardhi kuu za saketi',
+  'hazard.highVoltage.prove': 'Thibitisha hakuna umeme kwa kifaa cha kupima HV kilichojaribiwa kabla na baada ya matumizi',
+  'hazard.highVoltage.barriers': 'Weka ilani za hatari na vizuizi kuzunguka vifaa vya jirani vyenye umeme',
+  'hazard.highVoltage.arcClothing': 'Mavazi yaliyokadiriwa kwa arc kulingana na nishati ya tukio iliyokokotolewa',
+  'hazard.highVoltage.hood': 'Kofia ya kujikinga na mwako wa arc na kinga ya uso',
+  'hazard.highVoltage.gloves': 'Glavu za kuhami HV (daraja linalolingana na volteji ya mfumo)',
+  'hazard.highVoltage.permit': 'Kibali cha Kazi cha HV / Idhini ya Majaribio',
+  'hazard.highVoltage.programme': 'Mpango wa ubadilishaji uliosainiwa na Mtu Mkuu Aliyeidhinishwa',
+  'hazard.electrical.title': 'Umeme (≥ 50 V)',
+  'hazard.electrical.sources': 'Tambua kila chanzo cha usambazaji, pamoja na mrejesho, jenereta na UPS',
+  'hazard.electrical.lock': 'Tenga kwenye kifaa cha juu na weka kufuli na lebo binafsi',
+  'hazard.electrical.prove': 'Thibitisha hakuna umeme kwa kipima volteji kilichojaribiwa (jaribu–thibitisha–jaribu)',
+  'hazard.electrical.discharge': 'Toa nishati iliyohifadhiwa kwenye kapasita na viungo vya DC vya VFD',
+  'hazard.electrical.arcClothing': 'Mavazi yaliyokadiriwa kwa arc na kinga ya uso',
+  'hazard.electrical.gloves': 'Glavu za kuhami zilizokadiriwa kwa volteji ya mfumo',
+  'hazard.electrical.footwear': 'Viatu vya usalama',
+  'hazard.electrical.permit': 'Cheti cha kutenga umeme',
+  'hazard.confinedSpace.title': 'Nafasi Finyu',
+  'hazard.confinedSpace.isolate': 'Tenga na ziba mistari yote ya mchakato inayoingia; funga vichanganyaji na pampu',
+  'hazard.confinedSpace.atmosphere': 'Pitisha hewa na pima angahewa (O₂, LEL, H₂S, CO) kabla na wakati wa kuingia',
+  'hazard.confinedSpace.attendant': 'Weka mhudumu aliyefunzwa mlangoni akiwa na mpango na vifaa vya uokoaji',
+  'hazard.confinedSpace.monitor': 'Kipima gesi nne kivaliwe na kila anayeingia',
+  'hazard.confinedSpace.harness': 'Mkanda wa mwili mzima wenye kamba ya kuvuta',
+  'hazard.confinedSpace.escape': 'Kifaa cha kupumulia cha kutoroka',
+  'hazard.confinedSpace.permit': 'Kibali cha Kuingia Nafasi Finyu',
+  'hazard.gasTestCertificate': 'Cheti cha kupima gesi',
+  'hazard.pressure.title': 'Mfumo wa Shinikizo / Nishati Iliyohifadhiwa',
+  'hazard.pressure.valves': 'Funga na weka kufuli vali za kutenga za juu na chini (kuziba mara mbili na kutoa pale inapowezekana)',
+  'hazard.pressure.vent': 'Toa hewa au mwaga hadi shinikizo sifuri na uthibitishe kwa geji iliyorekebishwa',
+  'hazard.pressure.tagged': 'Acha matundu ya kutoa hewa wazi na yenye lebo wakati mfumo umefunguliwa',
+  'hazard.pressure.faceShield': 'Kinga ya uso juu ya miwani ya usalama',
+  'hazard.pressure.gloves': 'Glavu zinazofaa joto la kimiminika',
+  'hazard.lineBreakingPermit': 'Kibali cha kufungua mstari',
+  'hazard.flammable.title': 'Angahewa Inayoweza Kuwaka',
+  'hazard.flammable.depressurise': 'Tenga na punguza shinikizo la hidrokaboni; ziba au tumia kuziba mara mbili na kutoa pale itakapofunguliwa',
+  'hazard.flammable.gasTest': 'Pima gesi kwa LEL kabla na wakati wa kazi; simama ikiwa vipimo vinazidi 10% LEL',
+  'hazard.flammable.ignition': 'Dhibiti vyanzo vya moto: vifaa vilivyothibitishwa (Ex) pekee, zana zisizotoa cheche na kuunganisha vyombo',
+  'hazard.flammable.coveralls': 'Ovaroli zinazostahimili moto',
+  'hazard.flammable.monitor': 'Kipima gesi binafsi (LEL, H₂S)',
+  'hazard.flammable.footwear': 'Viatu vya usalama visivyo na umeme tuli',
+  'hazard.flammable.permit': 'Kibali cha Kazi Eneo la Hatari',
+  'hazard.hotWork.title': 'Kazi ya Moto',
+  'hazard.hotWork.combustibles': 'Ondoa au kinga vitu vinavyoweza kuwaka ndani ya m 11 (ft 35)',
+  'hazard.hotWork.gasTest': 'Pima gesi eneo na vyombo au mifereji yoyote ya jirani kwa vitu vinavyowaka',
+  'hazard.hotWork.fireWatch': 'Weka mlinzi wa moto wakati wa kazi na kwa angalau dakika 30 baadaye',
+  'hazard.hotWork.helmet': 'Kofia ya kulehemu yenye kivuli sahihi',
+  'hazard.hotWork.clothing': 'Mavazi yanayostahimili moto na glavu ndefu za ngozi',
+  'hazard.hotWork.permit': 'Kibali cha Kazi ya Moto',
+  'hazard.chemical.title': 'Kemikali Hatari',
+  'hazard.chemical.sds': 'Pitia Karatasi ya Data ya Usalama ya kila dutu inayohusika',
+  'hazard.chemical.drain': 'Mwaga, suuza na toa hewa kwenye mstari au chombo kabla ya kuufungua',
+  'hazard.chemical.eyewash': 'Hakikisha kituo cha kuosha macho na bafu la usalama vinafikika ndani ya sekunde 10',
+  'hazard.chemical.goggles': 'Miwani ya kujikinga na michirizi ya kemikali na kinga ya uso',
+  'hazard.chemical.gloves': 'Glavu na aproni zinazostahimili kemikali',
+  'hazard.chemical.respirator': 'Kipumulio ikiwa SDS inakihitaji',
+  'hazard.rotating.title': 'Mashine Zinazozunguka',
+  'hazard.rotating.isolate': 'Simamisha mashine na tenga kiendeshi kwenye MCC kwa kufuli na lebo binafsi',
+  'hazard.rotating.tryStart': 'Jaribu kuwasha hapo hapo na kwa mbali kuthibitisha utengaji',
+  'hazard.rotating.block': 'Zuia au funga sehemu zinazoweza kusogea kwa mvuto au nishati iliyohifadhiwa',
+  'hazard.rotating.clothing': 'Mavazi yanayobana, bila vitu vinavyoning’inia',
+  'hazard.rotating.glasses': 'Miwani ya usalama na glavu za kushika vipuri',
+  'hazard.height.title': 'Kazi Mahali pa Juu',
+  'hazard.height.platform': 'Tumia jukwaa lenye kinga au MEWP badala ya ngazi',
+  'hazard.height.barrier': 'Weka vizuizi eneo la kuanguka chini',
+  'hazard.height.harness': 'Mkanda wa mwili mzima wenye kamba inayofyonza nishati',
+  'hazard.height.helmet': 'Kofia ngumu yenye kamba ya kidevu',
+  'hazard.height.permit': 'Kibali cha Kazi Mahali pa Juu',
+  'hazard.excavation.title': 'Uchimbaji / Kutokuwa Thabiti kwa Muundo',
+  'hazard.excavation.services': 'Tafuta na weka alama huduma zilizozikwa kabla ya kuchimba',
+  'hazard.excavation.shore': 'Weka nguzo au tegemeza kabla ya kuingia au kufanya kazi chini yake',
+  'hazard.excavation.cordon': 'Zungushia eneo la kutengwa',
+  'hazard.excavation.ppe': 'Kofia ngumu, mavazi yanayoonekana vizuri na viatu vya usalama',
+  'hazard.excavation.permit': 'Uchimbaji / Kibali cha Kuchimba',
+  'hazard.disciplineWork': 'kazi ya {discipline}',
+  'settings.title': 'Mtoa Huduma wa AI',
+  'settings.provider': 'Mtoa Huduma',
+  'settings.model': 'Modeli',
+  'settings.endpoint': 'Anwani ya Huduma',
+  'settings.apiKey': 'Ufunguo wa API',
+  'settings.apiKeyEnv': 'Hutumia GEMINI_API_KEY ikiwa tupu',
+  'settings.optional': 'Si lazima',
+  'settings.mockHint': 'Hurejesha majibu ya mfano kwa kila fani. Hakuna mtandao wala ufunguo wa API unaohitajika.',
+  'settings.currency': 'Sarafu ya Ununuzi',
+  'settings.units': 'Vipimo vya Kuonyesha',
+  'settings.unitsSi': 'SI / Metriki (kW, bar, m, °C)',
+  'settings.unitsImperial': 'Imperia (hp, psi, ft, °F)',
+  'settings.prompts': 'Hariri Violezo vya Maelekezo',
+  'settings.embedder': 'Utafutaji wa Hati',
+  'settings.embedderLocal': 'Kwenye kifaa hiki (hufanya kazi nje ya mtandao)',
+  'settings.embedderProvider': 'Modeli ya embedding ya mtoa huduma',
+  'settings.embeddingModel': 'Modeli ya Embedding',
+  'prompts.title': 'Violezo vya Maelekezo',
+  'prompts.allFields': 'Taaluma zote',
+  'prompts.builtIn': 'Kilichojengwa ndani',
+  'prompts.version': 'v{version}',
+  'prompts.inherits': 'Hutumia {scope}',
+  'prompts.body': 'Maelekezo ya Mfumo',
+  'prompts.placeholders': 'Vishika nafasi:',
+  'prompts.variables': 'Vigezo',
+  'prompts.variableName': 'jina',
+  'prompts.variableValue': 'thamani',
+  'prompts.addVariable': 'Ongeza kigezo',
+  'prompts.missingSchema': 'Acha {placeholder} kwenye kiolezo: bila hicho modeli haielezwi muundo wa jibu.',
+  'prompts.unknownPlaceholders': 'Hakuna thamani ya {names}; vitatumwa kama vilivyoandikwa.',
+  'prompts.reset': 'Pakia kilichojengwa ndani',
+  'prompts.remove': 'Ondoa na utumie Taaluma zote',
+  'prompts.saveVersion': 'Hifadhi {scope} v{version}',
+  'prompts.preview': 'Onyesho',
+  'prompts.history': 'Matoleo ya Awali',
+  'prompts.noHistory': 'Hakuna matoleo ya awali.',
+  'prompts.restore': 'Pakia',
+  'versions.title': 'Ulinganisho wa Matoleo',
+  'versions.changed': 'imebadilika',
+  'versions.safetyCheck': 'Ukaguzi wa Usalama',
+  'versions.analysis': 'Uchambuzi',
+  'versions.steps': 'Hatua za Marekebisho',
+  'versions.finalResult': 'Uamuzi wa Mwisho',
+  'versions.confidence': 'Uhakika',
+  'versions.timeToComplete': 'Muda Unaokadiriwa',
+  'compare.open': 'Linganisha Modeli',
+  'compare.title': 'Ulinganisho wa Modeli',
+  'compare.hint': 'Huendesha tatizo kupitia kila chaguo kwa wakati mmoja. Hakuna kinachohifadhiwa hadi uchague jibu.',
+  'compare.provider': 'Mtoa huduma',
+  'compare.model': 'Modeli',
+  'compare.temperature': 'Joto',
+  'compare.addVariant': 'Ongeza chaguo',
+  'compare.run': 'Endesha Ulinganisho',
+  'compare.running': 'Inaendesha...',
+  'compare.differs': 'zinatofautiana',
+  'compare.hypotheses': 'Dhana',
+  'compare.onlyHere': 'hapa tu',
+  'compare.use': 'Tumia Hili',
+  'compare.merge': 'Unganisha Mengine',
+  'compare.mergeHint': 'Huhifadhi uamuzi huu na kuongeza dhana na maswali yaliyoibuliwa na modeli nyingine pekee',
+  'workOrders.new': 'Agizo Jipya',
+  'workOrders.editTitle': 'Hariri {number}',
+  'workOrders.number': 'Namba ya Agizo',
+  'workOrders.client': 'Mteja',
+  'workOrders.asset': 'Rasilimali',
+  'workOrders.scope': 'Wigo wa Kazi',
+  'workOrders.budgetedHours': 'Saa Zilizopangwa',
+  'workOrders.status': 'Hali',
+  'workOrders.save': 'Hifadhi Agizo',
+  'workOrders.empty': 'Bado hakuna maagizo ya kazi.',
+  'workOrders.timeBudget': 'Bajeti ya Muda',
+  'workOrders.materials': 'Vifaa',
+  'workOrders.status.open': 'Wazi',
+  'workOrders.status.inProgress': 'Inaendelea',
+  'workOrders.status.onHold': 'Imesitishwa',
+  'workOrders.status.completed': 'Imekamilika',
+  'workOrders.status.cancelled': 'Imeghairiwa',
+  'jobCard.title': 'Kadi ya Kazi',
+  'jobCard.reference': 'Kumbukumbu',
+  'jobCard.date': 'Tarehe',
+  'jobCard.discipline': 'Fani',
+  'jobCard.workOrder': 'Agizo la Kazi',
+  'jobCard.asset': 'Rasilimali',
+  'jobCard.estTime': 'Muda Unaokadiriwa',
+  'jobCard.problem': 'Tatizo Lililoripotiwa',
+  'jobCard.photo': 'Picha Iliyoambatishwa',
+  'jobCard.safety': 'Itifaki za Usalama',
+  'jobCard.diagnostics': 'Mti wa Utambuzi',
+  'jobCard.hypothesis': 'Dhana',
+  'jobCard.test': 'Uthibitisho',
+  'jobCard.result': 'Matokeo',
+  'jobCard.steps': 'Hatua za Marekebisho',
+  'jobCard.stepsWithheld': 'Hatua za marekebisho zimezuiliwa hadi udhibiti wa hatari uthibitishwe kwenye programu.',
+  'jobCard.done': 'Imekamilika',
+  'jobCard.bom': 'Orodha ya Vifaa',
+  'jobCard.item': 'Kifaa',
+  'jobCard.spec': 'Vipimo',
+  'jobCard.qty': 'Idadi',
+  'jobCard.priority': 'Kipaumbele',
+  'jobCard.followUp24h': 'Ufuatiliaji wa Saa 24',
+  'jobCard.followUp7d': 'Uthibitisho wa Siku 7',
+  'jobCard.verdict': 'Uamuzi wa Mwisho',
+  'jobCard.technician': 'Fundi',
+  'jobCard.supervisor': 'Msimamizi',
+  'jobCard.name': 'Jina',
+  'jobCard.signature': 'Sahihi',
+  'jobCard.confidence': 'Uhakika',
+  'jobCard.calculations': 'Hesabu Zilizothibitishwa',
+  'jobCard.hazards': 'Hatari',
+  'jobCard.isolation': 'Kufunga / Kuweka Lebo na Utengaji',
+  'jobCard.ppe': 'Vifaa vya Kujikinga',
+  'jobCard.permits': 'Vibali Vinavyohitajika',
+  'jobCard.acknowledged': 'Udhibiti umethibitishwa',
+  'jobCard.inputs': 'Vigezo',
+  'jobCard.outputs': 'Matokeo',
+  'requisition.title': 'Ombi la Ununuzi',
+  'requisition.number': 'Namba ya Ombi',
+  'requisition.stockCode': 'Namba ya Stoo',
+  'requisition.date': 'Tarehe',
+  'requisition.workOrder': 'Agizo la Kazi',
+  'requisition.sources': 'Utambuzi Husika',
+  'requisition.item': 'Kifaa',
+  'requisition.spec': 'Vipimo',
+  'requisition.qty': 'Idadi',
+  'requisition.unit': 'Kipimo',
+  'requisition.priority': 'Kipaumbele',
+  'requisition.supplier': 'Msambazaji',
+  'requisition.unitCost': 'Bei ya Kipimo',
+  'requisition.lineTotal': 'Jumla ya Mstari',
+  'requisition.total': 'Jumla Inayokadiriwa',
+  'requisition.unpriced': { one: 'Mstari {count} bila bei', other: 'Mistari {count} bila bei' },
+  'requisition.requestedBy': 'Imeombwa Na',
+  'requisition.approvedBy': 'Imeidhinishwa Na',
+  'requisition.name': 'Jina',
+  'requisition.signature': 'Sahihi',
+};
+
+const sw: Locale = {
+  code: 'sw',
+  name: 'Kiswahili',
+  englishName: 'Swahili',
+  dir: 'ltr',
+  intl: 'sw-KE',
+  messages
+};
+
+export default sw;
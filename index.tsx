@@ -2,12 +2,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { registerServiceWorker } from './services/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Installed before the app mounts so the shell is cached on the first visit
+registerServiceWorker();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,208 @@
+// Service worker: caches the app shell so the console opens without signal, and owns follow-up
+// reminders. The page sends the open tasks (services/notifications.ts); this worker keeps them in
+// IndexedDB, shows each once when it falls due and handles the clicks, so reminders and clicks
+// still work once the tab has been closed.
+
+// Filled in by the build (precacheBuild in vite.config.ts) with an id for the build and every file it
+// emitted, so the hashed bundle is cached on install and the app opens offline from the first visit.
+// The dev server serves this file as is.
+const BUILD_ID = 'dev';
+const BUILD_FILES = [];
+
+const SHELL_CACHE = `omnieng53-shell-${BUILD_ID}`;
+const RUNTIME_CACHE = 'omnieng53-runtime-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+// Styles index.html loads from CDNs; cached when possible, but a CDN outage must not stop the install
+const CDN_SHELL = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=JetBrains+Mono:wght@400;500&display=swap'
+];
+
+// Libraries and styles the page loads from CDNs (import map, Tailwind, fonts)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    // addAll rejects duplicate URLs, and the build also emits index.html
+    await cache.addAll([...new Set([...SHELL, ...BUILD_FILES])]);
+    await Promise.all(CDN_SHELL.map(url => cache.add(new Request(url, { mode: 'no-cors' })).catch(() => undefined)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+    await serially(showDueReminders).catch(err => console.error('Failed to show follow-up reminders:', err));
+  })());
+});
+
+const networkFirst = async (request, fallback) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = (await caches.match(request)) || (fallback && (await caches.match(fallback)));
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+const fetchAndCache = async (request) => {
+  const response = await fetch(request);
+  // Cross-origin CDN responses may be opaque; they are still usable from the cache
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const cacheFirst = async (request) => (await caches.match(request)) || fetchAndCache(request);
+
+// CDN URLs use semver ranges, so serve the cached copy but refresh it in the background
+const staleWhileRevalidate = async (event, request) => {
+  const cached = await caches.match(request);
+  const refresh = fetchAndCache(request);
+  if (!cached) return refresh;
+  event.waitUntil(refresh.catch(() => undefined));
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI provider calls are POSTs and must never be served from a cache
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  // Backend responses (e.g. usage totals) are live data
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    // Build output is content-hashed, so a cached copy is always current
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, request));
+  }
+});
+
+// Follow-up reminders. Where the browser supports Notification Triggers every reminder is handed to
+// it up front with its due time. Otherwise the worker shows what has fallen due whenever it runs:
+// on periodic background sync (installed Chromium apps, roughly hourly) and when an open page asks
+// on its minute tick. Browsers with neither only remind while a tab is open.
+const REMINDER_DB = 'omnieng53-reminders';
+const REMINDER_STORE = 'reminders';
+const REMINDER_SYNC_TAG = 'follow-up-reminders';
+const TRIGGERS_SUPPORTED = 'TimestampTrigger' in self && 'Notification' in self && 'showTrigger' in Notification.prototype;
+
+const openReminderDb = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(REMINDER_DB, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(REMINDER_STORE, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs fn against the reminder store and resolves once the transaction has committed
+const withReminders = async (mode, fn) => {
+  const db = await openReminderDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REMINDER_STORE, mode);
+    let result;
+    const request = fn(tx.objectStore(REMINDER_STORE));
+    if (request) request.onsuccess = () => { result = request.result; };
+    tx.oncomplete = () => { db.close(); resolve(result); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+};
+
+// Reminder updates read, change and write the whole store, so they run one at a time
+let pending = Promise.resolve();
+const serially = (fn) => {
+  pending = pending.catch(() => undefined).then(fn);
+  return pending;
+};
+
+const loadReminders = () => withReminders('readonly', store => store.getAll());
+
+const saveReminders = (reminders) => withReminders('readwrite', store => {
+  store.clear();
+  reminders.forEach(reminder => store.put(reminder));
+});
+
+const notify = (reminder, options = {}) => self.registration.showNotification(reminder.title, {
+  body: reminder.body,
+  tag: reminder.id,
+  data: { solutionId: reminder.solutionId },
+  ...options
+});
+
+// Replaces the stored reminders with the page's open tasks, keeping which were already shown
+const scheduleReminders = async (reminders) => {
+  const previous = new Map((await loadReminders()).map(reminder => [reminder.id, reminder]));
+  const now = Date.now();
+  const next = await Promise.all(reminders.map(async (reminder) => {
+    const known = previous.get(reminder.id);
+    const shown = Boolean(known && known.shown);
+    // A trigger is set once per task; the browser shows it at dueAt even with the worker asleep
+    if (TRIGGERS_SUPPORTED && !shown && reminder.dueAt > now && !(known && known.triggered)) {
+      await notify(reminder, { showTrigger: new TimestampTrigger(reminder.dueAt) });
+      return { ...reminder, triggered: true };
+    }
+    return { ...reminder, shown, triggered: Boolean(known && known.triggered) };
+  }));
+  await saveReminders(next);
+
+  // Tasks ticked off since are withdrawn, whether still pending or already on screen
+  const open = new Set(reminders.map(reminder => reminder.id));
+  const notifications = await self.registration.getNotifications(TRIGGERS_SUPPORTED ? { includeTriggered: true } : undefined);
+  notifications.filter(notification => previous.has(notification.tag) && !open.has(notification.tag)).forEach(notification => notification.close());
+  await showDueReminders();
+};
+
+// Shows every reminder that has fallen due and was neither shown nor left to a trigger
+const showDueReminders = async () => {
+  const reminders = await loadReminders();
+  const now = Date.now();
+  const due = reminders.filter(reminder => reminder.dueAt <= now && !reminder.shown && !reminder.triggered);
+  if (due.length === 0) return;
+
+  await Promise.all(due.map(reminder => notify(reminder)));
+  const shown = new Set(due.map(reminder => reminder.id));
+  await saveReminders(reminders.map(reminder => shown.has(reminder.id) ? { ...reminder, shown: true } : reminder));
+};
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'schedule-reminders') event.waitUntil(serially(() => scheduleReminders(data.reminders || [])));
+  if (data.type === 'check-reminders') event.waitUntil(serially(showDueReminders));
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(serially(showDueReminders));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const solutionId = event.notification.data && event.notification.data.solutionId;
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    const client = windows[0];
+    if (client) {
+      await client.focus();
+      client.postMessage({ type: 'open-solution', solutionId });
+      return;
+    }
+    await self.clients.openWindow(solutionId ? `/?solution=${encodeURIComponent(solutionId)}` : '/');
+  })());
+});
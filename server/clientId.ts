@@ -0,0 +1,37 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+// The signing secret survives restarts so issued ids keep their usage history. A configured
+// secret wins; otherwise one is generated once and kept in `path`.
+export const loadClientIdSecret = (configured: string | undefined, path: string) => {
+  if (configured) return configured;
+  if (existsSync(path)) return readFileSync(path, 'utf8').trim();
+
+  const secret = randomBytes(32).toString('hex');
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, secret, { mode: 0o600 });
+  return secret;
+};
+
+// Per-install ids are issued by the server as `<uuid>.<signature>`, so a client cannot
+// make up an id, or borrow another install's, to read its usage.
+export const createClientIds = (secret: string) => {
+  const sign = (id: string) => createHmac('sha256', secret).update(id).digest('base64url');
+
+  const issue = () => {
+    const id = randomUUID();
+    return { id, token: `${id}.${sign(id)}` };
+  };
+
+  // The id a token was issued for, or undefined when it is missing or was not signed here
+  const verify = (token: string | undefined) => {
+    const [id, signature] = (token || '').split('.');
+    if (!id || !signature) return undefined;
+    const expected = Buffer.from(sign(id));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected) ? id : undefined;
+  };
+
+  return { issue, verify };
+};
@@ -0,0 +1,274 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { AISettings } from "../types";
+import { AIErrorKind, toAIError } from "../services/errors";
+import { AIProvider, AITask, GenerateOptions, PROVIDERS, TokenUsage } from "../services/providers";
+import { StreamEvent, TASKS } from "../services/controller";
+import { createRateLimiter } from "./rateLimit";
+import { createClientIds, loadClientIdSecret } from "./clientId";
+import { costOf, createUsageLedger } from "./usage";
+
+// Keys are read from .env.local, the file Vite used to inline them from
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No file: rely on the process environment
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+// Only this machine (and the dev proxy on it) can reach the backend unless a host is configured
+const HOST = process.env.API_HOST || '127.0.0.1';
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 20;
+// Cap on all clients together, so many devices cannot run up the provider bill between them
+const GLOBAL_RATE_LIMIT_PER_MINUTE = Number(process.env.GLOBAL_RATE_LIMIT_PER_MINUTE) || 120;
+const USAGE_LOG = process.env.USAGE_LOG || 'logs/usage.jsonl';
+const CLIENT_ID_SECRET_FILE = process.env.CLIENT_ID_SECRET_FILE || 'logs/client-id.secret';
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || PROVIDERS.openai.defaults.baseUrl;
+// The only endpoints the backend will call for OpenAI-compatible and local providers. Anyone who can
+// reach the app can send settings, so a free-form URL would let them make the server fetch any
+// address on its network.
+const ALLOWED_BASE_URLS = [
+  OPENAI_BASE_URL,
+  process.env.LOCAL_LLM_BASE_URL || PROVIDERS.local.defaults.baseUrl,
+  ...(process.env.ALLOWED_BASE_URLS || '').split(',')
+].map(url => url.trim().replace(/\/$/, '')).filter(Boolean);
+// Photos travel inline as data URLs
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const checkRateLimit = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60_000);
+const checkGlobalRateLimit = createRateLimiter(GLOBAL_RATE_LIMIT_PER_MINUTE, 60_000);
+const ledger = createUsageLedger(USAGE_LOG);
+const clientIds = createClientIds(loadClientIdSecret(process.env.CLIENT_ID_SECRET, CLIENT_ID_SECRET_FILE));
+
+type TaskRunner = (provider: AIProvider, input: unknown, options?: GenerateOptions) => Promise<unknown>;
+
+class HttpError extends Error {
+  status: number;
+  kind: AIErrorKind;
+
+  constructor(status: number, message: string, kind: AIErrorKind = 'unknown') {
+    super(message);
+    this.status = status;
+    this.kind = kind;
+  }
+}
+
+// What the request log line reports beyond method, path and status
+interface RequestLog {
+  user: string;
+  address: string;
+  outcome?: 'ok' | AIErrorKind;
+  settings?: AISettings;
+  usage?: TokenUsage;
+}
+
+const logRequest = (req: IncomingMessage, res: ServerResponse, startedAt: number, log: RequestLog) => {
+  const parts = [
+    new Date().toISOString(),
+    req.method,
+    req.url,
+    res.statusCode,
+    log.outcome,
+    `${Date.now() - startedAt}ms`,
+    `user=${log.user}`,
+    `ip=${log.address}`,
+    log.settings && `model=${log.settings.provider}/${log.settings.model}`,
+    log.usage && `tokens=${log.usage.inputTokens}/${log.usage.outputTokens}`,
+    log.usage && log.settings && `cost=$${costOf(log.settings.model, log.usage).toFixed(4)}`
+  ];
+  console.log(parts.filter(Boolean).join(' '));
+};
+
+// The install id usage is accounted to. An id the server did not sign is replaced by a newly
+// issued one, returned in the X-Client-Id response header for the app to keep.
+const userOf = (req: IncomingMessage, res: ServerResponse) => {
+  const header = req.headers['x-client-id'];
+  const verified = clientIds.verify(typeof header === 'string' ? header : undefined);
+  if (verified) return verified;
+
+  const { id, token } = clientIds.issue();
+  res.setHeader('X-Client-Id', token);
+  return id;
+};
+
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// The device a request came from. Behind the dev proxy every connection is from loopback, and the
+// proxy appends the real peer to X-Forwarded-For; the last entry is the one it added, so a client
+// cannot pick its own bucket by sending the header. Direct connections are taken at their word.
+const clientAddress = (req: IncomingMessage) => {
+  const peer = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (!LOOPBACK.includes(peer) || typeof forwarded !== 'string') return peer;
+  return forwarded.split(',').pop()!.trim() || peer;
+};
+
+// The server's own keys are filled in when the app sends none. The OpenAI key is only attached
+// for the configured endpoint, so a client cannot point the backend at another host to collect it.
+const withServerKey = (settings: AISettings): AISettings => {
+  if (settings.apiKey) return settings;
+  if (settings.provider === 'gemini') {
+    return { ...settings, apiKey: process.env.GEMINI_API_KEY };
+  }
+  if (settings.provider === 'openai' && settings.baseUrl === OPENAI_BASE_URL) {
+    return { ...settings, apiKey: process.env.OPENAI_API_KEY };
+  }
+  return settings;
+};
+
+const readJSON = (req: IncomingMessage) => new Promise<unknown>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_BODY_BYTES) return reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes.`));
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new HttpError(400, 'Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const OPTIONAL_SETTINGS = ['baseUrl', 'apiKey', 'embeddingModel'] as const;
+
+// The body every task expects; anything else is the caller's mistake, not a server error
+const parseTaskBody = (body: unknown): { settings: AISettings; input: Record<string, unknown> } => {
+  if (!isObject(body) || !isObject(body.settings) || !isObject(body.input)) {
+    throw new HttpError(400, 'Expected a JSON object { settings, input }.');
+  }
+  const { settings, input } = body;
+  if (typeof settings.provider !== 'string' || !Object.hasOwn(PROVIDERS, settings.provider)) {
+    throw new HttpError(400, 'settings.provider is not a known provider.');
+  }
+  if (typeof settings.model !== 'string') {
+    throw new HttpError(400, 'settings.model must be a string.');
+  }
+  const invalid = OPTIONAL_SETTINGS.find(key => settings[key] !== undefined && typeof settings[key] !== 'string');
+  if (invalid) throw new HttpError(400, `settings.${invalid} must be a string.`);
+  if (
+    (settings.provider === 'openai' || settings.provider === 'local') &&
+    !ALLOWED_BASE_URLS.includes(String(settings.baseUrl || '').trim().replace(/\/$/, ''))
+  ) {
+    throw new HttpError(400, `settings.baseUrl ${settings.baseUrl} is not in ALLOWED_BASE_URLS.`, 'config');
+  }
+
+  return { settings: settings as unknown as AISettings, input };
+};
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, kind: AIErrorKind, details: string, headers?: Record<string, string>) =>
+  sendJSON(res, status, { error: { kind, details } }, headers);
+
+// Runs one task and streams it back as newline-delimited StreamEvents
+const handleTask = async (task: AITask, req: IncomingMessage, res: ServerResponse, log: RequestLog) => {
+  // Limited per address: the id is only for accounting, and a caller can always ask for a new one
+  const limit = checkRateLimit(log.address);
+  if (!limit.allowed) {
+    log.outcome = 'quota';
+    return sendError(res, 429, 'quota', `Rate limit of ${RATE_LIMIT_PER_MINUTE} requests per minute exceeded.`, {
+      'Retry-After': String(limit.retryAfter)
+    });
+  }
+  const globalLimit = checkGlobalRateLimit('all');
+  if (!globalLimit.allowed) {
+    log.outcome = 'quota';
+    return sendError(res, 429, 'quota', `Server-wide rate limit of ${GLOBAL_RATE_LIMIT_PER_MINUTE} requests per minute exceeded.`, {
+      'Retry-After': String(globalLimit.retryAfter)
+    });
+  }
+
+  const { settings, input } = parseTaskBody(await readJSON(req));
+  // Embedding calls are billed at the embedding model's price
+  const model = task === 'embed' ? settings.embeddingModel || '' : settings.model;
+  log.settings = { ...settings, model };
+  const provider = PROVIDERS[settings.provider].factory(withServerKey(settings));
+
+  // The app cancelling its fetch closes the connection; stop the model call with it
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) abort.abort();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send = (event: StreamEvent) => {
+    if (!res.destroyed) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  let sent = '';
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  log.usage = usage;
+
+  try {
+    const result = await (TASKS[task] as TaskRunner)(provider, input, {
+      signal: abort.signal,
+      // Only the new text goes over the wire, unless a tool round restarted the answer
+      onText: text => {
+        send(text.startsWith(sent) ? { type: 'delta', text: text.slice(sent.length) } : { type: 'text', text });
+        sent = text;
+      },
+      onUsage: ({ inputTokens, outputTokens }) => {
+        usage.inputTokens += inputTokens;
+        usage.outputTokens += outputTokens;
+      }
+    });
+    log.outcome = 'ok';
+    send({ type: 'result', result });
+  } catch (err) {
+    const error = toAIError(err);
+    log.outcome = error.kind;
+    send({ type: 'error', kind: error.kind, details: error.details });
+  } finally {
+    // Failed and cancelled calls are recorded too: the provider bills whatever it generated
+    if (usage.inputTokens > 0 || usage.outputTokens > 0) {
+      ledger.record({
+        timestamp: Date.now(),
+        user: log.user,
+        task,
+        provider: settings.provider,
+        model,
+        ...usage,
+        costUsd: costOf(model, usage)
+      });
+    }
+    res.end();
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const startedAt = Date.now();
+  const log: RequestLog = { user: userOf(req, res), address: clientAddress(req) };
+  res.on('close', () => logRequest(req, res, startedAt, log));
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+  const task = path.startsWith('/api/') ? path.slice('/api/'.length) : '';
+
+  try {
+    if (req.method === 'GET' && path === '/api/usage') {
+      return sendJSON(res, 200, ledger.totalsFor(log.user));
+    }
+    if (req.method === 'POST' && Object.hasOwn(TASKS, task)) {
+      return await handleTask(task as AITask, req, res, log);
+    }
+    throw new HttpError(404, `No route for ${req.method} ${path}.`);
+  } catch (err) {
+    const status = err instanceof HttpError ? err.status : 500;
+    if (res.headersSent) return res.end();
+    sendError(res, status, err instanceof HttpError ? err.kind : 'unknown', err instanceof Error ? err.message : String(err));
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`OmniENG53 backend listening on http://${HOST}:${PORT} (${RATE_LIMIT_PER_MINUTE} requests/min per address, ${GLOBAL_RATE_LIMIT_PER_MINUTE} in total)`);
+});
@@ -0,0 +1,36 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until the oldest request in the window expires; 0 when allowed
+  retryAfter: number;
+}
+
+// Sliding window: at most `limit` requests per user in any `windowMs` span.
+// State lives in memory, so limits reset when the server restarts.
+export const createRateLimiter = (limit: number, windowMs: number) => {
+  const requests = new Map<string, number[]>();
+  let sweptAt = 0;
+
+  // Forgets users with no request left in the window, at most once per window, so a long-running
+  // server does not keep an entry for every address or id it has ever seen
+  const sweep = (now: number) => {
+    if (now - sweptAt < windowMs) return;
+    sweptAt = now;
+    requests.forEach((timestamps, user) => {
+      if (timestamps[timestamps.length - 1] <= now - windowMs) requests.delete(user);
+    });
+  };
+
+  return (user: string, now = Date.now()): RateLimitDecision => {
+    sweep(now);
+    const recent = (requests.get(user) || []).filter(timestamp => timestamp > now - windowMs);
+
+    if (recent.length >= limit) {
+      requests.set(user, recent);
+      return { allowed: false, retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+
+    recent.push(now);
+    requests.set(user, recent);
+    return { allowed: true, retryAfter: 0 };
+  };
+};
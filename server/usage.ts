@@ -0,0 +1,70 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { AITask, TokenUsage } from "../services/providers";
+
+// USD per million tokens. Models missing here (local servers, the demo) are recorded at no cost.
+const PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 }
+};
+
+export interface UsageEntry extends TokenUsage {
+  timestamp: number;
+  user: string;
+  task: AITask;
+  provider: string;
+  model: string;
+  costUsd: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  costUsd: number;
+}
+
+export const costOf = (model: string, { inputTokens, outputTokens }: TokenUsage) => {
+  const price = PRICES[model];
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+// Every billed request is appended to a JSON-lines ledger; per-user totals are rebuilt from it on start
+export const createUsageLedger = (path: string) => {
+  const totals = new Map<string, UsageTotals>();
+
+  const add = (entry: UsageEntry) => {
+    const current = totals.get(entry.user) || emptyTotals();
+    totals.set(entry.user, {
+      requests: current.requests + 1,
+      inputTokens: current.inputTokens + entry.inputTokens,
+      outputTokens: current.outputTokens + entry.outputTokens,
+      costUsd: current.costUsd + entry.costUsd
+    });
+  };
+
+  if (existsSync(path)) {
+    readFileSync(path, 'utf8').split('\n').filter(Boolean).forEach(line => {
+      try {
+        add(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash is skipped rather than losing the rest of the ledger
+      }
+    });
+  } else {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  return {
+    record: (entry: UsageEntry) => {
+      add(entry);
+      appendFileSync(path, `${JSON.stringify(entry)}\n`);
+    },
+    totalsFor: (user: string): UsageTotals => totals.get(user) || emptyTotals()
+  };
+};
@@ -0,0 +1,53 @@
+import { Asset, AssetContext, ProblemSolution } from "../types";
+import { STORES, getAll, put, remove } from "./db";
+
+const MAX_PAST_INTERVENTIONS = 5;
+
+const ASSET_ID_KEY = /^(asset|equipment|tag)[\s_-]*(id|tag|no\.?|number)?$/i;
+const TYPE_KEY = /(^|\s)(type|equipment|asset type)$/i;
+const LOCATION_KEY = /^(location|site|area)$/i;
+
+export const normaliseAssetId = (id: string) => id.trim().toUpperCase();
+
+export const loadAssets = async (): Promise<Asset[]> => {
+  const items = await getAll<Asset>(STORES.ASSETS);
+  return items.sort((a, b) => a.id.localeCompare(b.id));
+};
+
+export const saveAsset = (asset: Asset) => put(STORES.ASSETS, asset);
+
+export const deleteAsset = (id: string) => remove(STORES.ASSETS, id);
+
+// The asset tag the model reported in "Detected Assets", if any
+export const assetIdFromVariables = (variables: Record<string, string>): string | undefined => {
+  const entry = Object.entries(variables).find(([key, value]) => ASSET_ID_KEY.test(key.trim()) && value.trim());
+  return entry ? normaliseAssetId(entry[1]) : undefined;
+};
+
+// A registered asset whose tag the technician typed into the problem description
+export const detectAssetInQuery = (query: string, assets: Asset[]): Asset | undefined => {
+  const upper = query.toUpperCase();
+  return assets.find(asset => {
+    const escaped = asset.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^A-Z0-9-])${escaped}([^A-Z0-9-]|$)`).test(upper);
+  });
+};
+
+export const assetFromSolution = (solution: ProblemSolution, id: string): Asset => {
+  const entries = Object.entries(solution.variables);
+  const type = entries.find(([key]) => TYPE_KEY.test(key.trim()))?.[1] || '';
+  const location = entries.find(([key]) => LOCATION_KEY.test(key.trim()))?.[1] || '';
+  const ratings = Object.fromEntries(entries.filter(([key]) =>
+    !ASSET_ID_KEY.test(key.trim()) && !TYPE_KEY.test(key.trim()) && !LOCATION_KEY.test(key.trim())
+  ));
+
+  return { id, type, location, field: solution.field, ratings, createdAt: Date.now() };
+};
+
+export const interventionsForAsset = (assetId: string, history: ProblemSolution[]) =>
+  history.filter(item => item.assetId === assetId).sort((a, b) => b.timestamp - a.timestamp);
+
+export const buildAssetContext = (asset: Asset, history: ProblemSolution[]): AssetContext => ({
+  asset,
+  pastInterventions: interventionsForAsset(asset.id, history).slice(0, MAX_PAST_INTERVENTIONS)
+});
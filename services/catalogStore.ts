@@ -0,0 +1,16 @@
+import { CatalogPart } from "../types";
+import { STORES, clear, getAll, put, putAll, remove } from "./db";
+
+export const loadCatalog = async (): Promise<CatalogPart[]> => {
+  const parts = await getAll<CatalogPart>(STORES.CATALOG);
+  return parts.sort((a, b) => a.id.localeCompare(b.id));
+};
+
+// Imports upsert by stock code, so re-importing a newer export refreshes prices and stock levels
+export const importCatalog = (parts: CatalogPart[]) => putAll(STORES.CATALOG, parts);
+
+export const saveCatalogPart = (part: CatalogPart) => put(STORES.CATALOG, part);
+
+export const deleteCatalogPart = (id: string) => remove(STORES.CATALOG, id);
+
+export const clearCatalog = () => clear(STORES.CATALOG);
@@ -0,0 +1,446 @@
+
+import {
+  BOMItem,
+  CalculationRecord,
+  CatalogPart,
+  DiagnosticNode,
+  ImageAttachment,
+  EngineeringField,
+  FollowUpResponse,
+  ProblemSolution,
+  Reassessment,
+  SolutionPayload,
+  WorkOrderContext,
+  AssetContext,
+  Language,
+  PromptTemplate,
+  PromptVersionRef,
+  KnowledgeReference
+} from "../types";
+import { AIError, AIErrorKind, toAIError } from "./errors";
+import { DEFAULT_LANGUAGE, languageInstruction } from "../i18n";
+import { AIProvider, AITask, GenerateOptions, GenerateRequest, ToolSpec } from "./providers/types";
+import { ValidationResult, validateBOM, validateFollowUp, validateReassessment, validateSolution, validateSubHypotheses } from "./schema";
+import { NodePath, describeDiagnosticTree, getAncestry } from "../utils/diagnosticTree";
+import { snapshotPayload } from "../utils/solutionVersions";
+import { formatHours } from "../utils/duration";
+import { describeCatalog } from "../utils/catalog";
+import { describeAttachments } from "../utils/images";
+import { CALCULATORS, describeCalculations, parameterSchema, runCalculation } from "../utils/calculations";
+import { promptVersionOf, renderPrompt, resolvePromptTemplate } from "../utils/prompts";
+import { getDiscipline, getSubDiscipline } from "../utils/disciplines";
+
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const callProvider = async (provider: AIProvider, request: GenerateRequest, options?: GenerateOptions) => {
+  try {
+    return await provider.generateJSON(request, options);
+  } catch (err) {
+    console.error("API Call failed:", err);
+    throw toAIError(err);
+  }
+};
+
+const parseJSON = (text: string): unknown => {
+  // Local models sometimes wrap JSON in markdown fences despite the JSON response mode
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return undefined;
+  }
+};
+
+const buildRepairRequest = (request: GenerateRequest, previous: string, issues: string[]): GenerateRequest => ({
+  ...request,
+  temperature: 0,
+  // The calculations already ran; a repair only reshapes the JSON, so tool calls would just duplicate records
+  tools: undefined,
+  prompt: `${request.prompt}
+
+Your previous response was rejected because it did not match the required JSON schema:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previous}
+
+Return ONLY the corrected JSON object, with every required field present.`
+});
+
+// Calls the provider, validates the JSON, and re-prompts with the validation issues if it is malformed
+const generateValidated = async <T>(
+  provider: AIProvider,
+  request: GenerateRequest,
+  validate: (raw: unknown) => ValidationResult<T>,
+  options: GenerateOptions = {}
+): Promise<T> => {
+  let text = await callProvider(provider, request, options);
+
+  for (let attempt = 0; ; attempt++) {
+    const parsed = parseJSON(text);
+    const result: ValidationResult<T> = parsed === undefined
+      ? { issues: ['Response is not valid JSON.'] }
+      : validate(parsed);
+
+    if (result.issues.length === 0) return result.value as T;
+
+    console.warn(`AI response failed validation (attempt ${attempt + 1}):`, result.issues);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new AIError('malformed', result.issues.join(' '));
+    }
+    text = await callProvider(provider, buildRepairRequest(request, text, result.issues), { signal: options.signal, onUsage: options.onUsage });
+  }
+};
+
+// Every calculator is offered whatever the field: a pump fault can hinge on its motor cable just as easily.
+// The discipline's own calculators are listed first. Successful runs are appended to records; failures go
+// back to the model so it can correct its arguments.
+const calculationTools = (records: CalculationRecord[], field: EngineeringField): ToolSpec[] => {
+  const preferred = getDiscipline(field).calculators;
+  const rank = (id: string) => preferred.includes(id) ? preferred.indexOf(id) : preferred.length;
+  return [...CALCULATORS].sort((a, b) => rank(a.id) - rank(b.id)).map(calculator => ({
+    name: calculator.id,
+    description: `${calculator.label}. ${calculator.description}`,
+    parameters: parameterSchema(calculator),
+    execute: (args) => {
+      try {
+        const record = runCalculation(calculator.id, args);
+        records.push(record);
+        return { inputs: record.inputs, outputs: record.outputs };
+      } catch (err: any) {
+        return { error: err.message };
+      }
+    }
+  }));
+};
+
+// A diagnosis, stamped with the prompt version that produced it
+export type SolvedPayload = SolutionPayload & { promptVersion: PromptVersionRef; references: KnowledgeReference[] };
+
+export interface SolveInput {
+  query: string;
+  field: EngineeringField;
+  subDiscipline?: string;
+  images?: ImageAttachment[];
+  language?: Language;
+  workOrder?: WorkOrderContext;
+  asset?: AssetContext;
+  // Resolved by the app from the organisation's templates; the built-in one when omitted
+  template?: PromptTemplate;
+  // Retrieved by the app from the document library and the intervention log
+  references?: KnowledgeReference[];
+  // Low by default so repeated runs agree; compare mode raises it for a second opinion
+  temperature?: number;
+}
+
+const fieldLabel = (field: EngineeringField, subDiscipline?: string) => {
+  const sub = getSubDiscipline(field, subDiscipline);
+  return `${getDiscipline(field).name}${sub ? ` (${sub.name})` : ''}`;
+};
+
+// The field line plus the registry's guidance for the discipline and its sub-specialty
+const describeDiscipline = (field: EngineeringField, subDiscipline?: string) => {
+  const discipline = getDiscipline(field);
+  const hints = [...discipline.promptHints, ...(getSubDiscipline(field, subDiscipline)?.promptHints || [])];
+  return [
+    `Field: ${fieldLabel(field, subDiscipline)}.`,
+    ...hints.map(hint => `- ${hint}`),
+    discipline.calculators.length > 0 && `- Calculators most used in this discipline: ${discipline.calculators.join(', ')}.`
+  ].filter(Boolean).join('\n');
+};
+
+const describeWorkOrder = ({ workOrder, hoursCommitted, hoursRemaining }: WorkOrderContext) => `
+Work Order ${workOrder.number} (client: ${workOrder.client}, asset: ${workOrder.asset})
+WO scope: ${workOrder.scope}
+WO time budget: ${workOrder.budgetedHours} h total, ${formatHours(hoursCommitted)} already estimated on other interventions, ${formatHours(hoursRemaining)} remaining.`;
+
+const describeAsset = ({ asset, pastInterventions }: AssetContext) => {
+  const ratings = Object.entries(asset.ratings).map(([key, value]) => `${key}: ${value}`).join(', ');
+  const history = pastInterventions.length > 0
+    ? pastInterventions
+        .map(item => `- ${new Date(item.timestamp).toISOString().slice(0, 10)}: ${item.query} => ${item.finalResult}`)
+        .join('\n')
+    : '- None recorded.';
+
+  return `
+Asset ${asset.id}: ${asset.type || 'type unknown'}${asset.location ? ` at ${asset.location}` : ''}${ratings ? ` (${ratings})` : ''}
+Past faults on this asset:
+${history}
+If this looks like a repeat failure, say so in "analysis" and address the root cause rather than the symptom.`;
+};
+
+const describeReferences = (references: KnowledgeReference[]) => `
+Reference material from our own manuals and past interventions:
+${references.map(reference => reference.kind === 'document'
+    ? `[${reference.index}] ${reference.title}${reference.page ? `, page ${reference.page}` : ''}:\n${reference.excerpt}`
+    : `[${reference.index}] Past intervention "${reference.title}", verdict:\n${reference.excerpt}`).join('\n\n')}
+Where the analysis, a step or the verdict relies on one of these, cite it inline as [n]. Prefer the manufacturer's figures
+over general practice, treat past interventions as precedent rather than proof, and never cite material you did not use.`;
+
+const solve = async (
+  provider: AIProvider,
+  { query, field, subDiscipline, images = [], language = DEFAULT_LANGUAGE, workOrder, asset, template = resolvePromptTemplate(field, []), references = [], temperature = 0.2 }: SolveInput,
+  options: GenerateOptions = {}
+): Promise<SolvedPayload> => {
+  const systemInstruction = renderPrompt(template, field, language);
+  const calculations: CalculationRecord[] = [];
+
+  const payload = await generateValidated(provider, {
+    task: 'solve',
+    prompt: [
+      describeDiscipline(field, subDiscipline),
+      `Problem: ${query}`,
+      describeAttachments(images),
+      workOrder && describeWorkOrder(workOrder),
+      asset && describeAsset(asset),
+      references.length > 0 && describeReferences(references)
+    ].filter(Boolean).join('\n'),
+    systemInstruction,
+    images,
+    field,
+    temperature,
+    thinkingBudget: 16000,
+    maxOutputTokens: 4000,
+    tools: calculationTools(calculations, field)
+  }, validateSolution, options);
+
+  return { ...payload, calculations, promptVersion: promptVersionOf(template), references };
+};
+
+export interface BOMInput {
+  technicalSolution: string;
+  language?: Language;
+  // Catalog parts relevant to the solution; matching the result back to the full catalog is left to the caller
+  stocked?: CatalogPart[];
+}
+
+const extractBOM = async (
+  provider: AIProvider,
+  { technicalSolution, language = DEFAULT_LANGUAGE, stocked = [] }: BOMInput,
+  options: GenerateOptions = {}
+): Promise<BOMItem[]> => {
+  const prompt = `Analyze the following engineering solution and extract a detailed Bill of Materials (BOM).
+    ${languageInstruction(language)}
+    
+    Return the result as a JSON list of objects following this schema:
+    {
+      "bom": [
+        {
+          "itemName": "Specific part name",
+          "specification": "Technical specs (dimensions, ratings, etc.)",
+          "quantity": "Amount with units",
+          "priority": "High, Medium, or Low",
+          "stockCode": "Stock code from the parts list below, omitted for non-stocked parts"
+        }
+      ]
+    }
+    ${stocked.length > 0 ? `
+    Parts we keep in stock (stock code | name | specification | unit | on hand):
+    ${describeCatalog(stocked)}
+    Prefer these parts wherever one is technically suitable, using their exact name and stock code.` : ''}
+
+    Engineering Solution:
+    ${technicalSolution}`;
+
+  return generateValidated(provider, {
+    task: 'bom',
+    prompt,
+    temperature: 0.1
+  }, raw => validateBOM(raw, language), { signal: options.signal, onUsage: options.onUsage });
+};
+
+const solutionContext = (solution: ProblemSolution) => `Field: ${fieldLabel(solution.field, solution.subDiscipline)}
+Problem: ${solution.query}
+Original analysis: ${solution.analysis}
+Original verdict: ${solution.finalResult}`;
+
+export interface ExpandInput {
+  solution: ProblemSolution;
+  path: NodePath;
+  language?: Language;
+}
+
+const expandHypothesis = async (
+  provider: AIProvider,
+  { solution, path, language = DEFAULT_LANGUAGE }: ExpandInput,
+  options: GenerateOptions = {}
+): Promise<DiagnosticNode[]> => {
+  const ancestry = getAncestry(solution.diagnosticTree || [], path);
+  const failed = ancestry[ancestry.length - 1];
+
+  const prompt = `You are the OmniENG53 Project Controller assisting a technician on site.
+    ${languageInstruction(language)}
+
+    ${solutionContext(solution)}
+
+    Line of investigation so far (root first):
+    ${ancestry.map((node, i) => `${i + 1}. ${node.hypothesis} -> ${node.test}`).join('\n    ')}
+
+    The technician ran the last test and it FAILED${failed?.reading ? ` with the reading: ${failed.reading}` : ''}.
+    Propose 2 or 3 narrower sub-hypotheses that explain this failure, each with one practical field test.
+
+    Return the result as JSON following this schema:
+    {
+      "subHypotheses": [
+        { "hypothesis": "More specific cause", "test": "Test to confirm" }
+      ]
+    }`;
+
+  return generateValidated(provider, {
+    task: 'expand',
+    prompt,
+    field: solution.field,
+    temperature: 0.2
+  }, validateSubHypotheses, { signal: options.signal, onUsage: options.onUsage });
+};
+
+export interface ReassessInput {
+  solution: ProblemSolution;
+  language?: Language;
+}
+
+const reassessSolution = async (
+  provider: AIProvider,
+  { solution, language = DEFAULT_LANGUAGE }: ReassessInput,
+  options: GenerateOptions = {}
+): Promise<Reassessment> => {
+
+  const prompt = `You are the OmniENG53 Project Controller. A technician has executed the diagnostic tree on site.
+    ${languageInstruction(language)}
+
+    ${solutionContext(solution)}
+
+    Recorded test outcomes (PASSED rules a hypothesis out, FAILED confirms a fault on that branch):
+    ${describeDiagnosticTree(solution.diagnosticTree || [])}
+
+    Re-assess the problem using what was actually measured. Revise the analysis, remediation steps,
+    final verdict and confidence. Do not recommend work on branches that passed.
+
+    Return the result as JSON following this schema:
+    {
+      "analysis": "Revised technical assessment referencing the measurements.",
+      "steps": ["Step 1 description", "Step 2..."],
+      "finalResult": "The definitive solution or verdict.",
+      "confidence": 0.0 to 1.0
+    }`;
+
+  return generateValidated(provider, {
+    task: 'reassess',
+    prompt,
+    field: solution.field,
+    temperature: 0.2
+  }, validateReassessment, { signal: options.signal, onUsage: options.onUsage });
+};
+
+export interface FollowUpInput {
+  solution: ProblemSolution;
+  message: string;
+  language?: Language;
+  template?: PromptTemplate;
+}
+
+const continueConversation = async (
+  provider: AIProvider,
+  { solution, message, language = DEFAULT_LANGUAGE, template = resolvePromptTemplate(solution.field, []) }: FollowUpInput,
+  options: GenerateOptions = {}
+): Promise<FollowUpResponse> => {
+  // Photos and the BOM are left out to keep the context small; the tree and calculations are sent as text
+  const { billOfMaterials, diagnosticTree, calculations: previous = [], ...current } = snapshotPayload(solution);
+  const calculations: CalculationRecord[] = [];
+
+  const systemInstruction = `${renderPrompt(template, solution.field, language)}
+
+  This is a follow-up turn on an existing assessment. Wrap your output as:
+  {
+    "reply": "Short conversational answer to the technician's latest message.",
+    "solution": <the complete revised assessment, using the schema above>
+  }
+  Keep whatever in the current assessment is still valid and revise only what the new information changes.
+  Do not repeat clarification questions that have already been answered.`;
+
+  const transcript = (solution.conversation || [])
+    .map(turn => `${turn.role === 'technician' ? 'TECHNICIAN' : 'CONTROLLER'}: ${turn.text}`)
+    .join('\n');
+
+  const prompt = `${describeDiscipline(solution.field, solution.subDiscipline)}
+Problem: ${solution.query}
+
+Current assessment:
+${JSON.stringify(current, null, 2)}
+
+Diagnostic tree with field results:
+${describeDiagnosticTree(diagnosticTree || []) || '(none)'}
+
+Verified calculations:
+${describeCalculations(previous) || '(none)'}
+${solution.references?.length ? describeReferences(solution.references) : ''}
+
+Conversation so far:
+${transcript || '(none)'}
+
+TECHNICIAN: ${message}`;
+
+  const response = await generateValidated(provider, {
+    task: 'followup',
+    prompt,
+    systemInstruction,
+    images: solution.images,
+    field: solution.field,
+    temperature: 0.2,
+    maxOutputTokens: 4000,
+    tools: calculationTools(calculations, solution.field)
+  }, validateFollowUp, { signal: options.signal, onUsage: options.onUsage });
+
+  return { ...response, solution: { ...response.solution, calculations: [...previous, ...calculations] } };
+};
+
+export interface EmbedInput {
+  texts: string[];
+}
+
+const embed = async (provider: AIProvider, { texts }: EmbedInput, options: GenerateOptions = {}): Promise<number[][]> => {
+  if (!provider.embed) throw new AIError('unknown', 'This provider has no embedding model.');
+  try {
+    return await provider.embed(texts, { signal: options.signal, onUsage: options.onUsage });
+  } catch (err) {
+    console.error("API Call failed:", err);
+    throw toAIError(err);
+  }
+};
+
+export interface TaskInputs {
+  solve: SolveInput;
+  bom: BOMInput;
+  expand: ExpandInput;
+  reassess: ReassessInput;
+  followup: FollowUpInput;
+  embed: EmbedInput;
+}
+
+export interface TaskResults {
+  solve: SolvedPayload;
+  bom: BOMItem[];
+  expand: DiagnosticNode[];
+  reassess: Reassessment;
+  followup: FollowUpResponse;
+  embed: number[][];
+}
+
+// Every model call the app makes, keyed by task. The backend serves these over HTTP;
+// the offline demo provider runs them in the browser since it needs no credentials.
+export const TASKS: { [T in AITask]: (provider: AIProvider, input: TaskInputs[T], options?: GenerateOptions) => Promise<TaskResults[T]> } = {
+  solve,
+  bom: extractBOM,
+  expand: expandHypothesis,
+  reassess: reassessSolution,
+  followup: continueConversation,
+  embed
+};
+
+// The backend answers each task with newline-delimited JSON: text while the model streams
+// ("delta" appends, "text" replaces when a tool round restarts the answer), then a result or an error
+export type StreamEvent<T = unknown> =
+  | { type: 'delta'; text: string }
+  | { type: 'text'; text: string }
+  | { type: 'result'; result: T }
+  | { type: 'error'; kind: AIErrorKind; details?: string };
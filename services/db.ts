@@ -0,0 +1,116 @@
+const DB_NAME = 'omnieng53';
+const DB_VERSION = 7;
+
+export const STORES = {
+  SOLUTIONS: 'solutions',
+  WORK_ORDERS: 'workOrders',
+  ASSETS: 'assets',
+  CATALOG: 'catalog',
+  OUTBOX: 'outbox',
+  PROMPTS: 'promptTemplates',
+  DOCUMENTS: 'documents',
+  DOCUMENT_CHUNKS: 'documentChunks'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Stores are only ever added, so an upgrade just creates whatever is missing
+const STORE_INDEXES: Record<StoreName, string[]> = {
+  [STORES.SOLUTIONS]: ['timestamp'],
+  [STORES.WORK_ORDERS]: ['createdAt'],
+  [STORES.ASSETS]: ['createdAt'],
+  [STORES.CATALOG]: ['name'],
+  [STORES.OUTBOX]: ['createdAt'],
+  [STORES.PROMPTS]: [],
+  [STORES.DOCUMENTS]: ['addedAt'],
+  [STORES.DOCUMENT_CHUNKS]: ['documentId']
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(STORE_INDEXES) as StoreName[]).forEach(name => {
+        if (db.objectStoreNames.contains(name)) return;
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        STORE_INDEXES[name].forEach(index => store.createIndex(index, index));
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDB();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const getAllByIndex = async <T>(store: StoreName, index: string, key: string): Promise<T[]> => {
+  const db = await openDB();
+  return wrap(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(key) as IDBRequest<T[]>);
+};
+
+export const put = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: StoreName, key: string): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+// Writes a batch in one transaction so large imports either land completely or not at all
+export const putAll = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach(value => objectStore.put(value));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const clear = async (store: StoreName): Promise<void> => {
+  const db = await openDB();
+  await wrap(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
+
+export const removeByIndex = async (store: StoreName, index: string, key: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  const keys = await wrap(objectStore.index(index).getAllKeys(key));
+  keys.forEach(primaryKey => objectStore.delete(primaryKey));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,62 @@
+export type AIErrorKind = 'network' | 'quota' | 'malformed' | 'safety' | 'cancelled' | 'config' | 'backend' | 'unknown';
+
+const MESSAGES: Record<AIErrorKind, string> = {
+  network: "⚠️ CONNECTION ERROR: The AI service could not be reached. Check your connection and try again.",
+  quota: "⚠️ QUOTA EXCEEDED: The AI provider is rate limiting requests. Please wait a minute and try again.",
+  malformed: "Controller link failure: The diagnostic data returned was corrupted and could not be repaired. Please re-run the assessment.",
+  safety: "⛔ REQUEST BLOCKED: The AI provider's safety filter declined this request. Rephrase the problem description and try again.",
+  cancelled: "Diagnostics cancelled.",
+  backend: "⚠️ BACKEND UNAVAILABLE: The app's server did not answer properly. This device is online; ask the administrator to check that the backend is running.",
+  config: "⚙️ CONFIGURATION ERROR: The backend does not allow this provider endpoint. Ask the administrator to add it to ALLOWED_BASE_URLS, or choose another endpoint in Settings.",
+  unknown: "⚠️ CONTROLLER ERROR: The AI request failed unexpectedly. Please try again."
+};
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  details?: string;
+
+  constructor(kind: AIErrorKind, details?: string) {
+    super(MESSAGES[kind]);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.details = details;
+  }
+}
+
+// Socket-level failures Node reports as the cause of a rejected fetch
+const NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_SOCKET'];
+// What browsers reject fetch with when no response arrived (Chrome, Node, Safari, Firefox)
+const FETCH_FAILURE = /^(failed to fetch|fetch failed|load failed|networkerror when attempting to fetch resource\.?)$/i;
+// Finish reasons and error codes with which Gemini and OpenAI-compatible APIs report a blocked request
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'content_filter'];
+
+const fieldOf = (err: unknown, name: string): unknown =>
+  typeof err === 'object' && err !== null ? (err as Record<string, unknown>)[name] : undefined;
+
+// Maps whatever a provider threw (SDK error, fetch failure, HTTP status) onto an AIError.
+// Only structured signals count: a message merely mentioning "blocked" or "network" is not one.
+export const toAIError = (err: unknown): AIError => {
+  if (err instanceof AIError) return err;
+
+  const status = fieldOf(err, 'status');
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (fieldOf(err, 'name') === 'AbortError') {
+    return new AIError('cancelled', message);
+  }
+  if (status === 429) {
+    return new AIError('quota', message);
+  }
+  if ([fieldOf(err, 'finishReason'), fieldOf(err, 'code')].some(reason => SAFETY_REASONS.includes(reason as string))) {
+    return new AIError('safety', message);
+  }
+  if (
+    (typeof navigator !== 'undefined' && !navigator.onLine) ||
+    (err instanceof TypeError && FETCH_FAILURE.test(message)) ||
+    NETWORK_CODES.includes(fieldOf(fieldOf(err, 'cause'), 'code') as string) ||
+    NETWORK_CODES.includes(fieldOf(err, 'code') as string)
+  ) {
+    return new AIError('network', message);
+  }
+  return new AIError('unknown', message);
+};
@@ -1,131 +1,190 @@
+import {
+  AISettings,
+  BOMItem,
+  CatalogPart,
+  DiagnosticNode,
+  ImageAttachment,
+  EngineeringField,
+  FollowUpResponse,
+  ProblemSolution,
+  Reassessment,
+  SolutionPayload,
+  WorkOrderContext,
+  AssetContext,
+  Language,
+  PromptTemplate,
+  KnowledgeReference
+} from "../types";
+import { AIError, toAIError } from "./errors";
+import { DEFAULT_LANGUAGE } from "../i18n";
+import { AITask, GenerateOptions } from "./providers/types";
+import { createMockProvider } from "./providers/mock";
+import { SolvedPayload, StreamEvent, TASKS, TaskInputs, TaskResults } from "./controller";
+import { loadAISettings } from "./settingsStore";
+import { parsePartialJSON } from "../utils/partialJson";
+import { toPartialSolution } from "./schema";
+import { NodePath } from "../utils/diagnosticTree";
+import { matchBOMToCatalog, relevantParts } from "../utils/catalog";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { EngineeringField } from "../types";
+// Served by server/index.ts; the dev server proxies it so the page and the API share an origin
+const API_BASE = '/api';
+const CLIENT_ID_KEY = 'omnieng53.clientId';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+// Anonymous per-install id the backend accounts usage to. The backend issues and signs it:
+// the first response carries one, and a replacement whenever the stored id is not accepted.
+const clientId = () => localStorage.getItem(CLIENT_ID_KEY) || '';
 
-export const solveEngineeringProblem = async (
-  query: string,
-  field: EngineeringField,
-  imageData?: string,
-  language: 'en' | 'sw' = 'en'
-) => {
-  const model = 'gemini-3-pro-preview';
-  
-  const languageInstruction = language === 'sw' 
-    ? "IMPORTANT: You MUST provide all technical descriptions, steps, analysis, and verdicts in SWAHILI (Kiswahili). Technical terms can remain in English in parentheses if necessary for clarity (e.g., 'mzunguko wa umeme (circuit)')."
-    : "Respond in English.";
-
-  const systemInstruction = `You are the OmniENG53 Project Controller. 
-  Your goal is to solve complex engineering problems while managing project constraints with 100% accuracy.
-  
-  ${languageInstruction}
-
-  Persona Rules:
-  1. TECHNICAL: Provide a detailed engineering fix.
-  2. SCOPE: Provide a specific message in "projectScopeConfirm" asking the user to verify the solution against the client's Work Order (WO).
-  3. BUDGET: Provide an estimated "timeToComplete" (e.g., "4-6 man-hours") for this specific task.
-  4. FOLLOW-UP: Generate a "followUp24h" and "followUp7d" checklist for the technician to revisit and verify the fix.
-  5. SAFETY: ALWAYS start with a 'SAFETY CHECK' if the user mentions electricity, high voltage, or heavy machinery.
-  6. CLARIFICATION: If the problem is vague, ask 2 specific technical questions in "clarificationQuestions".
-  7. DIAGNOSTICS: Use a 'Diagnostic Tree' approach (hypothesis -> test).
-  8. TONE: Professional, operational, and focused on minimizing downtime and managing resources.
-
-  Output your response in a valid JSON format following this schema:
-  {
-    "safetyCheck": "Mandatory if risk exists. Otherwise empty.",
-    "analysis": "Technical engineering fix and assessment.",
-    "diagnosticTree": [
-      { "hypothesis": "Potential cause", "test": "Test to confirm" }
-    ],
-    "clarificationQuestions": ["Question 1?", "Question 2?"],
-    "projectScopeConfirm": "Mandatory scope verification message.",
-    "timeToComplete": "Estimated duration for the fix.",
-    "followUp24h": ["Step 1", "Step 2"],
-    "followUp7d": ["Step 1", "Step 2"],
-    "variables": { "key": "value" },
-    "steps": ["Step 1 description", "Step 2..."],
-    "finalResult": "The definitive solution or verdict.",
-    "confidence": 0.0 to 1.0
-  }`;
-
-  const contents = imageData 
-    ? {
-        parts: [
-          { text: `Field: ${field}. Problem: ${query}` },
-          { inlineData: { data: imageData.split(',')[1], mimeType: 'image/jpeg' } }
-        ]
-      }
-    : `Field: ${field}. Problem: ${query}`;
+const keepClientId = (response: Response) => {
+  const issued = response.headers.get('X-Client-Id');
+  if (issued) localStorage.setItem(CLIENT_ID_KEY, issued);
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents,
-      config: {
-        systemInstruction,
-        temperature: 0.2,
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 16000 },
-        maxOutputTokens: 4000
-      },
-    });
-
-    try {
-      return JSON.parse(response.text || '{}');
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      throw new Error("Controller link failure: The diagnostic data returned was corrupted. Please re-run the assessment.");
+const errorFromResponse = async (response: Response) => {
+  const body = await response.json().catch(() => undefined);
+  if (body?.error?.kind) return new AIError(body.error.kind, body.error.details);
+  if (response.status === 429) return new AIError('quota', `Backend responded with ${response.status}.`);
+  // A server error without the backend's own error body comes from the proxy in front of it: the
+  // device is online but the backend is down or misconfigured, which queueing would not fix
+  return new AIError(response.status >= 500 ? 'backend' : 'unknown', `Backend responded with ${response.status}.`);
+};
+
+const requestTask = async <T extends AITask>(
+  settings: AISettings,
+  task: T,
+  input: TaskInputs[T],
+  options: GenerateOptions
+): Promise<TaskResults[T]> => {
+  const response = await fetch(`${API_BASE}/${task}`, {
+    method: 'POST',
+    signal: options.signal,
+    headers: { 'Content-Type': 'application/json', 'X-Client-Id': clientId() },
+    body: JSON.stringify({ settings, input })
+  });
+  keepClientId(response);
+  if (!response.ok || !response.body) throw await errorFromResponse(response);
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as StreamEvent<TaskResults[T]>;
+      if (event.type === 'result') return event.result;
+      if (event.type === 'error') throw new AIError(event.kind, event.details);
+      text = event.type === 'delta' ? text + event.text : event.text;
+      options.onText?.(text);
     }
+  }
+
+  throw new AIError('network', 'Backend closed the stream before sending a result.');
+};
+
+// Model calls go through the backend so no API key reaches the browser. The offline demo
+// provider has no key to protect and must keep working without a network, so it runs here.
+const runTask = async <T extends AITask>(
+  task: T,
+  input: TaskInputs[T],
+  options: GenerateOptions = {},
+  settings: AISettings = loadAISettings()
+): Promise<TaskResults[T]> => {
+  if (settings.provider === 'mock') {
+    return TASKS[task](createMockProvider(settings), input, options);
+  }
 
-  } catch (apiError) {
-    console.error("API Call failed:", apiError);
-    throw new Error("⚠️ CONNECTION ERROR: The AI is currently overloaded or the internet is unstable. Please wait 10 seconds and try your request again.");
+  try {
+    return await requestTask(settings, task, input, options);
+  } catch (err) {
+    console.error("API Call failed:", err);
+    throw toAIError(err);
   }
 };
 
-export const extractBOM = async (technicalSolution: string, language: 'en' | 'sw' = 'en') => {
-  const model = 'gemini-3-pro-preview';
-  
-  const languageInstruction = language === 'sw' 
-    ? "Return the results in SWAHILI (Kiswahili)."
-    : "Return the results in English.";
-
-  const prompt = `Analyze the following engineering solution and extract a detailed Bill of Materials (BOM).
-    ${languageInstruction}
-    
-    Return the result as a JSON list of objects following this schema:
-    {
-      "bom": [
-        {
-          "itemName": "Specific part name",
-          "specification": "Technical specs (dimensions, ratings, etc.)",
-          "quantity": "Amount with units",
-          "priority": "High, Medium, or Low"
-        }
-      ]
+export interface SolveOptions {
+  signal?: AbortSignal;
+  // Receives the sections parsed so far while the response streams in
+  onPartial?: (partial: Partial<SolutionPayload>) => void;
+  subDiscipline?: string;
+  // Compare mode runs the same problem with other models and temperatures than the saved settings
+  settings?: AISettings;
+  temperature?: number;
+  workOrder?: WorkOrderContext;
+  asset?: AssetContext;
+  template?: PromptTemplate;
+  references?: KnowledgeReference[];
+}
+
+export const solveEngineeringProblem = async (
+  query: string,
+  field: EngineeringField,
+  images: ImageAttachment[] = [],
+  language: Language = DEFAULT_LANGUAGE,
+  options: SolveOptions = {}
+): Promise<SolvedPayload> => runTask('solve', {
+  query,
+  field,
+  subDiscipline: options.subDiscipline,
+  images,
+  language,
+  workOrder: options.workOrder,
+  asset: options.asset,
+  template: options.template,
+  references: options.references,
+  temperature: options.temperature
+}, {
+  signal: options.signal,
+  onText: options.onPartial && (text => {
+    const partial = parsePartialJSON(text);
+    if (partial && typeof partial === 'object' && !Array.isArray(partial)) {
+      options.onPartial!(toPartialSolution(partial));
     }
+  })
+}, options.settings);
 
-    Engineering Solution:
-    ${technicalSolution}`;
+export const extractBOM = async (
+  technicalSolution: string,
+  language: Language = DEFAULT_LANGUAGE,
+  catalog: CatalogPart[] = []
+): Promise<BOMItem[]> => {
+  // Only the parts worth offering the model are sent, not the whole catalog
+  const items = await runTask('bom', { technicalSolution, language, stocked: relevantParts(technicalSolution, catalog) });
+  return matchBOMToCatalog(items, catalog);
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        temperature: 0.1
-      }
-    });
-
-    try {
-      const parsed = JSON.parse(response.text || '{"bom": []}');
-      return parsed.bom;
-    } catch (e) {
-      throw new Error("Failed to parse BOM data.");
-    }
-  } catch (err) {
-    throw new Error("⚠️ CONNECTION ERROR: Failed to generate Bill of Materials.");
+export const expandHypothesis = async (
+  solution: ProblemSolution,
+  path: NodePath,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<DiagnosticNode[]> => runTask('expand', { solution, path, language });
+
+export const reassessSolution = async (
+  solution: ProblemSolution,
+  language: Language = DEFAULT_LANGUAGE
+): Promise<Reassessment> => runTask('reassess', { solution, language });
+
+// Texts per request; embedding endpoints cap the batch size
+const EMBED_BATCH_SIZE = 64;
+
+export const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    vectors.push(...await runTask('embed', { texts: texts.slice(start, start + EMBED_BATCH_SIZE) }, { signal }));
   }
+  return vectors;
 };
+
+export const continueConversation = async (
+  solution: ProblemSolution,
+  message: string,
+  language: Language = DEFAULT_LANGUAGE,
+  template?: PromptTemplate
+): Promise<FollowUpResponse> => runTask('followup', { solution, message, language, template });
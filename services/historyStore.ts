@@ -0,0 +1,64 @@
+import { HistoryFilters, ProblemSolution } from "../types";
+import { STORES, getAll, put, remove } from "./db";
+import { hasSafetyRisk } from "../utils/safety";
+import { attachmentFromDataUrl } from "../utils/images";
+
+export const DEFAULT_HISTORY_FILTERS: HistoryFilters = {
+  text: '',
+  field: 'all',
+  riskOnly: false
+};
+
+// True when no filter narrows the log, however the values were reached: a cleared date input leaves ''
+// and a sub-discipline only counts with a discipline selected
+export const isDefaultFilters = (filters: HistoryFilters) =>
+  !filters.text.trim() && filters.field === 'all' && !filters.from && !filters.to && !filters.riskOnly;
+
+// Records saved before photo galleries carried a single "image" data URL
+type StoredSolution = ProblemSolution & { image?: string };
+
+const upgradeSolution = ({ image, ...item }: StoredSolution): ProblemSolution =>
+  image && !item.images ? { ...item, images: [attachmentFromDataUrl(image)] } : item;
+
+export const loadHistory = async (): Promise<ProblemSolution[]> => {
+  const items = await getAll<StoredSolution>(STORES.SOLUTIONS);
+  return items.map(upgradeSolution).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveSolution = (solution: ProblemSolution) => put(STORES.SOLUTIONS, solution);
+
+export const deleteSolution = (id: string) => remove(STORES.SOLUTIONS, id);
+
+// Everything a technician might remember about a past job, flattened for text search
+const searchableText = (item: ProblemSolution) => [
+  item.query,
+  item.assetId,
+  item.analysis,
+  item.safetyCheck,
+  item.finalResult,
+  item.projectScopeConfirm,
+  ...item.steps,
+  ...(item.diagnosticTree || []).flatMap(node => [node.hypothesis, node.test]),
+  ...(item.billOfMaterials || []).flatMap(bom => [bom.itemName, bom.specification, bom.supplier || '']),
+  ...Object.entries(item.variables).flat(),
+  ...(item.images || []).map(image => image.label)
+].filter(Boolean).join(' ').toLowerCase();
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`).getTime();
+
+export const filterHistory = (items: ProblemSolution[], filters: HistoryFilters): ProblemSolution[] => {
+  const terms = filters.text.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return items.filter(item => {
+    if (filters.field !== 'all' && item.field !== filters.field) return false;
+    if (filters.field !== 'all' && filters.subDiscipline && item.subDiscipline !== filters.subDiscipline) return false;
+    if (filters.from && item.timestamp < startOfDay(filters.from)) return false;
+    if (filters.to && item.timestamp > endOfDay(filters.to)) return false;
+    if (filters.riskOnly && !hasSafetyRisk(item)) return false;
+    if (terms.length === 0) return true;
+
+    const haystack = searchableText(item);
+    return terms.every(term => haystack.includes(term));
+  });
+};
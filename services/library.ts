@@ -0,0 +1,81 @@
+import { AISettings, DocumentChunk, EmbedderChoice, KnowledgeReference, LibraryDocument, ProblemSolution } from "../types";
+import { loadChunks, loadDocumentChunks, loadDocuments, saveDocument } from "./libraryStore";
+import { embedTexts } from "./geminiService";
+import { extractPdfPages } from "../utils/pdf";
+import { LOCAL_EMBEDDER, MIN_LOCAL_SIMILARITY, TextChunk, buildReferences, chunkPages, chunkText, hashEmbed, normalise } from "../utils/retrieval";
+
+export const LIBRARY_ACCEPT = '.pdf,.txt,.md,.markdown,application/pdf,text/plain,text/markdown';
+
+// Identifies the vector space a document was indexed in, e.g. "local/hash-512" or "gemini/gemini-embedding-001"
+export const embedderId = (choice: EmbedderChoice, settings: AISettings) =>
+  choice === 'local' ? LOCAL_EMBEDDER : `${settings.provider}/${settings.embeddingModel}`;
+
+const embed = async (texts: string[], embedder: string): Promise<Float32Array[]> =>
+  embedder === LOCAL_EMBEDDER
+    ? texts.map(hashEmbed)
+    : (await embedTexts(texts)).map(normalise);
+
+const isPdf = (data: ArrayBuffer) => new TextDecoder().decode(data.slice(0, 5)) === '%PDF-';
+
+const toChunks = (documentId: string, pieces: TextChunk[], vectors: Float32Array[], embedder: string): DocumentChunk[] =>
+  pieces.map((piece, i) => ({ id: `${documentId}:${i}`, documentId, page: piece.page, text: piece.text, vector: vectors[i], embedder }));
+
+// Extracts, chunks and embeds an uploaded file and stores it in the library
+export const indexDocument = async (file: File, embedder: string): Promise<LibraryDocument> => {
+  const data = await file.arrayBuffer();
+  const pdf = isPdf(data);
+  const text = pdf ? undefined : new TextDecoder().decode(data);
+  if (text?.includes('\u0000')) {
+    throw new Error(`${file.name} is neither a PDF nor a text file.`);
+  }
+
+  const pages = pdf ? await extractPdfPages(data) : undefined;
+  const pieces = pages ? chunkPages(pages) : chunkText(text!);
+  if (pieces.length === 0) {
+    throw new Error(pdf
+      ? `No text found in ${file.name}. Scanned pages need OCR before they can be searched.`
+      : `${file.name} is empty.`);
+  }
+
+  const id = crypto.randomUUID();
+  const vectors = await embed(pieces.map(piece => piece.text), embedder);
+  const document: LibraryDocument = {
+    id,
+    name: file.name,
+    mimeType: pdf ? 'application/pdf' : file.type || 'text/plain',
+    size: file.size,
+    pageCount: pages?.length,
+    chunkCount: pieces.length,
+    embedder,
+    addedAt: Date.now()
+  };
+  await saveDocument(document, toChunks(id, pieces, vectors, embedder));
+  return document;
+};
+
+// Re-embeds the stored text after the embedder has changed; the original file is not needed
+export const reindexDocument = async (document: LibraryDocument, embedder: string): Promise<LibraryDocument> => {
+  const pieces = (await loadDocumentChunks(document.id))
+    .sort((a, b) => Number(a.id.split(':')[1]) - Number(b.id.split(':')[1]));
+  const vectors = await embed(pieces.map(piece => piece.text), embedder);
+  const reindexed = { ...document, embedder };
+  await saveDocument(reindexed, toChunks(document.id, pieces, vectors, embedder));
+  return reindexed;
+};
+
+// The library excerpts and past interventions most relevant to a query, numbered for citation.
+// Documents indexed with another embedder are skipped until they are re-indexed.
+export const retrieveReferences = async (
+  query: string,
+  history: ProblemSolution[],
+  embedder: string
+): Promise<KnowledgeReference[]> => {
+  const [documents, chunks] = await Promise.all([loadDocuments(), loadChunks()]);
+  const searchable = documents.filter(document => document.embedder === embedder);
+  const localQuery = hashEmbed(query);
+  // A provider embedding is only requested when there is something to compare it with
+  const queryVector = embedder === LOCAL_EMBEDDER || searchable.length === 0 ? localQuery : (await embed([query], embedder))[0];
+
+  const minScore = embedder === LOCAL_EMBEDDER ? MIN_LOCAL_SIMILARITY : 0;
+  return buildReferences(queryVector, chunks.filter(chunk => chunk.embedder === embedder), searchable, localQuery, history, minScore);
+};
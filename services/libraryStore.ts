@@ -0,0 +1,46 @@
+import { DocumentChunk, LibraryDocument } from "../types";
+import { STORES, getAll, getAllByIndex, put, putAll, remove, removeByIndex } from "./db";
+
+export const loadDocuments = async (): Promise<LibraryDocument[]> => {
+  const documents = await getAll<LibraryDocument>(STORES.DOCUMENTS);
+  return documents.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+// Every solve searches the whole library, so the chunks and their vectors are read once and
+// kept in memory until a document is indexed or deleted
+let cachedChunks: Promise<DocumentChunk[]> | undefined;
+
+export const loadChunks = () => {
+  if (!cachedChunks) {
+    const loading = getAll<DocumentChunk>(STORES.DOCUMENT_CHUNKS);
+    // A failed read is retried next time rather than remembered
+    loading.catch(() => {
+      if (cachedChunks === loading) cachedChunks = undefined;
+    });
+    cachedChunks = loading;
+  }
+  return cachedChunks;
+};
+
+export const loadDocumentChunks = (documentId: string) => getAllByIndex<DocumentChunk>(STORES.DOCUMENT_CHUNKS, 'documentId', documentId);
+
+// Chunks are written first so a document is only listed once all of its text is searchable
+export const saveDocument = async (document: LibraryDocument, chunks: DocumentChunk[]) => {
+  try {
+    await removeByIndex(STORES.DOCUMENT_CHUNKS, 'documentId', document.id);
+    await putAll(STORES.DOCUMENT_CHUNKS, chunks);
+    await put(STORES.DOCUMENTS, document);
+  } finally {
+    // Also drops a copy read while the writes were under way
+    cachedChunks = undefined;
+  }
+};
+
+export const deleteDocument = async (id: string) => {
+  try {
+    await remove(STORES.DOCUMENTS, id);
+    await removeByIndex(STORES.DOCUMENT_CHUNKS, 'documentId', id);
+  } finally {
+    cachedChunks = undefined;
+  }
+};
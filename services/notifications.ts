@@ -0,0 +1,63 @@
+import { FollowUpTask, Language } from "../types";
+import { registerServiceWorker } from "./serviceWorker";
+import { getTranslator } from "../i18n";
+
+// Periodic background sync tag the service worker checks reminders on while no tab is open
+const REMINDER_SYNC_TAG = 'follow-up-reminders';
+const REMINDER_SYNC_INTERVAL = 60 * 60 * 1000;
+
+// What public/sw.js keeps per open task, already worded in the technician's language
+interface ScheduledReminder {
+  id: string;
+  solutionId: string;
+  title: string;
+  body: string;
+  dueAt: number;
+}
+
+export const notificationsSupported = () => 'serviceWorker' in navigator && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (!notificationsSupported()) return 'denied';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+};
+
+const activeWorker = async () => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return null;
+  if (!await registerServiceWorker()) return null;
+  return (await navigator.serviceWorker.ready).active;
+};
+
+// Hands the open tasks to the service worker, which stores them in IndexedDB and shows each one
+// once when it falls due, also after the tab is closed. Browsers with Notification Triggers get
+// every reminder scheduled up front; otherwise periodic background sync (installed Chromium apps)
+// wakes the worker to check. Where neither exists, the open page asks the worker to check on its
+// minute tick, so reminders only fire while a tab is open.
+export const scheduleFollowUpReminders = async (tasks: FollowUpTask[], language: Language) => {
+  const worker = await activeWorker();
+  if (!worker) return;
+
+  const { t } = getTranslator(language);
+  const reminders: ScheduledReminder[] = tasks.map(task => ({
+    id: task.id,
+    solutionId: task.solutionId,
+    title: t('followUps.notification', { window: task.window }),
+    body: task.item,
+    dueAt: task.dueAt
+  }));
+  worker.postMessage({ type: 'schedule-reminders', reminders });
+
+  const registration = await navigator.serviceWorker.ready;
+  // Not in the DOM typings yet; Chromium only, and only for installed apps
+  const periodicSync = (registration as any).periodicSync;
+  if (periodicSync) {
+    await periodicSync.register(REMINDER_SYNC_TAG, { minInterval: REMINDER_SYNC_INTERVAL }).catch((err: unknown) =>
+      console.warn("Periodic background sync unavailable; reminders need an open tab:", err));
+  }
+};
+
+// Asks the service worker to show reminders that have fallen due since it last checked
+export const checkFollowUpReminders = async () => {
+  const worker = await activeWorker();
+  worker?.postMessage({ type: 'check-reminders' });
+};
@@ -0,0 +1,12 @@
+import { OutboxItem } from "../types";
+import { STORES, getAll, put, remove } from "./db";
+
+// Oldest first, so queued diagnoses are submitted in the order they were composed
+export const loadOutbox = async (): Promise<OutboxItem[]> => {
+  const items = await getAll<OutboxItem>(STORES.OUTBOX);
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveOutboxItem = (item: OutboxItem) => put(STORES.OUTBOX, item);
+
+export const deleteOutboxItem = (id: string) => remove(STORES.OUTBOX, id);
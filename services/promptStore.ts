@@ -0,0 +1,7 @@
+import { StoredPromptTemplate } from "../types";
+import { STORES, getAll, put } from "./db";
+
+// Only edited templates are stored, removed ones included for their history; the built-ins live in utils/prompts.ts
+export const loadPromptTemplates = () => getAll<StoredPromptTemplate>(STORES.PROMPTS);
+
+export const savePromptTemplate = (template: StoredPromptTemplate) => put(STORES.PROMPTS, template);
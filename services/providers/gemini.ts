@@ -0,0 +1,111 @@
+import { Content, FinishReason, FunctionCallingConfigMode, GenerateContentResponseUsageMetadata, GoogleGenAI, Part } from "@google/genai";
+import { AIError } from "../errors";
+import { MAX_TOOL_ROUNDS, ProviderFactory } from "./types";
+
+const BLOCKED_FINISH_REASONS = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII
+];
+
+// The Gemini API reports no token count for embeddings; this is its documented rule of thumb
+const CHARS_PER_TOKEN = 4;
+
+export const createGeminiProvider: ProviderFactory = (settings) => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || '' });
+
+  return {
+    generateJSON: async ({ prompt, systemInstruction, images = [], temperature, maxOutputTokens, thinkingBudget, tools = [] }, options = {}) => {
+      const contents: Content[] = [{
+        role: 'user',
+        parts: [
+          { text: prompt },
+          ...images.map(image => ({ inlineData: { data: image.dataUrl.split(',')[1], mimeType: image.mimeType } }))
+        ]
+      }];
+
+      for (let round = 0; ; round++) {
+        const stream = await ai.models.generateContentStream({
+          model: settings.model,
+          contents,
+          config: {
+            systemInstruction,
+            temperature,
+            // JSON mode cannot be combined with function calling; the caller still validates the JSON
+            ...(tools.length > 0
+              ? {
+                  tools: [{ functionDeclarations: tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }],
+                  // Once the round limit is reached the model must answer with what it has
+                  ...(round >= MAX_TOOL_ROUNDS ? { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } } : {})
+                }
+              : { responseMimeType: "application/json" }),
+            abortSignal: options.signal,
+            ...(thinkingBudget ? { thinkingConfig: { thinkingBudget } } : {}),
+            ...(maxOutputTokens ? { maxOutputTokens } : {})
+          },
+        });
+
+        let text = '';
+        const calls: Part[] = [];
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        try {
+          for await (const chunk of stream) {
+            // Counts are cumulative; the last chunk carries the totals for the call
+            usage = chunk.usageMetadata || usage;
+
+            const finishReason = chunk.candidates?.[0]?.finishReason;
+            if (chunk.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+              throw new AIError('safety', chunk.promptFeedback?.blockReasonMessage || finishReason);
+            }
+
+            for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+              // Call parts are replayed verbatim so their thought signatures reach the next round
+              if (part.functionCall) calls.push(part);
+              else if (part.text && !part.thought) {
+                text += part.text;
+                options.onText?.(text);
+              }
+            }
+          }
+        } finally {
+          // A call blocked or cut off mid-stream is still billed for what it consumed
+          options.onUsage?.({
+            inputTokens: usage?.promptTokenCount || 0,
+            outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0)
+          });
+        }
+
+        if (calls.length === 0) return text;
+
+        contents.push({ role: 'model', parts: calls });
+        contents.push({
+          role: 'user',
+          parts: calls.map(({ functionCall }) => {
+            const tool = tools.find(candidate => candidate.name === functionCall!.name);
+            return {
+              functionResponse: {
+                id: functionCall!.id,
+                name: functionCall!.name,
+                response: tool ? tool.execute(functionCall!.args || {}) : { error: `Unknown tool "${functionCall!.name}".` }
+              }
+            };
+          })
+        });
+      }
+    },
+
+    embed: async (texts, options = {}) => {
+      const response = await ai.models.embedContent({
+        model: settings.embeddingModel || '',
+        contents: texts,
+        config: { abortSignal: options.signal }
+      });
+      // Vertex AI counts the tokens of each input; otherwise they are estimated from its length
+      const inputTokens = texts.reduce((total, text, i) =>
+        total + (response.embeddings?.[i]?.statistics?.tokenCount ?? Math.ceil(text.length / CHARS_PER_TOKEN)), 0);
+      options.onUsage?.({ inputTokens, outputTokens: 0 });
+      return (response.embeddings || []).map(embedding => embedding.values || []);
+    }
+  };
+};
@@ -0,0 +1,32 @@
+import { AIProviderId, AISettings } from "../../types";
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openai";
+import { AIProvider, ProviderFactory } from "./types";
+
+export type { AIProvider, AITask, GenerateOptions, GenerateRequest, TokenUsage, ToolSpec } from "./types";
+
+export const PROVIDERS: Record<AIProviderId, { label: string; factory: ProviderFactory; defaults: Omit<AISettings, 'provider'> }> = {
+  gemini: {
+    label: 'Google Gemini',
+    factory: createGeminiProvider,
+    defaults: { model: 'gemini-3-pro-preview', embeddingModel: 'gemini-embedding-001' }
+  },
+  openai: {
+    label: 'OpenAI-compatible',
+    factory: createOpenAICompatibleProvider,
+    defaults: { model: 'gpt-4o', baseUrl: 'https://api.openai.com/v1', embeddingModel: 'text-embedding-3-small' }
+  },
+  local: {
+    label: 'Local LLM Server',
+    factory: createOpenAICompatibleProvider,
+    defaults: { model: 'llama3.1', baseUrl: 'http://localhost:11434/v1', embeddingModel: 'nomic-embed-text' }
+  },
+  mock: {
+    label: 'Offline Demo (Mock)',
+    factory: createMockProvider,
+    defaults: { model: 'mock', embeddingModel: 'mock' }
+  }
+};
+
+export const getProvider = (settings: AISettings): AIProvider => PROVIDERS[settings.provider].factory(settings);
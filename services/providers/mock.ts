@@ -0,0 +1,66 @@
+import { AIError } from "../errors";
+import { MOCK_BOM, MOCK_FOLLOW_UP_REPLY, MOCK_REASSESSMENT, MOCK_SOLUTIONS, MOCK_SUB_HYPOTHESES, MOCK_TOOL_CALLS } from "./mockFixtures";
+import { ProviderFactory } from "./types";
+import { hashEmbed } from "../../utils/retrieval";
+import { DEFAULT_DISCIPLINE } from "../../utils/disciplines";
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_CHUNK_SIZE = 48;
+const MOCK_CHUNK_INTERVAL_MS = 40;
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AIError('cancelled'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIError('cancelled'));
+  };
+  // Detached once the delay elapses, so a long stream does not pile listeners onto one signal
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Deterministic offline backend for site demos and UI tests without an API key.
+// Responses are streamed in fixed-size chunks so progressive rendering can be exercised.
+export const createMockProvider: ProviderFactory = () => ({
+  generateJSON: async ({ task, field, prompt, tools = [] }, options = {}) => {
+    await delay(MOCK_LATENCY_MS, options.signal);
+    // Disciplines without fixtures of their own answer as mechanical
+    const fixtureField = field && MOCK_SOLUTIONS[field] ? field : DEFAULT_DISCIPLINE;
+
+    // Tools run for real so the recorded calculations come from the same code path as a live model
+    if (task === 'solve') {
+      MOCK_TOOL_CALLS[fixtureField].forEach(call => tools.find(tool => tool.name === call.name)?.execute(call.args));
+    }
+
+    const solution = MOCK_SOLUTIONS[fixtureField];
+    const fixtures = {
+      solve: prompt.includes('Work Order ') ? { ...solution, scopeStatus: 'in-scope' } : solution,
+      bom: { bom: MOCK_BOM },
+      expand: MOCK_SUB_HYPOTHESES,
+      reassess: MOCK_REASSESSMENT,
+      followup: {
+        reply: MOCK_FOLLOW_UP_REPLY,
+        solution: { ...solution, clarificationQuestions: [], confidence: Math.min(0.97, (solution.confidence as number) + 0.07) }
+      }
+    };
+    const payload = JSON.stringify(fixtures[task]);
+
+    if (!options.onText) return payload;
+
+    for (let end = MOCK_CHUNK_SIZE; end < payload.length + MOCK_CHUNK_SIZE; end += MOCK_CHUNK_SIZE) {
+      await delay(MOCK_CHUNK_INTERVAL_MS, options.signal);
+      options.onText(payload.slice(0, end));
+    }
+
+    return payload;
+  },
+
+  // Stands in for an embedding model with the on-device hashing embedder
+  embed: async (texts, options = {}) => {
+    await delay(MOCK_CHUNK_INTERVAL_MS, options.signal);
+    return texts.map(text => Array.from(hashEmbed(text)));
+  }
+});
@@ -0,0 +1,143 @@
+import { BOMItem, EngineeringField } from "../../types";
+
+// Canned controller payloads, shaped exactly like the JSON the live models return.
+export const MOCK_SOLUTIONS: Partial<Record<EngineeringField, Record<string, unknown>>> = {
+  Mechanical: {
+    safetyCheck: "Isolate and lock out the pump motor at the MCC before removing the coupling guard. Confirm zero energy on the discharge line.",
+    analysis: "Vibration signature and bearing temperature point to coupling misalignment driving premature drive-end bearing wear on the centrifugal pump.",
+    diagnosticTree: [
+      { hypothesis: "Angular misalignment between motor and pump shafts", test: "Laser alignment check across the coupling; tolerance 0.05 mm/100 mm" },
+      { hypothesis: "Drive-end bearing degradation", test: "Measure bearing housing vibration velocity; above 7.1 mm/s RMS confirms" },
+      { hypothesis: "Soft foot on motor base", test: "Loosen each foot bolt in turn with a dial indicator on the shaft" }
+    ],
+    clarificationQuestions: ["What is the current bearing housing temperature?", "When was the pump last realigned?"],
+    projectScopeConfirm: "Confirm the Work Order covers bearing replacement and realignment, not only inspection.",
+    timeToComplete: "4-6 man-hours",
+    followUp24h: ["Re-check vibration levels at full load", "Verify bearing temperature below 80°C"],
+    followUp7d: ["Trend vibration readings against baseline", "Inspect coupling insert for wear"],
+    variables: { "Asset ID": "P-101", "Pump Type": "Centrifugal", "Motor Rating": "15 kW", "Speed": "2950 rpm" },
+    steps: [
+      "Lock out and tag out the motor supply at the MCC",
+      "Remove coupling guard and record as-found alignment",
+      "Replace drive-end bearing (6309-2Z/C3)",
+      "Correct soft foot with stainless shims",
+      "Realign shafts with laser tool to within tolerance",
+      "Refit guard, remove LOTO and run up under observation"
+    ],
+    finalResult: "Replace the drive-end bearing and realign the motor-pump coupling.",
+    confidence: 0.86
+  },
+  Electrical: {
+    safetyCheck: "415V three-phase panel. Apply LOTO at the upstream breaker, prove dead with a tested voltage indicator and wear arc-rated PPE.",
+    analysis: "Repeated tripping of the MCCB under normal load with discoloured terminals indicates a high-resistance connection on the L2 incomer.",
+    diagnosticTree: [
+      { hypothesis: "Loose or oxidised L2 terminal", test: "Thermal scan under load, then torque check after isolation" },
+      { hypothesis: "MCCB thermal element drift", test: "Secondary injection test against the trip curve" },
+      { hypothesis: "Phase imbalance overloading L2", test: "Clamp-meter load currents on all three phases" }
+    ],
+    clarificationQuestions: ["What is the measured load current per phase?", "Is there visible heat damage on the busbar?"],
+    projectScopeConfirm: "Confirm the Work Order authorises panel shutdown and terminal replacement.",
+    timeToComplete: "3-4 man-hours",
+    followUp24h: ["Thermal scan of the repaired termination under load"],
+    followUp7d: ["Re-torque check on L2 termination", "Review trip log for recurrence"],
+    variables: { "Asset ID": "DB-04", "Supply": "415V", "MCCB Rating": "125A", "Phase": "3" },
+    steps: [
+      "Isolate the panel at the upstream breaker and apply LOTO",
+      "Prove dead at the MCCB terminals",
+      "Remove and clean the L2 lug, replace if pitted",
+      "Re-terminate and torque to manufacturer specification",
+      "Restore supply and verify with thermal scan under load"
+    ],
+    finalResult: "Re-terminate the L2 incomer lug on DB-04; the MCCB itself is healthy.",
+    confidence: 0.82
+  },
+  Civil: {
+    safetyCheck: "Cordon off the area beneath the cracked slab and prop the span before any intrusive investigation.",
+    analysis: "Diagonal cracking near the support suggests shear distress, likely from overloading after a change of use.",
+    diagnosticTree: [
+      { hypothesis: "Imposed load exceeds design value", test: "Survey current storage loads against design kN/m²" },
+      { hypothesis: "Reinforcement corrosion reducing capacity", test: "Cover meter survey and half-cell potential readings" }
+    ],
+    clarificationQuestions: ["What is currently stored on the slab?", "Are crack widths increasing?"],
+    projectScopeConfirm: "Confirm the Work Order includes structural assessment, not only cosmetic repair.",
+    timeToComplete: "2 days",
+    followUp24h: ["Check tell-tales installed across the cracks"],
+    followUp7d: ["Compare crack width readings", "Confirm load restrictions are being observed"],
+    variables: { "Asset ID": "SLAB-L2-03", "Span": "6 m", "Crack Width": "0.4 mm" },
+    steps: [
+      "Install temporary propping under the affected span",
+      "Fit crack monitoring tell-tales",
+      "Reduce imposed load to design value",
+      "Commission a structural engineer's assessment for strengthening"
+    ],
+    finalResult: "Prop the slab and restrict loading pending a strengthening design.",
+    confidence: 0.74
+  },
+  Chemical: {
+    safetyCheck: "Caustic service. Wear face shield, chemical gloves and apron; confirm the line is drained and vented before breaking containment.",
+    analysis: "Drop in dosing accuracy combined with crystallisation at the injection quill points to a partially blocked quill in the NaOH dosing line.",
+    diagnosticTree: [
+      { hypothesis: "Blocked injection quill", test: "Isolate and remove quill, inspect for crystalline deposits" },
+      { hypothesis: "Dosing pump diaphragm failure", test: "Calibration column drawdown test" }
+    ],
+    clarificationQuestions: ["What concentration of NaOH is being dosed?", "Has the dosing pump stroke been adjusted recently?"],
+    projectScopeConfirm: "Confirm the Work Order covers breaking containment on the dosing line.",
+    timeToComplete: "2-3 man-hours",
+    followUp24h: ["Verify downstream pH is within setpoint band"],
+    followUp7d: ["Re-inspect quill for deposit build-up"],
+    variables: { "Asset ID": "DP-07", "Chemical": "NaOH 25%", "Setpoint pH": "8.5" },
+    steps: [
+      "Stop the dosing pump and isolate the line",
+      "Drain and flush the line with water",
+      "Remove and clean the injection quill",
+      "Reinstall, leak test and recalibrate the pump"
+    ],
+    finalResult: "Clean the blocked NaOH injection quill and recalibrate the dosing pump.",
+    confidence: 0.88
+  }
+};
+
+// Tool calls the mock "model" makes before answering, so verified calculations appear in offline demos
+export const MOCK_TOOL_CALLS: Partial<Record<EngineeringField, { name: string; args: Record<string, string> }[]>> = {
+  Mechanical: [
+    { name: 'bearing_life', args: { dynamicLoadRating: '55.3 kN', equivalentLoad: '4.2 kN', speed: '2950 rpm', type: 'ball' } },
+    { name: 'pump_head', args: { flow: '90 m3/h', suctionPressure: '0.3 bar', dischargePressure: '4.8 bar', efficiency: '72%' } }
+  ],
+  Electrical: [
+    { name: 'voltage_drop', args: { current: '98 A', length: '45 m', csa: '35 mm2', material: 'copper', phases: 'three', voltage: '415 V' } }
+  ],
+  Civil: [
+    { name: 'beam_capacity', args: { support: 'simply-supported', span: '6 m', elasticModulus: '30 GPa', secondMoment: '135000 cm4', sectionModulus: '4500 cm3', allowableStress: '8 MPa', deflectionLimit: '250' } }
+  ],
+  Chemical: [
+    { name: 'dilution', args: { stockConcentration: '25 %', targetConcentration: '5 %', targetVolume: '200 L' } }
+  ]
+};
+
+export const MOCK_BOM: BOMItem[] = [
+  { itemName: "Deep groove ball bearing", specification: "6309-2Z/C3", quantity: "2 pcs", priority: "High" },
+  { itemName: "Stainless steel shim kit", specification: "0.05-1.0 mm, 100x100 mm", quantity: "1 kit", priority: "Medium" },
+  { itemName: "Lockout padlock and tag", specification: "Safety red, keyed different", quantity: "2 pcs", priority: "High" },
+  { itemName: "Contact cleaner", specification: "Non-residue, 400 ml", quantity: "1 can", priority: "Low" }
+];
+
+export const MOCK_SUB_HYPOTHESES = {
+  subHypotheses: [
+    { hypothesis: "Fault is localised to the connection or interface under test", test: "Inspect and measure at the termination point with the asset isolated" },
+    { hypothesis: "Upstream supply or process condition is out of tolerance", test: "Record upstream values over one full duty cycle" }
+  ]
+};
+
+export const MOCK_REASSESSMENT = {
+  analysis: "Field test results narrow the fault to the failed branch of the diagnostic tree; passed tests rule out the alternative causes.",
+  steps: [
+    "Isolate the asset and apply LOTO",
+    "Rectify the component identified by the failed test",
+    "Repeat the failed test to confirm the fault is cleared",
+    "Return the asset to service under observation"
+  ],
+  finalResult: "Fault confirmed by field measurement; rectify the component on the failed diagnostic branch.",
+  confidence: 0.93
+};
+
+export const MOCK_FOLLOW_UP_REPLY = "Thanks, that narrows it down. I have updated the assessment with your answers and raised the confidence accordingly.";
@@ -0,0 +1,166 @@
+import { AIError } from "../errors";
+import { MAX_TOOL_ROUNDS, ProviderFactory } from "./types";
+
+interface StreamedToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Azure-style gateways reject a prompt their content filter blocks with code "content_filter"
+const errorFromResponse = async (response: Response) => {
+  const details = await response.text();
+  let code: unknown;
+  try {
+    code = JSON.parse(details)?.error?.code;
+  } catch {
+    // Not a JSON error body
+  }
+  const kind = response.status === 429 ? 'quota' : code === 'content_filter' ? 'safety' : 'unknown';
+  return new AIError(kind, `Provider responded with ${response.status}: ${details}`);
+};
+
+// Works against any server exposing the OpenAI Chat Completions API
+// (OpenAI, Azure-style gateways, Ollama, LM Studio, llama.cpp, vLLM).
+export const createOpenAICompatibleProvider: ProviderFactory = (settings) => ({
+  generateJSON: async ({ prompt, systemInstruction, images = [], temperature, maxOutputTokens, tools = [] }, options = {}) => {
+    const userContent = images.length > 0
+      ? [
+          { type: 'text', text: prompt },
+          ...images.map(image => ({ type: 'image_url', image_url: { url: image.dataUrl } }))
+        ]
+      : prompt;
+
+    const messages: Record<string, unknown>[] = [
+      ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+      { role: 'user', content: userContent }
+    ];
+
+    for (let round = 0; ; round++) {
+      const response = await fetch(`${(settings.baseUrl || '').replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          temperature,
+          stream: true,
+          // Adds a final chunk with the token counts
+          stream_options: { include_usage: true },
+          response_format: { type: 'json_object' },
+          ...(tools.length > 0
+            ? {
+                tools: tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } })),
+                tool_choice: round >= MAX_TOOL_ROUNDS ? 'none' : 'auto'
+              }
+            : {}),
+          ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {})
+        })
+      });
+
+      if (!response.ok || !response.body) throw await errorFromResponse(response);
+
+      // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let text = '';
+      // Tool calls arrive as fragments keyed by index; the arguments JSON is split across deltas
+      const calls: StreamedToolCall[] = [];
+      let usage: { prompt_tokens?: number; completion_tokens?: number } | undefined;
+
+      const handleLine = (line: string) => {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) return;
+
+        // Gateways and local servers sometimes interleave lines that are not JSON; they carry no delta
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          return;
+        }
+        usage = event.usage || usage;
+        const choice = event.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+          throw new AIError('safety', 'Response withheld by content filter.');
+        }
+
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          options.onText?.(text);
+        }
+
+        for (const fragment of choice?.delta?.tool_calls || []) {
+          const call = calls[fragment.index ?? 0] ||= { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+      // The last event may end the stream without a trailing newline
+      buffer += decoder.decode();
+      buffer.split('\n').forEach(handleLine);
+
+      options.onUsage?.({ inputTokens: usage?.prompt_tokens || 0, outputTokens: usage?.completion_tokens || 0 });
+
+      if (calls.length === 0) return text;
+
+      messages.push({
+        role: 'assistant',
+        content: text || null,
+        tool_calls: calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }))
+      });
+      calls.forEach(call => {
+        const tool = tools.find(candidate => candidate.name === call.name);
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify(tool ? tool.execute(parseArguments(call.arguments)) : { error: `Unknown tool "${call.name}".` })
+        });
+      });
+    }
+  },
+
+  embed: async (texts, options = {}) => {
+    const response = await fetch(`${(settings.baseUrl || '').replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: settings.embeddingModel, input: texts })
+    });
+
+    if (!response.ok) throw await errorFromResponse(response);
+
+    const body: { data: { index: number; embedding: number[] }[]; usage?: { prompt_tokens?: number } } = await response.json();
+    options.onUsage?.({ inputTokens: body.usage?.prompt_tokens || 0, outputTokens: 0 });
+    return [...body.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+});
@@ -0,0 +1,54 @@
+import { AISettings, EngineeringField } from "../../types";
+
+export type AITask = 'solve' | 'bom' | 'expand' | 'reassess' | 'followup' | 'embed';
+
+export interface ImageInput {
+  dataUrl: string;
+  mimeType: string;
+}
+
+// A function the model may call before answering. execute runs locally; its result is sent back to the model.
+export interface ToolSpec {
+  name: string;
+  description: string;
+  // JSON Schema of the arguments object
+  parameters: Record<string, unknown>;
+  execute: (args: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface GenerateRequest {
+  task: Exclude<AITask, 'embed'>;
+  prompt: string;
+  systemInstruction?: string;
+  images?: ImageInput[];
+  field?: EngineeringField;
+  temperature: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  tools?: ToolSpec[];
+}
+
+// Tool-call round trips allowed before the model is told to answer without tools
+export const MAX_TOOL_ROUNDS = 4;
+
+// Tokens billed for one model call; thinking tokens count as output
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Called with the accumulated response text each time a streamed chunk arrives
+  onText?: (textSoFar: string) => void;
+  // Called once per model call (each tool round is a call) with what the provider reported
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AIProvider {
+  generateJSON: (request: GenerateRequest, options?: GenerateOptions) => Promise<string>;
+  // One vector per text, in order, from the settings' embedding model
+  embed?: (texts: string[], options?: GenerateOptions) => Promise<number[][]>;
+}
+
+export type ProviderFactory = (settings: AISettings) => AIProvider;
@@ -0,0 +1,185 @@
+import { BOMItem, DiagnosticNode, FollowUpResponse, Language, Reassessment, ScopeStatus, SolutionPayload } from "../types";
+import { parseQuantity } from "../utils/bom";
+import { DEFAULT_LANGUAGE } from "../i18n";
+
+// An empty issues list means the value is valid and ready to use
+export interface ValidationResult<T> {
+  value?: T;
+  issues: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+
+const stringList = (value: unknown) => Array.isArray(value)
+  ? value.filter(item => typeof item === 'string' || typeof item === 'number').map(String)
+  : [];
+
+const toConfidence = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || Number.isNaN(num)) return undefined;
+  // Some models answer in percent despite the 0.0-1.0 instruction
+  const normalised = num > 1 && num <= 100 ? num / 100 : num;
+  return Math.min(1, Math.max(0, normalised));
+};
+
+const toVariables = (value: unknown): Record<string, string> => {
+  if (!isObject(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, val]) => val !== null && val !== undefined && typeof val !== 'object')
+      .map(([key, val]) => [key, String(val)])
+  );
+};
+
+const toDiagnosticTree = (value: unknown): DiagnosticNode[] => Array.isArray(value)
+  ? value
+      .filter(isObject)
+      .filter(node => typeof node.hypothesis === 'string' && node.hypothesis.trim())
+      .map(node => ({ hypothesis: node.hypothesis as string, test: optionalString(node.test) || '' }))
+  : [];
+
+const SCOPE_STATUSES: ScopeStatus[] = ['in-scope', 'partial', 'out-of-scope', 'unknown'];
+
+const toScopeStatus = (value: unknown): ScopeStatus | undefined =>
+  SCOPE_STATUSES.find(status => typeof value === 'string' && status === value.trim().toLowerCase());
+
+const PRIORITIES: BOMItem['priority'][] = ['High', 'Medium', 'Low'];
+
+const toPriority = (value: unknown): BOMItem['priority'] => {
+  const match = PRIORITIES.find(p => typeof value === 'string' && p.toLowerCase() === value.trim().toLowerCase());
+  return match || 'Medium';
+};
+
+// The fields every diagnosis carries, shared by a full solution and a reassessment
+const validateCore = (raw: Record<string, unknown>): ValidationResult<Reassessment> => {
+  const issues: string[] = [];
+  const confidence = toConfidence(raw.confidence);
+
+  if (typeof raw.analysis !== 'string' || !raw.analysis.trim()) issues.push('"analysis" must be a non-empty string.');
+  if (typeof raw.finalResult !== 'string' || !raw.finalResult.trim()) issues.push('"finalResult" must be a non-empty string.');
+  if (!Array.isArray(raw.steps) || stringList(raw.steps).length === 0) issues.push('"steps" must be a non-empty array of strings.');
+  if (confidence === undefined) issues.push('"confidence" must be a number between 0.0 and 1.0.');
+
+  if (issues.length > 0) return { issues };
+
+  return {
+    issues: [],
+    value: {
+      analysis: raw.analysis as string,
+      steps: stringList(raw.steps),
+      finalResult: raw.finalResult as string,
+      confidence: confidence as number
+    }
+  };
+};
+
+export const validateSolution = (raw: unknown): ValidationResult<SolutionPayload> => {
+  if (!isObject(raw)) return { issues: ['Response is not a JSON object.'] };
+
+  const core = validateCore(raw);
+  if (!core.value) return { issues: core.issues };
+
+  return {
+    issues: [],
+    value: {
+      analysis: core.value.analysis,
+      safetyCheck: optionalString(raw.safetyCheck) || '',
+      diagnosticTree: toDiagnosticTree(raw.diagnosticTree),
+      clarificationQuestions: stringList(raw.clarificationQuestions),
+      projectScopeConfirm: optionalString(raw.projectScopeConfirm),
+      scopeStatus: toScopeStatus(raw.scopeStatus),
+      timeToComplete: optionalString(raw.timeToComplete),
+      followUp24h: stringList(raw.followUp24h),
+      followUp7d: stringList(raw.followUp7d),
+      variables: toVariables(raw.variables),
+      steps: core.value.steps,
+      finalResult: core.value.finalResult,
+      confidence: core.value.confidence
+    }
+  };
+};
+
+// A solution still streaming in: only the sections that have arrived, coerced the same way as a
+// complete one, so a half-written value never reaches the console with the wrong shape
+export const toPartialSolution = (raw: unknown): Partial<SolutionPayload> => {
+  if (!isObject(raw)) return {};
+
+  const partial: Partial<SolutionPayload> = {};
+  if ('analysis' in raw) partial.analysis = optionalString(raw.analysis) || '';
+  if ('safetyCheck' in raw) partial.safetyCheck = optionalString(raw.safetyCheck) || '';
+  if ('diagnosticTree' in raw) partial.diagnosticTree = toDiagnosticTree(raw.diagnosticTree);
+  if ('clarificationQuestions' in raw) partial.clarificationQuestions = stringList(raw.clarificationQuestions);
+  if ('projectScopeConfirm' in raw) partial.projectScopeConfirm = optionalString(raw.projectScopeConfirm);
+  if ('scopeStatus' in raw) partial.scopeStatus = toScopeStatus(raw.scopeStatus);
+  if ('timeToComplete' in raw) partial.timeToComplete = optionalString(raw.timeToComplete);
+  if ('followUp24h' in raw) partial.followUp24h = stringList(raw.followUp24h);
+  if ('followUp7d' in raw) partial.followUp7d = stringList(raw.followUp7d);
+  if ('variables' in raw) partial.variables = toVariables(raw.variables);
+  if ('steps' in raw) partial.steps = stringList(raw.steps);
+  if ('finalResult' in raw) partial.finalResult = optionalString(raw.finalResult) || '';
+  const confidence = toConfidence(raw.confidence);
+  if (confidence !== undefined) partial.confidence = confidence;
+  return partial;
+};
+
+// Quantities are read with the separators of the language the BOM was written in
+export const validateBOM = (raw: unknown, language: Language = DEFAULT_LANGUAGE): ValidationResult<BOMItem[]> => {
+  if (!isObject(raw) || !Array.isArray(raw.bom)) {
+    return { issues: ['Response must be an object with a "bom" array.'] };
+  }
+
+  const items = raw.bom
+    .filter(isObject)
+    .filter(item => typeof item.itemName === 'string' && item.itemName.trim())
+    .map(item => {
+      const quantity = item.quantity !== undefined && item.quantity !== null ? String(item.quantity) : '1';
+      const parsed = parseQuantity(quantity, language);
+      return {
+        itemName: item.itemName as string,
+        specification: optionalString(item.specification) || '',
+        quantity,
+        quantityValue: parsed.value,
+        unit: parsed.unit,
+        priority: toPriority(item.priority),
+        // Unverified until matched against the local catalog
+        catalogMatch: optionalString(item.stockCode) ? { stockCode: optionalString(item.stockCode), confidence: 0 } : undefined
+      };
+    });
+
+  if (raw.bom.length > 0 && items.length === 0) {
+    return { issues: ['Every "bom" entry is missing "itemName".'] };
+  }
+
+  return { issues: [], value: items };
+};
+
+export const validateSubHypotheses = (raw: unknown): ValidationResult<DiagnosticNode[]> => {
+  if (!isObject(raw) || !Array.isArray(raw.subHypotheses)) {
+    return { issues: ['Response must be an object with a "subHypotheses" array.'] };
+  }
+
+  const nodes = toDiagnosticTree(raw.subHypotheses);
+  if (nodes.length === 0) {
+    return { issues: ['"subHypotheses" must contain at least one { "hypothesis", "test" } entry.'] };
+  }
+
+  return { issues: [], value: nodes };
+};
+
+export const validateReassessment = (raw: unknown): ValidationResult<Reassessment> =>
+  isObject(raw) ? validateCore(raw) : { issues: ['Response is not a JSON object.'] };
+
+export const validateFollowUp = (raw: unknown): ValidationResult<FollowUpResponse> => {
+  if (!isObject(raw)) return { issues: ['Response is not a JSON object.'] };
+
+  const solution = validateSolution(raw.solution);
+  const issues = solution.issues.map(issue => `solution.${issue}`);
+  if (typeof raw.reply !== 'string' || !raw.reply.trim()) issues.unshift('"reply" must be a non-empty string.');
+
+  if (issues.length > 0) return { issues };
+
+  return { issues: [], value: { reply: raw.reply as string, solution: solution.value as SolutionPayload } };
+};
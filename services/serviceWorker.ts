@@ -0,0 +1,13 @@
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Registers public/sw.js once; it caches the app shell for offline use and owns follow-up reminders
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (registration) return registration;
+  registration = 'serviceWorker' in navigator
+    ? navigator.serviceWorker.register('/sw.js').catch(err => {
+        console.error("Failed to register service worker:", err);
+        return null;
+      })
+    : Promise.resolve(null);
+  return registration;
+};
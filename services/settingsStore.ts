@@ -0,0 +1,85 @@
+import { AISettings, ModelVariant, Preferences } from "../types";
+import { detectLanguage, isSupportedLanguage } from "../i18n";
+import { PROVIDERS } from "./providers";
+
+const AI_SETTINGS_KEY = 'omnieng53.aiSettings';
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  model: 'gemini-3-pro-preview',
+  embeddingModel: 'gemini-embedding-001'
+};
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const raw = localStorage.getItem(AI_SETTINGS_KEY);
+    if (!raw) return DEFAULT_AI_SETTINGS;
+    const saved: Partial<AISettings> = JSON.parse(raw);
+    const settings: AISettings = { ...DEFAULT_AI_SETTINGS, ...saved };
+    // Settings saved before embeddings were configurable get the provider's default model
+    return saved.embeddingModel ? settings : { ...settings, embeddingModel: PROVIDERS[settings.provider]?.defaults.embeddingModel };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const COMPARE_VARIANTS_KEY = 'omnieng53.compareVariants';
+
+export const MAX_COMPARE_VARIANTS = 3;
+
+// Until the user sets up their own, the second opinion is the same model sampled more freely
+const defaultCompareVariants = ({ provider, model }: AISettings): ModelVariant[] => [
+  { id: crypto.randomUUID(), provider, model, temperature: 0.2 },
+  { id: crypto.randomUUID(), provider, model, temperature: 0.7 }
+];
+
+export const loadCompareVariants = (settings: AISettings): ModelVariant[] => {
+  try {
+    const raw = localStorage.getItem(COMPARE_VARIANTS_KEY);
+    const saved: ModelVariant[] = raw ? JSON.parse(raw) : [];
+    // Providers removed since the variants were saved are dropped rather than failing every comparison
+    const known = saved.filter(variant => Object.hasOwn(PROVIDERS, variant.provider));
+    return known.length >= 2 ? known.slice(0, MAX_COMPARE_VARIANTS) : defaultCompareVariants(settings);
+  } catch {
+    return defaultCompareVariants(settings);
+  }
+};
+
+export const saveCompareVariants = (variants: ModelVariant[]) => {
+  localStorage.setItem(COMPARE_VARIANTS_KEY, JSON.stringify(variants));
+};
+
+// The settings a variant runs with. The configured provider keeps its endpoint and key;
+// any other provider uses its defaults, with the key supplied by the backend.
+export const variantSettings = (variant: ModelVariant, settings: AISettings): AISettings =>
+  variant.provider === settings.provider
+    ? { ...settings, model: variant.model }
+    : { provider: variant.provider, ...PROVIDERS[variant.provider].defaults, model: variant.model };
+
+const PREFERENCES_KEY = 'omnieng53.preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  currency: 'USD',
+  language: detectLanguage(),
+  unitSystem: 'si',
+  embedder: 'local'
+};
+
+export const loadPreferences = (): Preferences => {
+  try {
+    const raw = localStorage.getItem(PREFERENCES_KEY);
+    const preferences: Preferences = raw ? { ...DEFAULT_PREFERENCES, ...JSON.parse(raw) } : DEFAULT_PREFERENCES;
+    // A stored language whose locale file has since been removed falls back to the browser's
+    return isSupportedLanguage(preferences.language) ? preferences : { ...preferences, language: DEFAULT_PREFERENCES.language };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+  localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+};
@@ -0,0 +1,31 @@
+import { ProblemSolution, WorkOrder, WorkOrderContext } from "../types";
+import { STORES, getAll, put, remove } from "./db";
+import { midpointHours, parseDurationHours } from "../utils/duration";
+
+export const loadWorkOrders = async (): Promise<WorkOrder[]> => {
+  const items = await getAll<WorkOrder>(STORES.WORK_ORDERS);
+  return items.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveWorkOrder = (workOrder: WorkOrder) => put(STORES.WORK_ORDERS, workOrder);
+
+export const deleteWorkOrder = (id: string) => remove(STORES.WORK_ORDERS, id);
+
+// Hours already estimated against a WO, from the midpoint of each linked intervention's timeToComplete
+export const committedHours = (workOrderId: string, history: ProblemSolution[], excludeId?: string) =>
+  history
+    .filter(item => item.workOrderId === workOrderId && item.id !== excludeId)
+    .reduce((total, item) => total + midpointHours(parseDurationHours(item.timeToComplete)), 0);
+
+export const buildWorkOrderContext = (
+  workOrder: WorkOrder,
+  history: ProblemSolution[],
+  excludeId?: string
+): WorkOrderContext => {
+  const hoursCommitted = committedHours(workOrder.id, history, excludeId);
+  return {
+    workOrder,
+    hoursCommitted,
+    hoursRemaining: workOrder.budgetedHours - hoursCommitted
+  };
+};
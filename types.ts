@@ -1,14 +1,40 @@
 
-export enum EngineeringField {
-  MECHANICAL = 'Mechanical',
-  ELECTRICAL = 'Electrical',
-  CIVIL = 'Civil',
-  CHEMICAL = 'Chemical'
+// The id of a discipline in the registry (utils/disciplines.ts), e.g. 'Mechanical' or 'HVAC'
+export type EngineeringField = string;
+
+export interface SubDiscipline {
+  id: string;
+  name: string;
+  // Display names keyed by locale code; English is used where one is missing
+  names?: Partial<Record<Language, string>>;
+  promptHints?: string[];
 }
 
+export interface Discipline {
+  id: EngineeringField;
+  name: string;
+  names?: Partial<Record<Language, string>>;
+  // A key of the icon palette in components/DisciplineIcon
+  icon: string;
+  subDisciplines: SubDiscipline[];
+  // Calculator ids offered to the model first for this discipline
+  calculators: string[];
+  // Hazards assumed on every job in the discipline, whatever the description mentions
+  safetyRules: HazardId[];
+  // Domain guidance added to the system prompt
+  promptHints: string[];
+}
+
+export type TestOutcome = 'passed' | 'failed' | 'not-run';
+
 export interface DiagnosticNode {
   hypothesis: string;
   test: string;
+  outcome?: TestOutcome;
+  reading?: string;
+  photo?: string;
+  recordedAt?: number;
+  children?: DiagnosticNode[];
 }
 
 export interface BOMItem {
@@ -16,19 +42,50 @@ export interface BOMItem {
   specification: string;
   quantity: string;
   priority: 'High' | 'Medium' | 'Low';
+  // Procurement fields: quantity split into value + unit, priced per unit
+  quantityValue?: number;
+  unit?: string;
+  unitCost?: number;
+  supplier?: string;
+  catalogMatch?: CatalogMatch;
+}
+
+// Link from a BOM line to a stocked part. A manual match without a stock code means "not stocked".
+export interface CatalogMatch {
+  stockCode?: string;
+  confidence: number;
+  manual?: boolean;
+}
+
+export interface CatalogPart {
+  // The stock code, normalised to upper case
+  id: string;
+  name: string;
+  specification: string;
+  unit: string;
+  unitCost?: number;
+  supplier?: string;
+  stockOnHand: number;
+  updatedAt: number;
+}
+
+export interface ConsolidatedBOMItem extends BOMItem {
+  sourceIds: string[];
 }
 
 export interface ProblemSolution {
   id: string;
   timestamp: number;
   field: EngineeringField;
+  subDiscipline?: string;
   query: string;
-  image?: string;
+  images?: ImageAttachment[];
   analysis: string;
   safetyCheck?: string;
   diagnosticTree?: DiagnosticNode[];
   clarificationQuestions?: string[];
   projectScopeConfirm?: string;
+  scopeStatus?: ScopeStatus;
   timeToComplete?: string;
   followUp24h?: string[];
   followUp7d?: string[];
@@ -37,9 +94,312 @@ export interface ProblemSolution {
   steps: string[];
   finalResult: string;
   confidence: number;
+  reassessedAt?: number;
+  workOrderId?: string;
+  assetId?: string;
+  conversation?: ConversationTurn[];
+  versions?: SolutionVersion[];
+  // Results of tool calls the model made while solving; computed locally, never taken from the model's text
+  calculations?: CalculationRecord[];
+  safetyAcknowledgement?: SafetyAcknowledgement;
+  // Follow-up checks the technician has ticked off, keyed by followUpKey(window, item)
+  followUpLog?: Record<string, FollowUpCompletion>;
+  // The prompt template version the original diagnosis was generated with
+  promptVersion?: PromptVersionRef;
+  // Manual excerpts and past interventions retrieved for the query and shown to the model as [n]
+  references?: KnowledgeReference[];
+}
+
+export type FollowUpWindow = '24h' | '7d';
+
+export interface FollowUpCompletion {
+  completedAt: number;
+  note?: string;
+}
+
+// A followUp24h/followUp7d item scheduled against the solution timestamp
+export interface FollowUpTask {
+  // `${solutionId}:${key}`, unique across the intervention log
+  id: string;
+  key: string;
+  solutionId: string;
+  window: FollowUpWindow;
+  item: string;
+  dueAt: number;
+  completion?: FollowUpCompletion;
+}
+
+export type HazardId =
+  | 'electrical' | 'high-voltage' | 'confined-space' | 'pressure' | 'hot-work'
+  | 'chemical' | 'rotating-machinery' | 'work-at-height' | 'excavation' | 'flammable-atmosphere';
+
+// A hazard found by the rules engine, with the controls the technician must apply before work starts
+export interface Hazard {
+  id: HazardId;
+  title: string;
+  // What triggered the rule, e.g. "415 V" or "confined space"
+  triggers: string[];
+  isolation: string[];
+  ppe: string[];
+  permits: string[];
+}
+
+// Recorded when the technician confirms the controls; remediation steps stay locked until it covers every hazard
+export interface SafetyAcknowledgement {
+  acknowledgedAt: number;
+  hazards: HazardId[];
+  technician?: string;
+}
+
+export interface CalculationRecord {
+  id: string;
+  // Calculator id, e.g. "voltage_drop"
+  tool: string;
+  label: string;
+  // Formatted quantities ("16 mm²") so they can be quoted and displayed exactly as computed
+  inputs: Record<string, string>;
+  outputs: Record<string, string>;
+  formula: string;
+  timestamp: number;
+}
+
+export interface ImageAttachment {
+  id: string;
+  dataUrl: string;
+  // Detected from the file contents, not the extension
+  mimeType: string;
+  width: number;
+  height: number;
+  // What the photo shows, e.g. "Nameplate" or "Wiring"; passed to the model with the image
+  label?: string;
+  // Set while composing an annotated photo so the markup stays editable; dataUrl holds the flattened result.
+  // Both are dropped when the solution is stored so redacted details never persist.
+  originalDataUrl?: string;
+  annotations?: Annotation[];
+}
+
+export type AnnotationShape = 'arrow' | 'circle' | 'text' | 'redact';
+
+// Coordinates are fractions of the image size so markup survives downscaling
+export interface Annotation {
+  id: string;
+  shape: AnnotationShape;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  text?: string;
+}
+
+export interface ConversationTurn {
+  role: 'technician' | 'controller';
+  text: string;
+  timestamp: number;
+  // Controller turns point at the solution version they produced
+  version?: number;
+}
+
+// The part of a ProblemSolution produced by the model, before it is stamped and stored
+export type SolutionPayload = Omit<
+  ProblemSolution,
+  | 'id' | 'timestamp' | 'field' | 'query' | 'images' | 'reassessedAt' | 'workOrderId' | 'assetId' | 'conversation' | 'versions'
+  | 'safetyAcknowledgement' | 'followUpLog'
+>;
+
+export type OutboxStatus = 'queued' | 'sending' | 'failed';
+
+// A diagnosis composed while offline, held with its photos until it can be submitted
+export interface OutboxItem {
+  id: string;
+  createdAt: number;
+  field: EngineeringField;
+  subDiscipline?: string;
+  query: string;
+  images?: ImageAttachment[];
+  language: Language;
+  workOrderId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastAttemptAt?: number;
+  // Set when the last attempt failed for a reason other than connectivity; the item then waits for a manual retry
+  lastError?: string;
+}
+
+export interface SolutionVersion {
+  version: number;
+  timestamp: number;
+  payload: SolutionPayload;
+}
+
+export interface FollowUpResponse {
+  reply: string;
+  solution: SolutionPayload;
+}
+
+// Revised verdict after the technician has recorded diagnostic test outcomes
+export type Reassessment = Pick<SolutionPayload, 'analysis' | 'steps' | 'finalResult' | 'confidence'>;
+
+export type ScopeStatus = 'in-scope' | 'partial' | 'out-of-scope' | 'unknown';
+
+export type WorkOrderStatus = 'open' | 'in-progress' | 'on-hold' | 'completed' | 'cancelled';
+
+export interface WorkOrder {
+  id: string;
+  number: string;
+  client: string;
+  asset: string;
+  scope: string;
+  budgetedHours: number;
+  status: WorkOrderStatus;
+  createdAt: number;
+}
+
+// What the controller is told about the linked Work Order when solving
+export interface WorkOrderContext {
+  workOrder: WorkOrder;
+  hoursCommitted: number;
+  hoursRemaining: number;
+}
+
+export interface Asset {
+  // The site asset tag (e.g. "P-101"), normalised to upper case
+  id: string;
+  type: string;
+  location: string;
+  field: EngineeringField;
+  ratings: Record<string, string>;
+  createdAt: number;
+}
+
+// What the controller is told about the asset being worked on when solving
+export interface AssetContext {
+  asset: Asset;
+  pastInterventions: ProblemSolution[];
 }
 
 export interface ChartDataPoint {
   name: string;
   value: number;
 }
+
+// One x-axis position with a value per series, for line and stacked charts
+export type ChartSeriesPoint = { name: string } & Record<string, string | number>;
+
+export interface HistoryFilters {
+  text: string;
+  field: EngineeringField | 'all';
+  // Only applies when a discipline is selected
+  subDiscipline?: string;
+  from?: string;
+  to?: string;
+  riskOnly: boolean;
+}
+
+export type AIProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  // Used when documents are embedded by the provider rather than locally
+  embeddingModel?: string;
+}
+
+// One model configuration a problem is run with in compare mode
+export interface ModelVariant {
+  id: string;
+  provider: AIProviderId;
+  model: string;
+  temperature: number;
+}
+
+export type CompareStatus = 'running' | 'done' | 'failed';
+
+// A variant's diagnosis of the problem being compared; nothing is saved until one is chosen
+export interface CompareRun {
+  variant: ModelVariant;
+  status: CompareStatus;
+  solution?: ProblemSolution;
+  error?: string;
+}
+
+// A locale code with a catalog in i18n/locales, e.g. 'en' or 'sw'
+export type Language = string;
+
+// A prompt template applies to one discipline, or to every discipline without its own ('all')
+export type PromptScope = EngineeringField | 'all';
+
+export interface PromptTemplate {
+  id: PromptScope;
+  // Built-in templates are version 1; every saved edit adds one
+  version: number;
+  // The system instruction, with {{name}} placeholders
+  body: string;
+  // Values for the template's own placeholders, e.g. the standards to cite
+  variables: Record<string, string>;
+  updatedAt: number;
+}
+
+export interface StoredPromptTemplate extends PromptTemplate {
+  // Earlier versions, newest first
+  history: PromptTemplate[];
+  // Set when a discipline's own template was removed; the record stays so its versions are kept and numbering carries on
+  removedAt?: number;
+}
+
+export interface PromptVersionRef {
+  id: PromptScope;
+  version: number;
+}
+
+export interface Preferences {
+  currency: string;
+  language: Language;
+  // How reported quantities are displayed; the stored values are never rewritten
+  unitSystem: UnitSystem;
+  embedder: EmbedderChoice;
+}
+
+export type UnitSystem = 'si' | 'imperial';
+
+// How library documents and queries are turned into vectors: on the device, or by the provider's embedding model
+export type EmbedderChoice = 'local' | 'provider';
+
+// An uploaded manual, procedure or datasheet; its text lives in DocumentChunks
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Set for PDFs, whose chunks carry the page they came from
+  pageCount?: number;
+  chunkCount: number;
+  // Vectors from different embedders cannot be compared, so a document is searched only with the one that indexed it
+  embedder: string;
+  addedAt: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  page?: number;
+  text: string;
+  vector: Float32Array;
+  embedder: string;
+}
+
+export type ReferenceKind = 'document' | 'solution';
+
+export interface KnowledgeReference {
+  // Numbered from 1; the model cites it as [n]
+  index: number;
+  kind: ReferenceKind;
+  // The LibraryDocument or ProblemSolution it came from
+  sourceId: string;
+  title: string;
+  page?: number;
+  excerpt: string;
+  score: number;
+}
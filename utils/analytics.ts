@@ -0,0 +1,107 @@
+import { ChartDataPoint, ChartSeriesPoint, EngineeringField, ProblemSolution } from "../types";
+import { hasSafetyRisk } from "./safety";
+import { midpointHours, parseDurationHours } from "./duration";
+import { DISCIPLINES } from "./disciplines";
+
+export type WorkPhase = 'Isolation' | 'Diagnosis' | 'Repair' | 'Commissioning' | 'Documentation';
+
+// First match wins, so the more specific phases are checked before the generic "Repair".
+// Keywords match from the start of a word, so "vent" does not fire on "prevent" nor "log" on "catalog".
+const PHASE_KEYWORDS: [WorkPhase, RegExp][] = [
+  ['Isolation', /\b(lock(?:s|ed|ing|out)?|loto|isolat\w*|tag ?out|permits?|ppe|prove dead|de-?energi[sz]\w*|cordon\w*|prop(?:s|ped|ping)?|drain(?:s|ed|ing)?|vent(?:s|ed|ing)?|shut ?down|stop the)\b/i],
+  ['Documentation', /\b(record\w*|document\w*|log(?:s|ged|ging|book)?|report\w*|photograph\w*|update the (?:register|log))\b/i],
+  ['Commissioning', /\b(restor\w*|run up|commission\w*|return\w* .*\bservice|re-?energi[sz]\w*|recalibrat\w*|monitor\w*|observ\w*|remove loto)\b/i],
+  ['Diagnosis', /\b(test\w*|measur\w*|inspect\w*|check\w*|scan\w*|survey\w*|diagnos\w*|assess\w*|trac(?:e|es|ed|ing))\b/i]
+];
+
+export const PHASES: WorkPhase[] = ['Isolation', 'Diagnosis', 'Repair', 'Commissioning', 'Documentation'];
+
+export const classifyStep = (step: string): WorkPhase =>
+  PHASE_KEYWORDS.find(([, pattern]) => pattern.test(step))?.[0] || 'Repair';
+
+// Splits the estimated duration across phases in proportion to how many remediation steps fall in each.
+// Without a parseable estimate the values are step counts instead of hours.
+export const phaseBreakdown = (solution: ProblemSolution): { data: ChartDataPoint[]; unit: 'h' | 'steps' } => {
+  const counts = PHASES.reduce((acc, phase) => ({ ...acc, [phase]: 0 }), {} as Record<WorkPhase, number>);
+  solution.steps.forEach(step => { counts[classifyStep(step)]++; });
+
+  const totalHours = midpointHours(parseDurationHours(solution.timeToComplete));
+  const totalSteps = solution.steps.length;
+  const scale = totalHours > 0 && totalSteps > 0 ? totalHours / totalSteps : 1;
+
+  return {
+    data: PHASES
+      .filter(phase => counts[phase] > 0)
+      .map(phase => ({ name: phase, value: Math.round(counts[phase] * scale * 10) / 10 })),
+    unit: totalHours > 0 ? 'h' : 'steps'
+  };
+};
+
+const monthKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Month names follow the given Intl locale; the browser default when omitted
+const monthLabel = (key: string, locale?: string) => {
+  const [year, month] = key.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(locale, { month: 'short', year: '2-digit' });
+};
+
+const groupByMonth = (history: ProblemSolution[]) => {
+  const groups = new Map<string, ProblemSolution[]>();
+  history.forEach(item => {
+    const key = monthKey(item.timestamp);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+const percent = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+// Disciplines with at least one intervention, in registry order; ids no longer in the registry go last
+const fieldsIn = (history: ProblemSolution[]): EngineeringField[] => {
+  const rank = (field: EngineeringField) => {
+    const index = DISCIPLINES.findIndex(discipline => discipline.id === field);
+    return index < 0 ? DISCIPLINES.length : index;
+  };
+  return [...new Set(history.map(item => item.field))].sort((a, b) => rank(a) - rank(b));
+};
+
+export const interventionsByFieldOverTime = (history: ProblemSolution[], locale?: string): ChartSeriesPoint[] => {
+  const fields = fieldsIn(history);
+  return groupByMonth(history).map(([key, items]) => ({
+    name: monthLabel(key, locale),
+    ...Object.fromEntries(fields.map(field => [field, items.filter(item => item.field === field).length]))
+  }));
+};
+
+export const qualityOverTime = (history: ProblemSolution[], locale?: string): ChartSeriesPoint[] =>
+  groupByMonth(history).map(([key, items]) => ({
+    name: monthLabel(key, locale),
+    'Safety-critical %': percent(items.filter(item => hasSafetyRisk(item)).length, items.length),
+    'Avg confidence %': Math.round(averageConfidence(items) * 100)
+  }));
+
+export const fieldDistribution = (history: ProblemSolution[]): ChartDataPoint[] =>
+  fieldsIn(history).map(field => ({ name: field, value: history.filter(item => item.field === field).length }));
+
+export const safetyCriticalRate = (history: ProblemSolution[]) =>
+  percent(history.filter(item => hasSafetyRisk(item)).length, history.length);
+
+export const averageConfidence = (history: ProblemSolution[]) =>
+  history.length > 0 ? history.reduce((total, item) => total + (item.confidence || 0), 0) / history.length : 0;
+
+export const totalEstimatedHours = (history: ProblemSolution[]) =>
+  history.reduce((total, item) => total + midpointHours(parseDurationHours(item.timeToComplete)), 0);
+
+// How often each part appears across generated BOMs, matched case-insensitively by name
+export const topBOMItems = (history: ProblemSolution[], limit = 8): ChartDataPoint[] => {
+  const counts = new Map<string, { name: string; value: number }>();
+  history.forEach(item => (item.billOfMaterials || []).forEach(bom => {
+    const key = bom.itemName.trim().toLowerCase();
+    const existing = counts.get(key);
+    counts.set(key, { name: existing?.name || bom.itemName.trim(), value: (existing?.value || 0) + 1 });
+  }));
+  return [...counts.values()].sort((a, b) => b.value - a.value).slice(0, limit);
+};
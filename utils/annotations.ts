@@ -0,0 +1,97 @@
+import { Annotation, ImageAttachment } from "../types";
+import { encodeCanvas } from "./images";
+
+export const ANNOTATION_COLORS = ['#ef4444', '#f59e0b', '#10b981', '#ffffff'];
+
+// Stroke and type scale with the image so markup reads the same on a phone photo and a 4K still
+const strokeWidth = (width: number, height: number) => Math.max(2, Math.max(width, height) * 0.005);
+const fontSize = (width: number, height: number) => Math.max(14, Math.max(width, height) * 0.028);
+
+export const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation, width: number, height: number) => {
+  const x1 = annotation.x1 * width;
+  const y1 = annotation.y1 * height;
+  const x2 = annotation.x2 * width;
+  const y2 = annotation.y2 * height;
+  const line = strokeWidth(width, height);
+
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = line;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.shape) {
+    case 'arrow': {
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      const head = line * 5;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+    case 'circle':
+      ctx.beginPath();
+      ctx.ellipse((x1 + x2) / 2, (y1 + y2) / 2, Math.abs(x2 - x1) / 2, Math.abs(y2 - y1) / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    case 'redact':
+      // Always opaque black regardless of the selected colour
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      break;
+    case 'text': {
+      const size = fontSize(width, height);
+      ctx.font = `bold ${size}px Inter, Arial, sans-serif`;
+      ctx.textBaseline = 'top';
+      // Dark outline keeps labels legible on busy switchboard backgrounds
+      ctx.lineWidth = size / 6;
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.strokeText(annotation.text || '', x1, y1);
+      ctx.fillText(annotation.text || '', x1, y1);
+      break;
+    }
+  }
+
+  ctx.restore();
+};
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The image could not be loaded for annotation.'));
+    img.src = src;
+  });
+
+export const withoutAnnotationSources = ({ originalDataUrl, annotations, ...image }: ImageAttachment): ImageAttachment => image;
+
+// Burns the markup into the pixels, so redacted areas are gone from what is sent to the model
+export const flattenAnnotations = async (image: ImageAttachment, annotations: Annotation[]): Promise<ImageAttachment> => {
+  const original = image.originalDataUrl || image.dataUrl;
+  if (annotations.length === 0) {
+    return { ...withoutAnnotationSources(image), dataUrl: original };
+  }
+
+  const img = await loadImageElement(original);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+  annotations.forEach(annotation => drawAnnotation(ctx, annotation, canvas.width, canvas.height));
+
+  return {
+    ...image,
+    ...encodeCanvas(canvas, canvas.width, canvas.height),
+    originalDataUrl: original,
+    annotations
+  };
+};
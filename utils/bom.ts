@@ -0,0 +1,105 @@
+import { BOMItem, ConsolidatedBOMItem, Language, ProblemSolution } from "../types";
+import { CellValue } from "./xlsx";
+import { DEFAULT_LANGUAGE, MessageKey, getLocale, getTranslator } from "../i18n";
+import { decimalSeparatorOf, toNumber } from "./catalog";
+
+const PRIORITY_RANK: Record<BOMItem['priority'], number> = { High: 3, Medium: 2, Low: 1 };
+
+export interface ParsedQuantity {
+  value?: number;
+  unit: string;
+}
+
+// Splits free-text quantities such as "2 pcs", "15m" or "2,000 set" into a number and a unit, reading
+// separators the way catalog figures are read in the given language. Text without a leading
+// well-formed number keeps the whole string as the unit.
+export const parseQuantity = (text: string, language: Language = DEFAULT_LANGUAGE): ParsedQuantity => {
+  const match = text.trim().match(/^(\d[\d.,]*)\s*(?:x\s*)?(.*)$/i);
+  const value = match ? toNumber(match[1], decimalSeparatorOf(language)) : undefined;
+  if (value === undefined) return { unit: text.trim() };
+  return { value, unit: match![2].trim() };
+};
+
+export const formatQuantity = (value: number | undefined, unit?: string) =>
+  [value ?? '', unit || ''].join(' ').trim();
+
+// Parsed quantity for older BOMs that predate quantityValue
+export const quantityOf = (item: BOMItem) => item.quantityValue ?? parseQuantity(item.quantity).value ?? 1;
+
+export const unitOf = (item: BOMItem) => item.unit ?? parseQuantity(item.quantity).unit;
+
+export const lineTotal = (item: BOMItem) => item.unitCost ? quantityOf(item) * item.unitCost : 0;
+
+export const bomTotal = (items: BOMItem[] = []) => items.reduce((total, item) => total + lineTotal(item), 0);
+
+// Lines without a unit cost, so totals can be flagged as incomplete
+export const unpricedCount = (items: BOMItem[] = []) => items.filter(item => !item.unitCost).length;
+
+export const workOrderMaterialsCost = (workOrderId: string, history: ProblemSolution[]) =>
+  history
+    .filter(item => item.workOrderId === workOrderId)
+    .reduce((total, item) => total + bomTotal(item.billOfMaterials), 0);
+
+// Formatted for the app language rather than the browser's, like every other figure in the app
+export const formatCurrency = (amount: number, currency: string, language: Language) => {
+  try {
+    return new Intl.NumberFormat(getLocale(language).intl, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown ISO code typed into settings
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
+
+// Merges the BOMs of several solutions into one order. Lines with the same stock code (or, unstocked, the
+// same name and specification) and unit are summed; the highest priority wins and the first known cost/supplier is kept.
+export const consolidateBOM = (solutions: ProblemSolution[]): ConsolidatedBOMItem[] => {
+  const lines = new Map<string, ConsolidatedBOMItem>();
+
+  solutions.forEach(solution => (solution.billOfMaterials || []).forEach(item => {
+    const unit = unitOf(item);
+    const stockCode = item.catalogMatch?.stockCode;
+    const key = (stockCode ? [stockCode, unit] : [item.itemName, item.specification, unit]).map(part => part.trim().toLowerCase()).join('|');
+    const existing = lines.get(key);
+
+    if (!existing) {
+      lines.set(key, { ...item, quantityValue: quantityOf(item), unit, sourceIds: [solution.id] });
+      return;
+    }
+
+    const quantityValue = existing.quantityValue + quantityOf(item);
+    lines.set(key, {
+      ...existing,
+      quantityValue,
+      quantity: formatQuantity(quantityValue, unit),
+      priority: PRIORITY_RANK[item.priority] > PRIORITY_RANK[existing.priority] ? item.priority : existing.priority,
+      unitCost: existing.unitCost ?? item.unitCost,
+      supplier: existing.supplier || item.supplier,
+      sourceIds: existing.sourceIds.includes(solution.id) ? existing.sourceIds : [...existing.sourceIds, solution.id]
+    });
+  }));
+
+  return [...lines.values()].sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority]);
+};
+
+// Tabular form shared by the CSV and XLSX exports, headed in the technician's language
+export const bomRows = (items: BOMItem[], currency: string, language: Language): CellValue[][] => {
+  const { t } = getTranslator(language);
+  return [
+    [
+      t('bom.stockCode'), t('bom.item'), t('bom.specification'), t('bom.quantity'), t('bom.unit'), t('bom.priority'),
+      t('bom.supplier'), t('bom.unitCostIn', { currency }), t('bom.lineTotalIn', { currency })
+    ],
+    ...items.map(item => [
+      item.catalogMatch?.stockCode || '',
+      item.itemName,
+      item.specification,
+      quantityOf(item),
+      unitOf(item),
+      t(`bom.priority.${item.priority.toLowerCase()}` as MessageKey),
+      item.supplier || '',
+      item.unitCost ?? null,
+      item.unitCost ? lineTotal(item) : null
+    ]),
+    ['', '', '', '', '', '', '', t('bom.total'), bomTotal(items)]
+  ];
+};
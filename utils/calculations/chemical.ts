@@ -0,0 +1,60 @@
+import { convert } from "../units";
+import { Calculator } from "./types";
+
+export const CHEMICAL_CALCULATORS: Calculator[] = [
+  {
+    id: 'dilution',
+    field: 'Chemical',
+    label: 'Dilution',
+    description: 'Volume of stock solution and diluent needed to make up a target volume at a lower concentration. Both concentrations must use the same basis (e.g. both % w/v or both mol/L).',
+    formula: 'C1·V1 = C2·V2',
+    parameters: {
+      stockConcentration: { description: 'Stock concentration C1' },
+      targetConcentration: { description: 'Target concentration C2, same basis as C1' },
+      targetVolume: { description: 'Final volume V2', unit: 'L' }
+    },
+    compute: ({ quantities }) => {
+      const stock = quantities.stockConcentration;
+      // A bare number is taken to be in the stock's unit; a different unit of the same dimension is converted
+      const target = quantities.targetConcentration.unit && quantities.targetConcentration.unit !== stock.unit
+        ? convert(quantities.targetConcentration, stock.unit)
+        : quantities.targetConcentration;
+
+      if (target.value > stock.value) throw new Error('Target concentration is higher than the stock; dilution cannot reach it.');
+
+      const stockVolume = target.value * quantities.targetVolume.value / stock.value;
+      return {
+        stockVolume: { value: stockVolume, unit: 'L' },
+        diluentVolume: { value: quantities.targetVolume.value - stockVolume, unit: 'L' },
+        dilutionFactor: { value: stock.value / target.value, unit: '' }
+      };
+    }
+  },
+  {
+    id: 'stoichiometry',
+    field: 'Chemical',
+    label: 'Stoichiometry',
+    description: 'Moles and mass of product formed from a mass of limiting reactant, using the balanced equation coefficients.',
+    formula: 'n = m/M, nP = n·(b/a)·yield, mP = nP·MP',
+    parameters: {
+      reactantMass: { description: 'Mass of the limiting reactant', unit: 'kg' },
+      reactantMolarMass: { description: 'Molar mass of the reactant', unit: 'g/mol' },
+      reactantCoefficient: { description: 'Stoichiometric coefficient a of the reactant', default: 1 },
+      productCoefficient: { description: 'Stoichiometric coefficient b of the product', default: 1 },
+      productMolarMass: { description: 'Molar mass of the product', unit: 'g/mol' },
+      yield: { description: 'Reaction yield', unit: '%', default: 100 }
+    },
+    compute: ({ quantities }) => {
+      const reactantMoles = quantities.reactantMass.value * 1000 / quantities.reactantMolarMass.value;
+      // The yield limits how much product actually forms; its mass follows from those moles
+      const productMoles = reactantMoles * quantities.productCoefficient.value / quantities.reactantCoefficient.value * quantities.yield.value / 100;
+      const productMass = productMoles * quantities.productMolarMass.value / 1000;
+
+      return {
+        reactantMoles: { value: reactantMoles, unit: 'mol' },
+        productMoles: { value: productMoles, unit: 'mol' },
+        productMass: { value: productMass, unit: 'kg' }
+      };
+    }
+  }
+];
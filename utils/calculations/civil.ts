@@ -0,0 +1,86 @@
+import { Calculator } from "./types";
+
+// Coefficients for the standard cases: M = cM·W·L, V = cV·W, δ = cD·W·L³/(E·I), where W is the total load
+// (w·L for a uniformly distributed load). Point loads act at midspan, or at the free end of a cantilever.
+const BEAM_CASES: Record<string, { moment: number; shear: number; deflection: number }> = {
+  'simply-supported:udl': { moment: 1 / 8, shear: 1 / 2, deflection: 5 / 384 },
+  'simply-supported:point': { moment: 1 / 4, shear: 1 / 2, deflection: 1 / 48 },
+  'cantilever:udl': { moment: 1 / 2, shear: 1, deflection: 1 / 8 },
+  'cantilever:point': { moment: 1, shear: 1, deflection: 1 / 3 }
+};
+
+const SUPPORTS = ['simply-supported', 'cantilever'];
+
+export const CIVIL_CALCULATORS: Calculator[] = [
+  {
+    id: 'beam_analysis',
+    field: 'Civil',
+    label: 'Beam Analysis',
+    description: 'Maximum bending moment, shear, deflection and bending stress of a prismatic beam under a UDL or a point load.',
+    formula: 'M = cM·W·L, V = cV·W, δ = cD·W·L³/(E·I), σ = M/Z',
+    parameters: {
+      support: { description: 'Support condition', options: SUPPORTS, default: 'simply-supported' },
+      span: { description: 'Span', unit: 'm' },
+      udl: { description: 'Uniformly distributed load, including self-weight', unit: 'kN/m', optional: true },
+      pointLoad: { description: 'Point load at midspan (or at the free end of a cantilever)', unit: 'kN', optional: true },
+      elasticModulus: { description: "Young's modulus (steel 200 GPa, timber ~11 GPa, concrete ~30 GPa)", unit: 'GPa', default: 200 },
+      secondMoment: { description: 'Second moment of area about the bending axis', unit: 'cm⁴' },
+      sectionModulus: { description: 'Elastic section modulus, for bending stress', unit: 'cm³', optional: true }
+    },
+    compute: ({ quantities, choices }) => {
+      const { span, udl, pointLoad, elasticModulus, secondMoment, sectionModulus } = quantities;
+      if (!udl && !pointLoad) throw new Error('Provide a udl, a pointLoad, or both.');
+
+      const L = span.value;
+      const EI = elasticModulus.value * 1e6 * secondMoment.value * 1e-8; // kN·m²
+      // Superpose the two load cases; their maxima coincide for both support conditions
+      const cases = [
+        udl && { load: udl.value * L, ...BEAM_CASES[`${choices.support}:udl`] },
+        pointLoad && { load: pointLoad.value, ...BEAM_CASES[`${choices.support}:point`] }
+      ].filter(Boolean) as { load: number; moment: number; shear: number; deflection: number }[];
+
+      const moment = cases.reduce((sum, c) => sum + c.moment * c.load * L, 0);
+      const shear = cases.reduce((sum, c) => sum + c.shear * c.load, 0);
+      const deflection = cases.reduce((sum, c) => sum + c.deflection * c.load * L ** 3 / EI, 0) * 1000;
+
+      return {
+        maxMoment: { value: moment, unit: 'kN·m' },
+        maxShear: { value: shear, unit: 'kN' },
+        maxDeflection: { value: deflection, unit: 'mm' },
+        spanToDeflection: { value: L * 1000 / deflection, unit: '' },
+        ...(sectionModulus ? { bendingStress: { value: moment * 1e3 / sectionModulus.value, unit: 'MPa' } } : {})
+      };
+    }
+  },
+  {
+    id: 'beam_capacity',
+    field: 'Civil',
+    label: 'Beam Load Capacity',
+    description: 'Largest uniformly distributed load a beam can carry within an allowable bending stress and a span/deflection limit.',
+    formula: 'w = min(σa·Z / (cM·L²), E·I / (cD·L³·r))',
+    parameters: {
+      support: { description: 'Support condition', options: SUPPORTS, default: 'simply-supported' },
+      span: { description: 'Span', unit: 'm' },
+      elasticModulus: { description: "Young's modulus", unit: 'GPa', default: 200 },
+      secondMoment: { description: 'Second moment of area about the bending axis', unit: 'cm⁴' },
+      sectionModulus: { description: 'Elastic section modulus', unit: 'cm³' },
+      allowableStress: { description: 'Allowable bending stress (mild steel ~165 MPa)', unit: 'MPa', default: 165 },
+      deflectionLimit: { description: 'Deflection limit as span/r, e.g. 360 for span/360', default: 360 }
+    },
+    compute: ({ quantities, choices }) => {
+      const { moment, deflection } = BEAM_CASES[`${choices.support}:udl`];
+      const L = quantities.span.value;
+      const EI = quantities.elasticModulus.value * 1e6 * quantities.secondMoment.value * 1e-8; // kN·m²
+
+      const byStress = quantities.allowableStress.value * quantities.sectionModulus.value / 1e3 / (moment * L ** 2);
+      const byDeflection = EI / (deflection * L ** 3 * quantities.deflectionLimit.value);
+
+      return {
+        allowableUdl: { value: Math.min(byStress, byDeflection), unit: 'kN/m' },
+        stressLimitedUdl: { value: byStress, unit: 'kN/m' },
+        deflectionLimitedUdl: { value: byDeflection, unit: 'kN/m' },
+        governedBy: byStress <= byDeflection ? 'bending stress' : 'deflection'
+      };
+    }
+  }
+];
@@ -0,0 +1,119 @@
+import { Calculator } from "./types";
+
+// Resistivity at a 70°C conductor operating temperature, Ω·mm²/m
+const RESISTIVITY: Record<string, number> = { copper: 0.0225, aluminium: 0.036 };
+
+// Indicative current-carrying capacity (A) of multicore PVC copper cable clipped direct, before derating.
+// Aluminium carries roughly 78% of the copper figure for the same cross-section.
+const CABLE_SIZES: { csa: number; ampacity: number }[] = [
+  { csa: 1.5, ampacity: 19.5 }, { csa: 2.5, ampacity: 27 }, { csa: 4, ampacity: 36 }, { csa: 6, ampacity: 46 },
+  { csa: 10, ampacity: 63 }, { csa: 16, ampacity: 85 }, { csa: 25, ampacity: 112 }, { csa: 35, ampacity: 138 },
+  { csa: 50, ampacity: 168 }, { csa: 70, ampacity: 213 }, { csa: 95, ampacity: 258 }, { csa: 120, ampacity: 299 },
+  { csa: 150, ampacity: 344 }, { csa: 185, ampacity: 392 }, { csa: 240, ampacity: 461 }, { csa: 300, ampacity: 530 }
+];
+
+const ALUMINIUM_DERATING = 0.78;
+
+// Single-phase current flows out and back; three-phase drop is line-to-line
+const circuitFactor = (phases: string) => phases === 'three' ? Math.sqrt(3) : 2;
+
+const voltageDrop = (current: number, length: number, csa: number, material: string, phases: string) =>
+  circuitFactor(phases) * current * length * RESISTIVITY[material] / csa;
+
+export const ELECTRICAL_CALCULATORS: Calculator[] = [
+  {
+    id: 'ohms_law',
+    field: 'Electrical',
+    label: "Ohm's Law",
+    description: "Solves voltage, current, resistance and power from any two of them.",
+    formula: 'V = I·R, P = V·I',
+    parameters: {
+      voltage: { description: 'Voltage', unit: 'V', optional: true },
+      current: { description: 'Current', unit: 'A', optional: true },
+      resistance: { description: 'Resistance', unit: 'Ω', optional: true },
+      power: { description: 'Power', unit: 'W', optional: true }
+    },
+    compute: ({ quantities }) => {
+      let V = quantities.voltage?.value;
+      let I = quantities.current?.value;
+      let R = quantities.resistance?.value;
+      let P = quantities.power?.value;
+
+      if ([V, I, R, P].filter(value => value !== undefined).length < 2) {
+        throw new Error('Provide at least two of voltage, current, resistance and power.');
+      }
+
+      if (V !== undefined && I !== undefined) { R = V / I; P = V * I; }
+      else if (V !== undefined && R !== undefined) { I = V / R; P = V * I; }
+      else if (I !== undefined && R !== undefined) { V = I * R; P = V * I; }
+      else if (P !== undefined && V !== undefined) { I = P / V; R = V / I; }
+      else if (P !== undefined && I !== undefined) { V = P / I; R = V / I; }
+      else { I = Math.sqrt(P! / R!); V = I * R!; }
+
+      return {
+        voltage: { value: V!, unit: 'V' },
+        current: { value: I!, unit: 'A' },
+        resistance: { value: R!, unit: 'Ω' },
+        power: { value: P!, unit: 'W' }
+      };
+    }
+  },
+  {
+    id: 'voltage_drop',
+    field: 'Electrical',
+    label: 'Voltage Drop',
+    description: 'Voltage drop along a cable run at its operating temperature (resistive component only).',
+    formula: 'ΔV = k·I·L·ρ / A (k = 2 single-phase, √3 three-phase)',
+    parameters: {
+      current: { description: 'Load current', unit: 'A' },
+      length: { description: 'One-way cable length', unit: 'm' },
+      csa: { description: 'Conductor cross-section', unit: 'mm²' },
+      material: { description: 'Conductor material', options: ['copper', 'aluminium'], default: 'copper' },
+      phases: { description: 'Supply type', options: ['single', 'three'], default: 'three' },
+      voltage: { description: 'Nominal supply voltage, for the percentage drop', unit: 'V', optional: true }
+    },
+    compute: ({ quantities, choices }) => {
+      const drop = voltageDrop(quantities.current.value, quantities.length.value, quantities.csa.value, choices.material, choices.phases);
+      return {
+        voltageDrop: { value: drop, unit: 'V' },
+        ...(quantities.voltage ? { percentDrop: { value: drop / quantities.voltage.value * 100, unit: '%' } } : {})
+      };
+    }
+  },
+  {
+    id: 'cable_size',
+    field: 'Electrical',
+    label: 'Cable Sizing',
+    description: 'Smallest standard conductor size meeting both the current rating and the voltage drop limit. Ratings are indicative and exclude grouping and ambient derating.',
+    formula: 'Smallest A with Iz ≥ I and k·I·L·ρ / A ≤ ΔVmax',
+    parameters: {
+      current: { description: 'Design load current', unit: 'A' },
+      length: { description: 'One-way cable length', unit: 'm' },
+      voltage: { description: 'Nominal supply voltage', unit: 'V' },
+      maxDrop: { description: 'Permitted voltage drop', unit: '%', default: 5 },
+      material: { description: 'Conductor material', options: ['copper', 'aluminium'], default: 'copper' },
+      phases: { description: 'Supply type', options: ['single', 'three'], default: 'three' }
+    },
+    compute: ({ quantities, choices }) => {
+      const current = quantities.current.value;
+      const length = quantities.length.value;
+      const limit = quantities.voltage.value * quantities.maxDrop.value / 100;
+      const derating = choices.material === 'aluminium' ? ALUMINIUM_DERATING : 1;
+
+      const size = CABLE_SIZES.find(({ csa, ampacity }) =>
+        ampacity * derating >= current && voltageDrop(current, length, csa, choices.material, choices.phases) <= limit);
+      if (!size) throw new Error('No standard size up to 300 mm² meets the load; parallel cables or a higher voltage are needed.');
+
+      const bySizeOnly = CABLE_SIZES.find(({ ampacity }) => ampacity * derating >= current);
+      const drop = voltageDrop(current, length, size.csa, choices.material, choices.phases);
+
+      return {
+        csa: { value: size.csa, unit: 'mm²' },
+        ampacity: { value: size.ampacity * derating, unit: 'A' },
+        voltageDrop: { value: drop, unit: 'V' },
+        percentDrop: { value: drop / quantities.voltage.value * 100, unit: '%' },
+        governedBy: bySizeOnly && bySizeOnly.csa === size.csa ? 'current rating' : 'voltage drop'
+      };
+    }
+  }
+];
@@ -0,0 +1,110 @@
+import { CalculationRecord } from "../../types";
+import { Quantity, canonicalUnit, formatQuantity, readQuantity } from "../units";
+import { CIVIL_CALCULATORS } from "./civil";
+import { CHEMICAL_CALCULATORS } from "./chemical";
+import { ELECTRICAL_CALCULATORS } from "./electrical";
+import { MECHANICAL_CALCULATORS } from "./mechanical";
+import { Calculator, CalculatorInputs, CalculatorParameter } from "./types";
+
+export type { Calculator } from "./types";
+
+export const CALCULATORS: Calculator[] = [
+  ...ELECTRICAL_CALCULATORS,
+  ...CIVIL_CALCULATORS,
+  ...MECHANICAL_CALCULATORS,
+  ...CHEMICAL_CALCULATORS
+];
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+// Splits "25 %" into value and written unit without converting, for parameters with no declared unit
+const readRaw = (input: unknown): Quantity => {
+  const match = String(input).trim().match(/^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)\s*(.*)$/i);
+  if (!match) throw new Error(`"${input}" is not a number.`);
+  const unit = match[2].trim();
+  return { value: parseFloat(match[1]), unit: unit ? canonicalUnit(unit) || unit : '' };
+};
+
+const readParameter = (name: string, parameter: CalculatorParameter, input: unknown, inputs: CalculatorInputs) => {
+  if (parameter.options) {
+    const choice = String(input).trim().toLowerCase();
+    if (!parameter.options.includes(choice)) throw new Error(`must be one of: ${parameter.options.join(', ')}.`);
+    inputs.choices[name] = choice;
+    return;
+  }
+
+  const quantity = parameter.unit ? readQuantity(input, parameter.unit) : readRaw(input);
+  if (!Number.isFinite(quantity.value)) throw new Error('not a finite number.');
+  inputs.quantities[name] = quantity;
+};
+
+const formatOutput = (value: Quantity | string) => typeof value === 'string' ? value : formatQuantity(value);
+
+// Runs a calculator on loosely typed tool-call arguments. Throws with a message the model can act on
+// when an argument is missing, non-numeric or in a unit that cannot be converted.
+export const runCalculation = (id: string, args: Record<string, unknown>): CalculationRecord => {
+  const calculator = CALCULATORS.find(candidate => candidate.id === id);
+  if (!calculator) throw new Error(`Unknown calculator "${id}".`);
+
+  const inputs: CalculatorInputs = { quantities: {}, choices: {} };
+  Object.entries(calculator.parameters).forEach(([name, parameter]) => {
+    const input = isMissing(args[name]) ? parameter.default : args[name];
+    if (isMissing(input)) {
+      if (parameter.optional) return;
+      throw new Error(`Missing required argument "${name}" (${parameter.description}).`);
+    }
+    try {
+      readParameter(name, parameter, input, inputs);
+    } catch (err: any) {
+      throw new Error(`Argument "${name}": ${err.message}`);
+    }
+  });
+
+  const outputs = calculator.compute(inputs);
+  const invalid = Object.entries(outputs).find(([, value]) => typeof value !== 'string' && !Number.isFinite(value.value));
+  if (invalid) throw new Error(`"${invalid[0]}" is not finite; check for zero or negative inputs.`);
+
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    tool: calculator.id,
+    label: calculator.label,
+    inputs: {
+      ...Object.fromEntries(Object.entries(inputs.quantities).map(([name, quantity]) => [name, formatQuantity(quantity)])),
+      ...inputs.choices
+    },
+    outputs: Object.fromEntries(Object.entries(outputs).map(([name, value]) => [name, formatOutput(value)])),
+    formula: calculator.formula,
+    timestamp: Date.now()
+  };
+};
+
+// JSON Schema for the tool declaration. Quantities are strings so the model can state the unit it read off
+// a nameplate ("4.5 kW") and have it converted, rather than converting in its head.
+export const parameterSchema = (calculator: Calculator) => ({
+  type: 'object',
+  properties: Object.fromEntries(Object.entries(calculator.parameters).map(([name, parameter]) => [name, {
+    type: 'string',
+    description: [
+      parameter.description,
+      parameter.unit && `Number with unit, default unit ${parameter.unit}`,
+      parameter.default !== undefined && `Default ${parameter.default}${parameter.unit && !parameter.options ? ` ${parameter.unit}` : ''}`
+    ].filter(Boolean).join('. '),
+    ...(parameter.options ? { enum: parameter.options } : {})
+  }])),
+  required: Object.entries(calculator.parameters)
+    .filter(([, parameter]) => !parameter.optional && parameter.default === undefined)
+    .map(([name]) => name)
+});
+
+export const describeCalculations = (records: CalculationRecord[]) => records
+  .map(record => `- ${record.label}: ${Object.entries(record.inputs).map(([key, value]) => `${key} ${value}`).join(', ')} => ${
+    Object.entries(record.outputs).map(([key, value]) => `${key} ${value}`).join(', ')}`)
+  .join('\n');
+
+const normaliseValue = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+
+// True when a value the model reported is one of the computed outputs, quoted exactly
+export const isVerifiedValue = (value: string, records: CalculationRecord[] = []) => {
+  const target = normaliseValue(value);
+  return records.some(record => Object.values(record.outputs).some(output => normaliseValue(output) === target));
+};
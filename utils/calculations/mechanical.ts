@@ -0,0 +1,79 @@
+import { Calculator } from "./types";
+
+const GRAVITY = 9.80665;
+
+// ISO 281 life exponent: 3 for ball bearings, 10/3 for roller bearings
+const LIFE_EXPONENT: Record<string, number> = { ball: 3, roller: 10 / 3 };
+
+export const MECHANICAL_CALCULATORS: Calculator[] = [
+  {
+    id: 'pump_head',
+    field: 'Mechanical',
+    label: 'Pump Head & Power',
+    description: 'Total differential head from measured suction and discharge pressures, with hydraulic and shaft power at the duty flow.',
+    formula: 'H = (Pd − Ps)/(ρ·g) + Δz, Ph = ρ·g·Q·H, Ps = Ph/η',
+    parameters: {
+      flow: { description: 'Flow rate', unit: 'm³/h' },
+      suctionPressure: { description: 'Suction gauge pressure (negative for vacuum)', unit: 'bar' },
+      dischargePressure: { description: 'Discharge gauge pressure', unit: 'bar' },
+      gaugeElevation: { description: 'Height of the discharge gauge above the suction gauge', unit: 'm', default: 0 },
+      density: { description: 'Fluid density', unit: 'kg/m³', default: 1000 },
+      efficiency: { description: 'Pump efficiency, for shaft power', unit: '%', optional: true }
+    },
+    compute: ({ quantities }) => {
+      const rho = quantities.density.value;
+      const Q = quantities.flow.value / 3600;
+      const head = (quantities.dischargePressure.value - quantities.suctionPressure.value) * 1e5 / (rho * GRAVITY)
+        + quantities.gaugeElevation.value;
+      const hydraulic = rho * GRAVITY * Q * head / 1000;
+
+      return {
+        head: { value: head, unit: 'm' },
+        hydraulicPower: { value: hydraulic, unit: 'kW' },
+        ...(quantities.efficiency ? { shaftPower: { value: hydraulic / (quantities.efficiency.value / 100), unit: 'kW' } } : {})
+      };
+    }
+  },
+  {
+    id: 'pump_affinity',
+    field: 'Mechanical',
+    label: 'Pump Affinity Laws',
+    description: 'Flow, head and power of a centrifugal pump after a speed change (same impeller).',
+    formula: 'Q2 = Q1·(n2/n1), H2 = H1·(n2/n1)², P2 = P1·(n2/n1)³',
+    parameters: {
+      flow: { description: 'Flow at the original speed', unit: 'm³/h' },
+      head: { description: 'Head at the original speed', unit: 'm' },
+      power: { description: 'Shaft power at the original speed', unit: 'kW', optional: true },
+      speed: { description: 'Original speed', unit: 'rpm' },
+      newSpeed: { description: 'New speed', unit: 'rpm' }
+    },
+    compute: ({ quantities }) => {
+      const ratio = quantities.newSpeed.value / quantities.speed.value;
+      return {
+        flow: { value: quantities.flow.value * ratio, unit: 'm³/h' },
+        head: { value: quantities.head.value * ratio ** 2, unit: 'm' },
+        ...(quantities.power ? { power: { value: quantities.power.value * ratio ** 3, unit: 'kW' } } : {})
+      };
+    }
+  },
+  {
+    id: 'bearing_life',
+    field: 'Mechanical',
+    label: 'Bearing L10 Life',
+    description: 'Basic rating life (90% reliability) of a rolling bearing from its dynamic load rating and equivalent load.',
+    formula: 'L10 = (C/P)^p ×10⁶ rev, L10h = L10 / (60·n)',
+    parameters: {
+      dynamicLoadRating: { description: 'Basic dynamic load rating C from the bearing catalogue', unit: 'kN' },
+      equivalentLoad: { description: 'Equivalent dynamic bearing load P', unit: 'kN' },
+      speed: { description: 'Rotational speed', unit: 'rpm' },
+      type: { description: 'Rolling element type', options: ['ball', 'roller'], default: 'ball' }
+    },
+    compute: ({ quantities, choices }) => {
+      const revolutions = (quantities.dynamicLoadRating.value / quantities.equivalentLoad.value) ** LIFE_EXPONENT[choices.type];
+      return {
+        l10: { value: revolutions, unit: 'million rev' },
+        l10h: { value: revolutions * 1e6 / (60 * quantities.speed.value), unit: 'h' }
+      };
+    }
+  }
+];
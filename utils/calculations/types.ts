@@ -0,0 +1,31 @@
+import { EngineeringField } from "../../types";
+import { Quantity } from "../units";
+
+export interface CalculatorParameter {
+  description: string;
+  // Unit the value is converted to before compute runs; inputs may be written in any unit of the same dimension.
+  // Left out for parameters whose unit only has to be consistent with another one (e.g. two concentrations).
+  unit?: string;
+  // Choice parameters take one of these strings instead of a quantity
+  options?: string[];
+  default?: number | string;
+  optional?: boolean;
+}
+
+export interface CalculatorInputs {
+  quantities: Record<string, Quantity>;
+  choices: Record<string, string>;
+}
+
+// Values are Quantities in display units, or a plain string for verdicts such as "governed by voltage drop"
+export type CalculatorOutputs = Record<string, Quantity | string>;
+
+export interface Calculator {
+  id: string;
+  field: EngineeringField;
+  label: string;
+  description: string;
+  formula: string;
+  parameters: Record<string, CalculatorParameter>;
+  compute: (inputs: CalculatorInputs) => CalculatorOutputs;
+}
@@ -0,0 +1,213 @@
+import { BOMItem, CatalogPart, Language } from "../types";
+import { parseCsv } from "./csv";
+import { getLocale } from "../i18n";
+
+// Below this a catalog entry is offered as a candidate but not linked automatically
+export const MATCH_THRESHOLD = 0.45;
+
+const MAX_PROMPT_PARTS = 40;
+
+export interface CatalogCandidate {
+  part: CatalogPart;
+  confidence: number;
+}
+
+export const normaliseStockCode = (code: string) => code.trim().toUpperCase();
+
+const tokens = (text: string) => new Set(text.toLowerCase().split(/[^a-z0-9.]+/).filter(token => token.length > 1));
+
+const bigrams = (text: string) => {
+  const compact = text.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+const dice = <T>(a: T[], b: T[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const remaining = [...b];
+  let shared = 0;
+  a.forEach(item => {
+    const index = remaining.indexOf(item);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (a.length + b.length);
+};
+
+// Word overlap catches reordered names ("Bearing, ball 6309" vs "6309 ball bearing");
+// character bigrams tolerate typos and spacing ("2RS" vs "2-RS")
+const similarity = (a: string, b: string) =>
+  0.5 * dice([...tokens(a)], [...tokens(b)]) + 0.5 * dice(bigrams(a), bigrams(b));
+
+export const scorePart = (item: Pick<BOMItem, 'itemName' | 'specification'>, part: CatalogPart) => {
+  const name = similarity(item.itemName, part.name);
+  if (!item.specification.trim() || !part.specification.trim()) return name;
+  const spec = similarity(item.specification, part.specification);
+  const combined = similarity(`${item.itemName} ${item.specification}`, `${part.name} ${part.specification}`);
+  return Math.max(combined, 0.6 * name + 0.4 * spec);
+};
+
+export const rankCatalog = (item: BOMItem, catalog: CatalogPart[], limit = 5): CatalogCandidate[] =>
+  catalog
+    .map(part => ({ part, confidence: scorePart(item, part) }))
+    .filter(candidate => candidate.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+
+// Fills unit, price and supplier from the linked part without overwriting what procurement typed
+export const applyCatalogPart = (item: BOMItem, part: CatalogPart): BOMItem => ({
+  ...item,
+  unit: item.unit || part.unit || undefined,
+  unitCost: item.unitCost ?? part.unitCost,
+  supplier: item.supplier || part.supplier
+});
+
+// Links each BOM line to its best catalog entry. Manual overrides are left alone; a stock code proposed
+// by the model is accepted only if it exists, and its confidence still reflects how well the text agrees.
+export const matchBOMToCatalog = (items: BOMItem[], catalog: CatalogPart[]): BOMItem[] => {
+  if (catalog.length === 0) return items;
+  const byCode = new Map(catalog.map(part => [part.id, part]));
+
+  return items.map(item => {
+    if (item.catalogMatch?.manual) return item;
+
+    const proposed = item.catalogMatch?.stockCode ? byCode.get(normaliseStockCode(item.catalogMatch.stockCode)) : undefined;
+    const [best] = rankCatalog(item, catalog, 1);
+    const match = proposed
+      ? { part: proposed, confidence: 0.5 + 0.5 * scorePart(item, proposed) }
+      : best && best.confidence >= MATCH_THRESHOLD ? best : undefined;
+
+    if (!match) {
+      const { catalogMatch, ...unmatched } = item;
+      return unmatched;
+    }
+
+    return applyCatalogPart(
+      { ...item, catalogMatch: { stockCode: match.part.id, confidence: Number(match.confidence.toFixed(2)) } },
+      match.part
+    );
+  });
+};
+
+// Keeps the prompt short on large catalogs by sending only parts that share words with the solution
+export const relevantParts = (text: string, catalog: CatalogPart[], limit = MAX_PROMPT_PARTS): CatalogPart[] => {
+  if (catalog.length <= limit) return catalog;
+  const words = tokens(text);
+  return catalog
+    .map(part => {
+      const partWords = [...tokens(`${part.name} ${part.specification}`)];
+      return { part, score: partWords.filter(word => words.has(word)).length / Math.max(1, partWords.length) };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.part);
+};
+
+export const describeCatalog = (parts: CatalogPart[]) => parts
+  .map(part => `- ${part.id} | ${part.name} | ${part.specification || '-'} | ${part.unit || 'ea'} | on hand: ${part.stockOnHand}`)
+  .join('\n');
+
+const HEADER_ALIASES: Record<keyof Omit<CatalogPart, 'updatedAt'>, RegExp> = {
+  id: /^(stock ?code|code|sku|part ?(no|number)|item ?code|id)$/,
+  name: /^(name|item|item ?name|part|part ?name|description)$/,
+  specification: /^(spec|specs|specification|details|rating)$/,
+  unit: /^(unit|uom|units)$/,
+  unitCost: /^(unit ?cost|cost|price|unit ?price)$/,
+  supplier: /^(supplier|vendor|manufacturer)$/,
+  stockOnHand: /^(stock|stock ?on ?hand|on ?hand|qty|quantity|soh)$/
+};
+
+export type DecimalSeparator = '.' | ',';
+
+export const decimalSeparatorOf = (language: Language): DecimalSeparator =>
+  new Intl.NumberFormat(getLocale(language).intl).formatToParts(1.5).find(part => part.type === 'decimal')?.value === ',' ? ',' : '.';
+
+// The separator a figure uses for decimals, or undefined when it has none. With both marks present
+// the last one is decimal ("1,250.00", "1.250,00"); a repeated mark groups thousands ("1,250,000").
+// A lone mark before exactly three digits ("1,250") could be either and follows the app language.
+const decimalIn = (text: string, decimal: DecimalSeparator): DecimalSeparator | undefined => {
+  const last = Math.max(text.lastIndexOf('.'), text.lastIndexOf(','));
+  if (last < 0) return undefined;
+  const mark = text[last] as DecimalSeparator;
+  if (text.includes(mark === '.' ? ',' : '.')) return mark;
+  if (text.indexOf(mark) !== last) return undefined;
+  if (text.length - last - 1 === 3) return mark === decimal ? mark : undefined;
+  return mark;
+};
+
+// Currency symbols or codes around the figure and spaces or apostrophes between its digits are
+// allowed; anything else that is not a well-formed number is rejected rather than guessed at
+export const toNumber = (value: unknown, decimal: DecimalSeparator) => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const text = String(value ?? '').trim().replace(/^[^\d-]+|[^\d]+$/g, '').replace(/[\s'’]/g, '');
+  const separator = decimalIn(text, decimal);
+  const group = separator ? (separator === ',' ? '.' : ',') : text.match(/[.,]/)?.[0] || ',';
+  const pattern = new RegExp(`^-?(\\d{1,3}(\\${group}\\d{3})+|\\d+)${separator ? `\\${separator}\\d+` : ''}$`);
+  if (!pattern.test(text)) return undefined;
+
+  const parsed = Number(text.split(group).join('').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const toPart = (raw: Record<string, unknown>, updatedAt: number, decimal: DecimalSeparator): CatalogPart | undefined => {
+  const text = (value: unknown) => value === undefined || value === null ? '' : String(value).trim();
+  const id = normaliseStockCode(text(raw.id));
+  const name = text(raw.name);
+  if (!id || !name) return undefined;
+
+  return {
+    id,
+    name,
+    specification: text(raw.specification),
+    unit: text(raw.unit),
+    unitCost: toNumber(raw.unitCost, decimal),
+    supplier: text(raw.supplier) || undefined,
+    stockOnHand: toNumber(raw.stockOnHand, decimal) ?? 0,
+    updatedAt
+  };
+};
+
+// Maps whatever column names the inventory export uses onto CatalogPart keys
+const normaliseKeys = (record: Record<string, unknown>) => {
+  const mapped: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const header = key.trim().toLowerCase().replace(/[_-]+/g, ' ');
+    const field = (Object.keys(HEADER_ALIASES) as (keyof typeof HEADER_ALIASES)[]).find(name => HEADER_ALIASES[name].test(header));
+    if (field && mapped[field] === undefined) mapped[field] = value;
+  });
+  return mapped;
+};
+
+export interface CatalogImport {
+  parts: CatalogPart[];
+  skipped: number;
+}
+
+// Accepts a JSON array (or { "parts": [...] }) or a CSV with a header row
+export const parseCatalogFile = (content: string, filename: string, language: Language): CatalogImport => {
+  const updatedAt = Date.now();
+  let records: Record<string, unknown>[];
+
+  if (/\.json$/i.test(filename) || /^\s*[[{]/.test(content)) {
+    const parsed = JSON.parse(content);
+    const list = Array.isArray(parsed) ? parsed : parsed?.parts;
+    if (!Array.isArray(list)) throw new Error('Catalog JSON must be an array of parts or { "parts": [...] }.');
+    records = list.filter(entry => entry && typeof entry === 'object');
+  } else {
+    const [header, ...rows] = parseCsv(content);
+    if (!header) throw new Error('Catalog file is empty.');
+    records = rows.map(row => Object.fromEntries(header.map((column, i) => [column, row[i] ?? ''])));
+  }
+
+  const decimal = decimalSeparatorOf(language);
+  const parts = records.map(record => toPart(normaliseKeys(record), updatedAt, decimal));
+  const valid = parts.filter((part): part is CatalogPart => Boolean(part));
+  if (records.length > 0 && valid.length === 0) {
+    throw new Error('No parts found. The catalog needs at least a stock code and a name column.');
+  }
+  return { parts: valid, skipped: parts.length - valid.length };
+};
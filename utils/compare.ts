@@ -0,0 +1,66 @@
+import { ModelVariant, ProblemSolution, SolutionPayload } from "../types";
+import { hashEmbed, similarity } from "./retrieval";
+import { midpointHours, parseDurationHours } from "./duration";
+
+// Confidences further apart than this are reported as a disagreement
+const CONFIDENCE_SPREAD = 0.15;
+// Time estimates disagree when the longer midpoint exceeds the shorter by this factor
+const DURATION_RATIO = 1.5;
+// Below this two texts share too little vocabulary to be saying the same thing. The hashed
+// vectors compare wording rather than meaning, so a paraphrase can still be flagged.
+const SAME_TEXT_SIMILARITY = 0.3;
+
+export interface Disagreements {
+  confidence: boolean;
+  timeToComplete: boolean;
+  finalResult: boolean;
+  diagnosticTree: boolean;
+  // Per solution, the indexes of top-level hypotheses no other solution proposed
+  uniqueHypotheses: number[][];
+}
+
+export const variantLabel = (variant: ModelVariant) => `${variant.model} · T ${variant.temperature}`;
+
+const sameText = (a: string, b: string) => similarity(hashEmbed(a), hashEmbed(b)) >= SAME_TEXT_SIMILARITY;
+
+const hypotheses = (payload: SolutionPayload) => (payload.diagnosticTree || []).map(node => node.hypothesis);
+
+export const findDisagreements = (payloads: SolutionPayload[]): Disagreements => {
+  const confidences = payloads.map(payload => payload.confidence);
+  const durations = payloads
+    .map(payload => midpointHours(parseDurationHours(payload.timeToComplete)))
+    .filter(hours => hours > 0);
+
+  const uniqueHypotheses = payloads.map((payload, i) =>
+    hypotheses(payload)
+      .map((hypothesis, index) => ({ hypothesis, index }))
+      .filter(({ hypothesis }) => !payloads.some((other, j) => j !== i && hypotheses(other).some(candidate => sameText(hypothesis, candidate))))
+      .map(({ index }) => index)
+  );
+
+  return {
+    confidence: Math.max(...confidences) - Math.min(...confidences) > CONFIDENCE_SPREAD,
+    timeToComplete: durations.length > 1 && Math.max(...durations) > Math.min(...durations) * DURATION_RATIO,
+    finalResult: payloads.some((a, i) => payloads.slice(i + 1).some(b => !sameText(a.finalResult, b.finalResult))),
+    diagnosticTree: uniqueHypotheses.some(indexes => indexes.length > 0),
+    uniqueHypotheses
+  };
+};
+
+// The chosen diagnosis, plus the hypotheses and clarification questions only the others raised,
+// so a second opinion's line of enquiry is not lost. The verdict and estimates stay the chosen one's.
+export const mergeSolutions = (chosen: ProblemSolution, others: SolutionPayload[]): ProblemSolution => {
+  const tree = [...(chosen.diagnosticTree || [])];
+  const questions = [...(chosen.clarificationQuestions || [])];
+
+  others.forEach(other => {
+    (other.diagnosticTree || []).forEach(node => {
+      if (!tree.some(existing => sameText(existing.hypothesis, node.hypothesis))) tree.push(node);
+    });
+    (other.clarificationQuestions || []).forEach(question => {
+      if (!questions.some(existing => sameText(existing, question))) questions.push(question);
+    });
+  });
+
+  return { ...chosen, diagnosticTree: tree, clarificationQuestions: questions };
+};
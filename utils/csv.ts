@@ -0,0 +1,59 @@
+import { CellValue } from "./xlsx";
+
+// Spreadsheets run a cell starting with one of these as a formula, so text from the model or a
+// supplier could execute on opening. Such text is prefixed with an apostrophe to keep it literal.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CellValue[][]) => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks.
+// Semicolon-separated files (common in European Excel exports) are detected from the header line.
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
@@ -0,0 +1,54 @@
+import { DiagnosticNode } from "../types";
+
+// Nodes are addressed by their index path from the root, e.g. [1, 0] is the first child of the second hypothesis
+export type NodePath = number[];
+
+export const pathKey = (path: NodePath) => path.join('.');
+
+export const getNodeAt = (nodes: DiagnosticNode[], path: NodePath): DiagnosticNode | undefined => {
+  const [head, ...rest] = path;
+  const node = nodes[head];
+  if (!node || rest.length === 0) return node;
+  return getNodeAt(node.children || [], rest);
+};
+
+export const updateNodeAt = (
+  nodes: DiagnosticNode[],
+  path: NodePath,
+  patch: Partial<DiagnosticNode>
+): DiagnosticNode[] => {
+  const [head, ...rest] = path;
+  return nodes.map((node, i) => {
+    if (i !== head) return node;
+    if (rest.length === 0) return { ...node, ...patch };
+    return { ...node, children: updateNodeAt(node.children || [], rest, patch) };
+  });
+};
+
+// The hypotheses leading to a node, root first, so follow-up prompts keep the line of reasoning
+export const getAncestry = (nodes: DiagnosticNode[], path: NodePath): DiagnosticNode[] =>
+  path.map((_, depth) => getNodeAt(nodes, path.slice(0, depth + 1))).filter(Boolean) as DiagnosticNode[];
+
+export const hasRecordedOutcomes = (nodes: DiagnosticNode[]): boolean =>
+  nodes.some(node => (node.outcome && node.outcome !== 'not-run') || hasRecordedOutcomes(node.children || []));
+
+const sameHypothesis = (a: DiagnosticNode, b: DiagnosticNode) =>
+  a.hypothesis.trim().toLowerCase() === b.hypothesis.trim().toLowerCase();
+
+// The technician's tree with whatever new hypotheses the model proposes appended. Recorded outcomes,
+// readings, photos and expanded branches belong to the technician and are never replaced by the model.
+export const mergeDiagnosticTree = (recorded: DiagnosticNode[], proposed: DiagnosticNode[]): DiagnosticNode[] => [
+  ...recorded,
+  ...proposed.filter(node => !recorded.some(existing => sameHypothesis(existing, node)))
+];
+
+// Plain-text rendering of the tree and its field results for inclusion in a prompt
+export const describeDiagnosticTree = (nodes: DiagnosticNode[], depth = 0): string =>
+  nodes.map(node => {
+    const indent = '  '.repeat(depth);
+    const outcome = (node.outcome || 'not-run').toUpperCase();
+    const reading = node.reading ? ` | Reading: ${node.reading}` : '';
+    const line = `${indent}- [${outcome}] Hypothesis: ${node.hypothesis} | Test: ${node.test}${reading}`;
+    const children = node.children?.length ? `\n${describeDiagnosticTree(node.children, depth + 1)}` : '';
+    return line + children;
+  }).join('\n');
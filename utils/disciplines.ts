@@ -0,0 +1,273 @@
+import { Discipline, EngineeringField, Language, SubDiscipline } from "../types";
+
+// The disciplines the console supports. Adding one here adds it to the selector, the history and analytics
+// filters, the prompt template scopes and the prompt itself; ids are stored on solutions, so never rename one.
+export const DISCIPLINES: Discipline[] = [
+  {
+    id: 'Mechanical',
+    name: 'Mechanical',
+    names: { sw: 'Mitambo', fr: 'Mécanique', pt: 'Mecânica', ar: 'ميكانيكية' },
+    icon: 'wrench',
+    subDisciplines: [
+      {
+        id: 'rotating',
+        name: 'Rotating Equipment',
+        names: { sw: 'Mitambo Inayozunguka', fr: 'Machines tournantes', pt: 'Equipamentos rotativos', ar: 'المعدات الدوارة' },
+        promptHints: ['Ask for vibration (mm/s RMS) and bearing temperature readings if they are not given.']
+      },
+      {
+        id: 'static',
+        name: 'Static Equipment & Piping',
+        names: { sw: 'Vifaa Tuli na Mabomba', fr: 'Équipements statiques et tuyauterie', pt: 'Equipamentos estáticos e tubulação', ar: 'المعدات الثابتة والأنابيب' }
+      },
+      {
+        id: 'hydraulics',
+        name: 'Hydraulics & Pneumatics',
+        names: { sw: 'Haidroliki na Nyumatiki', fr: 'Hydraulique et pneumatique', pt: 'Hidráulica e pneumática', ar: 'الهيدروليك والهوائيات' },
+        promptHints: ['Confirm accumulators are discharged and actuators supported before any line is opened.']
+      }
+    ],
+    calculators: ['pump_head', 'pump_affinity', 'bearing_life'],
+    safetyRules: [],
+    promptHints: ['Tie vibration, temperature and noise symptoms to a failure mode (misalignment, unbalance, looseness, bearing defect, cavitation) before prescribing parts.']
+  },
+  {
+    id: 'Electrical',
+    name: 'Electrical',
+    names: { sw: 'Umeme', fr: 'Électrique', pt: 'Elétrica', ar: 'كهربائية' },
+    icon: 'cpu',
+    subDisciplines: [
+      {
+        id: 'distribution',
+        name: 'Power Distribution',
+        names: { sw: 'Usambazaji wa Umeme', fr: 'Distribution électrique', pt: 'Distribuição de energia', ar: 'توزيع الطاقة' }
+      },
+      {
+        id: 'motors',
+        name: 'Motors & Drives',
+        names: { sw: 'Mota na Viendeshi', fr: 'Moteurs et variateurs', pt: 'Motores e acionamentos', ar: 'المحركات ووحدات التشغيل' },
+        promptHints: ['Read the drive fault log and check insulation resistance and winding balance before condemning a motor.']
+      },
+      {
+        id: 'protection',
+        name: 'Protection & Earthing',
+        names: { sw: 'Kinga na Uwekaji Ardhi', fr: 'Protection et mise à la terre', pt: 'Proteção e aterramento', ar: 'الحماية والتأريض' }
+      }
+    ],
+    calculators: ['ohms_law', 'voltage_drop', 'cable_size'],
+    safetyRules: ['electrical'],
+    promptHints: ['State the supply voltage, earthing arrangement and protective device ratings you are assuming.']
+  },
+  {
+    id: 'Civil',
+    name: 'Civil',
+    names: { sw: 'Ujenzi', fr: 'Génie civil', pt: 'Civil', ar: 'مدنية' },
+    icon: 'building',
+    subDisciplines: [
+      {
+        id: 'roads',
+        name: 'Roads & Pavements',
+        names: { sw: 'Barabara', fr: 'Routes et chaussées', pt: 'Estradas e pavimentos', ar: 'الطرق والأرصفة' }
+      },
+      {
+        id: 'water',
+        name: 'Water & Drainage',
+        names: { sw: 'Maji na Mifereji', fr: 'Eau et assainissement', pt: 'Água e drenagem', ar: 'المياه والصرف' }
+      },
+      {
+        id: 'geotechnical',
+        name: 'Geotechnical',
+        names: { sw: 'Jioteknolojia', fr: 'Géotechnique', pt: 'Geotecnia', ar: 'الجيوتقنية' }
+      }
+    ],
+    calculators: ['beam_analysis', 'beam_capacity'],
+    safetyRules: [],
+    promptHints: ['Distinguish cosmetic defects from structural ones, and say when a structural engineer must assess before the asset is used again.']
+  },
+  {
+    id: 'Chemical',
+    name: 'Chemical',
+    names: { sw: 'Kemikali', fr: 'Chimique', pt: 'Química', ar: 'كيميائية' },
+    icon: 'flask',
+    subDisciplines: [
+      {
+        id: 'water-treatment',
+        name: 'Water Treatment',
+        names: { sw: 'Usafishaji wa Maji', fr: 'Traitement de l\'eau', pt: 'Tratamento de água', ar: 'معالجة المياه' }
+      },
+      {
+        id: 'process',
+        name: 'Process Plant',
+        names: { sw: 'Mitambo ya Uchakataji', fr: 'Installations de procédé', pt: 'Planta de processo', ar: 'وحدات المعالجة' }
+      },
+      {
+        id: 'dosing',
+        name: 'Dosing Systems',
+        names: { sw: 'Mifumo ya Kuongeza Dawa', fr: 'Systèmes de dosage', pt: 'Sistemas de dosagem', ar: 'أنظمة الجرعات' }
+      }
+    ],
+    calculators: ['dilution', 'stoichiometry'],
+    safetyRules: ['chemical'],
+    promptHints: ['Name every substance and concentration involved and point the technician to its Safety Data Sheet.']
+  },
+  {
+    id: 'Mechatronics',
+    name: 'Mechatronics',
+    names: { sw: 'Mekatroniki', fr: 'Mécatronique', pt: 'Mecatrônica', ar: 'الميكاترونكس' },
+    icon: 'bot',
+    subDisciplines: [
+      {
+        id: 'robotics',
+        name: 'Robotics',
+        names: { sw: 'Roboti', fr: 'Robotique', pt: 'Robótica', ar: 'الروبوتات' }
+      },
+      {
+        id: 'automated-machinery',
+        name: 'PLC-controlled Machinery',
+        names: { sw: 'Mitambo Inayoendeshwa na PLC', fr: 'Machines pilotées par automate', pt: 'Máquinas controladas por CLP', ar: 'الآلات المُدارة بوحدات PLC' }
+      },
+      {
+        id: 'motion',
+        name: 'Servo & Motion Control',
+        names: { sw: 'Udhibiti wa Servo na Mwendo', fr: 'Asservissement et commande de mouvement', pt: 'Servo e controle de movimento', ar: 'التحكم المؤازر والحركة' },
+        promptHints: ['Check encoder feedback and following-error limits before retuning a servo loop.']
+      }
+    ],
+    calculators: ['ohms_law', 'bearing_life'],
+    safetyRules: ['electrical', 'rotating-machinery'],
+    promptHints: [
+      'Separate mechanical, electrical and control-logic causes, and name the sensor, actuator or program step each test exercises.',
+      'Require guards, light curtains and emergency stops to be proven working before the machine is handed back.'
+    ]
+  },
+  {
+    id: 'HVAC',
+    name: 'HVAC & Refrigeration',
+    names: { sw: 'HVAC na Majokofu', fr: 'CVC et froid', pt: 'Climatização e refrigeração', ar: 'التكييف والتبريد' },
+    icon: 'fan',
+    subDisciplines: [
+      {
+        id: 'chillers',
+        name: 'Chillers & Heat Pumps',
+        names: { sw: 'Chiller na Pampu za Joto', fr: 'Groupes froids et pompes à chaleur', pt: 'Chillers e bombas de calor', ar: 'المبردات والمضخات الحرارية' }
+      },
+      {
+        id: 'air-handling',
+        name: 'Air Handling & Ventilation',
+        names: { sw: 'Mitambo ya Hewa na Uingizaji Hewa', fr: 'Traitement d\'air et ventilation', pt: 'Tratamento de ar e ventilação', ar: 'مناولة الهواء والتهوية' }
+      },
+      {
+        id: 'refrigeration',
+        name: 'Cold Rooms & Refrigeration',
+        names: { sw: 'Vyumba Baridi na Majokofu', fr: 'Chambres froides et réfrigération', pt: 'Câmaras frias e refrigeração', ar: 'الغرف الباردة والتبريد' }
+      }
+    ],
+    calculators: ['pump_head', 'pump_affinity', 'ohms_law'],
+    safetyRules: ['electrical', 'pressure'],
+    promptHints: [
+      'Diagnose refrigerant circuits from suction and discharge pressures, superheat and subcooling, and ask for them if they are missing.',
+      'Only certified technicians may open a refrigerant circuit; refrigerant is recovered, never vented.'
+    ]
+  },
+  {
+    id: 'Instrumentation',
+    name: 'Instrumentation & Control',
+    names: { sw: 'Vipimo na Udhibiti', fr: 'Instrumentation et contrôle-commande', pt: 'Instrumentação e controle', ar: 'الأجهزة والتحكم' },
+    icon: 'gauge',
+    subDisciplines: [
+      {
+        id: 'field-instruments',
+        name: 'Field Instruments',
+        names: { sw: 'Vifaa vya Vipimo vya Eneo', fr: 'Instruments de terrain', pt: 'Instrumentos de campo', ar: 'الأجهزة الميدانية' }
+      },
+      {
+        id: 'control-systems',
+        name: 'Control Systems (PLC/DCS/SCADA)',
+        names: { sw: 'Mifumo ya Udhibiti (PLC/DCS/SCADA)', fr: 'Systèmes de contrôle (API/SNCC/SCADA)', pt: 'Sistemas de controle (CLP/SDCD/SCADA)', ar: 'أنظمة التحكم (PLC/DCS/SCADA)' }
+      },
+      {
+        id: 'safety-systems',
+        name: 'Safety Instrumented Systems',
+        names: { sw: 'Mifumo ya Usalama ya Vipimo', fr: 'Systèmes instrumentés de sécurité', pt: 'Sistemas instrumentados de segurança', ar: 'أنظمة السلامة الآلية' },
+        promptHints: ['Any proof test or repair must restore the safety function to its required SIL; say how it is to be verified.']
+      }
+    ],
+    calculators: ['ohms_law', 'voltage_drop'],
+    safetyRules: ['electrical'],
+    promptHints: [
+      'On 4–20 mA loops, compare the measured loop current with the expected process value before suspecting the transmitter.',
+      'Never bypass a trip or interlock without a documented override authorised by operations.'
+    ]
+  },
+  {
+    id: 'Structural',
+    name: 'Structural',
+    names: { sw: 'Miundo', fr: 'Structures', pt: 'Estruturas', ar: 'إنشائية' },
+    icon: 'landmark',
+    subDisciplines: [
+      {
+        id: 'steel',
+        name: 'Steel Structures',
+        names: { sw: 'Miundo ya Chuma', fr: 'Charpente métallique', pt: 'Estruturas metálicas', ar: 'المنشآت الفولاذية' }
+      },
+      {
+        id: 'concrete',
+        name: 'Reinforced Concrete',
+        names: { sw: 'Zege Iliyoimarishwa', fr: 'Béton armé', pt: 'Concreto armado', ar: 'الخرسانة المسلحة' }
+      },
+      {
+        id: 'foundations',
+        name: 'Foundations',
+        names: { sw: 'Misingi', fr: 'Fondations', pt: 'Fundações', ar: 'الأساسات' }
+      }
+    ],
+    calculators: ['beam_analysis', 'beam_capacity'],
+    safetyRules: [],
+    promptHints: ['State the load path you assumed, and where capacity is in doubt restrict the loading or prop the member until a structural engineer has checked it.']
+  },
+  {
+    id: 'Petroleum',
+    name: 'Petroleum',
+    names: { sw: 'Petroli na Gesi', fr: 'Pétrole et gaz', pt: 'Petróleo e gás', ar: 'النفط والغاز' },
+    icon: 'fuel',
+    subDisciplines: [
+      {
+        id: 'wellsite',
+        name: 'Wellsite & Production',
+        names: { sw: 'Visima na Uzalishaji', fr: 'Puits et production', pt: 'Poços e produção', ar: 'الآبار والإنتاج' }
+      },
+      {
+        id: 'pipelines',
+        name: 'Pipelines',
+        names: { sw: 'Mabomba ya Mafuta', fr: 'Pipelines', pt: 'Dutos', ar: 'خطوط الأنابيب' }
+      },
+      {
+        id: 'storage',
+        name: 'Fuel Storage & Depots',
+        names: { sw: 'Hifadhi na Maghala ya Mafuta', fr: 'Stockage et dépôts de carburant', pt: 'Armazenamento e depósitos de combustível', ar: 'تخزين الوقود والمستودعات' }
+      }
+    ],
+    calculators: ['pump_head', 'pump_affinity'],
+    safetyRules: ['flammable-atmosphere'],
+    promptHints: ['Treat every hydrocarbon system as a potential flammable atmosphere and name the hazardous-area zone you are assuming.']
+  }
+];
+
+export const DEFAULT_DISCIPLINE: EngineeringField = 'Mechanical';
+
+// Solutions can outlive a discipline removed from the registry; they keep their id as the name and get no extras
+export const getDiscipline = (id: EngineeringField): Discipline =>
+  DISCIPLINES.find(discipline => discipline.id === id)
+    || { id, name: id, icon: '', subDisciplines: [], calculators: [], safetyRules: [], promptHints: [] };
+
+export const getSubDiscipline = (field: EngineeringField, id?: string): SubDiscipline | undefined =>
+  id ? getDiscipline(field).subDisciplines.find(sub => sub.id === id) : undefined;
+
+const localName = ({ name, names }: Pick<Discipline, 'name' | 'names'>, language: Language) => names?.[language] || name;
+
+export const disciplineName = (id: EngineeringField, language: Language) => localName(getDiscipline(id), language);
+
+export const subDisciplineName = (field: EngineeringField, id: string, language: Language) => {
+  const sub = getSubDiscipline(field, id);
+  return sub ? localName(sub, language) : id;
+};
@@ -0,0 +1,33 @@
+const HOURS_PER_WORKING_DAY = 8;
+
+const UNIT_HOURS: [RegExp, number][] = [
+  [/^(min|mins|minute|minutes)$/, 1 / 60],
+  [/^(h|hr|hrs|hour|hours|man-hour|man-hours|manhour|manhours)$/, 1],
+  [/^(day|days|shift|shifts)$/, HOURS_PER_WORKING_DAY],
+  [/^(week|weeks)$/, HOURS_PER_WORKING_DAY * 5]
+];
+
+export interface DurationRange {
+  min: number;
+  max: number;
+}
+
+// Parses model estimates such as "4-6 man-hours", "2 days" or "45 minutes" into hours.
+// Returns undefined when no number/unit pair can be recognised.
+export const parseDurationHours = (text?: string): DurationRange | undefined => {
+  if (!text) return undefined;
+  const match = text.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(?:(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*([a-z-]+)/);
+  if (!match) return undefined;
+
+  const [, low, high, unit] = match;
+  const factor = UNIT_HOURS.find(([pattern]) => pattern.test(unit))?.[1];
+  if (factor === undefined) return undefined;
+
+  const min = parseFloat(low) * factor;
+  const max = (high ? parseFloat(high) : parseFloat(low)) * factor;
+  return { min, max };
+};
+
+export const midpointHours = (range?: DurationRange) => range ? (range.min + range.max) / 2 : 0;
+
+export const formatHours = (hours: number) => `${Number.isInteger(hours) ? hours : hours.toFixed(1)} h`;
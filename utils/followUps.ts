@@ -0,0 +1,59 @@
+import { FollowUpTask, FollowUpWindow, ProblemSolution } from "../types";
+
+const HOUR = 60 * 60 * 1000;
+
+// How long after the intervention each checklist falls due
+export const FOLLOW_UP_OFFSETS: Record<FollowUpWindow, number> = {
+  '24h': 24 * HOUR,
+  '7d': 7 * 24 * HOUR
+};
+
+export type FollowUpStatus = 'done' | 'overdue' | 'due-today' | 'upcoming';
+
+// Keyed by the item text rather than its position, so ticks survive a follow-up that reorders or extends the list.
+// A line repeated in the same checklist is numbered from its second occurrence so every task stays distinct.
+export const followUpKey = (window: FollowUpWindow, item: string, occurrence = 0) =>
+  `${window}:${item.trim().toLowerCase()}${occurrence > 0 ? `#${occurrence + 1}` : ''}`;
+
+export const followUpTasks = (solution: ProblemSolution): FollowUpTask[] => {
+  const lists: [FollowUpWindow, string[] | undefined][] = [['24h', solution.followUp24h], ['7d', solution.followUp7d]];
+  return lists.flatMap(([window, items]) => (items || []).map((item, index) => {
+    const occurrence = (items || []).slice(0, index).filter(earlier => followUpKey(window, earlier) === followUpKey(window, item)).length;
+    const key = followUpKey(window, item, occurrence);
+    return {
+      id: `${solution.id}:${key}`,
+      key,
+      solutionId: solution.id,
+      window,
+      item,
+      dueAt: solution.timestamp + FOLLOW_UP_OFFSETS[window],
+      completion: solution.followUpLog?.[key]
+    };
+  }));
+};
+
+const endOfToday = (now: number) => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const followUpStatus = (task: FollowUpTask, now: number): FollowUpStatus => {
+  if (task.completion) return 'done';
+  if (task.dueAt <= now) return 'overdue';
+  return task.dueAt <= endOfToday(now) ? 'due-today' : 'upcoming';
+};
+
+// Every open follow-up across the log, soonest due first
+export const openFollowUps = (history: ProblemSolution[]): FollowUpTask[] =>
+  history
+    .flatMap(followUpTasks)
+    .filter(task => !task.completion)
+    .sort((a, b) => a.dueAt - b.dueAt);
+
+// Overdue and due-today tasks; what the technician should be working on now
+export const dueFollowUps = (history: ProblemSolution[], now: number): FollowUpTask[] =>
+  openFollowUps(history).filter(task => task.dueAt <= endOfToday(now));
+
+export const hasOverdueFollowUp = (solution: ProblemSolution, now: number) =>
+  followUpTasks(solution).some(task => followUpStatus(task, now) === 'overdue');
@@ -0,0 +1,283 @@
+import { Hazard, HazardId, Language, ProblemSolution } from "../types";
+import { Quantity, dimensionOf, extractQuantities, formatQuantity, parseQuantityValue, toSI } from "./units";
+import { disciplineName, getDiscipline } from "./disciplines";
+import { DEFAULT_LANGUAGE, MessageKey, getTranslator } from "../i18n";
+
+// Extra-low voltage limit (IEC 61140): at or above this, contact with live parts can be lethal
+const ELV_LIMIT_V = 50;
+// Low/high voltage boundary for AC systems
+const HV_LIMIT_V = 1000;
+// Stored-energy threshold for pressure systems (0.5 bar gauge, as in most pressure system regulations)
+const PRESSURE_LIMIT_PA = 0.5e5;
+
+// Titles and controls are message keys, translated for the technician's language
+interface HazardRule {
+  id: HazardId;
+  title: MessageKey;
+  keywords?: RegExp;
+  // Returns the triggering values, formatted, when a measured quantity crosses the rule's threshold
+  quantities?: (found: Quantity[]) => string[];
+  isolation: MessageKey[];
+  ppe: MessageKey[];
+  permits: MessageKey[];
+}
+
+const inDimension = (found: Quantity[], dimension: string, test: (si: number) => boolean) =>
+  found.filter(q => dimensionOf(q.unit) === dimension && test(toSI(q))).map(q => formatQuantity(q));
+
+// Arabic attaches the article and the conjunctions/prepositions to the word ("والكهرباء")
+const AR = '(?:[وفبل]?ال|[وفب])?';
+
+// Whole words or phrases in any language. \b only knows ASCII letters, so boundaries are any letter
+// or digit, which also works for accented and Arabic text.
+const keywords = (...terms: string[]) =>
+  new RegExp(`(?<![\\p{L}\\d])(?:${terms.join('|')})(?![\\p{L}\\d])`, 'iu');
+
+// Ordered by severity so the most dangerous hazard is listed first. Keywords cover every app language
+// (English, Swahili, French, Portuguese, Arabic) because technicians describe the fault in whichever
+// language they work in, and the steps come back in it.
+const RULES: HazardRule[] = [
+  {
+    id: 'high-voltage',
+    title: 'hazard.highVoltage.title',
+    keywords: keywords(
+      'high[- ]voltage', 'medium[- ]voltage', '11 ?kV', '33 ?kV', 'transformer primary', 'ring main unit', 'RMU',
+      'msongo mkubwa', 'volteji kubwa',
+      'haute tension', 'moyenne tension', 'HTA', 'HTB', 'poste de transformation',
+      'alta tensão', 'média tensão', 'subestação',
+      `${AR}جهد (?:ال)?عال\\p{L}*`, `${AR}جهد (?:ال)?متوسط`, `${AR}محط\\p{L}* (?:ال)?تحويل`
+    ),
+    quantities: found => inDimension(found, 'voltage', v => v >= HV_LIMIT_V),
+    isolation: [
+      'hazard.highVoltage.switching',
+      'hazard.highVoltage.earth',
+      'hazard.highVoltage.prove',
+      'hazard.highVoltage.barriers'
+    ],
+    ppe: ['hazard.highVoltage.arcClothing', 'hazard.highVoltage.hood', 'hazard.highVoltage.gloves'],
+    permits: ['hazard.highVoltage.permit', 'hazard.highVoltage.programme']
+  },
+  {
+    id: 'electrical',
+    title: 'hazard.electrical.title',
+    keywords: keywords(
+      'live (?:conductors?|parts?|terminals?|wires?|working)', 'energi[sz]ed', 'busbar', 'MCCB', 'MCB', 'RCD', 'breaker',
+      'distribution board', 'switchgear', 'MCC', 'control panel', 'electrical panel', 'isolator', 'contactor', 'terminal', 'cable', 'wiring',
+      'umeme', 'waya', 'nyaya', 'kebo', 'swichi',
+      'sous tension', '(?:armoire|tableau|coffret) électrique', 'disjoncteur', 'câbles?', 'câblage', 'contacteur', 'sectionneur', 'jeu de barres', 'bornes?',
+      'energizad[oa]s?', 'em tensão', '(?:quadro|painel) elétrico', 'disjuntor', 'cabos?', 'cablagem', 'fiação', 'contator', 'seccionador', 'barramento',
+      `${AR}لوح\\p{L}* (?:ال)?كهربا\\p{L}*`, `${AR}قاطع\\p{L}*`, `${AR}كابل\\p{L}*`, `${AR}أسلاك`, `${AR}تمديدات`, 'تحت الجهد', `${AR}موصلات`
+    ),
+    quantities: found => inDimension(found, 'voltage', v => v >= ELV_LIMIT_V && v < HV_LIMIT_V),
+    isolation: [
+      'hazard.electrical.sources',
+      'hazard.electrical.lock',
+      'hazard.electrical.prove',
+      'hazard.electrical.discharge'
+    ],
+    ppe: ['hazard.electrical.arcClothing', 'hazard.electrical.gloves', 'hazard.electrical.footwear'],
+    permits: ['hazard.electrical.permit']
+  },
+  {
+    id: 'confined-space',
+    title: 'hazard.confinedSpace.title',
+    keywords: keywords(
+      'confined space', 'tank entry', 'vessel entry', 'manhole', 'sump', 'silo', 'sewer', 'culvert', 'crawl ?space', 'inside the (?:tank|vessel|pit)',
+      'ndani ya tanki', 'nafasi finyu', 'shimo la maji taka',
+      'espace confiné', 'puisard', 'égout', 'fosse', '(?:à l[\'’])?intérieur (?:du réservoir|de la cuve)',
+      'espaço confinado', 'poço de visita', 'esgoto', 'fossa', 'dentro do (?:tanque|reservatório)',
+      `${AR}(?:مكان|أماكن) (?:ال)?محصور\\p{L}*`, 'داخل الخزان', `${AR}بالوعة`, `${AR}غرفة (?:ال)?تفتيش`
+    ),
+    isolation: [
+      'hazard.confinedSpace.isolate',
+      'hazard.confinedSpace.atmosphere',
+      'hazard.confinedSpace.attendant'
+    ],
+    ppe: ['hazard.confinedSpace.monitor', 'hazard.confinedSpace.harness', 'hazard.confinedSpace.escape'],
+    permits: ['hazard.confinedSpace.permit', 'hazard.gasTestCertificate']
+  },
+  {
+    id: 'pressure',
+    title: 'hazard.pressure.title',
+    keywords: keywords(
+      'pressure vessel', 'air receiver', 'boiler', 'autoclave', 'steam', 'compressed air', 'hydraulic', 'accumulator', 'pneumatic',
+      'shinikizo', 'boila', 'mvuke',
+      'appareil à pression', 'récipient sous pression', 'réservoir d[\'’]air', 'chaudière', 'vapeur', 'air comprimé', 'hydraulique', 'accumulateur', 'pneumatique',
+      'vaso de pressão', 'reservatório de ar', 'caldeira', 'vapor', 'ar comprimido', 'hidráulic[oa]', 'acumulador', 'pneumátic[oa]',
+      `${AR}(?:وعاء|أوعية) (?:ال)?ضغط`, `${AR}مرجل`, `${AR}غلاية`, `${AR}بخار`, `${AR}هواء (?:ال)?مضغوط`, `${AR}هيدروليك\\p{L}*`
+    ),
+    quantities: found => inDimension(found, 'pressure', p => p >= PRESSURE_LIMIT_PA),
+    isolation: [
+      'hazard.pressure.valves',
+      'hazard.pressure.vent',
+      'hazard.pressure.tagged'
+    ],
+    ppe: ['hazard.pressure.faceShield', 'hazard.pressure.gloves'],
+    permits: ['hazard.lineBreakingPermit']
+  },
+  {
+    id: 'flammable-atmosphere',
+    title: 'hazard.flammable.title',
+    keywords: keywords(
+      'gas leak', 'LPG', 'natural gas', 'petrol', 'gasoline', 'crude', 'wellhead', 'flare', 'fuel (?:tank|depot|station)', 'vapou?r', 'ATEX',
+      'hazardous area', 'zone [012]',
+      'gesi', 'petroli', 'uvujaji wa gesi',
+      'fuite de gaz', 'GPL', 'gaz naturel', '[dl][\'’]essence', 'tête de puits', 'torchère', 'vapeurs', 'zone dangereuse',
+      '(?:fuga|vazamento) de gás', 'GLP', 'gás natural', 'gasolina', 'cabeça de poço', 'vapores', 'área classificada',
+      `${AR}تسرب (?:ال)?غاز`, `${AR}غاز (?:ال)?طبيعي`, `${AR}بنزين`, `${AR}أبخرة`, `${AR}منطقة (?:ال)?خطرة`, `${AR}رأس (?:ال)?بئر`
+    ),
+    isolation: [
+      'hazard.flammable.depressurise',
+      'hazard.flammable.gasTest',
+      'hazard.flammable.ignition'
+    ],
+    ppe: ['hazard.flammable.coveralls', 'hazard.flammable.monitor', 'hazard.flammable.footwear'],
+    permits: ['hazard.flammable.permit', 'hazard.gasTestCertificate']
+  },
+  {
+    id: 'hot-work',
+    title: 'hazard.hotWork.title',
+    keywords: keywords(
+      'weld(?:ing)?', 'braz(?:e|ing)', 'solder(?:ing)?', 'cutting torch', 'oxy[- ]?acetylene', 'oxy[- ]?fuel', 'grind(?:ing|er)?', 'hot work',
+      'flame cutting', 'plasma cut',
+      'kulehemu', 'kuchomelea', 'uchomeleaji',
+      'soud(?:er|ure|age)', 'bras(?:er|age)', 'chalumeau', 'oxyacétyl\\p{L}*', 'meul(?:er|age|euse)', 'point chaud', 'découpe plasma',
+      'sold(?:a|ar|agem)', 'brasagem', 'maçarico', 'oxiacetil\\p{L}*', 'esmerilh\\p{L}*', 'rebarbadora', 'trabalho a quente', 'corte a plasma',
+      `${AR}لحام`, `${AR}تجليخ`, `${AR}جلاخة`, `${AR}(?:أعمال|عمل) (?:ال)?ساخن\\p{L}*`, 'قطع بالغاز'
+    ),
+    isolation: [
+      'hazard.hotWork.combustibles',
+      'hazard.hotWork.gasTest',
+      'hazard.hotWork.fireWatch'
+    ],
+    ppe: ['hazard.hotWork.helmet', 'hazard.hotWork.clothing'],
+    permits: ['hazard.hotWork.permit']
+  },
+  {
+    id: 'chemical',
+    title: 'hazard.chemical.title',
+    keywords: keywords(
+      'caustic', 'NaOH', 'sodium hydroxide', 'acid', 'H2SO4', 'HCl', 'hypochlorite', 'chlorine', 'ammonia', 'solvent', 'corrosive', 'toxic', 'H2S',
+      'hydrocarbon', 'fuel', 'diesel', 'dosing',
+      'kemikali', 'tindikali', 'sumu',
+      'soude caustique', 'caustique', 'acide', 'chlore', 'ammoniac', 'solvant', 'corrosi(?:f|ve)', 'toxique', 'hydrocarbure', 'carburant', 'gazole', 'dosage',
+      'soda cáustica', 'cáustic[oa]', 'ácido', 'hipoclorito', 'cloro', 'amónia', 'amônia', 'solvente', 'corrosiv[oa]', 'tóxic[oa]', 'hidrocarboneto',
+      'combustível', 'gasóleo', 'dosagem',
+      `${AR}(?:حمض|أحماض)`, `${AR}صودا (?:ال)?كاوية`, `${AR}كلور`, `${AR}أمونيا`, `${AR}مذيب\\p{L}*`, `${AR}أكال\\p{L}*`, `${AR}كيميائي\\p{L}*`,
+      `${AR}ديزل`, `${AR}وقود`
+    ),
+    isolation: [
+      'hazard.chemical.sds',
+      'hazard.chemical.drain',
+      'hazard.chemical.eyewash'
+    ],
+    ppe: ['hazard.chemical.goggles', 'hazard.chemical.gloves', 'hazard.chemical.respirator'],
+    permits: ['hazard.lineBreakingPermit']
+  },
+  {
+    id: 'rotating-machinery',
+    title: 'hazard.rotating.title',
+    keywords: keywords(
+      'pump', 'motor', 'conveyor', 'fan', 'compressor', 'gearbox', 'coupling', 'shaft', 'turbine', 'agitator', 'mixer', 'belt drive',
+      'pampu', 'injini', 'mota', 'feni',
+      'pompe', 'moteur', 'convoyeur', 'ventilateur', 'compresseur', 'réducteur', 'accouplement', 'arbre', 'agitateur', 'mélangeur',
+      'bomba', 'transportador', 'ventilador', 'redutor', 'acoplamento', 'veio', 'eixo', 'turbina', 'agitador', 'misturador',
+      `${AR}مضخة`, `${AR}محرك`, `${AR}(?:سير|حزام) (?:ال)?ناقل`, `${AR}مروحة`, `${AR}ضاغط`, `${AR}علبة (?:ال)?تروس`, `${AR}قارنة`, `${AR}توربين`, `${AR}خلاط`
+    ),
+    quantities: found => found.filter(q => q.unit === 'rpm' && q.value > 0).map(q => formatQuantity(q)),
+    isolation: [
+      'hazard.rotating.isolate',
+      'hazard.rotating.tryStart',
+      'hazard.rotating.block'
+    ],
+    ppe: ['hazard.rotating.clothing', 'hazard.rotating.glasses'],
+    permits: []
+  },
+  {
+    id: 'work-at-height',
+    title: 'hazard.height.title',
+    keywords: keywords(
+      'ladder', 'scaffold(?:ing)?', 'roof', 'at height', 'MEWP', 'cherry picker', 'mast', 'tower', 'gantry', 'elevated platform',
+      'ngazi', 'jukwaa', 'paa', 'mnara', 'kwenye urefu',
+      'échelle', 'échafaudage', 'toit(?:ure)?', 'en hauteur', 'nacelle', 'mât', 'pylône', 'passerelle',
+      'escada', 'andaime', 'telhado', 'em altura', 'plataforma elevatória', 'mastro', 'torre',
+      `${AR}سلم`, `${AR}سقال\\p{L}*`, 'على ارتفاع', `${AR}برج`, `${AR}رافعة (?:ال)?سلة`, `${AR}صاري`
+    ),
+    isolation: ['hazard.height.platform', 'hazard.height.barrier'],
+    ppe: ['hazard.height.harness', 'hazard.height.helmet'],
+    permits: ['hazard.height.permit']
+  },
+  {
+    id: 'excavation',
+    title: 'hazard.excavation.title',
+    keywords: keywords(
+      'excavat(?:e|ion)', 'trench', 'collapse', 'propping', 'shoring', 'underpin(?:ning)?', 'structural crack',
+      'kuchimba', 'mtaro', 'kuporomoka',
+      'tranchée', 'effondrement', 'étaiement', 'étayage', 'reprise en sous-œuvre', 'fissure structurelle',
+      'escavação', 'vala', 'trincheira', 'colapso', 'escoramento', 'fissura estrutural',
+      `${AR}حفري\\p{L}*`, `${AR}خندق`, `${AR}انهيار`, `${AR}تدعيم`, `${AR}شرخ (?:ال)?إنشائي`
+    ),
+    isolation: ['hazard.excavation.services', 'hazard.excavation.shore', 'hazard.excavation.cordon'],
+    ppe: ['hazard.excavation.ppe'],
+    permits: ['hazard.excavation.permit']
+  }
+];
+
+// The text the rules run over. The model's safetyCheck is deliberately left out: the engine must reach
+// its own conclusion from what the technician reported and what they are being told to do.
+const scannedText = (solution: Pick<ProblemSolution, 'query' | 'variables' | 'steps'>) => [
+  solution.query,
+  ...Object.entries(solution.variables || {}).map(([key, value]) => `${key}: ${value}`),
+  ...(solution.steps || [])
+].join('\n');
+
+// The discipline's safety rules apply to every job in it, triggered by the work itself when nothing in the text does
+export const assessHazards = (
+  solution: Pick<ProblemSolution, 'field' | 'query' | 'variables' | 'steps'>,
+  language: Language = DEFAULT_LANGUAGE
+): Hazard[] => {
+  const { t } = getTranslator(language);
+  const text = scannedText(solution);
+  const discipline = getDiscipline(solution.field);
+  const found = [
+    ...extractQuantities(text),
+    ...Object.values(solution.variables || {}).map(value => parseQuantityValue(String(value))).filter(Boolean) as Quantity[]
+  ];
+
+  const hazards = RULES
+    .map(rule => {
+      const keyword = rule.keywords && text.match(rule.keywords)?.[0];
+      const values = rule.quantities ? Array.from(new Set(rule.quantities(found))) : [];
+      const triggers = [...values, ...(keyword ? [keyword.toLowerCase()] : [])];
+      if (triggers.length === 0 && discipline.safetyRules.includes(rule.id)) {
+        triggers.push(t('hazard.disciplineWork', { discipline: disciplineName(discipline.id, language) }).toLowerCase());
+      }
+      return triggers.length > 0
+        ? {
+            id: rule.id,
+            title: t(rule.title),
+            triggers,
+            isolation: rule.isolation.map(key => t(key)),
+            ppe: rule.ppe.map(key => t(key)),
+            permits: rule.permits.map(key => t(key))
+          }
+        : null;
+    })
+    .filter(Boolean) as Hazard[];
+
+  // The HV procedure supersedes the LV one on the same job
+  return hazards.some(hazard => hazard.id === 'high-voltage')
+    ? hazards.filter(hazard => hazard.id !== 'electrical')
+    : hazards;
+};
+
+// Hazards the technician has not yet acknowledged; new hazards introduced by a follow-up re-lock the steps
+export const unacknowledgedHazards = (solution: ProblemSolution, hazards: Hazard[]) =>
+  hazards.filter(hazard => !solution.safetyAcknowledgement?.hazards.includes(hazard.id));
+
+// Every control across the hazards, de-duplicated, for the combined checklist
+export const combinedChecklist = (hazards: Hazard[]) => ({
+  isolation: Array.from(new Set(hazards.flatMap(hazard => hazard.isolation))),
+  ppe: Array.from(new Set(hazards.flatMap(hazard => hazard.ppe))),
+  permits: Array.from(new Set(hazards.flatMap(hazard => hazard.permits)))
+});
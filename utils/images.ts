@@ -0,0 +1,120 @@
+import { ImageAttachment } from "../types";
+
+// Longest edge sent to the model; nameplate text stays legible while uploads stay small on site data plans
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.82;
+// Images already this small and within MAX_DIMENSION are sent untouched
+const PASSTHROUGH_BYTES = 400 * 1024;
+
+export const MAX_ATTACHMENTS = 6;
+
+export const IMAGE_LABELS = ['Overview', 'Nameplate', 'Damage', 'Wiring', 'Reading'] as const;
+
+// Formats every browser can decode; a file in one of these that fails to load is damaged, not unsupported
+const DECODABLE_EVERYWHERE = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Thrown for a photo in a format this browser cannot decode, such as HEIC outside Safari
+export class UnsupportedImageError extends Error {
+  // Short format name for the message, e.g. "HEIC"
+  format: string;
+
+  constructor(mimeType: string) {
+    const format = mimeType.replace(/^image\//, '').toUpperCase();
+    super(`${format} images cannot be decoded by this browser.`);
+    this.name = 'UnsupportedImageError';
+    this.format = format;
+  }
+}
+
+const SIGNATURES: { mimeType: string; test: (bytes: Uint8Array) => boolean }[] = [
+  { mimeType: 'image/jpeg', test: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mimeType: 'image/png', test: b => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { mimeType: 'image/gif', test: b => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 },
+  { mimeType: 'image/webp', test: b => String.fromCharCode(...b.slice(0, 4)) === 'RIFF' && String.fromCharCode(...b.slice(8, 12)) === 'WEBP' },
+  { mimeType: 'image/heic', test: b => String.fromCharCode(...b.slice(4, 8)) === 'ftyp' && /^hei|^mif/.test(String.fromCharCode(...b.slice(8, 11))) }
+];
+
+// Sniffs the real format from the file header; browsers report an empty or wrong type for renamed files
+export const detectMimeType = async (blob: Blob): Promise<string | undefined> => {
+  const bytes = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+  return SIGNATURES.find(signature => signature.test(bytes))?.mimeType;
+};
+
+const readAsDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The selected file could not be decoded as an image.'));
+    img.src = src;
+  });
+
+export const createAttachmentId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Draws a source onto a canvas no larger than MAX_DIMENSION and encodes it as JPEG
+export const encodeCanvas = (
+  source: CanvasImageSource,
+  width: number,
+  height: number
+): Pick<ImageAttachment, 'dataUrl' | 'mimeType' | 'width' | 'height'> => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+
+  const ctx = canvas.getContext('2d')!;
+  // JPEG has no alpha; flatten transparent PNGs onto white rather than black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  return { dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY), mimeType: 'image/jpeg', width: canvas.width, height: canvas.height };
+};
+
+// Downscales and recompresses a photo before it is stored or sent. Small images in a format every
+// provider accepts keep their original bytes; everything else is re-encoded as JPEG. That needs the
+// browser to decode the file first: HEIC, the iPhone camera default, only decodes in Safari, so
+// elsewhere it is rejected with an UnsupportedImageError.
+export const prepareImage = async (blob: Blob, label?: string): Promise<ImageAttachment> => {
+  const mimeType = await detectMimeType(blob) || blob.type;
+  if (!mimeType.startsWith('image/')) throw new Error('Only image files can be attached.');
+
+  const original = await readAsDataUrl(blob);
+  const img = await loadImage(original).catch(err => {
+    throw DECODABLE_EVERYWHERE.includes(mimeType) ? err : new UnsupportedImageError(mimeType);
+  });
+  const { naturalWidth: width, naturalHeight: height } = img;
+
+  const passthrough = ['image/jpeg', 'image/png', 'image/webp'].includes(mimeType)
+    && blob.size <= PASSTHROUGH_BYTES
+    && Math.max(width, height) <= MAX_DIMENSION;
+
+  const encoded = passthrough
+    // Re-label the data URL with the sniffed type in case the browser guessed wrong
+    ? { dataUrl: original.replace(/^data:[^;,]*/, `data:${mimeType}`), mimeType, width, height }
+    : encodeCanvas(img, width, height);
+
+  return { id: createAttachmentId(), ...encoded, label };
+};
+
+// Legacy records stored a single data URL; the MIME type is read back from its header
+export const attachmentFromDataUrl = (dataUrl: string, label?: string): ImageAttachment => ({
+  id: createAttachmentId(),
+  dataUrl,
+  mimeType: dataUrl.match(/^data:([^;,]+)/)?.[1] || 'image/jpeg',
+  width: 0,
+  height: 0,
+  label
+});
+
+// Lists the labelled photos so the model can refer to them by number
+export const describeAttachments = (images: ImageAttachment[]) => images.length > 0
+  ? `Attached photos (in order): ${images.map((image, i) => `${i + 1}. ${image.label || 'Unlabelled'}`).join('; ')}.`
+  : '';
@@ -0,0 +1,207 @@
+import { Asset, DiagnosticNode, FollowUpTask, Language, ProblemSolution, WorkOrder } from "../types";
+import { isSafetyCritical } from "./safety";
+import { assessHazards, combinedChecklist, unacknowledgedHazards } from "./hazards";
+import { followUpTasks } from "./followUps";
+import { escapeHtml } from "./print";
+import { MessageKey, Translator, getTranslator } from "../i18n";
+import { disciplineName, subDisciplineName } from "./disciplines";
+
+const checklist = (items: string[]) =>
+  `<ul class="checklist">${items.map(item => `<li><span class="box"></span>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+// Follow-ups print with their due date; ones already ticked off in the app print ticked, with the note
+const followUpList = (tasks: FollowUpTask[], { formatDate }: Translator) =>
+  `<ul class="checklist">${tasks.map(task => task.completion
+    ? `<li><span class="box">✓</span>${escapeHtml(task.item)}${task.completion.note ? ` <small>— ${escapeHtml(task.completion.note)}</small>` : ''}</li>`
+    : `<li><span class="box"></span>${escapeHtml(task.item)} <small>(${escapeHtml(formatDate(task.dueAt))})</small></li>`
+  ).join('')}</ul>`;
+
+const treeRows = (nodes: DiagnosticNode[], translator: Translator, depth = 0): string =>
+  nodes.map(node => `
+    <tr>
+      <td style="padding-left:${8 + depth * 16}px">${escapeHtml(node.hypothesis)}</td>
+      <td>${escapeHtml(node.test)}</td>
+      <td class="result">${node.outcome && node.outcome !== 'not-run'
+        ? `${translator.t(node.outcome === 'passed' ? 'tree.passed' : 'tree.failed').toUpperCase()}${node.reading ? `<br/><small>${escapeHtml(node.reading)}</small>` : ''}`
+        : `<span class="box"></span> ${translator.t('tree.passed')} &nbsp; <span class="box"></span> ${translator.t('tree.failed')}`}</td>
+    </tr>
+    ${treeRows(node.children || [], translator, depth + 1)}`).join('');
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', Arial, sans-serif; color: #0f172a; font-size: 11px; line-height: 1.45; margin: 0; }
+  h1 { font-size: 18px; margin: 0; }
+  h2 { font-size: 11px; text-transform: uppercase; letter-spacing: 0.06em; color: #334155; border-bottom: 1px solid #cbd5e1; padding-bottom: 3px; margin: 16px 0 6px; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #059669; padding-bottom: 8px; }
+  .meta { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4px 16px; margin-top: 10px; }
+  .meta div span { color: #64748b; text-transform: uppercase; font-size: 9px; display: block; }
+  .safety { border: 2px solid #d97706; background: #fffbeb; padding: 8px; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; font-size: 9px; text-transform: uppercase; }
+  td.result { width: 110px; white-space: nowrap; }
+  .box { display: inline-block; width: 10px; height: 10px; font-size: 9px; line-height: 10px; text-align: center; border: 1px solid #334155; margin-right: 6px; vertical-align: middle; }
+  .checklist { list-style: none; padding: 0; margin: 0; }
+  .checklist li { padding: 3px 0; border-bottom: 1px dotted #cbd5e1; }
+  .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; }
+  .gallery { display: grid; grid-template-columns: repeat(3, 1fr); gap: 8px; }
+  .gallery figure { margin: 0; }
+  .gallery figcaption { font-size: 9px; color: #64748b; text-transform: uppercase; }
+  .photo { width: 100%; max-height: 180px; object-fit: contain; border: 1px solid #cbd5e1; }
+  .verdict { border: 1px solid #059669; background: #ecfdf5; padding: 8px; font-size: 12px; font-weight: 600; }
+  .signoff { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; margin-top: 24px; page-break-inside: avoid; }
+  .signoff div { border: 1px solid #94a3b8; padding: 8px; }
+  .line { border-bottom: 1px solid #334155; height: 22px; margin-bottom: 6px; }
+  .line-label { font-size: 9px; color: #64748b; text-transform: uppercase; }
+  section { page-break-inside: avoid; }
+`;
+
+export const buildJobCardHtml = (
+  solution: ProblemSolution,
+  language: Language,
+  workOrder?: WorkOrder,
+  asset?: Asset
+): string => {
+  const translator = getTranslator(language);
+  const { t, formatDateTime, formatNumber, locale } = translator;
+  const hazards = assessHazards(solution, language);
+  // Steps stay off paper until the controls are acknowledged, as they do on screen
+  const stepsLocked = unacknowledgedHazards(solution, hazards).length > 0;
+  const controls = combinedChecklist(hazards);
+  const followUps = followUpTasks(solution);
+
+  const signBlock = (role: MessageKey) => `
+    <div>
+      <strong>${t(role)}</strong>
+      <div class="line"></div><div class="line-label">${t('jobCard.name')}</div>
+      <div class="line"></div><div class="line-label">${t('jobCard.signature')}</div>
+      <div class="line"></div><div class="line-label">${t('jobCard.date')}</div>
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html lang="${locale.code}" dir="${locale.dir}">
+<head>
+  <meta charset="UTF-8" />
+  <title>OmniENG53 ${t('jobCard.title')} ${escapeHtml(solution.id.slice(-8))}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>OmniENG53 · ${t('jobCard.title')}</h1>
+      <div>${t('jobCard.reference')}: <strong>${escapeHtml(solution.id.slice(-8))}</strong></div>
+    </div>
+    <div>${t('jobCard.confidence')}: ${formatNumber(solution.confidence, { style: 'percent' })}</div>
+  </header>
+
+  <div class="meta">
+    <div><span>${t('jobCard.date')}</span>${escapeHtml(formatDateTime(solution.timestamp))}</div>
+    <div><span>${t('jobCard.discipline')}</span>${escapeHtml(disciplineName(solution.field, language))}${solution.subDiscipline ? ` · ${escapeHtml(subDisciplineName(solution.field, solution.subDiscipline, language))}` : ''}</div>
+    <div><span>${t('jobCard.estTime')}</span>${escapeHtml(solution.timeToComplete || '--')}</div>
+    <div><span>${t('jobCard.workOrder')}</span>${workOrder ? `${escapeHtml(workOrder.number)} · ${escapeHtml(workOrder.client)}` : '--'}</div>
+    <div><span>${t('jobCard.asset')}</span>${escapeHtml(asset ? `${asset.id} · ${asset.type}` : solution.assetId || '--')}</div>
+  </div>
+
+  <section>
+    <h2>${t('jobCard.problem')}</h2>
+    <p>${escapeHtml(solution.query)}</p>
+    ${solution.images?.length ? `
+    <div class="gallery">${solution.images.map((image, i) => `
+      <figure>
+        <img class="photo" src="${image.dataUrl}" alt="${t('jobCard.photo')} ${i + 1}" />
+        <figcaption>${i + 1}. ${escapeHtml(image.label || t('jobCard.photo'))}</figcaption>
+      </figure>`).join('')}
+    </div>` : ''}
+  </section>
+
+  ${isSafetyCritical(solution.safetyCheck) ? `
+  <section>
+    <h2>${t('jobCard.safety')}</h2>
+    <div class="safety">${escapeHtml(solution.safetyCheck || '')}</div>
+  </section>` : ''}
+
+  ${hazards.length ? `
+  <section>
+    <h2>${t('jobCard.hazards')}: ${hazards.map(hazard => escapeHtml(hazard.title)).join(' · ')}</h2>
+    <div class="columns">
+      <div><h2>${t('jobCard.isolation')}</h2>${checklist(controls.isolation)}</div>
+      <div><h2>${t('jobCard.ppe')}</h2>${checklist(controls.ppe)}${controls.permits.length ? `<h2>${t('jobCard.permits')}</h2>${checklist(controls.permits)}` : ''}</div>
+    </div>
+    ${solution.safetyAcknowledgement ? `<p><small>${t('jobCard.acknowledged')}: ${escapeHtml(solution.safetyAcknowledgement.technician || '--')} · ${escapeHtml(formatDateTime(solution.safetyAcknowledgement.acknowledgedAt))}</small></p>` : ''}
+  </section>` : ''}
+
+  ${solution.diagnosticTree?.length ? `
+  <section>
+    <h2>${t('jobCard.diagnostics')}</h2>
+    <table>
+      <thead><tr><th>${t('jobCard.hypothesis')}</th><th>${t('jobCard.test')}</th><th>${t('jobCard.result')}</th></tr></thead>
+      <tbody>${treeRows(solution.diagnosticTree, translator)}</tbody>
+    </table>
+  </section>` : ''}
+
+  <section>
+    <h2>${t('jobCard.steps')}</h2>
+    ${stepsLocked ? `<div class="safety">${t('jobCard.stepsWithheld')}</div>` : `
+    <table>
+      <thead><tr><th style="width:28px">#</th><th></th><th style="width:60px">${t('jobCard.done')}</th></tr></thead>
+      <tbody>${solution.steps.map((step, i) => `
+        <tr><td>${String(i + 1).padStart(2, '0')}</td><td>${escapeHtml(step)}</td><td><span class="box"></span></td></tr>`).join('')}
+      </tbody>
+    </table>`}
+  </section>
+
+  ${solution.calculations?.length ? `
+  <section>
+    <h2>${t('jobCard.calculations')}</h2>
+    <table>
+      <thead><tr><th></th><th>${t('jobCard.inputs')}</th><th>${t('jobCard.outputs')}</th></tr></thead>
+      <tbody>${solution.calculations.map(record => `
+        <tr>
+          <td>${escapeHtml(record.label)}<br/><small>${escapeHtml(record.formula)}</small></td>
+          <td>${Object.entries(record.inputs).map(([name, value]) => `${escapeHtml(name)}: ${escapeHtml(value)}`).join('<br/>')}</td>
+          <td><strong>${Object.entries(record.outputs).map(([name, value]) => `${escapeHtml(name)}: ${escapeHtml(value)}`).join('<br/>')}</strong></td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+  </section>` : ''}
+
+  ${solution.billOfMaterials?.length ? `
+  <section>
+    <h2>${t('jobCard.bom')}</h2>
+    <table>
+      <thead><tr><th>${t('jobCard.item')}</th><th>${t('jobCard.spec')}</th><th>${t('jobCard.qty')}</th><th>${t('jobCard.priority')}</th></tr></thead>
+      <tbody>${solution.billOfMaterials.map(item => `
+        <tr>
+          <td>${escapeHtml(item.itemName)}</td>
+          <td>${escapeHtml(item.specification)}</td>
+          <td>${escapeHtml(item.quantity)}</td>
+          <td>${escapeHtml(t(`bom.priority.${item.priority.toLowerCase()}` as MessageKey))}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+  </section>` : ''}
+
+  <section class="columns">
+    <div>
+      <h2>${t('jobCard.followUp24h')}</h2>
+      ${followUpList(followUps.filter(task => task.window === '24h'), translator)}
+    </div>
+    <div>
+      <h2>${t('jobCard.followUp7d')}</h2>
+      ${followUpList(followUps.filter(task => task.window === '7d'), translator)}
+    </div>
+  </section>
+
+  <section>
+    <h2>${t('jobCard.verdict')}</h2>
+    <div class="verdict">${escapeHtml(solution.finalResult)}</div>
+  </section>
+
+  <section class="signoff">
+    ${signBlock('jobCard.technician')}
+    ${signBlock('jobCard.supervisor')}
+  </section>
+</body>
+</html>`;
+};
@@ -0,0 +1,57 @@
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+const closeStack = (stack: string[]) => stack.map(open => CLOSERS[open]).reverse().join('');
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Best-effort parse of a JSON document that is still being streamed. Open strings,
+// arrays and objects are closed; if that is not enough (e.g. a dangling key), the
+// text is cut back to the last complete member.
+export const parsePartialJSON = (text: string): unknown => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastCut = -1;
+  let lastCutStack: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char);
+    else if (char === '}' || char === ']') {
+      stack.pop();
+      lastCut = i + 1;
+      lastCutStack = [...stack];
+    } else if (char === ',' && stack.length > 0) {
+      lastCut = i;
+      lastCutStack = [...stack];
+    }
+  }
+
+  if (stack.length === 0) return tryParse(text);
+
+  let head = text;
+  if (inString) {
+    // Drop a dangling escape so the closing quote is not swallowed
+    head = (escaped ? head.slice(0, -1) : head) + '"';
+  }
+
+  const closed = tryParse(head + closeStack(stack));
+  if (closed !== undefined) return closed;
+
+  return lastCut > 0 ? tryParse(text.slice(0, lastCut) + closeStack(lastCutStack)) : undefined;
+};
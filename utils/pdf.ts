@@ -0,0 +1,338 @@
+// Minimal PDF text extraction for indexing manuals: enough of the format to walk the page tree,
+// inflate Flate-compressed content streams and decode text through the fonts' ToUnicode maps.
+// Scanned (image-only) pages yield no text; layout is approximated with line breaks.
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+type CMap = { codeLength: number; map: Map<number, string> };
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return result;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decodeStream = async ({ dict, stream }: PdfObject): Promise<Uint8Array | undefined> => {
+  if (!stream) return undefined;
+  const filter = dict.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+  if (!filter) return stream;
+  if (filter !== 'FlateDecode') return undefined;
+  try {
+    return await inflate(stream);
+  } catch {
+    // Truncated or corrupt stream: skip it rather than fail the whole document
+    return undefined;
+  }
+};
+
+const parseObjects = async (bytes: Uint8Array): Promise<Map<number, PdfObject>> => {
+  const text = toBinaryString(bytes);
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  for (let match = header.exec(text); match; match = header.exec(text)) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endobj', start);
+    if (end < 0) break;
+
+    const body = text.slice(start, end);
+    const streamAt = body.search(/\bstream\r?\n/);
+    if (streamAt < 0) {
+      objects.set(Number(match[1]), { dict: body });
+    } else {
+      const dataStart = start + streamAt + body.slice(streamAt).indexOf('\n') + 1;
+      const dataEnd = text.lastIndexOf('endstream', end);
+      objects.set(Number(match[1]), {
+        dict: body.slice(0, streamAt),
+        stream: bytes.subarray(dataStart, text.slice(dataStart, dataEnd).replace(/\r?\n$/, '').length + dataStart)
+      });
+    }
+    header.lastIndex = end;
+  }
+
+  // PDF 1.5+ packs small objects (often the pages themselves) into compressed object streams
+  for (const object of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const data = await decodeStream(object);
+    if (!data) continue;
+
+    const content = toBinaryString(data);
+    const count = Number(object.dict.match(/\/N\s+(\d+)/)?.[1] || 0);
+    const first = Number(object.dict.match(/\/First\s+(\d+)/)?.[1] || 0);
+    const pairs = content.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const offset = first + pairs[i * 2 + 1];
+      const next = i + 1 < count ? first + pairs[i * 2 + 3] : content.length;
+      if (!objects.has(pairs[i * 2])) objects.set(pairs[i * 2], { dict: content.slice(offset, next) });
+    }
+  }
+
+  return objects;
+};
+
+const refsIn = (value: string) => [...value.matchAll(/(\d+)\s+\d+\s+R/g)].map(match => Number(match[1]));
+
+// The value of a dictionary entry, following it if it is an indirect reference
+const entry = (objects: Map<number, PdfObject>, dict: string, key: string): string | undefined => {
+  const at = dict.search(new RegExp(`/${key}\\b`));
+  if (at < 0) return undefined;
+  const rest = dict.slice(at + key.length + 1).trimStart();
+
+  const ref = rest.match(/^(\d+)\s+\d+\s+R/);
+  if (ref) return objects.get(Number(ref[1]))?.dict;
+
+  const open = rest[0] === '<' && rest[1] === '<' ? '<<' : rest[0] === '[' ? '[' : undefined;
+  if (!open) return rest.match(/^[^\/\s>\]]+|^\/\w+/)?.[0];
+
+  // Balanced << >> or [ ] block
+  const close = open === '<<' ? '>>' : ']';
+  let depth = 0;
+  for (let i = 0; i < rest.length; i++) {
+    if (rest.startsWith(open, i)) depth++;
+    else if (rest.startsWith(close, i) && --depth === 0) return rest.slice(0, i + close.length);
+  }
+  return rest;
+};
+
+const parseCMap = (source: string): CMap => {
+  const map = new Map<number, string>();
+  const hexToString = (hex: string) => {
+    let result = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return result;
+  };
+
+  for (const block of source.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, code, unicode] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      map.set(parseInt(code, 16), hexToString(unicode));
+    }
+  }
+  for (const block of source.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, from, to, target] of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g)) {
+      const start = parseInt(from, 16);
+      const targets = target.startsWith('[') ? [...target.matchAll(/<([0-9a-fA-F]+)>/g)].map(match => match[1]) : undefined;
+      for (let code = start; code <= parseInt(to, 16); code++) {
+        if (targets) {
+          if (targets[code - start]) map.set(code, hexToString(targets[code - start]));
+        } else {
+          const base = target.slice(1, -1);
+          const value = hexToString(base);
+          map.set(code, value.slice(0, -1) + String.fromCharCode(value.charCodeAt(value.length - 1) + code - start));
+        }
+      }
+    }
+  }
+
+  const codespace = source.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  return { codeLength: codespace ? codespace[1].length / 2 : 1, map };
+};
+
+const decodeText = (raw: string, cmap?: CMap) => {
+  if (!cmap) return raw;
+  let result = '';
+  for (let i = 0; i + cmap.codeLength <= raw.length; i += cmap.codeLength) {
+    let code = 0;
+    for (let j = 0; j < cmap.codeLength; j++) code = code * 256 + raw.charCodeAt(i + j);
+    result += cmap.map.get(code) ?? '';
+  }
+  return result;
+};
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Sticky patterns, matched in place at the tokenizer's position instead of on copies of the stream
+const OCTAL = /[0-7]{1,3}/y;
+const NAME = /\/[^\s\/\[\]()<>{}%]*/y;
+const NUMBER = /[+-]?(\d*\.\d+|\d+\.?)/y;
+const OPERATOR = /[^\s\/\[\]()<>{}%]+|[\s\S]/y;
+
+const matchAt = (pattern: RegExp, content: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(content)?.[0];
+};
+
+// Reads a ( ) literal starting at `start`; returns the raw bytes as a binary string and the end index
+const readLiteral = (content: string, start: number): [string, number] => {
+  let depth = 0;
+  let value = '';
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[++i];
+      const octal = matchAt(OCTAL, content, i);
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal, 8));
+        i += octal.length - 1;
+      } else if (next !== '\n' && next !== '\r') {
+        value += ESCAPES[next] ?? next;
+      }
+    } else if (char === '(') {
+      if (depth++ > 0) value += char;
+    } else if (char === ')') {
+      if (--depth === 0) return [value, i + 1];
+      value += char;
+    } else {
+      value += char;
+    }
+  }
+  return [value, content.length];
+};
+
+const readHex = (content: string, start: number): [string, number] => {
+  const close = content.indexOf('>', start);
+  const end = close < 0 ? content.length : close;
+  const hex = content.slice(start + 1, end).replace(/\s/g, '');
+  let value = '';
+  for (let i = 0; i < hex.length; i += 2) value += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+  return [value, end + 1];
+};
+
+// Runs the text operators of a content stream; everything else is skipped
+const extractText = (content: string, fonts: Map<string, CMap | undefined>) => {
+  let text = '';
+  let font: CMap | undefined;
+  let operands: (string | number | (string | number)[])[] = [];
+  let array: (string | number)[] | null = null;
+
+  const push = (value: string | number) => {
+    if (array) array.push(value);
+    else operands.push(value);
+  };
+
+  for (let i = 0; i < content.length;) {
+    const char = content[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '%') {
+      i = content.indexOf('\n', i) < 0 ? content.length : content.indexOf('\n', i);
+    } else if (char === '(') {
+      const [value, end] = readLiteral(content, i);
+      push(value);
+      i = end;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const [value, end] = readHex(content, i);
+      push(value);
+      i = end;
+    } else if (char === '[') {
+      array = [];
+      i++;
+    } else if (char === ']') {
+      if (array) operands.push(array);
+      array = null;
+      i++;
+    } else if (char === '/') {
+      const name = matchAt(NAME, content, i)!;
+      operands.push(name);
+      i += name.length;
+    } else if (/[\d.+-]/.test(char)) {
+      const number = matchAt(NUMBER, content, i) || char;
+      push(Number(number));
+      i += number.length;
+    } else {
+      const operator = matchAt(OPERATOR, content, i)!;
+      i += operator.length;
+
+      if (operator === 'Tf') {
+        font = fonts.get(String(operands[0]).slice(1));
+      } else if (operator === 'Tj') {
+        text += decodeText(String(operands[0] ?? ''), font);
+      } else if (operator === "'" || operator === '"') {
+        text += `\n${decodeText(String(operands[operands.length - 1] ?? ''), font)}`;
+      } else if (operator === 'TJ') {
+        for (const item of (operands[0] as (string | number)[]) || []) {
+          // Large negative kerning is how PDFs usually encode a word space
+          text += typeof item === 'number' ? (item < -200 ? ' ' : '') : decodeText(item, font);
+        }
+      } else if (operator === 'T*' || (operator === 'Td' || operator === 'TD') && operands[1] !== 0 || operator === 'Tm') {
+        text += '\n';
+      } else if ((operator === 'Td' || operator === 'TD') && Number(operands[0]) > 0) {
+        // A move along the same line starts a new run after a gap, usually between words set in different fonts
+        text += ' ';
+      } else if (operator === 'ET') {
+        text += ' ';
+      } else if (operator === 'ID') {
+        // Inline image data is binary; resume after its EI marker
+        const end = content.indexOf('EI', i);
+        i = end < 0 ? content.length : end + 2;
+      }
+      operands = [];
+    }
+  }
+
+  return text.replace(/[\x00-\x08\x0b-\x1f]/g, '').replace(/[ \t]+/g, ' ').replace(/ *\n+ */g, '\n').trim();
+};
+
+// Returns the text of each page, in page order
+export const extractPdfPages = async (data: ArrayBuffer): Promise<string[]> => {
+  const objects = await parseObjects(new Uint8Array(data));
+  const cmaps = new Map<number, CMap | undefined>();
+
+  const fontsFor = async (resources: string | undefined) => {
+    const fonts = new Map<string, CMap | undefined>();
+    const fontDict = resources && entry(objects, resources, 'Font');
+    if (!fontDict) return fonts;
+
+    for (const [, name, ref] of fontDict.matchAll(/\/([^\s\/<>\[\]]+)\s+(\d+)\s+\d+\s+R/g)) {
+      const font = objects.get(Number(ref));
+      const unicodeRef = font && refsIn(font.dict.match(/\/ToUnicode\s+\d+\s+\d+\s+R/)?.[0] || '')[0];
+      if (unicodeRef && !cmaps.has(unicodeRef)) {
+        const stream = objects.get(unicodeRef);
+        const decoded = stream && await decodeStream(stream);
+        cmaps.set(unicodeRef, decoded ? parseCMap(toBinaryString(decoded)) : undefined);
+      }
+      // Two-byte glyph ids cannot be turned into text without a ToUnicode map; drop them rather than index noise
+      const unmapped = font && /\/Subtype\s*\/Type0/.test(font.dict) ? { codeLength: 2, map: new Map<number, string>() } : undefined;
+      fonts.set(name, unicodeRef ? cmaps.get(unicodeRef) : unmapped);
+    }
+    return fonts;
+  };
+
+  const pageText = async (page: PdfObject, inheritedResources?: string) => {
+    const contents = page.dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] || '';
+    let refs = refsIn(contents);
+    // /Contents may point at an array object rather than a stream
+    if (refs.length === 1 && !objects.get(refs[0])?.stream) refs = refsIn(objects.get(refs[0])?.dict || '');
+
+    const streams = await Promise.all(refs.map(ref => objects.get(ref)).filter(Boolean).map(object => decodeStream(object!)));
+    const content = streams.filter(Boolean).map(stream => toBinaryString(stream!)).join('\n');
+    return extractText(content, await fontsFor(entry(objects, page.dict, 'Resources') || inheritedResources));
+  };
+
+  const pages: string[] = [];
+  const visited = new Set<number>();
+  const walk = async (ref: number, inheritedResources?: string) => {
+    const node = objects.get(ref);
+    if (!node || visited.has(ref)) return;
+    visited.add(ref);
+
+    if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+      const resources = entry(objects, node.dict, 'Resources') || inheritedResources;
+      for (const kid of refsIn(entry(objects, node.dict, 'Kids') || '')) await walk(kid, resources);
+    } else if (/\/Type\s*\/Page\b/.test(node.dict)) {
+      pages.push(await pageText(node, inheritedResources));
+    }
+  };
+
+  const catalog = [...objects.values()].find(object => /\/Type\s*\/Catalog\b/.test(object.dict));
+  const root = catalog && refsIn(catalog.dict.match(/\/Pages\s+\d+\s+\d+\s+R/)?.[0] || '')[0];
+  if (root) await walk(root);
+
+  // Damaged page tree: fall back to every page object in file order
+  if (pages.length === 0) {
+    for (const [ref, object] of objects) {
+      if (/\/Type\s*\/Page\b/.test(object.dict)) await walk(ref);
+    }
+  }
+
+  return pages;
+};
@@ -0,0 +1,134 @@
+import { Dimension, Quantity, dimensionOf, formatQuantity, parseQuantityValue, toSI } from "./units";
+import { MessageKey, MessageParams } from "../i18n";
+
+// The message is translated where the issue is shown
+export interface ValueIssue {
+  key: string;
+  message: MessageKey;
+  params?: MessageParams;
+}
+
+type IssueMessage = Omit<ValueIssue, 'key'>;
+
+interface RangeRule {
+  dimension: Dimension;
+  // Receives the SI value and whether the job is on a domestic installation
+  check: (si: number, domestic: boolean, key: string) => MessageKey | undefined;
+}
+
+const DOMESTIC_CONTEXT = /\b(domestic|residential|household|home|apartment|dwelling|nyumbani)\b/i;
+
+// Highest nominal supply found in homes (400 V three-phase) plus the usual +10% tolerance
+const MAX_DOMESTIC_VOLTAGE = 440;
+
+const RANGE_RULES: RangeRule[] = [
+  {
+    dimension: 'voltage',
+    check: (si, domestic) => {
+      if (si < 0) return 'plausibility.negativeVoltage';
+      if (domestic && si > MAX_DOMESTIC_VOLTAGE) return 'plausibility.domesticVoltage';
+      if (si > 1.2e6) return 'plausibility.aboveTransmission';
+      return undefined;
+    }
+  },
+  {
+    dimension: 'current',
+    check: (si, domestic) => {
+      if (domestic && si > 200) return 'plausibility.domesticCurrent';
+      if (si > 2e5) return 'plausibility.plantCurrent';
+      return undefined;
+    }
+  },
+  {
+    dimension: 'power',
+    check: (si, domestic) => {
+      if (domestic && si > 1e5) return 'plausibility.domesticPower';
+      if (si > 2e9) return 'plausibility.aboveGenerator';
+      return undefined;
+    }
+  },
+  { dimension: 'speed', check: si => si > 1e5 / 60 ? 'plausibility.aboveSpeed' : undefined },
+  {
+    dimension: 'temperature',
+    check: si => {
+      if (si < 0) return 'plausibility.belowAbsoluteZero';
+      if (si > 3273.15) return 'plausibility.aboveTemperature';
+      return undefined;
+    }
+  },
+  // Gauge pressures cannot be below a full vacuum
+  { dimension: 'pressure', check: si => si < -101325 ? 'plausibility.belowVacuum' : undefined },
+  {
+    dimension: 'ratio',
+    check: (si, _domestic, key) => /efficien|yield|humidity|power factor/i.test(key) && (si > 1 || si < 0)
+      ? 'plausibility.outsidePercent'
+      : undefined
+  }
+];
+
+const NON_NEGATIVE: Dimension[] = ['length', 'area', 'volume', 'mass', 'flow', 'speed', 'current', 'power', 'resistance', 'density'];
+
+// Names that imply a dimension, used to spot values reported in the wrong kind of unit.
+// Checked in order, so "Supply Pressure" is a pressure before "supply" suggests a voltage.
+const KEY_HINTS: { pattern: RegExp; dimension: Dimension; message: MessageKey }[] = [
+  { pattern: /pressure/i, dimension: 'pressure', message: 'plausibility.notPressure' },
+  { pattern: /flow/i, dimension: 'flow', message: 'plausibility.notFlow' },
+  { pattern: /temp/i, dimension: 'temperature', message: 'plausibility.notTemperature' },
+  { pattern: /current|amps?\b/i, dimension: 'current', message: 'plausibility.notCurrent' },
+  { pattern: /speed|rpm/i, dimension: 'speed', message: 'plausibility.notSpeed' },
+  { pattern: /length|span|distance/i, dimension: 'length', message: 'plausibility.notLength' },
+  { pattern: /volt|supply/i, dimension: 'voltage', message: 'plausibility.notVoltage' }
+];
+
+// A registered rating differing by more than this is reported as inconsistent
+const REFERENCE_TOLERANCE = 0.05;
+
+const normaliseKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const checkValue = (key: string, quantity: Quantity, domestic: boolean): IssueMessage | undefined => {
+  const dimension = dimensionOf(quantity.unit);
+  if (!dimension) return undefined;
+
+  const hint = KEY_HINTS.find(candidate => candidate.pattern.test(key));
+  if (hint && hint.dimension !== dimension) return { message: hint.message, params: { unit: quantity.unit, key } };
+
+  const si = toSI(quantity);
+  if (NON_NEGATIVE.includes(dimension) && si < 0) return { message: 'plausibility.negative' };
+  const message = RANGE_RULES.find(rule => rule.dimension === dimension)?.check(si, domestic, key);
+  return message && { message };
+};
+
+// Flags values that are out of range for the job, reported in the wrong kind of unit, or that disagree with
+// the registered asset's ratings. Only values that parse as a single quantity are checked.
+export const checkVariables = (
+  variables: Record<string, string>,
+  context: string,
+  reference: Record<string, string> = {}
+): ValueIssue[] => {
+  const domestic = DOMESTIC_CONTEXT.test(context);
+  const references = new Map<string, string>(Object.entries(reference).map(([key, value]) => [normaliseKey(key), String(value)]));
+  const issues: ValueIssue[] = [];
+
+  Object.entries(variables).forEach(([key, raw]) => {
+    const quantity = parseQuantityValue(String(raw));
+    if (!quantity) return;
+
+    const issue = checkValue(key, quantity, domestic);
+    if (issue) {
+      issues.push({ key, ...issue });
+      return;
+    }
+
+    const registered = references.get(normaliseKey(key));
+    const expected = registered && parseQuantityValue(registered);
+    if (!expected || dimensionOf(expected.unit) !== dimensionOf(quantity.unit)) return;
+
+    const a = toSI(quantity);
+    const b = toSI(expected);
+    if (Math.abs(a - b) > REFERENCE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b))) {
+      issues.push({ key, message: 'plausibility.differsFromRating', params: { rating: formatQuantity(expected) } });
+    }
+  });
+
+  return issues;
+};
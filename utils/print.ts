@@ -0,0 +1,22 @@
+export const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Opens a generated document in a new window and hands it to the browser's print dialog (which can also save as PDF)
+export const printHtml = (html: string) => {
+  const win = window.open('', '_blank', 'width=900,height=1000');
+  if (!win) throw new Error('Pop-up blocked: allow pop-ups to print this document.');
+
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+
+  const print = () => {
+    win.focus();
+    win.print();
+  };
+  if (win.document.readyState === 'complete') print();
+  else win.onload = print;
+};
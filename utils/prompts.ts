@@ -0,0 +1,143 @@
+import { EngineeringField, Language, PromptScope, PromptTemplate, PromptVersionRef, StoredPromptTemplate } from "../types";
+import { languageInstruction } from "../i18n";
+import { DISCIPLINES, getDiscipline } from "./disciplines";
+
+export const SOLUTION_SCHEMA = `{
+    "safetyCheck": "Mandatory if risk exists. Otherwise empty.",
+    "analysis": "Technical engineering fix and assessment.",
+    "diagnosticTree": [
+      { "hypothesis": "Potential cause", "test": "Test to confirm" }
+    ],
+    "steps": ["Step 1 description", "Step 2..."],
+    "variables": { "key": "value" },
+    "finalResult": "The definitive solution or verdict.",
+    "confidence": 0.0 to 1.0,
+    "projectScopeConfirm": "Mandatory scope verification message.",
+    "scopeStatus": "in-scope | partial | out-of-scope | unknown (unknown when no WO is supplied)",
+    "timeToComplete": "Estimated duration for the fix.",
+    "followUp24h": ["Step 1", "Step 2"],
+    "followUp7d": ["Step 1", "Step 2"],
+    "clarificationQuestions": ["Question 1?", "Question 2?"]
+  }`;
+
+// Filled in at render time and not editable per template
+export const BUILT_IN_PLACEHOLDERS = ['field', 'language', 'schema'] as const;
+
+// Without the schema the model is never told which JSON to return
+export const REQUIRED_PLACEHOLDER = 'schema';
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const PERSONA_RULES = [
+  'TECHNICAL: Provide a detailed engineering fix.',
+  'SCOPE: Provide a specific message in "projectScopeConfirm" asking the user to verify the solution against the client\'s Work Order (WO). If the WO scope is supplied, state whether the fix falls within it, name any out-of-scope work, and set "scopeStatus" accordingly.',
+  'BUDGET: Provide an estimated "timeToComplete" (e.g., "4-6 man-hours") for this specific task. If the remaining WO budget is supplied, say in "projectScopeConfirm" whether the estimate fits within it.',
+  'FOLLOW-UP: Generate a "followUp24h" and "followUp7d" checklist for the technician to revisit and verify the fix.',
+  'SAFETY: ALWAYS start with a \'SAFETY CHECK\' if the user mentions electricity, high voltage, or heavy machinery.',
+  'CLARIFICATION: If the problem is vague, ask 2 specific technical questions in "clarificationQuestions".',
+  'DIAGNOSTICS: Use a \'Diagnostic Tree\' approach (hypothesis -> test).',
+  'TONE: Professional, operational, and focused on minimizing downtime and managing resources.',
+  'CALCULATIONS: Never work out engineering values yourself. Call the calculation tools (Ohm\'s law, voltage drop, cable sizing, beam analysis and capacity, pump head and affinity, bearing life, dilution, stoichiometry) and quote their outputs exactly as returned in "steps" and "variables".'
+];
+
+const composeBody = (rules: string[]) => `You are the {{organisation}} Project Controller.
+Your goal is to solve complex {{field}} engineering problems while managing project constraints with 100% accuracy.
+
+{{language}}
+
+Persona Rules:
+${rules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}
+
+Output your response in a valid JSON format following this schema.
+Emit the keys in exactly this order: the console renders each section as soon as it arrives.
+{{schema}}`;
+
+const builtIn = (id: PromptScope, extraRules: string[], variables: Record<string, string> = {}): PromptTemplate => ({
+  id,
+  version: 1,
+  body: composeBody([...PERSONA_RULES, ...extraRules]),
+  variables: { organisation: 'OmniENG53', ...variables },
+  updatedAt: 0
+});
+
+// Disciplines without a template of their own use 'all'
+export const BUILT_IN_TEMPLATES: Partial<Record<PromptScope, PromptTemplate>> = {
+  all: builtIn('all', []),
+  Electrical: builtIn('Electrical', [
+    'STANDARDS: Reference the applicable clauses of {{standards}} for protection, cable sizing, earthing and isolation, and flag any part of the installation that does not comply.'
+  ], { standards: 'IEC 60364 (or the NEC, NFPA 70, on North American sites)' }),
+  Civil: builtIn('Civil', [
+    'STANDARDS: Check member capacities, deflections and load combinations against {{standards}}, naming the clauses relied on and the partial factors applied.'
+  ], { standards: 'the Eurocodes (EN 1990 to EN 1997)' })
+};
+
+export const PROMPT_SCOPES: PromptScope[] = ['all', ...DISCIPLINES.map(discipline => discipline.id)];
+
+const withoutHistory = ({ history, removedAt, ...template }: StoredPromptTemplate): PromptTemplate => template;
+
+// The template a scope currently has: a saved edit beats the built-in
+export const templateForScope = (scope: PromptScope, saved: StoredPromptTemplate[]): PromptTemplate | undefined => {
+  const stored = saved.find(template => template.id === scope && !template.removedAt);
+  return stored ? withoutHistory(stored) : BUILT_IN_TEMPLATES[scope];
+};
+
+// Earlier versions of a scope, newest first; a removed template is the latest of them
+export const promptHistory = (stored?: StoredPromptTemplate): PromptTemplate[] =>
+  !stored ? [] : stored.removedAt ? [withoutHistory(stored), ...stored.history] : stored.history;
+
+// Version numbers never repeat, so a recorded prompt version always names one template
+export const nextPromptVersion = (scope: PromptScope, saved: StoredPromptTemplate[]) => {
+  const stored = saved.find(template => template.id === scope);
+  const versions = [templateForScope(scope, saved), ...promptHistory(stored)].map(template => template?.version || 0);
+  return Math.max(...versions) + 1;
+};
+
+// The template a diagnosis in this field is generated with; the discipline's own before the shared one
+export const resolvePromptTemplate = (field: EngineeringField, saved: StoredPromptTemplate[]): PromptTemplate =>
+  templateForScope(field, saved) || templateForScope('all', saved)!;
+
+export const promptVersionOf = ({ id, version }: PromptTemplate): PromptVersionRef => ({ id, version });
+
+export const renderPrompt = (template: PromptTemplate, field: EngineeringField, language: Language) => {
+  const values: Record<string, string> = {
+    ...template.variables,
+    // Lower case reads naturally mid-sentence; acronyms such as HVAC keep their capitals
+    field: getDiscipline(field).name.replace(/\b[A-Z][a-z]+/g, word => word.toLowerCase()),
+    language: languageInstruction(language),
+    schema: SOLUTION_SCHEMA
+  };
+  return template.body.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+};
+
+// Placeholders in the body that neither the template nor the renderer supplies
+export const unknownPlaceholders = (body: string, variables: Record<string, string>) => {
+  const names = [...body.matchAll(PLACEHOLDER)].map(match => match[1]);
+  return [...new Set(names)].filter(name => !(name in variables) && !(BUILT_IN_PLACEHOLDERS as readonly string[]).includes(name));
+};
+
+export const hasRequiredPlaceholder = (body: string) =>
+  [...body.matchAll(PLACEHOLDER)].some(match => match[1] === REQUIRED_PLACEHOLDER);
+
+// Saves an edit as the next version, keeping whatever it replaces in the history
+export const revisePromptTemplate = (
+  scope: PromptScope,
+  saved: StoredPromptTemplate[],
+  body: string,
+  variables: Record<string, string>,
+  now: number
+): StoredPromptTemplate => {
+  const stored = saved.find(template => template.id === scope);
+  const current = templateForScope(scope, saved);
+  return {
+    id: scope,
+    version: nextPromptVersion(scope, saved),
+    body,
+    variables,
+    updatedAt: now,
+    history: [...(current && !stored?.removedAt ? [current] : []), ...promptHistory(stored)]
+  };
+};
+
+// A discipline's own template is retired rather than deleted, so it stays in the history and can be restored
+export const removePromptTemplate = (stored: StoredPromptTemplate, now: number): StoredPromptTemplate =>
+  ({ ...stored, removedAt: now });
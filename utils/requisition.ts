@@ -0,0 +1,104 @@
+import { BOMItem, Language, WorkOrder } from "../types";
+import { escapeHtml } from "./print";
+import { bomTotal, formatCurrency, lineTotal, quantityOf, unitOf, unpricedCount } from "./bom";
+import { MessageKey, getTranslator } from "../i18n";
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', Arial, sans-serif; color: #0f172a; font-size: 11px; line-height: 1.45; margin: 0; }
+  h1 { font-size: 18px; margin: 0; }
+  header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 2px solid #059669; padding-bottom: 8px; }
+  .meta { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4px 16px; margin: 10px 0 16px; }
+  .meta div span { color: #64748b; text-transform: uppercase; font-size: 9px; display: block; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; font-size: 9px; text-transform: uppercase; }
+  td.num, th.num { text-align: right; white-space: nowrap; }
+  tfoot td { font-weight: 700; background: #ecfdf5; }
+  .note { color: #b45309; font-size: 10px; margin-top: 6px; }
+  .signoff { display: grid; grid-template-columns: 1fr 1fr; gap: 24px; margin-top: 32px; page-break-inside: avoid; }
+  .signoff div { border: 1px solid #94a3b8; padding: 8px; }
+  .line { border-bottom: 1px solid #334155; height: 22px; margin-bottom: 6px; }
+  .line-label { font-size: 9px; color: #64748b; text-transform: uppercase; }
+`;
+
+export interface RequisitionOptions {
+  currency: string;
+  language: Language;
+  workOrder?: WorkOrder;
+  // Short references of the diagnoses the lines were taken from
+  sources?: string[];
+}
+
+export const requisitionNumber = (date = new Date()) =>
+  `PR-${date.toISOString().slice(0, 10).replace(/-/g, '')}-${String(date.getTime()).slice(-4)}`;
+
+export const buildRequisitionHtml = (items: BOMItem[], { currency, language, workOrder, sources = [] }: RequisitionOptions): string => {
+  const { t, formatDate, locale } = getTranslator(language);
+  const now = new Date();
+  const number = requisitionNumber(now);
+  const unpriced = unpricedCount(items);
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, currency, language));
+
+  const signBlock = (role: MessageKey) => `
+    <div>
+      <strong>${t(role)}</strong>
+      <div class="line"></div><div class="line-label">${t('requisition.name')}</div>
+      <div class="line"></div><div class="line-label">${t('requisition.signature')}</div>
+      <div class="line"></div><div class="line-label">${t('requisition.date')}</div>
+    </div>`;
+
+  return `<!DOCTYPE html>
+<html lang="${locale.code}" dir="${locale.dir}">
+<head>
+  <meta charset="UTF-8" />
+  <title>OmniENG53 ${t('requisition.title')} ${number}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>OmniENG53 · ${t('requisition.title')}</h1>
+    <div>${t('requisition.number')}: <strong>${number}</strong></div>
+  </header>
+
+  <div class="meta">
+    <div><span>${t('requisition.date')}</span>${escapeHtml(formatDate(now))}</div>
+    <div><span>${t('requisition.workOrder')}</span>${workOrder ? `${escapeHtml(workOrder.number)} · ${escapeHtml(workOrder.client)}` : '--'}</div>
+    <div><span>${t('requisition.sources')}</span>${sources.length ? escapeHtml(sources.join(', ')) : '--'}</div>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>#</th><th>${t('requisition.stockCode')}</th><th>${t('requisition.item')}</th><th>${t('requisition.spec')}</th><th class="num">${t('requisition.qty')}</th><th>${t('requisition.unit')}</th>
+        <th>${t('requisition.priority')}</th><th>${t('requisition.supplier')}</th><th class="num">${t('requisition.unitCost')}</th><th class="num">${t('requisition.lineTotal')}</th>
+      </tr>
+    </thead>
+    <tbody>${items.map((item, i) => `
+      <tr>
+        <td>${i + 1}</td>
+        <td>${escapeHtml(item.catalogMatch?.stockCode || '')}</td>
+        <td>${escapeHtml(item.itemName)}</td>
+        <td>${escapeHtml(item.specification)}</td>
+        <td class="num">${quantityOf(item)}</td>
+        <td>${escapeHtml(unitOf(item))}</td>
+        <td>${escapeHtml(t(`bom.priority.${item.priority.toLowerCase()}` as MessageKey))}</td>
+        <td>${escapeHtml(item.supplier || '')}</td>
+        <td class="num">${item.unitCost ? money(item.unitCost) : ''}</td>
+        <td class="num">${item.unitCost ? money(lineTotal(item)) : ''}</td>
+      </tr>`).join('')}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="9">${t('requisition.total')}</td><td class="num">${money(bomTotal(items))}</td></tr>
+    </tfoot>
+  </table>
+  ${unpriced > 0 ? `<div class="note">${t('requisition.unpriced', { count: unpriced })}</div>` : ''}
+
+  <div class="signoff">
+    ${signBlock('requisition.requestedBy')}
+    ${signBlock('requisition.approvedBy')}
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,161 @@
+import { DocumentChunk, KnowledgeReference, LibraryDocument, ProblemSolution } from "../types";
+
+// Names the on-device embedder in stored chunks; bump the suffix whenever hashEmbed changes
+export const LOCAL_EMBEDDER = 'local/hash-1024';
+
+const DIMENSIONS = 1024;
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 150;
+
+export const MAX_DOCUMENT_REFERENCES = 4;
+export const MAX_SOLUTION_REFERENCES = 2;
+// Below this a hashed vector shares too little vocabulary with the query to be worth the prompt space.
+// Provider embeddings score on their own scales, so their chunks are only ranked, not thresholded.
+export const MIN_LOCAL_SIMILARITY = 0.12;
+
+export interface TextChunk {
+  page?: number;
+  text: string;
+}
+
+// Splits on paragraph, then sentence, then word boundaries so a chunk rarely stops mid-clause.
+// Consecutive chunks overlap so a value split across the boundary still appears whole in one of them.
+const splitText = (text: string): string[] => {
+  const clean = text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < clean.length) {
+    let end = Math.min(clean.length, start + CHUNK_SIZE);
+    if (end < clean.length) {
+      const window = clean.slice(start, end);
+      const breakAt = [window.lastIndexOf('\n\n'), window.search(/[.!?]\s[^.!?]*$/), window.lastIndexOf(' ')]
+        .find(index => index > CHUNK_SIZE / 2);
+      if (breakAt !== undefined) end = start + breakAt + 1;
+    }
+    const chunk = clean.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= clean.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+    // Resume at a word boundary rather than mid-word
+    const space = clean.indexOf(' ', start);
+    if (space >= 0 && space < end) start = space + 1;
+  }
+
+  return chunks;
+};
+
+// PDF pages are chunked separately so every chunk can cite the page it came from
+export const chunkPages = (pages: string[]): TextChunk[] =>
+  pages.flatMap((text, i) => splitText(text).map(chunk => ({ page: i + 1, text: chunk })));
+
+export const chunkText = (text: string): TextChunk[] => splitText(text).map(chunk => ({ text: chunk }));
+
+// Frequent English words that would otherwise dominate every vector; manuals are mostly in English
+const STOP_WORDS = new Set(
+  'the and for with that this are was were from which when not any can may has have had its into than then there these those been will all also such only each other more most should must shall would could does did how what where who why our your their they them'.split(' ')
+);
+
+// Words of three letters or more plus anything with a digit, so tags and part numbers ("P-101", "6309") survive
+const words = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}.\-/]*[\p{L}\p{N}]|[\p{L}\p{N}]/gu) || [])
+    .filter(word => (word.length > 2 || /\d/.test(word)) && !STOP_WORDS.has(word));
+
+// 32-bit FNV-1a
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Feature hashing of words and word pairs: no model to download and identical on every device.
+// It matches shared vocabulary (tags, part numbers, fault terms) rather than meaning, which is
+// what a provider embedding model adds.
+export const hashEmbed = (text: string): Float32Array => {
+  const vector = new Float32Array(DIMENSIONS);
+  const counts = new Map<string, number>();
+  const tokens = words(text);
+  tokens.forEach((token, i) => {
+    counts.set(token, (counts.get(token) || 0) + 1);
+    if (i > 0) counts.set(`${tokens[i - 1]} ${token}`, (counts.get(`${tokens[i - 1]} ${token}`) || 0) + 1);
+  });
+  counts.forEach((count, feature) => {
+    const h = hash(feature);
+    // The sign bit spreads collisions around zero instead of piling them up
+    vector[h % DIMENSIONS] += (h & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+  return normalise(vector);
+};
+
+export const normalise = (vector: ArrayLike<number>): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  return Float32Array.from(vector, value => value / norm);
+};
+
+// Vectors are normalised when stored, so the dot product is the cosine similarity
+export const similarity = (a: Float32Array, b: Float32Array) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+};
+
+export const solutionText = (solution: ProblemSolution) =>
+  [solution.query, solution.analysis, solution.finalResult].filter(Boolean).join('\n');
+
+// The best library chunks followed by the most similar past interventions, numbered for citation
+export const buildReferences = (
+  query: Float32Array,
+  chunks: DocumentChunk[],
+  documents: LibraryDocument[],
+  localQuery: Float32Array,
+  history: ProblemSolution[],
+  minDocumentScore: number
+): KnowledgeReference[] => {
+  const byId = new Map(documents.map(document => [document.id, document]));
+
+  const fromDocuments = chunks
+    .filter(chunk => byId.has(chunk.documentId))
+    .map(chunk => ({ chunk, score: similarity(query, chunk.vector) }))
+    .filter(({ score }) => score >= minDocumentScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DOCUMENT_REFERENCES)
+    .map(({ chunk, score }) => ({
+      kind: 'document' as const,
+      sourceId: chunk.documentId,
+      title: byId.get(chunk.documentId)!.name,
+      page: chunk.page,
+      excerpt: chunk.text,
+      score
+    }));
+
+  // Past interventions are always compared on the device; there are few and they change with every diagnosis
+  const fromHistory = history
+    .map(solution => ({ solution, score: similarity(localQuery, hashEmbed(solutionText(solution))) }))
+    .filter(({ score }) => score >= MIN_LOCAL_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SOLUTION_REFERENCES)
+    .map(({ solution, score }) => ({
+      kind: 'solution' as const,
+      sourceId: solution.id,
+      title: solution.query,
+      excerpt: solution.finalResult || solution.analysis,
+      score
+    }));
+
+  return [...fromDocuments, ...fromHistory].map((reference, i) => ({ index: i + 1, ...reference }));
+};
+
+// The reference numbers an answer actually cites, e.g. "[2]" or "[1, 3]"
+export const citedIndexes = (text: string): Set<number> => {
+  const cited = new Set<number>();
+  for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach(index => cited.add(Number(index)));
+  }
+  return cited;
+};
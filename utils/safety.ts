@@ -0,0 +1,41 @@
+import { ProblemSolution } from "../types";
+import { assessHazards } from "./hazards";
+
+// Helper to determine if a safety check string represents a real issue
+export const isSafetyCritical = (text?: string) => {
+  if (!text) return false;
+  const lower = text.toLowerCase().trim();
+  
+  // Immediate dismissal of common non-risk indicators
+  if (['none', 'n/a', 'na', 'null', 'nil', '-', '.'].includes(lower)) return false;
+
+  // Remove punctuation for phrase matching
+  const cleanText = lower.replace(/[.,\-:;]/g, '');
+  
+  // List of phrases indicating no specific risk
+  const noRiskPhrases = [
+    'no safety issues', 
+    'no safety hazards', 
+    'no hazards detected',
+    'no specific safety protocols',
+    'none required',
+    'not applicable',
+    'safe to proceed',
+    'standard precautions', 
+    'standard safety protocols apply'
+  ];
+
+  if (noRiskPhrases.some(phrase => cleanText.includes(phrase.replace(/[.,\-:;]/g, '')))) return false;
+
+  // Check if it starts with negative confirmation
+  if (lower.startsWith('no safety') || lower.startsWith('none')) return false;
+
+  // If text is very short (e.g. "Safe"), assume no protocol needed
+  if (cleanText.length < 5) return false;
+
+  return true;
+};
+
+// A solution needs safety controls if the rules engine finds a hazard or the model wrote a real safety check
+export const hasSafetyRisk = (solution: Pick<ProblemSolution, 'field' | 'query' | 'variables' | 'steps' | 'safetyCheck'>) =>
+  isSafetyCritical(solution.safetyCheck) || assessHazards(solution).length > 0;
@@ -0,0 +1,47 @@
+import { ProblemSolution, SolutionPayload, SolutionVersion } from "../types";
+import { mergeDiagnosticTree } from "./diagnosticTree";
+
+export const snapshotPayload = (solution: ProblemSolution): SolutionPayload => {
+  const { id, timestamp, field, query, images, reassessedAt, workOrderId, assetId, conversation, versions, safetyAcknowledgement, followUpLog, promptVersion, references, ...payload } = solution;
+  return payload;
+};
+
+// Records the diagnosis as version 1 when it is created, before any reassessment or follow-up changes it
+export const withOriginalVersion = (solution: ProblemSolution): ProblemSolution => ({
+  ...solution,
+  versions: [{ version: 1, timestamp: solution.timestamp, payload: snapshotPayload(solution) }]
+});
+
+// The stored versions. Solutions that predate threading are seeded from their current state,
+// the closest to the original that is still available.
+export const getVersions = (solution: ProblemSolution): SolutionVersion[] =>
+  solution.versions?.length
+    ? solution.versions
+    : [{ version: 1, timestamp: solution.timestamp, payload: snapshotPayload(solution) }];
+
+export const currentVersion = (solution: ProblemSolution) => getVersions(solution).length;
+
+// The revision replaces the model's sections but merges into the technician's diagnostic tree
+export const appendVersion = (solution: ProblemSolution, revision: SolutionPayload, timestamp: number): ProblemSolution => {
+  const versions = getVersions(solution);
+  const payload = { ...revision, diagnosticTree: mergeDiagnosticTree(solution.diagnosticTree || [], revision.diagnosticTree || []) };
+  return {
+    ...solution,
+    ...payload,
+    versions: [...versions, { version: versions.length + 1, timestamp, payload }]
+  };
+};
+
+export type ComparableField = 'safetyCheck' | 'analysis' | 'steps' | 'finalResult' | 'confidence' | 'timeToComplete';
+
+export const COMPARABLE_FIELDS: ComparableField[] = ['safetyCheck', 'analysis', 'steps', 'finalResult', 'confidence', 'timeToComplete'];
+
+export const formatField = (payload: SolutionPayload, field: ComparableField): string => {
+  const value = payload[field];
+  if (field === 'confidence') return `${Math.round((value as number) * 100)}%`;
+  if (Array.isArray(value)) return value.map((step, i) => `${i + 1}. ${step}`).join('\n');
+  return (value as string | undefined) || '—';
+};
+
+export const changedFields = (a: SolutionPayload, b: SolutionPayload): ComparableField[] =>
+  COMPARABLE_FIELDS.filter(field => formatField(a, field) !== formatField(b, field));
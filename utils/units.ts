@@ -0,0 +1,293 @@
+import { UnitSystem } from "../types";
+
+export type Dimension =
+  | 'voltage' | 'current' | 'resistance' | 'power' | 'length' | 'area' | 'volume' | 'force' | 'lineLoad'
+  | 'pressure' | 'flow' | 'mass' | 'molarMass' | 'amount' | 'concentration' | 'speed' | 'density'
+  | 'secondMoment' | 'sectionModulus' | 'time' | 'temperature' | 'ratio' | 'torque' | 'velocity';
+
+export interface Quantity {
+  value: number;
+  unit: string;
+}
+
+interface UnitDefinition {
+  dimension: Dimension;
+  // Multiply by factor (then add offset) to get the SI base value
+  factor: number;
+  offset?: number;
+}
+
+// Keys are the canonical symbols; ALIASES maps the spellings models and technicians actually use
+export const UNITS: Record<string, UnitDefinition> = {
+  'V': { dimension: 'voltage', factor: 1 },
+  'kV': { dimension: 'voltage', factor: 1e3 },
+  'mV': { dimension: 'voltage', factor: 1e-3 },
+  'A': { dimension: 'current', factor: 1 },
+  'mA': { dimension: 'current', factor: 1e-3 },
+  'kA': { dimension: 'current', factor: 1e3 },
+  'Ω': { dimension: 'resistance', factor: 1 },
+  'mΩ': { dimension: 'resistance', factor: 1e-3 },
+  'kΩ': { dimension: 'resistance', factor: 1e3 },
+  'MΩ': { dimension: 'resistance', factor: 1e6 },
+  'W': { dimension: 'power', factor: 1 },
+  'kW': { dimension: 'power', factor: 1e3 },
+  'MW': { dimension: 'power', factor: 1e6 },
+  'hp': { dimension: 'power', factor: 745.7 },
+  'm': { dimension: 'length', factor: 1 },
+  'mm': { dimension: 'length', factor: 1e-3 },
+  'cm': { dimension: 'length', factor: 1e-2 },
+  'km': { dimension: 'length', factor: 1e3 },
+  'in': { dimension: 'length', factor: 0.0254 },
+  'ft': { dimension: 'length', factor: 0.3048 },
+  'mi': { dimension: 'length', factor: 1609.344 },
+  'mm²': { dimension: 'area', factor: 1e-6 },
+  'cm²': { dimension: 'area', factor: 1e-4 },
+  'm²': { dimension: 'area', factor: 1 },
+  'in²': { dimension: 'area', factor: 0.00064516 },
+  'ft²': { dimension: 'area', factor: 0.09290304 },
+  'm³': { dimension: 'volume', factor: 1 },
+  'L': { dimension: 'volume', factor: 1e-3 },
+  'mL': { dimension: 'volume', factor: 1e-6 },
+  'gal': { dimension: 'volume', factor: 0.003785411784 },
+  'ft³': { dimension: 'volume', factor: 0.028316846592 },
+  'N': { dimension: 'force', factor: 1 },
+  'kN': { dimension: 'force', factor: 1e3 },
+  'lbf': { dimension: 'force', factor: 4.4482216 },
+  'kip': { dimension: 'force', factor: 4448.2216 },
+  'kN/m': { dimension: 'lineLoad', factor: 1e3 },
+  'N/m': { dimension: 'lineLoad', factor: 1 },
+  'lbf/ft': { dimension: 'lineLoad', factor: 14.593903 },
+  'N·m': { dimension: 'torque', factor: 1 },
+  'kN·m': { dimension: 'torque', factor: 1e3 },
+  'lbf·ft': { dimension: 'torque', factor: 1.3558179 },
+  'm/s': { dimension: 'velocity', factor: 1 },
+  'mm/s': { dimension: 'velocity', factor: 1e-3 },
+  'ft/s': { dimension: 'velocity', factor: 0.3048 },
+  'in/s': { dimension: 'velocity', factor: 0.0254 },
+  'Pa': { dimension: 'pressure', factor: 1 },
+  'kPa': { dimension: 'pressure', factor: 1e3 },
+  'MPa': { dimension: 'pressure', factor: 1e6 },
+  'GPa': { dimension: 'pressure', factor: 1e9 },
+  'bar': { dimension: 'pressure', factor: 1e5 },
+  'psi': { dimension: 'pressure', factor: 6894.757 },
+  'm³/s': { dimension: 'flow', factor: 1 },
+  'm³/h': { dimension: 'flow', factor: 1 / 3600 },
+  'L/s': { dimension: 'flow', factor: 1e-3 },
+  'L/min': { dimension: 'flow', factor: 1e-3 / 60 },
+  'gpm': { dimension: 'flow', factor: 0.003785411784 / 60 },
+  'kg': { dimension: 'mass', factor: 1 },
+  'g': { dimension: 'mass', factor: 1e-3 },
+  't': { dimension: 'mass', factor: 1e3 },
+  'lb': { dimension: 'mass', factor: 0.45359237 },
+  'g/mol': { dimension: 'molarMass', factor: 1e-3 },
+  'kg/mol': { dimension: 'molarMass', factor: 1 },
+  'mol': { dimension: 'amount', factor: 1 },
+  'mmol': { dimension: 'amount', factor: 1e-3 },
+  'mol/L': { dimension: 'concentration', factor: 1e3 },
+  'mmol/L': { dimension: 'concentration', factor: 1 },
+  'mol/m³': { dimension: 'concentration', factor: 1 },
+  'rpm': { dimension: 'speed', factor: 1 / 60 },
+  'Hz': { dimension: 'speed', factor: 1 },
+  'kg/m³': { dimension: 'density', factor: 1 },
+  'g/cm³': { dimension: 'density', factor: 1e3 },
+  'lb/ft³': { dimension: 'density', factor: 16.018463 },
+  'mm⁴': { dimension: 'secondMoment', factor: 1e-12 },
+  'cm⁴': { dimension: 'secondMoment', factor: 1e-8 },
+  'm⁴': { dimension: 'secondMoment', factor: 1 },
+  'mm³': { dimension: 'sectionModulus', factor: 1e-9 },
+  'cm³': { dimension: 'sectionModulus', factor: 1e-6 },
+  's': { dimension: 'time', factor: 1 },
+  'min': { dimension: 'time', factor: 60 },
+  'h': { dimension: 'time', factor: 3600 },
+  '°C': { dimension: 'temperature', factor: 1, offset: 273.15 },
+  'K': { dimension: 'temperature', factor: 1 },
+  '°F': { dimension: 'temperature', factor: 5 / 9, offset: 273.15 - 32 * 5 / 9 },
+  '%': { dimension: 'ratio', factor: 0.01 }
+};
+
+// Spellings whose case carries meaning: molar "M" is not metres, nor "mM" millimetres
+const CASED_ALIASES: Record<string, string> = {
+  'M': 'mol/L', 'mM': 'mmol/L', 'MM': 'mm'
+};
+
+const ALIASES: Record<string, string> = {
+  'volt': 'V', 'volts': 'V', 'vac': 'V', 'vdc': 'V',
+  'amp': 'A', 'amps': 'A', 'ampere': 'A', 'amperes': 'A',
+  'ohm': 'Ω', 'ohms': 'Ω', 'mohm': 'mΩ', 'kohm': 'kΩ', 'megohm': 'MΩ',
+  'watt': 'W', 'watts': 'W', 'bhp': 'hp',
+  'mm2': 'mm²', 'sqmm': 'mm²', 'sq mm': 'mm²', 'cm2': 'cm²', 'm2': 'm²', 'in2': 'in²',
+  'm3': 'm³', 'l': 'L', 'litre': 'L', 'liter': 'L', 'litres': 'L', 'liters': 'L', 'ml': 'mL',
+  'm3/h': 'm³/h', 'm3/hr': 'm³/h', 'm³/hr': 'm³/h', 'm3/s': 'm³/s', 'l/s': 'L/s', 'lps': 'L/s', 'l/min': 'L/min', 'lpm': 'L/min',
+  'mpa': 'MPa', 'kpa': 'kPa', 'gpa': 'GPa', 'n/mm2': 'MPa', 'n/mm²': 'MPa', 'barg': 'bar',
+  'kn/m': 'kN/m', 'n/m': 'N/m', 'kn': 'kN',
+  'r/min': 'rpm', 'rev/min': 'rpm',
+  'mm4': 'mm⁴', 'cm4': 'cm⁴', 'm4': 'm⁴', 'mm3': 'mm³', 'cm3': 'cm³',
+  'kg/m3': 'kg/m³', 'g/cm3': 'g/cm³',
+  'molar': 'mol/L', 'mol/l': 'mol/L', 'millimolar': 'mmol/L', 'mmol/l': 'mmol/L', 'mol': 'mol', 'mol/m3': 'mol/m³',
+  'min': 'min', 'mins': 'min', 'mi': 'mi',
+  'hr': 'h', 'hrs': 'h', 'hour': 'h', 'hours': 'h', 'sec': 's',
+  'degc': '°C', 'deg c': '°C', 'c': '°C', 'degf': '°F', 'f': '°F',
+  'tonne': 't', 'tonnes': 't', 'lbs': 'lb', 'kgs': 'kg',
+  'inch': 'in', 'inches': 'in', 'feet': 'ft', 'foot': 'ft', 'mile': 'mi', 'miles': 'mi',
+  'ft2': 'ft²', 'sq ft': 'ft²', 'sqft': 'ft²', 'ft3': 'ft³', 'cu ft': 'ft³', 'lb/ft3': 'lb/ft³',
+  'psig': 'psi', 'kips': 'kip', 'usgpm': 'gpm', 'gallons': 'gal',
+  'nm': 'N·m', 'n.m': 'N·m', 'n-m': 'N·m', 'knm': 'kN·m', 'kn.m': 'kN·m', 'kn-m': 'kN·m',
+  'lb-ft': 'lbf·ft', 'ft-lb': 'lbf·ft', 'ft.lb': 'lbf·ft', 'lbf.ft': 'lbf·ft', 'ft-lbs': 'lbf·ft', 'lbf/ft': 'lbf/ft',
+  'mm/sec': 'mm/s', 'in/sec': 'in/s', 'ips': 'in/s',
+  '°f': '°F', '°c': '°C', 'deg f': '°F'
+};
+
+// A leading m or M is the milli or mega prefix, so its case is never ignored
+const sameSpelling = (symbol: string, written: string) =>
+  symbol.toLowerCase() === written.toLowerCase() && (!/^[mM]/.test(symbol) || symbol[0] === written[0]);
+
+// Resolves a written unit to its canonical symbol. Case-sensitive matches win, so "mA" and "MA" or
+// "M" and "m" stay distinct; only then is case ignored, and never on a milli or mega prefix.
+export const canonicalUnit = (unit: string): string | undefined => {
+  const trimmed = unit.trim();
+  if (UNITS[trimmed]) return trimmed;
+  if (CASED_ALIASES[trimmed]) return CASED_ALIASES[trimmed];
+  const lower = trimmed.toLowerCase();
+  if (ALIASES[lower]) return ALIASES[lower];
+  return Object.keys(UNITS).find(symbol => sameSpelling(symbol, trimmed));
+};
+
+export const dimensionOf = (unit: string): Dimension | undefined => {
+  const symbol = canonicalUnit(unit);
+  return symbol ? UNITS[symbol].dimension : undefined;
+};
+
+export const toSI = ({ value, unit }: Quantity): number => {
+  const definition = UNITS[canonicalUnit(unit) || ''];
+  if (!definition) throw new Error(`Unknown unit "${unit}".`);
+  return value * definition.factor + (definition.offset || 0);
+};
+
+export const fromSI = (value: number, unit: string): number => {
+  const definition = UNITS[canonicalUnit(unit) || ''];
+  if (!definition) throw new Error(`Unknown unit "${unit}".`);
+  return (value - (definition.offset || 0)) / definition.factor;
+};
+
+export const convert = (quantity: Quantity, unit: string): Quantity => {
+  const from = dimensionOf(quantity.unit);
+  const to = dimensionOf(unit);
+  if (!from || from !== to) throw new Error(`Cannot convert ${quantity.unit} to ${unit}.`);
+  return { value: fromSI(toSI(quantity), unit), unit: canonicalUnit(unit)! };
+};
+
+// Reads "16 mm2", "415V" or "3.5" (in defaultUnit) and returns the value in the requested unit
+export const readQuantity = (input: unknown, defaultUnit: string): Quantity => {
+  if (typeof input === 'number' && Number.isFinite(input)) return { value: input, unit: defaultUnit };
+
+  const text = String(input ?? '').trim();
+  const match = text.match(/^(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)\s*(.*)$/i);
+  if (!match) throw new Error(`"${text}" is not a number with a unit.`);
+
+  const value = parseFloat(match[1]);
+  const unit = match[2].trim();
+  return unit ? convert({ value, unit }, defaultUnit) : { value, unit: defaultUnit };
+};
+
+// Where each system wants a reported unit shown. Units missing from the map (volts, amps, rpm...) are the same in both.
+const SYSTEM_EQUIVALENTS: Record<UnitSystem, Record<string, string>> = {
+  imperial: {
+    'm': 'ft', 'mm': 'in', 'cm': 'in', 'km': 'mi', 'm²': 'ft²', 'm³': 'ft³', 'L': 'gal', 'mL': 'gal',
+    'kg': 'lb', 't': 'lb', 'N': 'lbf', 'kN': 'kip', 'kN/m': 'lbf/ft', 'N/m': 'lbf/ft', 'N·m': 'lbf·ft', 'kN·m': 'lbf·ft',
+    'kW': 'hp', 'bar': 'psi', 'kPa': 'psi', 'MPa': 'psi', 'm³/h': 'gpm', 'L/s': 'gpm', 'L/min': 'gpm', 'm³/s': 'gpm',
+    '°C': '°F', 'kg/m³': 'lb/ft³', 'mm/s': 'in/s', 'm/s': 'ft/s'
+  },
+  si: {
+    'ft': 'm', 'in': 'mm', 'mi': 'km', 'ft²': 'm²', 'in²': 'mm²', 'ft³': 'm³', 'gal': 'L',
+    'lb': 'kg', 'lbf': 'N', 'kip': 'kN', 'lbf/ft': 'kN/m', 'lbf·ft': 'N·m',
+    'hp': 'kW', 'psi': 'bar', 'gpm': 'm³/h', '°F': '°C', 'lb/ft³': 'kg/m³', 'in/s': 'mm/s', 'ft/s': 'm/s'
+  }
+};
+
+// Spellings too ambiguous to treat as units inside free text ("2 in the panel", "grade c"). Text matching is
+// case-sensitive so "200 L" still converts while a stray lower-case "l" does not.
+const TEXT_EXCLUDED = new Set(['in', 'c', 'f', 't', 'l', 'g', 'h', 's']);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+// Common upper- and mixed-case spellings that the lower-case alias table cannot match case-sensitively
+const TEXT_SPELLINGS = ['Nm', 'kNm', 'N.m', 'KW', 'HP', 'PSI', 'GPM', 'MM'];
+
+const TEXT_UNITS = [...Object.keys(UNITS), ...Object.keys(ALIASES), ...TEXT_SPELLINGS]
+  .filter(unit => !TEXT_EXCLUDED.has(unit))
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|');
+
+// A number (optionally with thousands separators) directly followed by a unit. The look-arounds keep
+// part numbers ("M12", "6309-2Z") and compound units ("mm/100 mm" ratios, "kN/m²") from matching partially.
+const QUANTITY_IN_TEXT = new RegExp(
+  `(?<![\\p{L}\\d.,\\-])(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)\\s?(${TEXT_UNITS})(?![\\p{L}\\d²³⁴]|\\/\\p{L})`,
+  'gu'
+);
+
+// Wording just before a temperature that makes it a change rather than a reading: "raise by 10 °C",
+// "a rise of 5 °C", "ΔT = 8 °C", "±2 °C", and the same phrasing in the other app languages
+const TEMPERATURE_CHANGE_BEFORE = new RegExp(
+  `(?:[±+]|\\+/-|Δ\\s*T?\\s*(?:of|=|:)?|(?<!\\p{L})(?:${[
+    'by', 'rises?', 'raise', 'increases?', 'drops?', 'falls?', 'decreases?', 'reduce', 'lower', 'delta', 'difference', 'differential', 'within',
+    'augmentez?', 'augmenter', 'baissez?', 'baisser', 'réduisez', 'réduire', 'hausse', 'écart', 'différence',
+    'aumente', 'aumentar', 'reduza', 'reduzir', 'diminua', 'diminuir', 'subida', 'diferença',
+    'ongeza', 'punguza', 'pandisha', 'shusha',
+    'بمقدار', 'فرق', 'زيادة', 'انخفاض'
+  ].join('|')})(?:\\s+(?:of|is|de|em))?\\s*[:=]?)\\s*$`,
+  'iu'
+);
+
+// Parses a whole value such as "415V", "3 hp" or "1,450 rpm"; undefined when it is not a single quantity
+export const parseQuantityValue = (text: string): Quantity | undefined => {
+  const match = text.trim().match(/^(-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)\s*(.+)$/);
+  if (!match) return undefined;
+  const unit = canonicalUnit(match[2]);
+  return unit ? { value: parseFloat(match[1].replace(/,/g, '')), unit } : undefined;
+};
+
+export const inUnitSystem = (quantity: Quantity, system: UnitSystem): Quantity => {
+  const unit = canonicalUnit(quantity.unit);
+  const target = unit && SYSTEM_EQUIVALENTS[system][unit];
+  return target ? convert(quantity, target) : quantity;
+};
+
+// Formats a reported value in the preferred system, or returns it untouched if it needs no conversion
+export const displayValue = (text: string, system: UnitSystem) => {
+  const quantity = parseQuantityValue(text);
+  if (!quantity) return text;
+  const converted = inUnitSystem(quantity, system);
+  return converted.unit === quantity.unit ? text : formatQuantity(converted);
+};
+
+// Every quantity written in free text, e.g. both values in "isolate the 415V feeder at 3 bar"
+export const extractQuantities = (text: string): Quantity[] =>
+  Array.from(text.matchAll(QUANTITY_IN_TEXT), match => ({
+    value: parseFloat(match[1].replace(/,/g, '')),
+    unit: canonicalUnit(match[2]) || match[2]
+  }));
+
+// Rewrites every convertible quantity in free text, keeping the reported value in brackets for traceability.
+// A temperature change is scaled without the zero offset: 10 °C warmer is 18 °F warmer, not 50 °F.
+export const convertText = (text: string, system: UnitSystem) =>
+  text.replace(QUANTITY_IN_TEXT, (original, value: string, unit: string, offset: number) => {
+    const quantity = { value: parseFloat(value.replace(/,/g, '')), unit: canonicalUnit(unit) || unit };
+    const converted = inUnitSystem(quantity, system);
+    if (converted.unit === quantity.unit) return original;
+
+    const change = dimensionOf(quantity.unit) === 'temperature' && TEMPERATURE_CHANGE_BEFORE.test(text.slice(0, offset));
+    const shown = change
+      ? { value: quantity.value * UNITS[quantity.unit].factor / UNITS[converted.unit].factor, unit: converted.unit }
+      : converted;
+    return `${formatQuantity(shown)} (${original})`;
+  });
+
+// Rounds to significant figures so results read like an engineer wrote them
+export const formatQuantity = ({ value, unit }: Quantity, significant = 4) => {
+  const rounded = Number(value.toPrecision(significant));
+  const text = Math.abs(rounded) >= 1e6 || (Math.abs(rounded) < 1e-3 && rounded !== 0)
+    ? rounded.toExponential(2)
+    : rounded.toLocaleString('en-US', { maximumFractionDigits: 6 });
+  return unit ? `${text} ${unit}` : text;
+};
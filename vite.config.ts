@@ -1,19 +1,44 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes the build's file list and an id derived from it into the copied public/sw.js, so the worker
+// precaches the hashed bundle on install and a new deploy gets a fresh shell cache
+const precacheBuild = (): Plugin => ({
+  name: 'omnieng53-precache-build',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const worker = path.join(options.dir || 'dist', 'sw.js');
+    if (!fs.existsSync(worker)) return;
+
+    const files = Object.keys(bundle).filter(name => !name.endsWith('.map')).map(name => `/${name}`).sort();
+    const buildId = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(worker, 'utf8')
+      .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`)
+      .replace('const BUILD_FILES = [];', `const BUILD_FILES = ${JSON.stringify(files)};`);
+    fs.writeFileSync(worker, source);
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Model calls go through the backend in server/, which holds the API keys and only listens locally.
+    // X-Forwarded-For tells it which device a request came from, for per-client rate limiting.
+    const proxy = {
+      '/api': { target: `http://127.0.0.1:${env.API_PORT || 8787}`, xfwd: true }
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [react(), precacheBuild()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),